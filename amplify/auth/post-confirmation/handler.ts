@@ -0,0 +1,17 @@
+// amplify/auth/post-confirmation/handler.ts - Add each confirmed user to the default group
+import type { PostConfirmationTriggerHandler } from 'aws-lambda';
+import { CognitoIdentityProviderClient, AdminAddUserToGroupCommand } from '@aws-sdk/client-cognito-identity-provider';
+import { env } from '$amplify/env/post-confirmation';
+
+const cognito = new CognitoIdentityProviderClient();
+
+export const handler: PostConfirmationTriggerHandler = async (event) => {
+  await cognito.send(new AdminAddUserToGroupCommand({
+    GroupName: env.GROUP_NAME,
+    Username: event.userName,
+    UserPoolId: event.userPoolId,
+  }));
+  console.log(`👥 [AUTH] Added ${event.userName} to ${env.GROUP_NAME}`);
+
+  return event;
+};
@@ -0,0 +1,10 @@
+// amplify/auth/post-confirmation/resource.ts - Put newly confirmed users in the default group
+import { defineFunction } from '@aws-amplify/backend';
+
+export const postConfirmation = defineFunction({
+  name: 'post-confirmation',
+  environment: {
+    GROUP_NAME: 'UPLOADER', // Reviewers and admins are promoted manually
+  },
+  resourceGroupName: 'auth',
+});
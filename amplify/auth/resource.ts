@@ -1,4 +1,7 @@
 import { defineAuth } from '@aws-amplify/backend';
+import { postConfirmation } from './post-confirmation/resource';
+import { manageOrganization } from '../functions/manage-organization/resource';
+import { submitInvoiceBatch } from '../functions/submit-invoice-batch/resource';
 
 /**
  * Define and configure your auth resource
@@ -8,4 +11,16 @@ export const auth = defineAuth({
   loginWith: {
     email: true,
   },
+  // Keep in sync with src/utils/userGroups.ts
+  groups: ['UPLOADER', 'REVIEWER', 'ADMIN'],
+  triggers: {
+    postConfirmation,
+  },
+  access: (allow) => [
+    allow.resource(postConfirmation).to(['addUserToGroup']),
+    // Organization membership is mirrored as one Cognito group per organization
+    allow.resource(manageOrganization).to(['createGroup', 'addUserToGroup', 'removeUserFromGroup', 'getUser']),
+    // Submissions record the submitter's email and name from the user pool
+    allow.resource(submitInvoiceBatch).to(['getUser']),
+  ],
 });
@@ -1,14 +1,76 @@
 // amplify/backend.ts - Updated to expose bucket name (Gen 2 compatible)
 import { defineBackend } from '@aws-amplify/backend';
+import { PolicyStatement } from 'aws-cdk-lib/aws-iam';
 import { auth } from './auth/resource';
 import { data } from './data/resource';
 import { storage } from './storage/resource';
+import { processInvoiceUpload } from './functions/process-invoice-upload/resource';
+import { submitInvoiceBatch } from './functions/submit-invoice-batch/resource';
+import { transitionInvoiceStatus } from './functions/transition-invoice-status/resource';
+import { manageOrganization } from './functions/manage-organization/resource';
 
 // Define and configure the backend
 export const backend = defineBackend({
   auth,
   data,
   storage,
+  processInvoiceUpload,
+  submitInvoiceBatch,
+  transitionInvoiceStatus,
+  manageOrganization,
 });
 
+// Batch submission writes both invoice tables directly so it can use DynamoDB transactions
+const invoiceTable = backend.data.resources.tables['Invoice'];
+const submittedInvoiceTable = backend.data.resources.tables['SubmittedInvoice'];
+const submissionBatchTable = backend.data.resources.tables['SubmissionBatch'];
+invoiceTable.grantReadWriteData(backend.submitInvoiceBatch.resources.lambda);
+submittedInvoiceTable.grantReadWriteData(backend.submitInvoiceBatch.resources.lambda);
+submissionBatchTable.grantReadWriteData(backend.submitInvoiceBatch.resources.lambda);
+backend.submitInvoiceBatch.addEnvironment('INVOICE_TABLE_NAME', invoiceTable.tableName);
+backend.submitInvoiceBatch.addEnvironment('SUBMITTED_INVOICE_TABLE_NAME', submittedInvoiceTable.tableName);
+backend.submitInvoiceBatch.addEnvironment('SUBMISSION_BATCH_TABLE_NAME', submissionBatchTable.tableName);
+// Batch numbers come from a per-workspace counter so concurrent submissions never share one
+const submissionBatchCounterTable = backend.data.resources.tables['SubmissionBatchCounter'];
+submissionBatchCounterTable.grantReadWriteData(backend.submitInvoiceBatch.resources.lambda);
+backend.submitInvoiceBatch.addEnvironment('SUBMISSION_BATCH_COUNTER_TABLE_NAME', submissionBatchCounterTable.tableName);
+// Credit limits are enforced on per-debtor exposure counters updated in the submit transaction
+const debtorExposureTable = backend.data.resources.tables['DebtorExposure'];
+debtorExposureTable.grantReadWriteData(backend.submitInvoiceBatch.resources.lambda);
+backend.submitInvoiceBatch.addEnvironment('DEBTOR_EXPOSURE_TABLE_NAME', debtorExposureTable.tableName);
+
+// Invoices are validated again against their workspace's rules and seller/debtor registries before they move
+const workspaceSettingsTable = backend.data.resources.tables['WorkspaceSettings'];
+workspaceSettingsTable.grantReadData(backend.submitInvoiceBatch.resources.lambda);
+backend.submitInvoiceBatch.addEnvironment('WORKSPACE_SETTINGS_TABLE_NAME', workspaceSettingsTable.tableName);
+const sellerTable = backend.data.resources.tables['Seller'];
+const debtorTable = backend.data.resources.tables['Debtor'];
+sellerTable.grantReadData(backend.submitInvoiceBatch.resources.lambda);
+debtorTable.grantReadData(backend.submitInvoiceBatch.resources.lambda);
+backend.submitInvoiceBatch.addEnvironment('SELLER_TABLE_NAME', sellerTable.tableName);
+backend.submitInvoiceBatch.addEnvironment('DEBTOR_TABLE_NAME', debtorTable.tableName);
+// Required document types are checked against the documents actually attached
+const invoiceDocumentTable = backend.data.resources.tables['InvoiceDocument'];
+invoiceDocumentTable.grantReadData(backend.submitInvoiceBatch.resources.lambda);
+backend.submitInvoiceBatch.addEnvironment('INVOICE_DOCUMENT_TABLE_NAME', invoiceDocumentTable.tableName);
+// Batch numbers, settings, registries, documents and exposure seeds are read through secondary indexes, which the table grants above do not cover
+const indexedTables = [submittedInvoiceTable, submissionBatchTable, workspaceSettingsTable, sellerTable, debtorTable, invoiceDocumentTable];
+backend.submitInvoiceBatch.resources.lambda.addToRolePolicy(new PolicyStatement({
+  actions: ['dynamodb:Query'],
+  resources: indexedTables.map(table => `${table.tableArn}/index/*`),
+}));
+
+// Status changes use a conditional update so two reviewers cannot both move the same invoice
+submittedInvoiceTable.grantReadWriteData(backend.transitionInvoiceStatus.resources.lambda);
+backend.transitionInvoiceStatus.addEnvironment('SUBMITTED_INVOICE_TABLE_NAME', submittedInvoiceTable.tableName);
+// Settling, writing off or rejecting an invoice releases its debtor's exposure
+debtorExposureTable.grantReadWriteData(backend.transitionInvoiceStatus.resources.lambda);
+backend.transitionInvoiceStatus.addEnvironment('DEBTOR_EXPOSURE_TABLE_NAME', debtorExposureTable.tableName);
+
+// Organization invitations are emailed through SES
+backend.manageOrganization.resources.lambda.addToRolePolicy(new PolicyStatement({
+  actions: ['ses:SendEmail'],
+  resources: ['*'],
+}));
+
 export default backend;
\ No newline at end of file
@@ -1,27 +1,91 @@
 // amplify/data/resource.ts - FIXED with proper owner authorization
 import { type ClientSchema, a, defineData } from "@aws-amplify/backend";
+import { processInvoiceUpload } from "../functions/process-invoice-upload/resource";
+import { submitInvoiceBatch } from "../functions/submit-invoice-batch/resource";
+import { transitionInvoiceStatus } from "../functions/transition-invoice-status/resource";
+import { manageOrganization } from "../functions/manage-organization/resource";
 
 const schema = a.schema({
-  FileType: a.enum(['CSV', 'XLSX']),
+  FileType: a.enum(['CSV', 'XLSX', 'XLSM', 'XLS', 'ODS', 'JSON', 'UBL']),
   ProcessingStatus: a.enum(['PENDING', 'PROCESSING', 'COMPLETED', 'FAILED']),
   Currency: a.enum(['USD', 'EUR', 'GBP', 'JPY', 'CAD', 'AUD', 'CHF', 'CNY']),
+  SubmitOutcomeStatus: a.enum(['SUBMITTED', 'ALREADY_SUBMITTED', 'FAILED']),
+  SubmissionBatchStatus: a.enum(['IN_PROGRESS', 'COMPLETED', 'PARTIAL', 'FAILED']),
+  // Transitions are defined in shared/invoiceLifecycle/statusMachine.ts
+  SubmittedInvoiceStatus: a.enum([
+    'SUBMITTED', 'UNDER_REVIEW', 'APPROVED', 'REJECTED', 'FUNDED', 'PARTIALLY_PAID', 'SETTLED', 'WRITTEN_OFF'
+  ]),
+
+  // Set when a PDF is attached; see shared/invoiceDocuments/pdfVerification.ts
+  PdfVerificationStatus: a.enum(['VERIFIED', 'MISMATCH', 'NO_TEXT', 'UNREADABLE']),
+  // Labels and submission requirements are in shared/invoiceDocuments/documentTypes.ts
+  DocumentType: a.enum(['INVOICE_PDF', 'PROOF_OF_DELIVERY', 'PURCHASE_ORDER', 'CONTRACT', 'CREDIT_NOTE', 'OTHER']),
+
+  OrganizationRole: a.enum(['OWNER', 'ADMIN', 'MEMBER']),
+  InvitationStatus: a.enum(['PENDING', 'ACCEPTED', 'REVOKED']),
+
+  StatusTransition: a.customType({
+    fromStatus: a.ref('SubmittedInvoiceStatus'), // Empty for the initial SUBMITTED entry
+    toStatus: a.ref('SubmittedInvoiceStatus').required(),
+    changedAt: a.datetime().required(),
+    changedBy: a.string(),
+    note: a.string(),
+  }),
+
+  // One corrected cell of a working invoice
+  InvoiceEdit: a.customType({
+    field: a.string().required(), // Canonical column key, e.g. due_date
+    originalValue: a.string(),
+    newValue: a.string(),
+    editedAt: a.datetime().required(),
+    editedBy: a.string(),
+  }),
 
   InvoiceUploadJob: a.model({
     fileName: a.string().required(),
     fileType: a.ref('FileType').required(),
     status: a.string().required(),
     s3Key: a.string().required(),
+    // Storage identity of the uploader; the processing Lambda only accepts files under that folder
+    ownerIdentityId: a.string().authorization(allow => [
+      allow.owner(), // ✅ Only the uploader sets it
+      allow.groupDefinedIn('organizationId').to(['read']),
+      allow.group('ADMIN').to(['read'])
+    ]),
+    fileSha256: a.string(), // Content hash, used to spot re-uploads of the same file
     totalInvoices: a.integer(),
     successfulInvoices: a.integer(),
     failedInvoices: a.integer(),
+    excludedInvoices: a.integer(), // Rows the user dropped in the upload preview
+    excludedRows: a.integer().array(), // Row numbers the processing Lambda must skip
+    columnMapping: a.json(), // Mapping confirmed in the wizard, applied server-side
+    csvDelimiter: a.string(), // Delimiter the preview was parsed with
+    sheetNames: a.string().array(), // Workbook sheets chosen for import
+    sheetCounts: a.json(), // { [sheet]: { total, successful, failed, excluded } }, written by the Lambda
     errorMessage: a.string(),
     processingErrors: a.json(),
     processingStartedAt: a.datetime(),
+    processingHeartbeatAt: a.datetime(), // Refreshed by the Lambda while it works; a stale one lets an S3 retry take over
     processingCompletedAt: a.datetime(),
     invoices: a.hasMany('Invoice', 'uploadJobId'),
+    // Empty for the personal workspace. Create and update check membership of the named organization;
+    // the owner rule alone would let anyone write into any organization's workspace
+    organizationId: a.id().authorization(allow => [
+      allow.owner().to(['read']),
+      allow.groupDefinedIn('organizationId'),
+      allow.group('ADMIN')
+    ]),
+    // Owners cannot hand a record to someone else's (personal) workspace either
+    owner: a.string().authorization(allow => [
+      allow.owner().to(['read', 'delete']),
+      allow.groupDefinedIn('organizationId').to(['read']),
+      allow.group('ADMIN')
+    ]),
   })
   .authorization(allow => [
-    allow.owner() // ✅ Only the owner can access their upload jobs
+    allow.owner(), // ✅ Uploaders see their own upload jobs
+    allow.groupDefinedIn('organizationId'), // ✅ Teammates share the organization's jobs
+    allow.group('ADMIN') // ✅ Admins manage everything
   ]),
 
   // Table 1: Working invoice data (gets deleted after submission)
@@ -32,22 +96,46 @@ const schema = a.schema({
     currency: a.string().required(),
     amount: a.float().required(),
     product: a.string().required(),
-    issueDate: a.date().required(),
-    dueDate: a.date().required(),
+    // Strings rather than dates: invalid rows keep the value from the file until it is corrected
+    issueDate: a.string().required(),
+    dueDate: a.string().required(),
     uploadDate: a.date().required(),
     uploadJobId: a.id().required(),
     uploadJob: a.belongsTo('InvoiceUploadJob', 'uploadJobId'),
+    sourceRowNumber: a.integer(), // Row in the uploaded file
     isValid: a.boolean(),
     validationErrors: a.string().array(),
+    sourceValues: a.json(), // Raw file values of an invalid row, by canonical column key
+    editHistory: a.ref('InvoiceEdit').array(),
     // PDF document storage
     pdfS3Key: a.string(), // Relative S3 path (user-files/identity/invoices/...)
     pdfFileName: a.string(), // Original filename for display
     pdfUploadedAt: a.datetime(), // When PDF was uploaded
     // Full S3 bucket path for backend storage
     pdfS3FullPath: a.string(), // Complete path including bucket name
+    pdfSha256: a.string(), // Content hash; the same PDF on two invoices is flagged
+    // PDF content check against the invoice fields
+    pdfVerificationStatus: a.ref('PdfVerificationStatus'),
+    pdfVerificationIssues: a.string().array(), // What could not be found in the document
+    pdfVerifiedAt: a.datetime(),
+    documents: a.hasMany('InvoiceDocument', 'invoiceId'),
+    // Members only, like InvoiceUploadJob.organizationId
+    organizationId: a.id().authorization(allow => [
+      allow.owner().to(['read']),
+      allow.groupDefinedIn('organizationId'),
+      allow.group('ADMIN')
+    ]),
+    // Not reassignable by the owner
+    owner: a.string().authorization(allow => [
+      allow.owner().to(['read', 'delete']),
+      allow.groupDefinedIn('organizationId').to(['read']),
+      allow.group('ADMIN')
+    ]),
   })
   .authorization(allow => [
-    allow.owner() // ✅ Only the owner can access their invoices
+    allow.owner(), // ✅ Uploaders see their own working invoices
+    allow.groupDefinedIn('organizationId'),
+    allow.group('ADMIN')
   ]),
 
   // Table 2: Submitted invoice data (permanent storage)
@@ -71,13 +159,391 @@ const schema = a.schema({
     pdfFileName: a.string(),
     pdfUploadedAt: a.datetime(),
     pdfS3FullPath: a.string(),
+    pdfSha256: a.string(),
+    // Checked again by submitInvoiceBatch, not copied from the Invoice
+    pdfVerificationStatus: a.ref('PdfVerificationStatus'),
+    pdfVerificationIssues: a.string().array(),
+    pdfVerifiedAt: a.datetime(),
     // Submission metadata
-    submittedBy: a.string(), // User who submitted
+    // Submission metadata - stamped by submitInvoiceBatch from the caller's Cognito identity
+    submittedBy: a.string(), // Display name of the user who submitted
+    submittedBySub: a.string(),
+    submittedByEmail: a.string(),
+    submissionBatchId: a.id(),
+    submissionBatch: a.belongsTo('SubmissionBatch', 'submissionBatchId'),
+    // Lifecycle - only changed through transitionSubmittedInvoiceStatus
+    status: a.ref('SubmittedInvoiceStatus'),
+    statusUpdatedAt: a.datetime(),
+    statusHistory: a.ref('StatusTransition').array(),
+    editHistory: a.ref('InvoiceEdit').array(), // Corrections made before submission
+    eligibility: a.json(), // InvoiceEligibility at submission; see shared/invoiceFunding/eligibility.ts
+    documents: a.hasMany('InvoiceDocument', 'submittedInvoiceId'),
+    organizationId: a.id(),
+    owner: a.string(), // Declared for the indexes; set by submitInvoiceBatch
+  })
+  // submitInvoiceBatch seeds a debtor's exposure counter from these
+  .secondaryIndexes(index => [
+    index('organizationId').sortKeys(['debtorId']).name('byOrganization'),
+    index('owner').sortKeys(['debtorId']).name('byOwner'),
+  ])
+  .authorization(allow => [
+    allow.owner().to(['read']), // ✅ Owner reads; writes go through the submit and transition functions
+    allow.groupDefinedIn('organizationId').to(['read']),
+    allow.group('REVIEWER').to(['read']), // ✅ Reviewers see every submitted invoice
+    allow.group('ADMIN').to(['read', 'delete'])
+  ]),
+
+  // Supporting documents (proof of delivery, purchase orders, ...) attached to an invoice
+  InvoiceDocument: a.model({
+    // SubmittedInvoice reuses the Invoice id, so both links are set at upload and the
+    // document follows the invoice through submission without being rewritten
+    invoiceId: a.id(),
+    invoice: a.belongsTo('Invoice', 'invoiceId'),
+    submittedInvoiceId: a.id(),
+    submittedInvoice: a.belongsTo('SubmittedInvoice', 'submittedInvoiceId'),
+    documentType: a.ref('DocumentType').required(),
+    s3Key: a.string().required(),
+    fileName: a.string().required(),
+    fileSize: a.integer(),
+    sha256: a.string(),
+    uploadedAt: a.datetime().required(),
+    uploadedBy: a.string(),
+    // Members only, like InvoiceUploadJob.organizationId
+    organizationId: a.id().authorization(allow => [
+      allow.owner().to(['read']),
+      allow.groupDefinedIn('organizationId'),
+      allow.group('REVIEWER').to(['read']),
+      allow.group('ADMIN')
+    ]),
+    // Not reassignable by the owner
+    owner: a.string().authorization(allow => [
+      allow.owner().to(['read', 'delete']),
+      allow.groupDefinedIn('organizationId').to(['read']),
+      allow.group('REVIEWER').to(['read']),
+      allow.group('ADMIN')
+    ]),
+  })
+  // submitInvoiceBatch looks up the documents of each invoice it moves
+  .secondaryIndexes(index => [index('invoiceId').name('byInvoice')])
+  .authorization(allow => [
+    allow.owner(), // ✅ Uploaders manage the documents they attached
+    allow.groupDefinedIn('organizationId'),
+    allow.group('REVIEWER').to(['read']), // ✅ Reviewers check documents of submitted invoices
+    allow.group('ADMIN')
+  ]),
+
+  // Per-workspace settings; written only through updateWorkspaceSettings
+  WorkspaceSettings: a.model({
+    organizationId: a.id(), // Empty for a personal workspace
+    requiredDocumentTypes: a.ref('DocumentType').array(), // Needed on every invoice before submission
+    validationRules: a.json(), // ValidationRule[] checked on every row; empty means the default rules
+    fundingTerms: a.json(), // FundingTerms for eligibility, advance and fee; empty means the defaults
+    updatedBy: a.string(),
+    owner: a.string(), // Declared for the index; the owner still only reads
+  })
+  .secondaryIndexes(index => [
+    index('organizationId').name('byOrganization'),
+    index('owner').name('byOwner'),
+  ])
+  .authorization(allow => [
+    allow.owner().to(['read']), // ✅ Personal workspace settings
+    allow.groupDefinedIn('organizationId').to(['read']) // ✅ Every member follows the organization's settings
+  ]),
+
+  // Master data; invoice rows must name a registered, active seller and debtor once a workspace has any
+  // Both registries are read whole by submitInvoiceBatch through their workspace indexes
+  Seller: a.model({
+    sellerId: a.string().required(), // ID used in invoice files
+    legalName: a.string().required(),
+    country: a.string(), // ISO 3166-1 alpha-2
+    registrationNumber: a.string(),
+    vatId: a.string(),
+    defaultCurrency: a.string(),
+    paymentTermsDays: a.integer(),
+    isActive: a.boolean().required(),
+    // Empty for the personal workspace; members only, like InvoiceUploadJob.organizationId
+    organizationId: a.id().authorization(allow => [
+      allow.owner().to(['read']),
+      allow.groupDefinedIn('organizationId'),
+      allow.group('REVIEWER').to(['read']),
+      allow.group('ADMIN')
+    ]),
+    // Not reassignable by the owner
+    owner: a.string().authorization(allow => [
+      allow.owner().to(['read', 'delete']),
+      allow.groupDefinedIn('organizationId').to(['read']),
+      allow.group('REVIEWER').to(['read']),
+      allow.group('ADMIN')
+    ]),
+  })
+  .secondaryIndexes(index => [
+    index('organizationId').name('byOrganization'),
+    index('owner').name('byOwner'),
+  ])
+  .authorization(allow => [
+    allow.owner(), // ✅ Uploaders maintain their personal registry
+    allow.groupDefinedIn('organizationId'), // ✅ Teammates share the organization's registry
+    allow.group('REVIEWER').to(['read']), // ✅ Reviewers see who submitted invoices are from
+    allow.group('ADMIN')
+  ]),
+
+  Debtor: a.model({
+    debtorId: a.string().required(), // ID used in invoice files
+    legalName: a.string().required(),
+    country: a.string(),
+    registrationNumber: a.string(),
+    vatId: a.string(),
+    defaultCurrency: a.string(),
+    paymentTermsDays: a.integer(),
+    // Approved credit line in defaultCurrency; see shared/masterData/creditExposure.ts
+    creditLimit: a.float().authorization(allow => [
+      allow.group('ADMIN'), // ✅ Limits are set by admins; submitInvoiceBatch enforces them
+      allow.owner().to(['read']),
+      allow.groupDefinedIn('organizationId').to(['read']),
+      allow.group('REVIEWER').to(['read'])
+    ]),
+    // Largest share of the portfolio this debtor may make up
+    maxConcentrationPercent: a.float().authorization(allow => [
+      allow.group('ADMIN'),
+      allow.owner().to(['read']),
+      allow.groupDefinedIn('organizationId').to(['read']),
+      allow.group('REVIEWER').to(['read'])
+    ]),
+    isActive: a.boolean().required(),
+    // Members only, like InvoiceUploadJob.organizationId
+    organizationId: a.id().authorization(allow => [
+      allow.owner().to(['read']),
+      allow.groupDefinedIn('organizationId'),
+      allow.group('REVIEWER').to(['read']),
+      allow.group('ADMIN')
+    ]),
+    // Not reassignable by the owner
+    owner: a.string().authorization(allow => [
+      allow.owner().to(['read', 'delete']),
+      allow.groupDefinedIn('organizationId').to(['read']),
+      allow.group('REVIEWER').to(['read']),
+      allow.group('ADMIN')
+    ]),
+  })
+  .secondaryIndexes(index => [
+    index('organizationId').name('byOrganization'),
+    index('owner').name('byOwner'),
+  ])
+  .authorization(allow => [
+    allow.owner(),
+    allow.groupDefinedIn('organizationId'),
+    allow.group('REVIEWER').to(['read']),
+    allow.group('ADMIN')
+  ]),
+
+  // One run of "Submit Invoices" - groups the invoices it moved. Created and totalled only by submitInvoiceBatch
+  SubmissionBatch: a.model({
+    batchNumber: a.integer().required(), // Per-workspace sequence, shown as SUB-0001
+    status: a.ref('SubmissionBatchStatus').required(),
+    invoiceCount: a.integer(),
+    currencyTotals: a.json(), // { USD: 12500, EUR: 830.5 }
+    submittedBy: a.string(), // Stamped by submitInvoiceBatch, like on SubmittedInvoice
+    submittedBySub: a.string(),
+    submittedByEmail: a.string(),
+    submittedAt: a.datetime().required(),
+    note: a.string(),
+    submittedInvoices: a.hasMany('SubmittedInvoice', 'submissionBatchId'),
+    organizationId: a.id(),
+    owner: a.string(), // Declared for the index; still written only by submitInvoiceBatch
+  })
+  // submitInvoiceBatch reads a workspace's highest batch number from these
+  .secondaryIndexes(index => [
+    index('organizationId').sortKeys(['batchNumber']).name('byOrganization'),
+    index('owner').sortKeys(['batchNumber']).name('byOwner'),
+  ])
+  .authorization(allow => [
+    allow.owner().to(['read']), // ✅ Uploaders see their own submission batches
+    allow.groupDefinedIn('organizationId').to(['read']),
+    allow.group('REVIEWER').to(['read']),
+    allow.group('ADMIN')
+  ]),
+
+  // Last batch number handed out in a workspace; submitInvoiceBatch increments it atomically
+  SubmissionBatchCounter: a.model({
+    workspaceKey: a.string().required(), // organizationId, or the owner of a personal workspace
+    lastBatchNumber: a.integer().required(),
+  })
+  .identifier(['workspaceKey'])
+  .authorization(allow => [allow.group('ADMIN').to(['read'])]),
+
+  // Outstanding face value of one debtor in one currency. submitInvoiceBatch adds to it in the same
+  // transaction that moves the invoices, under the debtor's credit limit; status changes release it
+  DebtorExposure: a.model({
+    workspaceKey: a.string().required(), // organizationId, or the owner of a personal workspace
+    debtorKey: a.string().required(), // Lower-cased debtor ID and currency: "d-100|EUR"
+    outstandingAmount: a.float().required(),
+  })
+  .identifier(['workspaceKey', 'debtorKey'])
+  .authorization(allow => [allow.group('ADMIN').to(['read'])]),
+
+  // Saved header -> invoice field mappings for non-standard spreadsheet exports
+  ColumnMappingProfile: a.model({
+    name: a.string().required(),
+    headerSignature: a.string().required(), // Normalized, sorted source headers
+    mapping: a.json().required(), // { invoice_id: 'Invoice No', amount: 'Gross Amount', ... }
+    lastUsedAt: a.datetime(),
+  })
+  .authorization(allow => [
+    allow.owner() // ✅ Profiles are personal to the user who saved them
+  ]),
+
+  // Shared workspace. Membership is a Cognito group named after the organization id,
+  // so every record carrying organizationId is visible to the whole team.
+  Organization: a.model({
+    name: a.string().required(),
+    createdBy: a.string(),
+    members: a.hasMany('OrganizationMember', 'organizationId'),
+    invitations: a.hasMany('OrganizationInvitation', 'organizationId'),
+  })
+  .authorization(allow => [
+    allow.groupDefinedIn('id').to(['read']), // ✅ Changes go through the manage-organization function
+    allow.group('ADMIN').to(['read'])
+  ]),
+
+  OrganizationMember: a.model({
+    organizationId: a.id().required(),
+    organization: a.belongsTo('Organization', 'organizationId'),
+    userSub: a.string().required(),
+    username: a.string().required(),
+    email: a.string(),
+    role: a.ref('OrganizationRole').required(),
+    joinedAt: a.datetime().required(),
   })
   .authorization(allow => [
-    allow.owner() // ✅ Only the owner can access their submitted invoices
+    allow.groupDefinedIn('organizationId').to(['read']),
+    allow.group('ADMIN').to(['read'])
   ]),
-});
+
+  OrganizationInvitation: a.model({
+    organizationId: a.id().required(),
+    organization: a.belongsTo('Organization', 'organizationId'),
+    organizationName: a.string(), // Shown to invitees, who can't read the organization yet
+    email: a.string().required(), // Lower-cased
+    role: a.ref('OrganizationRole').required(),
+    status: a.ref('InvitationStatus').required(),
+    invitedBy: a.string(),
+    expiresAt: a.datetime().required(),
+  })
+  .authorization(allow => [
+    allow.groupDefinedIn('organizationId').to(['read']),
+    allow.group('ADMIN').to(['read'])
+  ]),
+
+  // Per-invoice result of a batch submission
+  SubmitInvoiceOutcome: a.customType({
+    invoiceId: a.id().required(), // Invoice record id that was requested
+    invoiceNumber: a.string(),
+    status: a.ref('SubmitOutcomeStatus').required(),
+    submittedInvoiceId: a.id(),
+    error: a.string(),
+  }),
+
+  SubmitInvoiceBatchResult: a.customType({
+    submittedCount: a.integer().required(),
+    alreadySubmittedCount: a.integer().required(),
+    failedCount: a.integer().required(),
+    outcomes: a.ref('SubmitInvoiceOutcome').required().array().required(),
+    submissionBatchId: a.id().required(), // Pass it to the following calls of the same run
+    batchNumber: a.integer().required(),
+  }),
+
+  // Moves Invoices into SubmittedInvoice atomically; safe to retry with the same ids
+  submitInvoiceBatch: a.mutation()
+    .arguments({
+      invoiceIds: a.id().required().array().required(),
+      submissionBatchId: a.id(), // Batch opened by an earlier call of the same run; a new one is opened without it
+      organizationId: a.id(), // Workspace of a new batch; empty for the personal workspace
+      note: a.string(), // Note of a new batch
+      blockPdfMismatches: a.boolean(), // Refuse invoices whose PDF does not match them
+    })
+    .returns(a.ref('SubmitInvoiceBatchResult').required())
+    .authorization(allow => [allow.groups(['UPLOADER', 'ADMIN'])]) // ✅ Handler only moves invoices owned by the caller
+    .handler(a.handler.function(submitInvoiceBatch)),
+
+  // Moves a submitted invoice to its next lifecycle status; illegal transitions are rejected
+  transitionSubmittedInvoiceStatus: a.mutation()
+    .arguments({
+      submittedInvoiceId: a.id().required(),
+      toStatus: a.ref('SubmittedInvoiceStatus').required(),
+      note: a.string(),
+    })
+    .returns(a.ref('SubmittedInvoice'))
+    .authorization(allow => [allow.groups(['REVIEWER', 'ADMIN'])])
+    .handler(a.handler.function(transitionInvoiceStatus)),
+
+  // Organization management - membership changes must also update Cognito groups
+  createOrganization: a.mutation()
+    .arguments({ name: a.string().required() })
+    .returns(a.ref('Organization'))
+    .authorization(allow => [allow.authenticated()])
+    .handler(a.handler.function(manageOrganization)),
+
+  inviteOrganizationMember: a.mutation()
+    .arguments({
+      organizationId: a.id().required(),
+      email: a.string().required(),
+      role: a.ref('OrganizationRole').required(),
+    })
+    .returns(a.ref('OrganizationInvitation'))
+    .authorization(allow => [allow.authenticated()]) // ✅ Handler requires organization OWNER or ADMIN
+    .handler(a.handler.function(manageOrganization)),
+
+  revokeOrganizationInvitation: a.mutation()
+    .arguments({ invitationId: a.id().required() })
+    .returns(a.ref('OrganizationInvitation'))
+    .authorization(allow => [allow.authenticated()])
+    .handler(a.handler.function(manageOrganization)),
+
+  acceptOrganizationInvitation: a.mutation()
+    .arguments({ invitationId: a.id().required() })
+    .returns(a.ref('OrganizationMember'))
+    .authorization(allow => [allow.authenticated()]) // ✅ Handler matches the invitation email to the caller
+    .handler(a.handler.function(manageOrganization)),
+
+  removeOrganizationMember: a.mutation()
+    .arguments({ memberId: a.id().required() })
+    .returns(a.ref('OrganizationMember'))
+    .authorization(allow => [allow.authenticated()])
+    .handler(a.handler.function(manageOrganization)),
+
+  // Pending invitations addressed to the caller's email
+  listMyOrganizationInvitations: a.query()
+    .returns(a.ref('OrganizationInvitation').array())
+    .authorization(allow => [allow.authenticated()])
+    .handler(a.handler.function(manageOrganization)),
+
+  // Organization settings need OWNER or ADMIN; personal settings belong to the caller.
+  // Settings left out of the call keep their current value
+  updateWorkspaceSettings: a.mutation()
+    .arguments({
+      organizationId: a.id(),
+      requiredDocumentTypes: a.ref('DocumentType').required().array(),
+      validationRules: a.json(), // null or [] restores the default rules
+      fundingTerms: a.json(), // null restores the default terms
+    })
+    .returns(a.ref('WorkspaceSettings'))
+    .authorization(allow => [allow.authenticated()])
+    .handler(a.handler.function(manageOrganization)),
+
+  // Signed URL for a teammate's file; S3 rules only know about identities, not organizations
+  getOrganizationFileUrl: a.query()
+    .arguments({
+      organizationId: a.id().required(),
+      path: a.string().required(),
+    })
+    .returns(a.string())
+    .authorization(allow => [allow.authenticated()])
+    .handler(a.handler.function(manageOrganization)),
+})
+.authorization(allow => [
+  allow.resource(processInvoiceUpload), // ✅ S3 upload trigger writes jobs and invoices for their owners
+  allow.resource(manageOrganization) // ✅ Organization function maintains members and invitations
+]);
 
 export type Schema = ClientSchema<typeof schema>;
 
@@ -0,0 +1,434 @@
+// amplify/functions/manage-organization/handler.ts - Keep organization records and Cognito groups in step
+import type { AppSyncIdentityCognito, AppSyncResolverHandler } from 'aws-lambda';
+import {
+  CognitoIdentityProviderClient,
+  AdminAddUserToGroupCommand,
+  AdminGetUserCommand,
+  AdminRemoveUserFromGroupCommand,
+  CreateGroupCommand,
+} from '@aws-sdk/client-cognito-identity-provider';
+import { S3Client, GetObjectCommand } from '@aws-sdk/client-s3';
+import { getSignedUrl } from '@aws-sdk/s3-request-presigner';
+import { SESv2Client, SendEmailCommand } from '@aws-sdk/client-sesv2';
+import { Amplify } from 'aws-amplify';
+import { generateClient } from 'aws-amplify/data';
+import { getAmplifyDataClientConfig } from '@aws-amplify/backend/function/runtime';
+import { env } from '$amplify/env/manage-organization';
+import type { Schema } from '../../data/resource';
+import { checkValidationRules } from '../../../shared/invoiceProcessing/validationRules';
+import type { ValidationRule } from '../../../shared/invoiceProcessing/validationRules';
+import { checkFundingTerms } from '../../../shared/invoiceFunding/eligibility';
+import type { FundingTerms } from '../../../shared/invoiceFunding/eligibility';
+
+const { resourceConfig, libraryOptions } = await getAmplifyDataClientConfig(env);
+Amplify.configure(resourceConfig, libraryOptions);
+
+const client = generateClient<Schema>();
+const cognito = new CognitoIdentityProviderClient();
+const s3 = new S3Client();
+const ses = new SESv2Client();
+
+const INVITATION_TTL_DAYS = 14;
+const FILE_URL_TTL_SECONDS = 15 * 60;
+
+type OrganizationRole = Schema["OrganizationMember"]["type"]["role"];
+type OrganizationMember = Schema["OrganizationMember"]["type"];
+type OrganizationInvitation = Schema["OrganizationInvitation"]["type"];
+
+interface Caller {
+  sub: string;
+  username: string;
+  groups: string[];
+}
+
+export const handler: AppSyncResolverHandler<Record<string, unknown>, unknown> = async (event) => {
+  const identity = event.identity as AppSyncIdentityCognito | null | undefined;
+  if (!identity?.sub || !identity.username) {
+    throw new Error('Unauthorized');
+  }
+  const caller: Caller = { sub: identity.sub, username: identity.username, groups: identity.groups || [] };
+  console.log('🏢 [ORG] Request:', { field: event.info.fieldName, username: caller.username });
+
+  switch (event.info.fieldName) {
+    case 'createOrganization':
+      return createOrganization(event.arguments as Schema["createOrganization"]["args"], caller);
+    case 'inviteOrganizationMember':
+      return inviteOrganizationMember(event.arguments as Schema["inviteOrganizationMember"]["args"], caller);
+    case 'revokeOrganizationInvitation':
+      return revokeOrganizationInvitation(event.arguments as Schema["revokeOrganizationInvitation"]["args"], caller);
+    case 'acceptOrganizationInvitation':
+      return acceptOrganizationInvitation(event.arguments as Schema["acceptOrganizationInvitation"]["args"], caller);
+    case 'removeOrganizationMember':
+      return removeOrganizationMember(event.arguments as Schema["removeOrganizationMember"]["args"], caller);
+    case 'listMyOrganizationInvitations':
+      return listMyOrganizationInvitations(caller);
+    case 'updateWorkspaceSettings':
+      return updateWorkspaceSettings(event.arguments as Schema["updateWorkspaceSettings"]["args"], caller);
+    case 'getOrganizationFileUrl':
+      return getOrganizationFileUrl(event.arguments as Schema["getOrganizationFileUrl"]["args"], caller);
+    default:
+      throw new Error(`Unsupported operation: ${event.info.fieldName}`);
+  }
+};
+
+const createOrganization = async ({ name }: Schema["createOrganization"]["args"], caller: Caller) => {
+  const trimmedName = name.trim();
+  if (!trimmedName) {
+    throw new Error('Organization name is required');
+  }
+
+  const { data: organization, errors } = await client.models.Organization.create({
+    name: trimmedName,
+    createdBy: caller.username,
+  });
+  if (errors || !organization) {
+    throw new Error(`Failed to create organization: ${errors?.[0]?.message || 'Unknown error'}`);
+  }
+
+  // The Cognito group name is the organization id - records use it in groupDefinedIn('organizationId')
+  await cognito.send(new CreateGroupCommand({
+    GroupName: organization.id,
+    UserPoolId: env.AMPLIFY_AUTH_USERPOOL_ID,
+    Description: trimmedName,
+  }));
+  await addMember(organization.id, caller, 'OWNER');
+
+  console.log('✅ [ORG] Organization created:', organization.id);
+  return organization;
+};
+
+const inviteOrganizationMember = async (
+  { organizationId, email, role }: Schema["inviteOrganizationMember"]["args"],
+  caller: Caller
+) => {
+  await requireRole(organizationId, caller, ['OWNER', 'ADMIN']);
+
+  const normalizedEmail = email.trim().toLowerCase();
+  if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(normalizedEmail)) {
+    throw new Error('A valid email address is required');
+  }
+  if (role === 'OWNER') {
+    throw new Error('Invitations can grant ADMIN or MEMBER only');
+  }
+
+  const { data: organization } = await client.models.Organization.get({ id: organizationId });
+  if (!organization) {
+    throw new Error('Organization not found');
+  }
+
+  const pending = (await listPendingInvitations({ organizationId: { eq: organizationId }, email: { eq: normalizedEmail } }))[0];
+  if (pending) {
+    return pending;
+  }
+
+  const { data: invitation, errors } = await client.models.OrganizationInvitation.create({
+    organizationId,
+    organizationName: organization.name,
+    email: normalizedEmail,
+    role,
+    status: 'PENDING',
+    invitedBy: caller.username,
+    expiresAt: new Date(Date.now() + INVITATION_TTL_DAYS * 24 * 60 * 60 * 1000).toISOString(),
+  });
+  if (errors || !invitation) {
+    throw new Error(`Failed to create invitation: ${errors?.[0]?.message || 'Unknown error'}`);
+  }
+
+  await sendInvitationEmail(invitation, organization.name, caller.username);
+  console.log('✉️ [ORG] Invitation sent:', { organizationId, email: normalizedEmail });
+  return invitation;
+};
+
+const revokeOrganizationInvitation = async (
+  { invitationId }: Schema["revokeOrganizationInvitation"]["args"],
+  caller: Caller
+) => {
+  const { data: invitation } = await client.models.OrganizationInvitation.get({ id: invitationId });
+  if (!invitation) {
+    throw new Error('Invitation not found');
+  }
+  await requireRole(invitation.organizationId, caller, ['OWNER', 'ADMIN']);
+
+  if (invitation.status !== 'PENDING') {
+    throw new Error('Only pending invitations can be revoked');
+  }
+
+  const { data } = await client.models.OrganizationInvitation.update({ id: invitationId, status: 'REVOKED' });
+  return data;
+};
+
+const acceptOrganizationInvitation = async (
+  { invitationId }: Schema["acceptOrganizationInvitation"]["args"],
+  caller: Caller
+) => {
+  const { data: invitation } = await client.models.OrganizationInvitation.get({ id: invitationId });
+  const callerEmail = await getUserEmail(caller.username);
+
+  if (!invitation || invitation.email !== callerEmail) {
+    throw new Error('Invitation not found');
+  }
+  if (invitation.status !== 'PENDING') {
+    throw new Error('This invitation is no longer valid');
+  }
+  if (new Date(invitation.expiresAt).getTime() < Date.now()) {
+    throw new Error('This invitation has expired, ask for a new one');
+  }
+
+  const existing = await findMember(invitation.organizationId, caller.sub);
+  const member = existing || await addMember(invitation.organizationId, caller, invitation.role);
+
+  await client.models.OrganizationInvitation.update({ id: invitationId, status: 'ACCEPTED' });
+  console.log('✅ [ORG] Invitation accepted:', { organizationId: invitation.organizationId, username: caller.username });
+  return member;
+};
+
+const removeOrganizationMember = async ({ memberId }: Schema["removeOrganizationMember"]["args"], caller: Caller) => {
+  const { data: member } = await client.models.OrganizationMember.get({ id: memberId });
+  if (!member) {
+    throw new Error('Member not found');
+  }
+
+  // Anyone may leave; removing someone else needs OWNER or ADMIN
+  if (member.userSub !== caller.sub) {
+    await requireRole(member.organizationId, caller, ['OWNER', 'ADMIN']);
+  }
+
+  if (member.role === 'OWNER') {
+    const owners = (await listMembers(member.organizationId)).filter(m => m.role === 'OWNER');
+    if (owners.length <= 1) {
+      throw new Error('An organization needs at least one owner');
+    }
+  }
+
+  await cognito.send(new AdminRemoveUserFromGroupCommand({
+    GroupName: member.organizationId,
+    Username: member.username,
+    UserPoolId: env.AMPLIFY_AUTH_USERPOOL_ID,
+  }));
+  await client.models.OrganizationMember.delete({ id: memberId });
+
+  console.log('👋 [ORG] Member removed:', { organizationId: member.organizationId, username: member.username });
+  return member;
+};
+
+const listMyOrganizationInvitations = async (caller: Caller) => {
+  const email = await getUserEmail(caller.username);
+  if (!email) return [];
+
+  return (await listPendingInvitations({ email: { eq: email } }))
+    .filter(invitation => new Date(invitation.expiresAt).getTime() >= Date.now());
+};
+
+// Organization files live under user-files/{identity}/organizations/{orgId}/; nothing may climb out of that folder
+const isOrganizationFilePath = (path: string, organizationId: string): boolean => {
+  const segments = path.split('/');
+  const [root, identity, organizationsFolder, pathOrganizationId, ...rest] = segments;
+  return root === 'user-files' &&
+    !!identity &&
+    organizationsFolder === 'organizations' &&
+    pathOrganizationId === organizationId &&
+    rest.length > 0 &&
+    segments.every(segment => segment !== '' && segment !== '.' && segment !== '..');
+};
+
+const getOrganizationFileUrl = async (
+  { organizationId, path }: Schema["getOrganizationFileUrl"]["args"],
+  caller: Caller
+) => {
+  // Cognito group membership is the organization membership
+  if (!caller.groups.includes(organizationId)) {
+    throw new Error('Unauthorized');
+  }
+  if (!isOrganizationFilePath(path, organizationId)) {
+    throw new Error('File does not belong to this organization');
+  }
+
+  return getSignedUrl(
+    s3,
+    new GetObjectCommand({ Bucket: env.dataRoomStorage_BUCKET_NAME, Key: path }),
+    { expiresIn: FILE_URL_TTL_SECONDS }
+  );
+};
+
+const updateWorkspaceSettings = async (
+  { organizationId, requiredDocumentTypes, validationRules, fundingTerms }: Schema["updateWorkspaceSettings"]["args"],
+  caller: Caller
+) => {
+  if (organizationId) {
+    await requireRole(organizationId, caller, ['OWNER', 'ADMIN']);
+  }
+  const rules = readValidationRules(validationRules);
+  const terms = readFundingTerms(fundingTerms);
+  // Same format the owner auth rule writes: "<sub>::<username>"
+  const owner = `${caller.sub}::${caller.username}`;
+
+  const existing = await findWorkspaceSettings(
+    organizationId
+      ? { organizationId: { eq: organizationId } }
+      : { organizationId: { attributeExists: false }, owner: { eq: owner } }
+  );
+  const settings = {
+    ...(requiredDocumentTypes && { requiredDocumentTypes: [...new Set(requiredDocumentTypes)] }),
+    ...(rules !== undefined && { validationRules: rules && JSON.stringify(rules) }),
+    ...(terms !== undefined && { fundingTerms: terms && JSON.stringify(terms) }),
+    updatedBy: caller.username,
+  };
+
+  const { data, errors } = existing
+    ? await client.models.WorkspaceSettings.update({ id: existing.id, ...settings })
+    : await client.models.WorkspaceSettings.create({
+        ...settings,
+        // Organization settings are read through the group rule; personal ones through the owner rule
+        ...(organizationId ? { organizationId } : { owner }),
+      });
+  if (errors || !data) {
+    throw new Error(`Failed to save settings: ${errors?.[0]?.message || 'Unknown error'}`);
+  }
+
+  console.log('⚙️ [ORG] Workspace settings saved:', { organizationId, username: caller.username });
+  return data;
+};
+
+// undefined leaves the stored rules alone; null or an empty list goes back to the defaults
+const readValidationRules = (stored: unknown): ValidationRule[] | null | undefined => {
+  if (stored === undefined) return undefined;
+  const value = typeof stored === 'string' ? JSON.parse(stored) : stored;
+  if (value === null || (Array.isArray(value) && value.length === 0)) return null;
+  if (!Array.isArray(value)) {
+    throw new Error('Validation rules must be a list');
+  }
+
+  const problems = checkValidationRules(value as ValidationRule[]);
+  if (problems.length > 0) {
+    throw new Error(`Invalid validation rules: ${problems.join('; ')}`);
+  }
+  return value as ValidationRule[];
+};
+
+// undefined leaves the stored terms alone; null goes back to the defaults
+const readFundingTerms = (stored: unknown): FundingTerms | null | undefined => {
+  if (stored === undefined) return undefined;
+  const value = typeof stored === 'string' ? JSON.parse(stored) : stored;
+  if (value === null) return null;
+  if (typeof value !== 'object' || Array.isArray(value)) {
+    throw new Error('Funding terms must be an object');
+  }
+
+  const problems = checkFundingTerms(value as FundingTerms);
+  if (problems.length > 0) {
+    throw new Error(`Invalid funding terms: ${problems.join('; ')}`);
+  }
+  return value as FundingTerms;
+};
+
+// Filters apply per scanned page, so keep paging until a match turns up
+const findWorkspaceSettings = async (
+  filter: { organizationId: { eq: string } | { attributeExists: boolean }; owner?: { eq: string } }
+) => {
+  let nextToken: string | null | undefined;
+
+  do {
+    const result = await client.models.WorkspaceSettings.list({ filter, nextToken });
+    if (result.data.length > 0) return result.data[0];
+    nextToken = result.nextToken;
+  } while (nextToken);
+
+  return null;
+};
+
+const addMember = async (organizationId: string, caller: Caller, role: OrganizationRole): Promise<OrganizationMember> => {
+  await cognito.send(new AdminAddUserToGroupCommand({
+    GroupName: organizationId,
+    Username: caller.username,
+    UserPoolId: env.AMPLIFY_AUTH_USERPOOL_ID,
+  }));
+
+  const { data: member, errors } = await client.models.OrganizationMember.create({
+    organizationId,
+    userSub: caller.sub,
+    username: caller.username,
+    email: await getUserEmail(caller.username),
+    role,
+    joinedAt: new Date().toISOString(),
+  });
+  if (errors || !member) {
+    throw new Error(`Failed to add member: ${errors?.[0]?.message || 'Unknown error'}`);
+  }
+  return member;
+};
+
+const requireRole = async (organizationId: string, caller: Caller, roles: OrganizationRole[]) => {
+  const member = await findMember(organizationId, caller.sub);
+  if (!member || !roles.includes(member.role)) {
+    throw new Error(`Unauthorized: requires organization role ${roles.join(' or ')}`);
+  }
+  return member;
+};
+
+const findMember = async (organizationId: string, userSub: string) =>
+  (await listMembers(organizationId)).find(member => member.userSub === userSub) || null;
+
+const listMembers = async (organizationId: string): Promise<OrganizationMember[]> => {
+  const members: OrganizationMember[] = [];
+  let nextToken: string | null | undefined;
+
+  do {
+    const result = await client.models.OrganizationMember.list({
+      filter: { organizationId: { eq: organizationId } },
+      nextToken,
+    });
+    members.push(...result.data);
+    nextToken = result.nextToken;
+  } while (nextToken);
+
+  return members;
+};
+
+const listPendingInvitations = async (
+  filter: { organizationId?: { eq: string }; email?: { eq: string } }
+): Promise<OrganizationInvitation[]> => {
+  const invitations: OrganizationInvitation[] = [];
+  let nextToken: string | null | undefined;
+
+  do {
+    const result = await client.models.OrganizationInvitation.list({
+      filter: { ...filter, status: { eq: 'PENDING' } },
+      nextToken,
+    });
+    invitations.push(...result.data);
+    nextToken = result.nextToken;
+  } while (nextToken);
+
+  return invitations;
+};
+
+// AppSync passes the access token, which carries no email claim
+const getUserEmail = async (username: string): Promise<string | undefined> => {
+  const user = await cognito.send(new AdminGetUserCommand({
+    Username: username,
+    UserPoolId: env.AMPLIFY_AUTH_USERPOOL_ID,
+  }));
+  return user.UserAttributes?.find(attribute => attribute.Name === 'email')?.Value?.toLowerCase();
+};
+
+const sendInvitationEmail = async (invitation: OrganizationInvitation, organizationName: string, invitedBy: string) => {
+  const link = `${env.APP_URL.replace(/\/$/, '')}/organization`;
+
+  await ses.send(new SendEmailCommand({
+    FromEmailAddress: env.INVITATION_FROM_EMAIL,
+    Destination: { ToAddresses: [invitation.email] },
+    Content: {
+      Simple: {
+        Subject: { Data: `You've been invited to ${organizationName}` },
+        Body: {
+          Text: {
+            Data:
+              `${invitedBy} invited you to join ${organizationName} as ${invitation.role}.\n\n` +
+              `Sign in (or create an account with this email address) and accept the invitation at:\n${link}\n\n` +
+              `The invitation expires on ${new Date(invitation.expiresAt).toDateString()}.`,
+          },
+        },
+      },
+    },
+  }));
+};
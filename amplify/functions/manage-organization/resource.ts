@@ -0,0 +1,12 @@
+// amplify/functions/manage-organization/resource.ts - Organization, membership and invitation operations
+import { defineFunction, secret } from '@aws-amplify/backend';
+
+export const manageOrganization = defineFunction({
+  name: 'manage-organization',
+  entry: './handler.ts',
+  environment: {
+    INVITATION_FROM_EMAIL: secret('INVITATION_FROM_EMAIL'), // SES-verified sender address
+    APP_URL: secret('APP_URL'), // Linked from invitation emails
+  },
+  resourceGroupName: 'data',
+});
@@ -0,0 +1,426 @@
+// amplify/functions/process-invoice-upload/handler.ts - Parse, validate and store invoices for each uploaded file
+import type { S3Handler } from 'aws-lambda';
+import { S3Client, GetObjectCommand, HeadObjectCommand } from '@aws-sdk/client-s3';
+import { Amplify } from 'aws-amplify';
+import { generateClient } from 'aws-amplify/data';
+import { getAmplifyDataClientConfig } from '@aws-amplify/backend/function/runtime';
+import { env } from '$amplify/env/process-invoice-upload';
+import type { Schema } from '../../data/resource';
+import { INVOICE_FIELDS, parseStoredMapping } from '../../../shared/invoiceProcessing/columnMapping';
+import type { ColumnMapping } from '../../../shared/invoiceProcessing/columnMapping';
+import { SUPPORTED_DELIMITERS } from '../../../shared/invoiceProcessing/csvParser';
+import type { CsvDelimiter } from '../../../shared/invoiceProcessing/csvParser';
+import {
+  UPLOAD_JOB_METADATA_KEY,
+  readInvoiceFile,
+  validateInvoiceRows,
+} from '../../../shared/invoiceProcessing/invoiceFile';
+import type { RawInvoiceFile } from '../../../shared/invoiceProcessing/invoiceFile';
+import type { ProcessingError } from '../../../shared/invoiceProcessing/types';
+import {
+  getStoredInvoiceFields,
+  markDuplicateInvoices,
+  markUnregisteredParties,
+} from '../../../shared/invoiceProcessing/validation';
+import type { ExistingInvoice } from '../../../shared/invoiceProcessing/validation';
+import { DEFAULT_VALIDATION_RULES, parseValidationRules } from '../../../shared/invoiceProcessing/validationRules';
+import type { ValidationRule } from '../../../shared/invoiceProcessing/validationRules';
+import { buildPartyRegistry } from '../../../shared/masterData/parties';
+import type { PartyRegistry } from '../../../shared/masterData/parties';
+
+const { resourceConfig, libraryOptions } = await getAmplifyDataClientConfig(env);
+Amplify.configure(resourceConfig, libraryOptions);
+
+const client = generateClient<Schema>();
+const s3 = new S3Client();
+
+const BATCH_SIZE = 25;
+// The job's heartbeat is refreshed after every batch; a PROCESSING job silent for longer lost its invocation
+const PROCESSING_LEASE_MS = 2 * 60 * 1000;
+
+// The model client cannot send a condition, so the claim uses the generated mutation directly
+const CLAIM_UPLOAD_JOB = /* GraphQL */ `
+  mutation ClaimUploadJob($input: UpdateInvoiceUploadJobInput!, $condition: ModelInvoiceUploadJobConditionInput) {
+    updateInvoiceUploadJob(input: $input, condition: $condition) { id }
+  }
+`;
+
+type UploadJob = Schema["InvoiceUploadJob"]["type"];
+
+interface SheetCount {
+  total: number;
+  successful: number;
+  failed: number;
+  excluded: number;
+}
+
+export const handler: S3Handler = async (event) => {
+  for (const record of event.Records) {
+    const bucket = record.s3.bucket.name;
+    // S3 event keys are URL-encoded with '+' for spaces
+    const key = decodeURIComponent(record.s3.object.key.replace(/\+/g, ' '));
+    console.log('📥 [LAMBDA] Upload received:', { bucket, key });
+
+    try {
+      await processUpload(bucket, key);
+    } catch (error) {
+      // One bad file must not stop the rest of the batch
+      console.error('💥 [LAMBDA] Unhandled error processing upload:', { key, error });
+    }
+  }
+};
+
+const processUpload = async (bucket: string, key: string) => {
+  // Only the metadata decides whether the object is an invoice file; the body is fetched once the job is claimed
+  const head = await s3.send(new HeadObjectCommand({ Bucket: bucket, Key: key }));
+  const jobId = head.Metadata?.[UPLOAD_JOB_METADATA_KEY];
+
+  // PDFs and other attachments share the bucket but are not invoice files
+  if (!jobId) {
+    console.log('⏭️ [LAMBDA] No upload job attached, skipping:', key);
+    return;
+  }
+
+  const { data: job, errors } = await client.models.InvoiceUploadJob.get({ id: jobId });
+  if (errors || !job) {
+    console.error('❌ [LAMBDA] Upload job not found:', { jobId, errors });
+    return;
+  }
+
+  // The metadata is set by whoever uploaded the object, so the job must be the one created for this very file.
+  // The job is left untouched: a file tagged with someone else's job id must not be able to fail it either
+  const rejection = getUploadRejection(job, key);
+  if (rejection) {
+    console.warn(`🚫 [LAMBDA] Rejected ${key} for job ${job.id}: ${rejection}`);
+    return;
+  }
+
+  if (!await claimUploadJob(job)) {
+    console.warn(`⏳ [LAMBDA] Job ${job.id} is being processed by another invocation, skipping ${key}`);
+    return;
+  }
+
+  try {
+    // IfMatch: the object must still be the one whose metadata was checked
+    const object = await s3.send(new GetObjectCommand({ Bucket: bucket, Key: key, IfMatch: head.ETag }));
+    const fileBuffer = await object.Body?.transformToByteArray();
+    if (!fileBuffer) {
+      throw new Error('Uploaded file is empty');
+    }
+
+    const delimiter = SUPPORTED_DELIMITERS.includes(job.csvDelimiter as CsvDelimiter)
+      ? job.csvDelimiter as CsvDelimiter
+      : 'auto';
+    const sheetNames = (job.sheetNames || []).filter((name): name is string => !!name);
+    const rawFile = readInvoiceFile(
+      fileBuffer.buffer.slice(fileBuffer.byteOffset, fileBuffer.byteOffset + fileBuffer.byteLength) as ArrayBuffer,
+      job.fileType,
+      { delimiter, sheetNames }
+    );
+
+    // Files with standard headers never went through the wizard
+    const mapping = parseStoredMapping(job.columnMapping) ||
+      Object.fromEntries(INVOICE_FIELDS.map(field => [field.key, field.key])) as ColumnMapping;
+
+    const excludedRows = new Set((job.excludedRows || []).filter((row): row is number => row !== null));
+    const invoices = markUnregisteredParties(
+      markDuplicateInvoices(
+        validateInvoiceRows(rawFile.rows, mapping, await loadValidationRules(job)).filter(invoice => !excludedRows.has(invoice.rowNumber)),
+        await listWorkspaceInvoices(job)
+      ),
+      await loadPartyRegistry(job)
+    );
+
+    await createInvoices(job, invoices, rawFile.parseErrors, getSheetTracking(rawFile, excludedRows));
+  } catch (error) {
+    console.error('💥 [LAMBDA] Processing failed:', { jobId: job.id, error });
+    await client.models.InvoiceUploadJob.update({
+      id: job.id,
+      status: 'FAILED',
+      errorMessage: error instanceof Error ? error.message : 'Unknown processing error',
+      processingCompletedAt: new Date().toISOString(),
+    });
+  }
+};
+
+// Why the object may not feed this job; null when it may
+const getUploadRejection = (job: UploadJob, key: string): string | null => {
+  if (job.s3Key !== key) {
+    return 'the job was created for a different file';
+  }
+  // Uploads can only write below their own identity folder, so the folder proves who uploaded the file
+  if (!job.ownerIdentityId || !key.startsWith(`user-files/${job.ownerIdentityId}/`)) {
+    return "the file is not in the job owner's folder";
+  }
+  if (job.status === 'COMPLETED' || job.status === 'FAILED') {
+    return `the job is already ${job.status}`;
+  }
+  return null;
+};
+
+// Conditional PENDING -> PROCESSING update, so a second delivery of the same S3 event cannot run the job twice.
+// S3 retries events after a timeout or crash; that retry takes over once the job's heartbeat has gone stale
+// and skips the rows the failed invocation already created
+const claimUploadJob = async (job: UploadJob): Promise<boolean> => {
+  const now = new Date();
+  const staleBefore = new Date(now.getTime() - PROCESSING_LEASE_MS).toISOString();
+
+  try {
+    await client.graphql({
+      query: CLAIM_UPLOAD_JOB,
+      variables: {
+        input: {
+          id: job.id,
+          status: 'PROCESSING',
+          processingStartedAt: job.processingStartedAt || now.toISOString(),
+          processingHeartbeatAt: now.toISOString(),
+        },
+        condition: {
+          or: [
+            { status: { eq: 'PENDING' } },
+            {
+              and: [
+                { status: { eq: 'PROCESSING' } },
+                { or: [{ processingHeartbeatAt: { attributeExists: false } }, { processingHeartbeatAt: { lt: staleBefore } }] },
+              ],
+            },
+          ],
+        },
+      },
+    });
+    return true;
+  } catch (error) {
+    // client.graphql rejects with the GraphQL result when the mutation fails
+    const errors = (error as { errors?: { errorType?: string }[] }).errors;
+    if (errors?.some(graphqlError => graphqlError.errorType?.includes('ConditionalCheckFailed'))) return false;
+    throw error;
+  }
+};
+
+// Per-sheet counts for workbooks; CSV files have no sheets
+const getSheetTracking = (rawFile: RawInvoiceFile, excludedRows: Set<number>) => {
+  if (!rawFile.sheetNames) return null;
+
+  const sheetByRow = new Map<number, string>();
+  const counts: Record<string, SheetCount> = Object.fromEntries(
+    rawFile.sheetNames.map(sheet => [sheet, { total: 0, successful: 0, failed: 0, excluded: 0 }])
+  );
+
+  rawFile.rows.forEach(({ rowNumber, sheetName }) => {
+    if (!sheetName) return;
+    sheetByRow.set(rowNumber, sheetName);
+    counts[sheetName].total++;
+    if (excludedRows.has(rowNumber)) counts[sheetName].excluded++;
+  });
+
+  return { sheetByRow, counts };
+};
+
+const createInvoices = async (
+  job: UploadJob,
+  invoiceData: ReturnType<typeof validateInvoiceRows>,
+  parseErrors: ProcessingError[],
+  sheets: ReturnType<typeof getSheetTracking>
+) => {
+  // A retried invocation must not create the same invoices twice
+  const alreadyCreated = await listCreatedRows(job.id);
+
+  let successfulCount = 0;
+  let failedCount = parseErrors.length;
+  const allErrors: ProcessingError[] = [...parseErrors];
+  const totalInvoices = invoiceData.length + parseErrors.length;
+
+  const countForSheet = (rowNumber: number, outcome: 'successful' | 'failed') => {
+    const sheetName = sheets?.sheetByRow.get(rowNumber);
+    if (sheets && sheetName) sheets.counts[sheetName][outcome]++;
+  };
+
+  console.log('🔄 [LAMBDA] Starting batch processing:', {
+    jobId: job.id,
+    totalRecords: invoiceData.length,
+    alreadyCreated: alreadyCreated.size,
+    batchSize: BATCH_SIZE
+  });
+
+  for (let i = 0; i < invoiceData.length; i += BATCH_SIZE) {
+    const batch = invoiceData.slice(i, i + BATCH_SIZE);
+
+    await Promise.allSettled(batch.map(async (invoice) => {
+      // Invalid rows are stored too, so they can be corrected in the invoice table
+      const recordStoredRow = () => {
+        if (invoice.isValid) {
+          successfulCount++;
+          countForSheet(invoice.rowNumber, 'successful');
+          return;
+        }
+        failedCount++;
+        countForSheet(invoice.rowNumber, 'failed');
+        allErrors.push({ row: invoice.rowNumber, invoice_id: invoice.invoiceId || undefined, errors: invoice.validationErrors });
+      };
+
+      if (alreadyCreated.has(invoice.rowNumber)) {
+        recordStoredRow();
+        return;
+      }
+
+      try {
+        const result = await client.models.Invoice.create({
+          ...getStoredInvoiceFields(invoice),
+          uploadDate: new Date().toISOString().split('T')[0],
+          uploadJobId: job.id,
+          sourceRowNumber: invoice.rowNumber,
+          isValid: invoice.isValid,
+          validationErrors: invoice.validationErrors,
+          ...(invoice.sourceValues && { sourceValues: JSON.stringify(invoice.sourceValues) }),
+          owner: job.owner,
+          organizationId: job.organizationId || undefined, // Personal workspace invoices carry no organization
+        });
+
+        if (result.errors) {
+          failedCount++;
+          countForSheet(invoice.rowNumber, 'failed');
+          allErrors.push({
+            row: invoice.rowNumber,
+            invoice_id: invoice.invoiceId,
+            errors: result.errors.map((error) => error.message || 'Unknown error')
+          });
+          return;
+        }
+
+        recordStoredRow();
+      } catch (error) {
+        failedCount++;
+        countForSheet(invoice.rowNumber, 'failed');
+        allErrors.push({
+          row: invoice.rowNumber,
+          invoice_id: invoice.invoiceId,
+          errors: [error instanceof Error ? error.message : 'Unknown error']
+        });
+      }
+    }));
+
+    // Progress for the browser, which follows the job via subscription
+    await client.models.InvoiceUploadJob.update({
+      id: job.id,
+      totalInvoices,
+      successfulInvoices: successfulCount,
+      failedInvoices: failedCount,
+      processingHeartbeatAt: new Date().toISOString(),
+    });
+  }
+
+  const finalStatus = successfulCount === 0 && failedCount > 0 ? 'FAILED' : 'COMPLETED';
+  const errorSummary = allErrors.length > 0 ?
+    `${allErrors.length} validation errors. Sample: ${allErrors.slice(0, 3).map(e => `Row ${e.row}: ${e.errors[0]}`).join('; ')}` :
+    null;
+
+  await client.models.InvoiceUploadJob.update({
+    id: job.id,
+    status: finalStatus,
+    totalInvoices,
+    successfulInvoices: successfulCount,
+    failedInvoices: failedCount,
+    processingCompletedAt: new Date().toISOString(),
+    ...(errorSummary && { errorMessage: errorSummary }),
+    ...(allErrors.length > 0 && { processingErrors: JSON.stringify(allErrors) }),
+    ...(sheets && { sheetCounts: JSON.stringify(sheets.counts) }),
+  });
+
+  console.log(`🎉 [LAMBDA] Job ${job.id} ${finalStatus}: ${successfulCount} successful, ${failedCount} failed`);
+};
+
+// Invoices already in the job's workspace, for duplicate checks; a retried job's own invoices do not count
+const listWorkspaceInvoices = async (job: UploadJob): Promise<ExistingInvoice[]> => {
+  const existing: ExistingInvoice[] = [];
+  let nextToken: string | null | undefined;
+
+  do {
+    const result = await client.models.Invoice.list({
+      filter: job.organizationId
+        ? { organizationId: { eq: job.organizationId } }
+        : { owner: { eq: job.owner || '' }, organizationId: { attributeExists: false } },
+      selectionSet: ['invoiceId', 'sellerId', 'debtorId', 'amount', 'issueDate', 'uploadJobId'],
+      nextToken,
+    });
+    if (result.errors) {
+      throw new Error(`Failed to load existing invoices: ${result.errors[0]?.message || 'Unknown error'}`);
+    }
+    existing.push(...result.data.filter(invoice => invoice.uploadJobId !== job.id));
+    nextToken = result.nextToken;
+  } while (nextToken);
+
+  return existing;
+};
+
+// Same rules the upload preview applied, read from the job's workspace
+const loadValidationRules = async (job: UploadJob): Promise<ValidationRule[]> => {
+  let nextToken: string | null | undefined;
+
+  do {
+    const result = await client.models.WorkspaceSettings.list({
+      filter: job.organizationId
+        ? { organizationId: { eq: job.organizationId } }
+        : { owner: { eq: job.owner || '' }, organizationId: { attributeExists: false } },
+      nextToken,
+    });
+    if (result.errors) {
+      throw new Error(`Failed to load validation rules: ${result.errors[0]?.message || 'Unknown error'}`);
+    }
+    if (result.data.length > 0) {
+      return parseValidationRules(result.data[0].validationRules) || DEFAULT_VALIDATION_RULES;
+    }
+    nextToken = result.nextToken;
+  } while (nextToken);
+
+  return DEFAULT_VALIDATION_RULES;
+};
+
+// Sellers and debtors registered in the job's workspace
+const loadPartyRegistry = async (job: UploadJob): Promise<PartyRegistry> => {
+  const filter = job.organizationId
+    ? { organizationId: { eq: job.organizationId } }
+    : { owner: { eq: job.owner || '' }, organizationId: { attributeExists: false } };
+  const sellers: Schema["Seller"]["type"][] = [];
+  const debtors: Schema["Debtor"]["type"][] = [];
+  let nextToken: string | null | undefined;
+
+  do {
+    const result = await client.models.Seller.list({ filter, nextToken });
+    if (result.errors) {
+      throw new Error(`Failed to load sellers: ${result.errors[0]?.message || 'Unknown error'}`);
+    }
+    sellers.push(...result.data);
+    nextToken = result.nextToken;
+  } while (nextToken);
+
+  do {
+    const result = await client.models.Debtor.list({ filter, nextToken });
+    if (result.errors) {
+      throw new Error(`Failed to load debtors: ${result.errors[0]?.message || 'Unknown error'}`);
+    }
+    debtors.push(...result.data);
+    nextToken = result.nextToken;
+  } while (nextToken);
+
+  return buildPartyRegistry(sellers, debtors);
+};
+
+const listCreatedRows = async (jobId: string): Promise<Set<number>> => {
+  const rowNumbers = new Set<number>();
+  let nextToken: string | null | undefined;
+
+  do {
+    const result = await client.models.Invoice.list({
+      filter: { uploadJobId: { eq: jobId } },
+      selectionSet: ['sourceRowNumber'],
+      nextToken,
+    });
+    if (result.errors) {
+      throw new Error(`Failed to load invoices already created for the job: ${result.errors[0]?.message || 'Unknown error'}`);
+    }
+    result.data.forEach(invoice => invoice.sourceRowNumber != null && rowNumbers.add(invoice.sourceRowNumber));
+    nextToken = result.nextToken;
+  } while (nextToken);
+
+  return rowNumbers;
+};
@@ -0,0 +1,10 @@
+// amplify/functions/process-invoice-upload/resource.ts - S3 onUpload trigger that turns uploaded files into invoices
+import { defineFunction } from '@aws-amplify/backend';
+
+export const processInvoiceUpload = defineFunction({
+  name: 'process-invoice-upload',
+  entry: './handler.ts',
+  timeoutSeconds: 900, // Large spreadsheets can take several minutes
+  memoryMB: 1024,
+  resourceGroupName: 'storage',
+});
@@ -0,0 +1,783 @@
+// amplify/functions/submit-invoice-batch/handler.ts - Transactionally move Invoice records into SubmittedInvoice
+import { randomUUID } from 'node:crypto';
+import { ConditionalCheckFailedException, DynamoDBClient, TransactionCanceledException } from '@aws-sdk/client-dynamodb';
+import { DynamoDBDocumentClient, BatchGetCommand, GetCommand, PutCommand, QueryCommand, TransactWriteCommand, UpdateCommand } from '@aws-sdk/lib-dynamodb';
+import type { BatchGetCommandOutput } from '@aws-sdk/lib-dynamodb';
+import { GetObjectCommand, NoSuchKey, S3Client } from '@aws-sdk/client-s3';
+import type { AppSyncIdentityCognito } from 'aws-lambda';
+import type { Schema } from '../../data/resource';
+import { resolveSubmitter } from './submitter';
+import type { Submitter } from './submitter';
+import { extractPdfText } from './pdfText';
+import { markUnregisteredParties, validateInvoiceData } from '../../../shared/invoiceProcessing/validation';
+import { DEFAULT_VALIDATION_RULES, REQUIRED_RULE_IDS, parseValidationRules } from '../../../shared/invoiceProcessing/validationRules';
+import type { ValidationRule } from '../../../shared/invoiceProcessing/validationRules';
+import type { InvoiceFieldKey } from '../../../shared/invoiceProcessing/columnMapping';
+import type { CsvRow } from '../../../shared/invoiceProcessing/csvParser';
+import { buildPartyRegistry } from '../../../shared/masterData/parties';
+import { DEFAULT_FUNDING_TERMS, evaluateEligibility, parseFundingTerms } from '../../../shared/invoiceFunding/eligibility';
+import type { FundingTerms, InvoiceEligibility } from '../../../shared/invoiceFunding/eligibility';
+import type { PartyRegistry } from '../../../shared/masterData/parties';
+import { checkDebtorExposure, isOutstanding } from '../../../shared/masterData/creditExposure';
+import type { DebtorLimits, ExposureInvoice } from '../../../shared/masterData/creditExposure';
+import {
+  DEFAULT_REQUIRED_DOCUMENT_TYPES,
+  DOCUMENT_TYPE_LABELS,
+  getMissingDocumentTypes,
+  isDocumentType,
+} from '../../../shared/invoiceDocuments/documentTypes';
+import type { DocumentType } from '../../../shared/invoiceDocuments/documentTypes';
+import { verifyInvoicePdfText } from '../../../shared/invoiceDocuments/pdfVerification';
+import type { PdfVerificationResult } from '../../../shared/invoiceDocuments/pdfVerification';
+
+type Handler = Schema["submitInvoiceBatch"]["functionHandler"];
+type SubmitInvoiceOutcome = Schema["SubmitInvoiceOutcome"]["type"];
+type InvoiceItem = Schema["Invoice"]["type"] & { owner: string };
+
+// Eligibility is recorded as it stood when the invoice was submitted
+type SubmittableInvoice = InvoiceItem & { eligibility: InvoiceEligibility };
+
+// A personal workspace has no organizationId and belongs to its owner
+interface Workspace {
+  organizationId?: string | null;
+  owner: string;
+}
+
+interface SubmissionBatchRecord extends Workspace {
+  id: string;
+  batchNumber: number;
+}
+
+// A PDF that could not even be downloaded leaves nothing to verify
+type PdfCheck = PdfVerificationResult | { error: string };
+
+interface ExposureCheck {
+  refused: Map<string, string>; // Invoice id -> why it was refused
+  creditLimits: Map<string, number>; // Exposure counter id -> credit limit the submit transaction enforces
+}
+
+interface WorkspaceChecks {
+  rules: ValidationRule[];
+  registry: PartyRegistry;
+  fundingTerms: FundingTerms;
+  debtorCountries: Map<string, string>; // Lower-cased debtor ID -> country
+  debtorLimits: DebtorLimits[];
+  requiredDocumentTypes: DocumentType[];
+}
+
+const dynamo = DynamoDBDocumentClient.from(new DynamoDBClient(), {
+  marshallOptions: { removeUndefinedValues: true },
+});
+const s3 = new S3Client();
+
+const INVOICE_TABLE = process.env.INVOICE_TABLE_NAME;
+const SUBMITTED_INVOICE_TABLE = process.env.SUBMITTED_INVOICE_TABLE_NAME;
+const SUBMISSION_BATCH_TABLE = process.env.SUBMISSION_BATCH_TABLE_NAME;
+const SUBMISSION_BATCH_COUNTER_TABLE = process.env.SUBMISSION_BATCH_COUNTER_TABLE_NAME;
+const WORKSPACE_SETTINGS_TABLE = process.env.WORKSPACE_SETTINGS_TABLE_NAME;
+const SELLER_TABLE = process.env.SELLER_TABLE_NAME;
+const DEBTOR_TABLE = process.env.DEBTOR_TABLE_NAME;
+const INVOICE_DOCUMENT_TABLE = process.env.INVOICE_DOCUMENT_TABLE_NAME;
+const DEBTOR_EXPOSURE_TABLE = process.env.DEBTOR_EXPOSURE_TABLE_NAME;
+const STORAGE_BUCKET = process.env.dataRoomStorage_BUCKET_NAME;
+
+const BATCH_GET_LIMIT = 100;
+// TransactWriteItems takes 100 items; every invoice needs a put, a delete and at most one exposure update
+const INVOICES_PER_TRANSACTION = 33;
+// Calls of one run are sequential, so the batch totals rarely need more than one retry
+const BATCH_UPDATE_ATTEMPTS = 5;
+// PDFs downloaded and read at once; sized to the function's memory in resource.ts
+const PDF_VERIFICATION_CONCURRENCY = 10;
+// Every invoice's PDF is read again, so larger calls would not finish inside the 30 second resolver timeout.
+// Keep in sync with SUBMIT_BATCH_SIZE in src/components/UploadPage/SubmitInvoices.tsx
+const MAX_INVOICES_PER_CALL = 25;
+
+export const handler: Handler = async (event) => {
+  if (!INVOICE_TABLE || !SUBMITTED_INVOICE_TABLE || !SUBMISSION_BATCH_TABLE || !SUBMISSION_BATCH_COUNTER_TABLE ||
+    !WORKSPACE_SETTINGS_TABLE || !SELLER_TABLE || !DEBTOR_TABLE || !INVOICE_DOCUMENT_TABLE || !DEBTOR_EXPOSURE_TABLE || !STORAGE_BUCKET) {
+    throw new Error('Invoice table names are not configured');
+  }
+
+  const identity = event.identity as AppSyncIdentityCognito | null | undefined;
+  if (!identity?.sub || !identity.username) {
+    throw new Error('Unauthorized');
+  }
+  // Same format the owner auth rule writes: "<sub>::<username>"
+  const username = identity.username;
+  const groups = identity.groups || [];
+  const owner = `${identity.sub}::${username}`;
+
+  const invoiceIds = [...new Set(event.arguments.invoiceIds.filter((id): id is string => !!id))];
+  if (invoiceIds.length > MAX_INVOICES_PER_CALL) {
+    throw new Error(`At most ${MAX_INVOICES_PER_CALL} invoices can be submitted per call`);
+  }
+  console.log('📤 [SUBMIT] Batch submission requested:', { owner, count: invoiceIds.length });
+
+  const { submissionBatchId, organizationId, note, blockPdfMismatches } = event.arguments;
+  if (!submissionBatchId && organizationId && !groups.includes(organizationId)) {
+    throw new Error('Unauthorized');
+  }
+  const submitter = await resolveSubmitter(identity);
+  // The first call of a run opens the batch; the following ones add to it
+  const batch = submissionBatchId
+    ? await loadSubmissionBatch(submissionBatchId, owner)
+    : await openSubmissionBatch({ organizationId, owner }, note || undefined, submitter);
+
+  const outcomes = new Map<string, SubmitInvoiceOutcome>();
+  const invoices = await loadInvoices(invoiceIds);
+  const submittable: SubmittableInvoice[] = [];
+  const checksByWorkspace = new Map<string, Promise<WorkspaceChecks>>();
+  const getChecks = (invoice: InvoiceItem) => {
+    const workspaceKey = getWorkspaceKey(invoice);
+    const checks = checksByWorkspace.get(workspaceKey) || loadWorkspaceChecks(invoice);
+    checksByWorkspace.set(workspaceKey, checks);
+    return checks;
+  };
+
+  for (const invoiceId of invoiceIds) {
+    const invoice = invoices.get(invoiceId);
+
+    if (!invoice) {
+      // Missing from the working table: either a retry of an earlier submission or an unknown id
+      outcomes.set(invoiceId, await resolveMissingInvoice(invoiceId, owner, groups));
+    } else if (invoice.owner !== owner && !(invoice.organizationId && groups.includes(invoice.organizationId))) {
+      // Teammates may submit each other's invoices within their organization
+      outcomes.set(invoiceId, failed(invoiceId, 'Invoice not found'));
+    } else if ((invoice.organizationId || null) !== (batch.organizationId || null)) {
+      outcomes.set(invoiceId, failed(invoiceId, 'Invoice belongs to another workspace than the submission batch', invoice.invoiceId));
+    } else if (!hasRequiredFields(invoice)) {
+      outcomes.set(invoiceId, failed(invoiceId, 'Invoice is missing required fields', invoice.invoiceId || undefined));
+    } else if (!invoice.isValid || !passesValidation(invoice, await getChecks(invoice))) {
+      outcomes.set(invoiceId, failed(invoiceId, 'Invoice has validation errors', invoice.invoiceId));
+    } else {
+      const { fundingTerms, debtorCountries } = await getChecks(invoice);
+      submittable.push({
+        ...invoice,
+        eligibility: evaluateEligibility({
+          amount: invoice.amount,
+          issueDate: invoice.issueDate,
+          dueDate: invoice.dueDate,
+          debtorCountry: debtorCountries.get(invoice.debtorId.toLowerCase()),
+        }, fundingTerms),
+      });
+    }
+  }
+
+  // Attached documents and PDF checks are recorded by the browser, so both are checked again here
+  const incomplete = await findIncompleteInvoices(submittable, getChecks);
+  incomplete.forEach((reason, id) => outcomes.set(id, failed(id, reason, invoices.get(id)?.invoiceId)));
+  const complete = submittable.filter(invoice => !incomplete.has(invoice.id));
+  const pdfChecks = await verifyInvoicePdfs(complete);
+  const verifiedAt = new Date().toISOString();
+  const verified: SubmittableInvoice[] = [];
+
+  complete.forEach(invoice => {
+    const check = pdfChecks.get(invoice.id);
+    if (check && 'error' in check) {
+      outcomes.set(invoice.id, failed(invoice.id, check.error, invoice.invoiceId));
+    } else if (check?.status === 'MISMATCH' && blockPdfMismatches) {
+      outcomes.set(invoice.id, failed(invoice.id, `Invoice PDF does not match: ${check.issues.join('; ')}`, invoice.invoiceId));
+    } else {
+      // The submitted copy keeps this result, never the one the browser stored
+      verified.push({
+        ...invoice,
+        pdfVerificationStatus: check?.status,
+        pdfVerificationIssues: check?.issues,
+        pdfVerifiedAt: check ? verifiedAt : undefined,
+      });
+    }
+  });
+
+  // The browser blocks over-limit batches as well, but only this check cannot be skipped
+  const { refused: overLimit, creditLimits } = await checkCreditLimits(verified, getChecks);
+  overLimit.forEach((reason, id) => outcomes.set(id, failed(id, reason, invoices.get(id)?.invoiceId)));
+  const withinLimits = verified.filter(invoice => !overLimit.has(invoice.id));
+
+  const submittedAt = new Date().toISOString();
+
+  for (let i = 0; i < withinLimits.length; i += INVOICES_PER_TRANSACTION) {
+    const chunk = withinLimits.slice(i, i + INVOICES_PER_TRANSACTION);
+
+    try {
+      await moveInvoices(chunk, { owner, username, submitter }, submittedAt, creditLimits, batch.id);
+      chunk.forEach(invoice => outcomes.set(invoice.id, submitted(invoice)));
+    } catch (error) {
+      if (!(error instanceof TransactionCanceledException)) throw error;
+
+      // One bad invoice cancels the whole chunk - retry one by one to isolate it
+      console.warn(`⚠️ [SUBMIT] Transaction of ${chunk.length} cancelled, retrying individually`);
+      for (const invoice of chunk) {
+        try {
+          await moveInvoices([invoice], { owner, username, submitter }, submittedAt, creditLimits, batch.id);
+          outcomes.set(invoice.id, submitted(invoice));
+        } catch (singleError) {
+          if (exceededCreditLimit(singleError, 1)) {
+            // Submissions running at the same time used up what the check above left
+            outcomes.set(invoice.id, failed(invoice.id, 'Debtor credit limit was reached by another submission', invoice.invoiceId));
+            continue;
+          }
+          console.error(`❌ [SUBMIT] Failed to submit invoice ${invoice.invoiceId}:`, singleError);
+          outcomes.set(invoice.id, await resolveMissingInvoice(invoice.id, owner, groups, invoice.invoiceId));
+        }
+      }
+    }
+  }
+
+  const results = invoiceIds.map(id => outcomes.get(id) || failed(id, 'Not processed'));
+  const submittedCount = results.filter(outcome => outcome.status === 'SUBMITTED').length;
+  const alreadySubmittedCount = results.filter(outcome => outcome.status === 'ALREADY_SUBMITTED').length;
+  const failedCount = results.length - submittedCount - alreadySubmittedCount;
+  const moved = withinLimits.filter(invoice => outcomes.get(invoice.id)?.status === 'SUBMITTED');
+  await recordBatchProgress(batch.id, moved, failedCount);
+
+  console.log('🏁 [SUBMIT] Batch submission finished:', {
+    submissionBatchId: batch.id,
+    submittedCount,
+    alreadySubmittedCount,
+    failedCount
+  });
+
+  return {
+    submittedCount,
+    alreadySubmittedCount,
+    failedCount,
+    outcomes: results,
+    submissionBatchId: batch.id,
+    batchNumber: batch.batchNumber,
+  };
+};
+
+// Stored values keyed by the fields the validation rules check
+const toFieldValues = (invoice: InvoiceItem): CsvRow => ({
+  invoice_id: invoice.invoiceId,
+  seller_id: invoice.sellerId,
+  debtor_id: invoice.debtorId,
+  currency: invoice.currency,
+  amount: String(invoice.amount ?? ''),
+  product: invoice.product,
+  issue_date: invoice.issueDate,
+  due_date: invoice.dueDate,
+});
+
+// SubmittedInvoice cannot hold these empty, whatever rules the workspace has saved
+const hasRequiredFields = (invoice: InvoiceItem): boolean => {
+  const values = toFieldValues(invoice);
+  return (Object.keys(REQUIRED_RULE_IDS) as InvoiceFieldKey[]).every(field => String(values[field] ?? '').trim() !== '');
+};
+
+// Corrected rows get isValid from the browser, so the stored values are checked again here
+const passesValidation = (invoice: InvoiceItem, { rules, registry }: WorkspaceChecks): boolean =>
+  markUnregisteredParties([validateInvoiceData(toFieldValues(invoice), invoice.sourceRowNumber ?? 0, rules)], registry)[0].isValid;
+
+const getWorkspaceKey = (workspace: Workspace) => workspace.organizationId || workspace.owner;
+
+// Refuses invoices that would take their debtor over its credit limit, and seeds the exposure counters
+// the submit transaction adds to, so the limits also hold against concurrent submissions
+const checkCreditLimits = async (
+  invoices: SubmittableInvoice[],
+  getChecks: (invoice: InvoiceItem) => Promise<WorkspaceChecks>
+): Promise<ExposureCheck> => {
+  const refused = new Map<string, string>();
+  const creditLimits = new Map<string, number>();
+  const byWorkspace = new Map<string, SubmittableInvoice[]>();
+  invoices.forEach(invoice => {
+    const workspaceKey = getWorkspaceKey(invoice);
+    byWorkspace.set(workspaceKey, [...(byWorkspace.get(workspaceKey) || []), invoice]);
+  });
+
+  for (const workspaceInvoices of byWorkspace.values()) {
+    const { debtorLimits } = await getChecks(workspaceInvoices[0]);
+    const outstanding = await loadDebtorExposures(workspaceInvoices);
+    const pending: ExposureInvoice[] = workspaceInvoices
+      .map(invoice => ({ debtorId: invoice.debtorId, currency: invoice.currency, amount: invoice.amount }));
+
+    checkDebtorExposure(outstanding, pending, debtorLimits).forEach(exposure => {
+      const debtorInvoices = workspaceInvoices.filter(invoice => getDebtorKey(invoice) === getDebtorKey(exposure));
+      if (exposure.creditLimit !== undefined) {
+        creditLimits.set(getExposureId(debtorInvoices[0]), exposure.creditLimit);
+      }
+      if (exposure.status === 'BLOCK') {
+        console.warn(`💳 [SUBMIT] Debtor ${exposure.debtorId} over its ${exposure.currency} credit limit:`, exposure.issues);
+        debtorInvoices.forEach(invoice => refused.set(invoice.id, exposure.issues[0]));
+      }
+    });
+  }
+
+  return { refused, creditLimits };
+};
+
+// DebtorExposure sort key: debtor IDs match case-insensitively, currencies are counted apart
+const getDebtorKey = (invoice: { debtorId: string; currency: string }) => `${invoice.debtorId.toLowerCase()}|${invoice.currency}`;
+
+const getExposureKey = (invoice: InvoiceItem) => ({ workspaceKey: getWorkspaceKey(invoice), debtorKey: getDebtorKey(invoice) });
+
+const getExposureId = (invoice: InvoiceItem) => `${getWorkspaceKey(invoice)}#${getDebtorKey(invoice)}`;
+
+// Current outstanding amount of every debtor/currency the invoices add to, one entry each
+const loadDebtorExposures = async (invoices: SubmittableInvoice[]): Promise<ExposureInvoice[]> => {
+  const invoiceByCounter = new Map(invoices.map(invoice => [getExposureId(invoice), invoice]));
+  return Promise.all([...invoiceByCounter.values()].map(async invoice => ({
+    debtorId: invoice.debtorId,
+    currency: invoice.currency,
+    amount: await loadDebtorExposure(invoice),
+  })));
+};
+
+const loadDebtorExposure = async (invoice: SubmittableInvoice): Promise<number> => {
+  const key = getExposureKey(invoice);
+  const counter = await dynamo.send(new GetCommand({ TableName: DEBTOR_EXPOSURE_TABLE!, Key: key, ConsistentRead: true }));
+  if (counter.Item) return Number(counter.Item.outstandingAmount) || 0;
+
+  // First submission for this debtor and currency since the counters exist: count what is already outstanding
+  const outstandingAmount = (await queryWorkspace(SUBMITTED_INVOICE_TABLE, invoice, { sortKey: ['debtorId', invoice.debtorId] }))
+    .filter(item => item.currency === invoice.currency && isOutstanding(item.status))
+    .reduce((total, item) => total + (Number(item.amount) || 0), 0);
+  const now = new Date().toISOString();
+  try {
+    await dynamo.send(new PutCommand({
+      TableName: DEBTOR_EXPOSURE_TABLE!,
+      Item: { ...key, __typename: 'DebtorExposure', outstandingAmount, createdAt: now, updatedAt: now },
+      ConditionExpression: 'attribute_not_exists(workspaceKey)',
+    }));
+    return outstandingAmount;
+  } catch (error) {
+    // Another submission seeded it first
+    if (!(error instanceof ConditionalCheckFailedException)) throw error;
+    return loadDebtorExposure(invoice);
+  }
+};
+
+// Exposure updates follow the invoice items, so a failed condition among them means a credit limit was reached
+const exceededCreditLimit = (error: unknown, invoiceCount: number): boolean =>
+  error instanceof TransactionCanceledException &&
+  (error.CancellationReasons || []).slice(invoiceCount * 2).some(reason => reason.Code === 'ConditionalCheckFailed');
+
+// Invoice id -> why it was refused, for invoices without every document type their workspace requires
+const findIncompleteInvoices = async (
+  invoices: SubmittableInvoice[],
+  getChecks: (invoice: InvoiceItem) => Promise<WorkspaceChecks>
+): Promise<Map<string, string>> => {
+  const missingByInvoice = new Map<string, DocumentType[]>();
+  for (const invoice of invoices) {
+    // The invoice PDF column often covers everything, so documents are only loaded when needed
+    const missing = getMissingDocumentTypes(invoice, [], (await getChecks(invoice)).requiredDocumentTypes);
+    if (missing.length > 0) missingByInvoice.set(invoice.id, missing);
+  }
+
+  const documents = await loadInvoiceDocuments([...missingByInvoice.keys()]);
+  const refused = new Map<string, string>();
+  missingByInvoice.forEach((required, id) => {
+    const missing = getMissingDocumentTypes({}, documents.get(id) || [], required);
+    if (missing.length > 0) {
+      refused.set(id, `Invoice is missing required documents: ${missing.map(type => DOCUMENT_TYPE_LABELS[type]).join(', ')}`);
+    }
+  });
+
+  return refused;
+};
+
+// Invoice id -> documents attached to it
+const loadInvoiceDocuments = async (invoiceIds: string[]): Promise<Map<string, { documentType?: string | null }[]>> => {
+  const documents = new Map<string, { documentType?: string | null }[]>();
+
+  await Promise.all(invoiceIds.map(async invoiceId => {
+    let startKey: Record<string, unknown> | undefined;
+    do {
+      const result = await dynamo.send(new QueryCommand({
+        TableName: INVOICE_DOCUMENT_TABLE,
+        IndexName: 'byInvoice',
+        KeyConditionExpression: 'invoiceId = :invoiceId',
+        ExpressionAttributeValues: { ':invoiceId': invoiceId },
+        ProjectionExpression: 'documentType',
+        ExclusiveStartKey: startKey,
+      }));
+      documents.set(invoiceId, [...(documents.get(invoiceId) || []), ...(result.Items || []).map(item => ({ documentType: item.documentType }))]);
+      startKey = result.LastEvaluatedKey;
+    } while (startKey);
+  }));
+
+  return documents;
+};
+
+// Invoice id -> the attached PDF checked against the invoice, or why it could not be checked
+const verifyInvoicePdfs = async (invoices: SubmittableInvoice[]): Promise<Map<string, PdfCheck>> => {
+  const checks = new Map<string, PdfCheck>();
+  const withPdf = invoices.filter(invoice => invoice.pdfS3Key);
+
+  for (let i = 0; i < withPdf.length; i += PDF_VERIFICATION_CONCURRENCY) {
+    await Promise.all(withPdf.slice(i, i + PDF_VERIFICATION_CONCURRENCY).map(async invoice => {
+      checks.set(invoice.id, await verifyStoredPdf(invoice));
+    }));
+  }
+
+  return checks;
+};
+
+// Errors only fail this invoice; the rest of the call goes ahead
+const verifyStoredPdf = async (invoice: SubmittableInvoice): Promise<PdfCheck> => {
+  let data: Uint8Array | undefined;
+  try {
+    const object = await s3.send(new GetObjectCommand({ Bucket: STORAGE_BUCKET, Key: invoice.pdfS3Key! }));
+    data = await object.Body?.transformToByteArray();
+  } catch (error) {
+    if (error instanceof NoSuchKey) return { error: 'Invoice PDF not found in storage' };
+    console.error(`❌ [SUBMIT] Could not download PDF of ${invoice.invoiceId}:`, error);
+    return { error: `Invoice PDF could not be downloaded: ${error instanceof Error ? error.message : 'Unknown error'}` };
+  }
+  if (!data) return { error: 'Invoice PDF not found in storage' };
+
+  try {
+    const result = verifyInvoicePdfText(await extractPdfText(data), invoice);
+    if (result.status !== invoice.pdfVerificationStatus) {
+      console.warn(`🔎 [SUBMIT] PDF of ${invoice.invoiceId} is ${result.status}, browser recorded ${invoice.pdfVerificationStatus}`);
+    }
+    return result;
+  } catch (error) {
+    console.error(`❌ [SUBMIT] Could not read PDF text of ${invoice.invoiceId}:`, error);
+    return { status: 'UNREADABLE', issues: ['The PDF could not be opened to read its text'] };
+  }
+};
+
+const loadWorkspaceChecks = async (invoice: InvoiceItem): Promise<WorkspaceChecks> => {
+  const [settings, sellers, debtors] = await Promise.all([
+    queryWorkspace(WORKSPACE_SETTINGS_TABLE, invoice, { limit: 1 }).then(([settings]) => settings),
+    queryWorkspace(SELLER_TABLE, invoice),
+    queryWorkspace(DEBTOR_TABLE, invoice),
+  ]);
+  return {
+    rules: parseValidationRules(settings?.validationRules) || DEFAULT_VALIDATION_RULES,
+    fundingTerms: parseFundingTerms(settings?.fundingTerms) || DEFAULT_FUNDING_TERMS,
+    requiredDocumentTypes: Array.isArray(settings?.requiredDocumentTypes)
+      ? settings.requiredDocumentTypes.filter(isDocumentType)
+      : DEFAULT_REQUIRED_DOCUMENT_TYPES,
+    debtorCountries: new Map(debtors
+      .filter(debtor => typeof debtor.country === 'string' && debtor.country)
+      .map(debtor => [String(debtor.debtorId).toLowerCase(), String(debtor.country)])),
+    debtorLimits: debtors.map(debtor => ({
+      debtorId: String(debtor.debtorId),
+      legalName: String(debtor.legalName),
+      ...(typeof debtor.creditLimit === 'number' && { creditLimit: debtor.creditLimit }),
+      ...(typeof debtor.defaultCurrency === 'string' && { creditLimitCurrency: debtor.defaultCurrency }),
+      ...(typeof debtor.maxConcentrationPercent === 'number' && { maxConcentrationPercent: debtor.maxConcentrationPercent }),
+    })),
+    registry: buildPartyRegistry(
+      sellers.map(seller => ({ sellerId: String(seller.sellerId), legalName: String(seller.legalName), isActive: seller.isActive === true })),
+      debtors.map(debtor => ({ debtorId: String(debtor.debtorId), legalName: String(debtor.legalName), isActive: debtor.isActive === true }))
+    ),
+  };
+};
+
+// Items of a table that belong to the workspace, read through its byOrganization or byOwner index
+const queryWorkspace = async (
+  tableName: string | undefined,
+  workspace: Workspace,
+  { newestFirst = false, limit, sortKey }: { newestFirst?: boolean; limit?: number; sortKey?: [string, unknown] } = {}
+): Promise<Record<string, unknown>[]> => {
+  const items: Record<string, unknown>[] = [];
+  const [indexName, partitionKey, partitionValue] = workspace.organizationId
+    ? ['byOrganization', 'organizationId', workspace.organizationId]
+    : ['byOwner', 'owner', workspace.owner];
+  let startKey: Record<string, unknown> | undefined;
+
+  do {
+    const result = await dynamo.send(new QueryCommand({
+      TableName: tableName,
+      IndexName: indexName,
+      KeyConditionExpression: sortKey ? '#partition = :partition AND #sort = :sort' : '#partition = :partition',
+      // The owner's organization records share the byOwner index, so only the personal ones are kept
+      FilterExpression: workspace.organizationId ? undefined : 'attribute_not_exists(organizationId)',
+      ExpressionAttributeNames: { '#partition': partitionKey, ...(sortKey && { '#sort': sortKey[0] }) },
+      ExpressionAttributeValues: { ':partition': partitionValue, ...(sortKey && { ':sort': sortKey[1] }) },
+      ScanIndexForward: !newestFirst,
+      // A filtered page may hold no personal items at all, so only unfiltered queries stop early
+      Limit: workspace.organizationId ? limit : undefined,
+      ExclusiveStartKey: startKey,
+    }));
+    items.push(...(result.Items || []));
+    startKey = result.LastEvaluatedKey;
+  } while (startKey && (limit === undefined || items.length < limit));
+
+  return limit === undefined ? items : items.slice(0, limit);
+};
+
+const loadInvoices = async (invoiceIds: string[]): Promise<Map<string, InvoiceItem>> => {
+  const invoices = new Map<string, InvoiceItem>();
+
+  for (let i = 0; i < invoiceIds.length; i += BATCH_GET_LIMIT) {
+    let keys: Record<string, unknown>[] | undefined = invoiceIds
+      .slice(i, i + BATCH_GET_LIMIT)
+      .map(id => ({ id }));
+
+    while (keys && keys.length > 0) {
+      const result: BatchGetCommandOutput = await dynamo.send(new BatchGetCommand({
+        RequestItems: { [INVOICE_TABLE!]: { Keys: keys } },
+      }));
+      (result.Responses?.[INVOICE_TABLE!] || []).forEach(item => invoices.set(item.id, item as InvoiceItem));
+      keys = result.UnprocessedKeys?.[INVOICE_TABLE!]?.Keys;
+    }
+  }
+
+  return invoices;
+};
+
+// The SubmittedInvoice reuses the Invoice id, so a repeated call can never create a second copy
+const moveInvoices = async (
+  invoices: SubmittableInvoice[],
+  { owner, username, submitter }: { owner: string; username: string; submitter: Submitter },
+  submittedAt: string,
+  creditLimits: Map<string, number>,
+  submissionBatchId?: string
+) => {
+  const added = new Map<string, { invoice: SubmittableInvoice; amount: number }>();
+  invoices.forEach(invoice => {
+    const exposureId = getExposureId(invoice);
+    added.set(exposureId, { invoice, amount: (added.get(exposureId)?.amount || 0) + invoice.amount });
+  });
+
+  const exposureUpdates = [...added].map(([exposureId, { invoice, amount }]) => {
+    const creditLimit = creditLimits.get(exposureId);
+    return {
+      Update: {
+        TableName: DEBTOR_EXPOSURE_TABLE!,
+        Key: getExposureKey(invoice),
+        UpdateExpression: 'ADD outstandingAmount :amount SET updatedAt = :now',
+        // Seeded by checkCreditLimits; under a limit, whatever else was submitted meanwhile must leave room for these
+        ConditionExpression: creditLimit === undefined ? 'attribute_exists(workspaceKey)' : 'outstandingAmount <= :available',
+        ExpressionAttributeValues: {
+          ':amount': amount,
+          ':now': submittedAt,
+          ...(creditLimit !== undefined && { ':available': creditLimit - amount }),
+        },
+      },
+    };
+  });
+
+  await dynamo.send(new TransactWriteCommand({
+    TransactItems: [...invoices.flatMap(invoice => [
+      {
+        Put: {
+          TableName: SUBMITTED_INVOICE_TABLE!,
+          Item: {
+            id: invoice.id,
+            __typename: 'SubmittedInvoice',
+            owner,
+            invoiceId: invoice.invoiceId,
+            sellerId: invoice.sellerId,
+            debtorId: invoice.debtorId,
+            currency: invoice.currency,
+            amount: invoice.amount,
+            product: invoice.product,
+            issueDate: invoice.issueDate,
+            dueDate: invoice.dueDate,
+            uploadDate: invoice.uploadDate,
+            submittedDate: submittedAt.split('T')[0],
+            submittedAt,
+            originalUploadJobId: invoice.uploadJobId,
+            originalInvoiceId: invoice.id,
+            // Copy PDF information (S3 files remain untouched)
+            pdfS3Key: invoice.pdfS3Key,
+            pdfFileName: invoice.pdfFileName,
+            pdfUploadedAt: invoice.pdfUploadedAt,
+            pdfS3FullPath: invoice.pdfS3FullPath,
+            pdfSha256: invoice.pdfSha256,
+            editHistory: invoice.editHistory,
+            eligibility: JSON.stringify(invoice.eligibility),
+            pdfVerificationStatus: invoice.pdfVerificationStatus,
+            pdfVerificationIssues: invoice.pdfVerificationIssues,
+            pdfVerifiedAt: invoice.pdfVerifiedAt,
+            submittedBy: submitter.name,
+            submittedBySub: submitter.sub,
+            submittedByEmail: submitter.email,
+            submissionBatchId,
+            organizationId: invoice.organizationId,
+            status: 'SUBMITTED',
+            statusUpdatedAt: submittedAt,
+            statusHistory: [{ toStatus: 'SUBMITTED', changedAt: submittedAt, changedBy: username }],
+            createdAt: submittedAt,
+            updatedAt: submittedAt,
+          },
+          ConditionExpression: 'attribute_not_exists(id)',
+        },
+      },
+      {
+        Delete: {
+          TableName: INVOICE_TABLE!,
+          Key: { id: invoice.id },
+          // Unchanged since we read it, so ownership and organization checks still hold
+          ConditionExpression: 'attribute_exists(id) AND #owner = :owner',
+          ExpressionAttributeNames: { '#owner': 'owner' },
+          ExpressionAttributeValues: { ':owner': invoice.owner },
+        },
+      },
+    ]), ...exposureUpdates],
+  }));
+};
+
+// Allocates the batch number and creates the batch, stamped with who submitted it
+const openSubmissionBatch = async (
+  workspace: Workspace,
+  note: string | undefined,
+  submitter: Submitter
+): Promise<SubmissionBatchRecord> => {
+  const now = new Date().toISOString();
+  const batch: SubmissionBatchRecord = {
+    id: randomUUID(),
+    batchNumber: await allocateBatchNumber(workspace),
+    organizationId: workspace.organizationId || undefined,
+    owner: workspace.owner,
+  };
+
+  await dynamo.send(new PutCommand({
+    TableName: SUBMISSION_BATCH_TABLE!,
+    Item: {
+      ...batch,
+      __typename: 'SubmissionBatch',
+      status: 'IN_PROGRESS',
+      invoiceCount: 0,
+      currencyTotals: JSON.stringify({}),
+      submittedBy: submitter.name,
+      submittedBySub: submitter.sub,
+      submittedByEmail: submitter.email,
+      submittedAt: now,
+      note,
+      createdAt: now,
+      updatedAt: now,
+    },
+    ConditionExpression: 'attribute_not_exists(id)',
+  }));
+
+  console.log('📦 [SUBMIT] Submission batch opened:', { id: batch.id, batchNumber: batch.batchNumber });
+  return batch;
+};
+
+// ADD on the counter item is atomic, so concurrent submissions never get the same number
+const allocateBatchNumber = async (workspace: Workspace): Promise<number> => {
+  const key = { workspaceKey: getWorkspaceKey(workspace) };
+  const counter = await dynamo.send(new GetCommand({ TableName: SUBMISSION_BATCH_COUNTER_TABLE!, Key: key, ConsistentRead: true }));
+
+  if (!counter.Item) {
+    // Workspaces that submitted before the counter existed continue from their highest batch number
+    const [latest] = await queryWorkspace(SUBMISSION_BATCH_TABLE, workspace, { newestFirst: true, limit: 1 });
+    const highest = Number(latest?.batchNumber) || 0;
+    const now = new Date().toISOString();
+    try {
+      await dynamo.send(new PutCommand({
+        TableName: SUBMISSION_BATCH_COUNTER_TABLE!,
+        Item: { ...key, __typename: 'SubmissionBatchCounter', lastBatchNumber: highest, createdAt: now, updatedAt: now },
+        ConditionExpression: 'attribute_not_exists(workspaceKey)',
+      }));
+    } catch (error) {
+      // Another submission created it first
+      if (!(error instanceof ConditionalCheckFailedException)) throw error;
+    }
+  }
+
+  const result = await dynamo.send(new UpdateCommand({
+    TableName: SUBMISSION_BATCH_COUNTER_TABLE!,
+    Key: key,
+    UpdateExpression: 'ADD lastBatchNumber :one SET updatedAt = :now',
+    ExpressionAttributeValues: { ':one': 1, ':now': new Date().toISOString() },
+    ReturnValues: 'UPDATED_NEW',
+  }));
+  return Number(result.Attributes?.lastBatchNumber);
+};
+
+// Later calls of a run may only add to a batch the caller opened
+const loadSubmissionBatch = async (submissionBatchId: string, owner: string): Promise<SubmissionBatchRecord> => {
+  const result = await dynamo.send(new GetCommand({
+    TableName: SUBMISSION_BATCH_TABLE!,
+    Key: { id: submissionBatchId },
+  }));
+  const item = result.Item;
+  if (!item || item.owner !== owner) {
+    throw new Error('Submission batch not found');
+  }
+  return { id: item.id, batchNumber: item.batchNumber, organizationId: item.organizationId, owner: item.owner };
+};
+
+// Totals only count invoices this call moved; any failure so far makes the batch partial, or failed while it is empty
+const recordBatchProgress = async (submissionBatchId: string, moved: SubmittableInvoice[], failedCount: number) => {
+  for (let attempt = 1; ; attempt++) {
+    const { Item: current } = await dynamo.send(new GetCommand({
+      TableName: SUBMISSION_BATCH_TABLE!,
+      Key: { id: submissionBatchId },
+      ConsistentRead: true,
+    }));
+    if (!current) throw new Error('Submission batch not found');
+
+    const totals = parseCurrencyTotals(current.currencyTotals);
+    moved.forEach(invoice => { totals[invoice.currency] = (totals[invoice.currency] || 0) + invoice.amount; });
+    const invoiceCount = (Number(current.invoiceCount) || 0) + moved.length;
+    const hadFailures = failedCount > 0 || current.status === 'PARTIAL' || current.status === 'FAILED';
+    const status = !hadFailures ? 'COMPLETED' : invoiceCount > 0 ? 'PARTIAL' : 'FAILED';
+
+    try {
+      await dynamo.send(new UpdateCommand({
+        TableName: SUBMISSION_BATCH_TABLE!,
+        Key: { id: submissionBatchId },
+        UpdateExpression: 'SET #status = :status, invoiceCount = :invoiceCount, currencyTotals = :totals, updatedAt = :now',
+        // Another call of the run may have updated the batch since it was read
+        ConditionExpression: 'updatedAt = :readAt',
+        ExpressionAttributeNames: { '#status': 'status' },
+        ExpressionAttributeValues: {
+          ':status': status,
+          ':invoiceCount': invoiceCount,
+          ':totals': JSON.stringify(totals),
+          ':now': new Date().toISOString(),
+          ':readAt': current.updatedAt,
+        },
+      }));
+      return;
+    } catch (error) {
+      if (!(error instanceof ConditionalCheckFailedException) || attempt >= BATCH_UPDATE_ATTEMPTS) throw error;
+    }
+  }
+};
+
+// currencyTotals is stored as a JSON string
+const parseCurrencyTotals = (stored: unknown): Record<string, number> => {
+  try {
+    const value = typeof stored === 'string' ? JSON.parse(stored) : stored;
+    return value && typeof value === 'object' ? { ...value } : {};
+  } catch {
+    return {};
+  }
+};
+
+const resolveMissingInvoice = async (
+  id: string,
+  owner: string,
+  groups: string[],
+  invoiceNumber?: string
+): Promise<SubmitInvoiceOutcome> => {
+  const result = await dynamo.send(new GetCommand({
+    TableName: SUBMITTED_INVOICE_TABLE!,
+    Key: { id },
+  }));
+
+  const item = result.Item;
+  if (item && (item.owner === owner || (item.organizationId && groups.includes(item.organizationId)))) {
+    return {
+      invoiceId: id,
+      invoiceNumber: item.invoiceId,
+      status: 'ALREADY_SUBMITTED',
+      submittedInvoiceId: id,
+    };
+  }
+
+  return failed(id, invoiceNumber ? 'Invoice changed during submission, please retry' : 'Invoice not found', invoiceNumber);
+};
+
+const submitted = (invoice: InvoiceItem): SubmitInvoiceOutcome => ({
+  invoiceId: invoice.id,
+  invoiceNumber: invoice.invoiceId,
+  status: 'SUBMITTED',
+  submittedInvoiceId: invoice.id,
+});
+
+const failed = (id: string, error: string, invoiceNumber?: string): SubmitInvoiceOutcome => ({
+  invoiceId: id,
+  invoiceNumber,
+  status: 'FAILED',
+  error,
+});
@@ -0,0 +1,10 @@
+// amplify/functions/submit-invoice-batch/pdfText.ts - Read an invoice PDF's text layer in Node with pdf.js
+import { getDocument } from 'pdfjs-dist/legacy/build/pdf.mjs';
+import * as pdfWorker from 'pdfjs-dist/legacy/build/pdf.worker.mjs';
+import { readPdfText } from '../../../shared/invoiceDocuments/pdfText';
+
+// The bundled function cannot load the worker file, so pdf.js runs it on the main thread
+(globalThis as { pdfjsWorker?: unknown }).pdfjsWorker = pdfWorker;
+
+export const extractPdfText = async (data: Uint8Array): Promise<string> =>
+  readPdfText(await getDocument({ data, isEvalSupported: false, verbosity: 0 }).promise);
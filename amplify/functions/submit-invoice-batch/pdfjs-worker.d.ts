@@ -0,0 +1,4 @@
+// amplify/functions/submit-invoice-batch/pdfjs-worker.d.ts - pdf.js ships no types for its worker module
+declare module 'pdfjs-dist/legacy/build/pdf.worker.mjs' {
+  export const WorkerMessageHandler: unknown;
+}
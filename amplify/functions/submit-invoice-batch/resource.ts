@@ -0,0 +1,10 @@
+// amplify/functions/submit-invoice-batch/resource.ts - Moves working invoices into SubmittedInvoice in one operation
+import { defineFunction } from '@aws-amplify/backend';
+
+export const submitInvoiceBatch = defineFunction({
+  name: 'submit-invoice-batch',
+  entry: './handler.ts',
+  timeoutSeconds: 30, // AppSync gives resolvers 30 seconds
+  memoryMB: 1024, // pdf.js reads up to ten invoice PDFs at once; more memory also means more CPU
+  resourceGroupName: 'data',
+});
@@ -0,0 +1,46 @@
+// amplify/functions/submit-invoice-batch/submitter.ts - Resolve who is submitting from Cognito, not from client input
+import { CognitoIdentityProviderClient, AdminGetUserCommand } from '@aws-sdk/client-cognito-identity-provider';
+import type { AppSyncIdentityCognito } from 'aws-lambda';
+
+const cognito = new CognitoIdentityProviderClient();
+
+export interface Submitter {
+  sub: string;
+  username: string;
+  email?: string;
+  name: string; // Display name shown in the submitted invoice views
+}
+
+// Warm containers serve the same users repeatedly
+const submitterCache = new Map<string, Submitter>();
+
+export const resolveSubmitter = async (identity: AppSyncIdentityCognito): Promise<Submitter> => {
+  const cached = submitterCache.get(identity.sub);
+  if (cached) return cached;
+
+  const attributes: Record<string, string> = {};
+  try {
+    const user = await cognito.send(new AdminGetUserCommand({
+      UserPoolId: process.env.AMPLIFY_AUTH_USERPOOL_ID,
+      Username: identity.username,
+    }));
+    (user.UserAttributes || []).forEach(({ Name, Value }) => {
+      if (Name && Value) attributes[Name] = Value;
+    });
+  } catch (error) {
+    // Claims still identify the caller; only the friendly name is lost
+    console.warn('⚠️ [SUBMIT] Could not look up submitter attributes:', error);
+  }
+
+  const email = attributes.email || (identity.claims?.email as string | undefined);
+  const fullName = [attributes.given_name, attributes.family_name].filter(Boolean).join(' ');
+  const submitter: Submitter = {
+    sub: identity.sub,
+    username: identity.username,
+    email,
+    name: attributes.name || fullName || email || identity.username,
+  };
+
+  submitterCache.set(identity.sub, submitter);
+  return submitter;
+};
@@ -0,0 +1,133 @@
+// amplify/functions/transition-invoice-status/handler.ts - Validate and apply one lifecycle status change
+import { DynamoDBClient, ConditionalCheckFailedException, TransactionCanceledException } from '@aws-sdk/client-dynamodb';
+import { DynamoDBDocumentClient, GetCommand, TransactWriteCommand, UpdateCommand } from '@aws-sdk/lib-dynamodb';
+import type { TransactWriteCommandInput } from '@aws-sdk/lib-dynamodb';
+import type { AppSyncIdentityCognito } from 'aws-lambda';
+import type { Schema } from '../../data/resource';
+import { STATUS_LABELS, canTransition, getInvoiceStatus } from '../../../shared/invoiceLifecycle/statusMachine';
+import { isOutstanding } from '../../../shared/masterData/creditExposure';
+
+type Handler = Schema["transitionSubmittedInvoiceStatus"]["functionHandler"];
+type SubmittedInvoice = Schema["SubmittedInvoice"]["type"];
+type TransactUpdate = NonNullable<NonNullable<TransactWriteCommandInput['TransactItems']>[number]['Update']>;
+
+const dynamo = DynamoDBDocumentClient.from(new DynamoDBClient(), {
+  marshallOptions: { removeUndefinedValues: true },
+});
+
+const SUBMITTED_INVOICE_TABLE = process.env.SUBMITTED_INVOICE_TABLE_NAME;
+const DEBTOR_EXPOSURE_TABLE = process.env.DEBTOR_EXPOSURE_TABLE_NAME;
+const REVIEW_GROUPS = ['REVIEWER', 'ADMIN'];
+const STATUS_CONFLICT = 'Invoice status was changed by someone else, please refresh and try again';
+
+export const handler: Handler = async (event) => {
+  if (!SUBMITTED_INVOICE_TABLE || !DEBTOR_EXPOSURE_TABLE) {
+    throw new Error('Submitted invoice table names are not configured');
+  }
+
+  const identity = event.identity as AppSyncIdentityCognito | null | undefined;
+  // The mutation is limited to these groups already; checked again so the function is safe on its own
+  if (!identity?.username || !identity.groups?.some(group => REVIEW_GROUPS.includes(group))) {
+    throw new Error('Unauthorized: only reviewers and admins can change invoice status');
+  }
+
+  const { submittedInvoiceId, toStatus, note } = event.arguments;
+
+  const current = await dynamo.send(new GetCommand({
+    TableName: SUBMITTED_INVOICE_TABLE,
+    Key: { id: submittedInvoiceId },
+  }));
+
+  if (!current.Item) {
+    throw new Error('Submitted invoice not found');
+  }
+
+  const fromStatus = getInvoiceStatus(current.Item.status);
+  if (!canTransition(fromStatus, toStatus)) {
+    throw new Error(`Illegal status transition: ${STATUS_LABELS[fromStatus]} → ${STATUS_LABELS[toStatus]}`);
+  }
+
+  const changedAt = new Date().toISOString();
+  console.log('🔁 [STATUS] Transition:', { submittedInvoiceId, fromStatus, toStatus });
+
+  const statusUpdate: TransactUpdate = {
+    TableName: SUBMITTED_INVOICE_TABLE,
+    Key: { id: submittedInvoiceId },
+    UpdateExpression: 'SET #status = :toStatus, statusUpdatedAt = :changedAt, updatedAt = :changedAt, ' +
+      'statusHistory = list_append(if_not_exists(statusHistory, :emptyList), :entry)',
+    // Fails if someone else changed the status since we read it
+    ConditionExpression: current.Item.status
+      ? '#status = :fromStatus'
+      : 'attribute_not_exists(#status)',
+    ExpressionAttributeNames: { '#status': 'status' },
+    ExpressionAttributeValues: {
+      ':toStatus': toStatus,
+      ':changedAt': changedAt,
+      ':emptyList': [],
+      ':entry': [{
+        fromStatus,
+        toStatus,
+        changedAt,
+        changedBy: identity.username,
+        note: note || undefined,
+      }],
+      ...(current.Item.status && { ':fromStatus': current.Item.status }),
+    },
+  };
+
+  // Rejected, settled and written-off invoices free their debtor's credit for new submissions
+  if (isOutstanding(fromStatus) && !isOutstanding(toStatus) && await releaseExposure(statusUpdate, current.Item, changedAt)) {
+    const updated = await dynamo.send(new GetCommand({
+      TableName: SUBMITTED_INVOICE_TABLE,
+      Key: { id: submittedInvoiceId },
+      ConsistentRead: true,
+    }));
+    return updated.Item as SubmittedInvoice;
+  }
+
+  try {
+    const result = await dynamo.send(new UpdateCommand({ ...statusUpdate, ReturnValues: 'ALL_NEW' }));
+    return result.Attributes as SubmittedInvoice;
+  } catch (error) {
+    if (error instanceof ConditionalCheckFailedException) {
+      throw new Error(STATUS_CONFLICT);
+    }
+    throw error;
+  }
+};
+
+// Applies the status change together with the exposure release. False when the debtor has no exposure
+// counter yet; submitInvoiceBatch seeds it from the current statuses when it first needs it
+const releaseExposure = async (
+  statusUpdate: TransactUpdate,
+  invoice: Record<string, unknown>,
+  changedAt: string
+): Promise<boolean> => {
+  try {
+    await dynamo.send(new TransactWriteCommand({
+      TransactItems: [
+        { Update: statusUpdate },
+        {
+          Update: {
+            TableName: DEBTOR_EXPOSURE_TABLE,
+            // Same key as submitInvoiceBatch uses
+            Key: {
+              workspaceKey: invoice.organizationId || invoice.owner,
+              debtorKey: `${String(invoice.debtorId).toLowerCase()}|${invoice.currency}`,
+            },
+            UpdateExpression: 'ADD outstandingAmount :amount SET updatedAt = :now',
+            ConditionExpression: 'attribute_exists(workspaceKey)',
+            ExpressionAttributeValues: { ':amount': -(Number(invoice.amount) || 0), ':now': changedAt },
+          },
+        },
+      ],
+    }));
+    return true;
+  } catch (error) {
+    if (!(error instanceof TransactionCanceledException)) throw error;
+    const [statusReason, exposureReason] = error.CancellationReasons || [];
+    if (statusReason?.Code === 'ConditionalCheckFailed') throw new Error(STATUS_CONFLICT);
+    if (exposureReason?.Code === 'ConditionalCheckFailed') return false;
+    throw error;
+  }
+};
@@ -0,0 +1,8 @@
+// amplify/functions/transition-invoice-status/resource.ts - Enforces the submitted invoice lifecycle
+import { defineFunction } from '@aws-amplify/backend';
+
+export const transitionInvoiceStatus = defineFunction({
+  name: 'transition-invoice-status',
+  entry: './handler.ts',
+  resourceGroupName: 'data',
+});
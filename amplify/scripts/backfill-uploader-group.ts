@@ -0,0 +1,72 @@
+// amplify/scripts/backfill-uploader-group.ts - One-off: put accounts confirmed before the post-confirmation trigger in UPLOADER
+//
+// Run once per environment after deploying the role groups, with credentials that may administer the user pool:
+//   npm run backfill:uploaders                      (user pool and region from amplify_outputs.json)
+//   npm run backfill:uploaders -- <userPoolId> <region>
+// Add --dry-run to only list the accounts that would be changed. Accounts already in any role group are left alone.
+import { readFileSync } from 'node:fs';
+import {
+  AdminAddUserToGroupCommand,
+  AdminListGroupsForUserCommand,
+  CognitoIdentityProviderClient,
+  ListUsersCommand,
+} from '@aws-sdk/client-cognito-identity-provider';
+
+// Keep in sync with the groups in amplify/auth/resource.ts
+const ROLE_GROUPS = ['UPLOADER', 'REVIEWER', 'ADMIN'];
+const DEFAULT_GROUP = 'UPLOADER';
+
+const readOutputs = (): { user_pool_id?: string; aws_region?: string } => {
+  try {
+    return JSON.parse(readFileSync(new URL('../../amplify_outputs.json', import.meta.url), 'utf8')).auth || {};
+  } catch {
+    return {};
+  }
+};
+
+const args = process.argv.slice(2);
+const dryRun = args.includes('--dry-run');
+const [userPoolIdArg, regionArg] = args.filter(arg => !arg.startsWith('--'));
+const outputs = readOutputs();
+const userPoolId = userPoolIdArg || outputs.user_pool_id;
+const region = regionArg || outputs.aws_region;
+
+if (!userPoolId || !region) {
+  console.error('❌ [BACKFILL] No user pool: pass <userPoolId> <region> or run next to amplify_outputs.json');
+  process.exit(1);
+}
+
+const cognito = new CognitoIdentityProviderClient({ region });
+
+const hasRoleGroup = async (username: string): Promise<boolean> => {
+  let nextToken: string | undefined;
+  do {
+    const result = await cognito.send(new AdminListGroupsForUserCommand({ UserPoolId: userPoolId, Username: username, NextToken: nextToken }));
+    if ((result.Groups || []).some(group => group.GroupName && ROLE_GROUPS.includes(group.GroupName))) return true;
+    nextToken = result.NextToken;
+  } while (nextToken);
+  return false;
+};
+
+let checked = 0;
+let added = 0;
+let paginationToken: string | undefined;
+
+do {
+  const page = await cognito.send(new ListUsersCommand({ UserPoolId: userPoolId, PaginationToken: paginationToken }));
+  for (const user of page.Users || []) {
+    // Unconfirmed accounts get the group from the trigger once they confirm
+    if (!user.Username || user.UserStatus === 'UNCONFIRMED') continue;
+    checked++;
+    if (await hasRoleGroup(user.Username)) continue;
+
+    if (!dryRun) {
+      await cognito.send(new AdminAddUserToGroupCommand({ UserPoolId: userPoolId, Username: user.Username, GroupName: DEFAULT_GROUP }));
+    }
+    added++;
+    console.log(`👥 [BACKFILL] ${dryRun ? 'Would add' : 'Added'} ${user.Username} to ${DEFAULT_GROUP}`);
+  }
+  paginationToken = page.PaginationToken;
+} while (paginationToken);
+
+console.log(`✅ [BACKFILL] ${checked} confirmed accounts checked, ${added} ${dryRun ? 'to add' : 'added'} to ${DEFAULT_GROUP}`);
@@ -1,13 +1,25 @@
 // amplify/storage/resource.ts - SIMPLIFIED
 import { defineStorage } from '@aws-amplify/backend';
+import { processInvoiceUpload } from '../functions/process-invoice-upload/resource';
+import { manageOrganization } from '../functions/manage-organization/resource';
+import { submitInvoiceBatch } from '../functions/submit-invoice-batch/resource';
 
 export const storage = defineStorage({
   name: 'dataRoomStorage',
   access: (allow) => ({
-    // User-specific data room folders - each user can only access their own files
+    // User-specific data room folders - each user can only change their own files.
+    // Organization files live under user-files/{identity}/organizations/{orgId}/ and
+    // teammates read them through signed URLs from the manage-organization function.
     'user-files/{entity_id}/*': [
-      allow.entity('identity').to(['read', 'write', 'delete'])
+      allow.entity('identity').to(['read', 'write', 'delete']),
+      allow.groups(['REVIEWER', 'ADMIN']).to(['read']), // ✅ Reviewers open submitted invoice PDFs from any uploader
+      allow.resource(processInvoiceUpload).to(['read']),
+      allow.resource(manageOrganization).to(['read']),
+      allow.resource(submitInvoiceBatch).to(['read']) // ✅ Invoice PDFs are verified again on submission
     ]
-  })
-  // ✅ No triggers needed - processing happens in frontend
-});
\ No newline at end of file
+  }),
+  // ✅ Invoice files are processed server-side as soon as they land in S3
+  triggers: {
+    onUpload: processInvoiceUpload,
+  },
+});
@@ -0,0 +1,39 @@
+// shared/invoiceDocuments/documentTypes.ts - Supporting document types and the per-workspace submission requirements
+
+// Keep in sync with the DocumentType enum in amplify/data/resource.ts
+export const DOCUMENT_TYPES = [
+  'INVOICE_PDF',
+  'PROOF_OF_DELIVERY',
+  'PURCHASE_ORDER',
+  'CONTRACT',
+  'CREDIT_NOTE',
+  'OTHER',
+] as const;
+
+export type DocumentType = typeof DOCUMENT_TYPES[number];
+
+export const DOCUMENT_TYPE_LABELS: Record<DocumentType, string> = {
+  INVOICE_PDF: 'Invoice PDF',
+  PROOF_OF_DELIVERY: 'Proof of Delivery',
+  PURCHASE_ORDER: 'Purchase Order',
+  CONTRACT: 'Contract',
+  CREDIT_NOTE: 'Credit Note',
+  OTHER: 'Other',
+};
+
+// What submission has always required when a workspace has no settings yet
+export const DEFAULT_REQUIRED_DOCUMENT_TYPES: DocumentType[] = ['INVOICE_PDF'];
+
+export const isDocumentType = (value: unknown): value is DocumentType =>
+  typeof value === 'string' && (DOCUMENT_TYPES as readonly string[]).includes(value);
+
+// The invoice PDF column (pdfS3Key) predates typed documents and still satisfies INVOICE_PDF
+export const getMissingDocumentTypes = (
+  invoice: { pdfS3Key?: string | null },
+  documents: { documentType?: string | null }[],
+  requiredTypes: DocumentType[]
+): DocumentType[] => {
+  const present = new Set(documents.map(document => document.documentType));
+  if (invoice.pdfS3Key) present.add('INVOICE_PDF');
+  return requiredTypes.filter(type => !present.has(type));
+};
@@ -0,0 +1,20 @@
+// shared/invoiceDocuments/pdfText.ts - Read the text layer of a PDF opened with pdf.js (browser or Node)
+import type { PDFDocumentProxy } from 'pdfjs-dist';
+
+// Invoice numbers and totals sit on the first pages; long annexes are not worth reading
+const DEFAULT_MAX_PAGES = 3;
+
+// Scanned PDFs have no text layer and come back as an empty string. The document is destroyed afterwards.
+export const readPdfText = async (pdf: PDFDocumentProxy, maxPages = DEFAULT_MAX_PAGES): Promise<string> => {
+  try {
+    const pages: string[] = [];
+    for (let pageNumber = 1; pageNumber <= Math.min(pdf.numPages, maxPages); pageNumber++) {
+      const page = await pdf.getPage(pageNumber);
+      const content = await page.getTextContent();
+      pages.push(content.items.map(item => ('str' in item ? item.str : '')).join(' '));
+    }
+    return pages.join('\n').replace(/[ \t]+/g, ' ');
+  } finally {
+    await pdf.destroy();
+  }
+};
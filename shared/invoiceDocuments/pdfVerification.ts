@@ -0,0 +1,143 @@
+// shared/invoiceDocuments/pdfVerification.ts - Cross-check an invoice PDF's text against its Invoice record
+
+// Keep in sync with the PdfVerificationStatus enum in amplify/data/resource.ts
+export const PDF_VERIFICATION_STATUSES = ['VERIFIED', 'MISMATCH', 'NO_TEXT', 'UNREADABLE'] as const;
+
+export type PdfVerificationStatus = typeof PDF_VERIFICATION_STATUSES[number];
+
+export const PDF_VERIFICATION_LABELS: Record<PdfVerificationStatus, string> = {
+  VERIFIED: '✔ Verified',
+  MISMATCH: '⚠ Mismatch',
+  NO_TEXT: '• No text layer',
+  UNREADABLE: '✖ Unreadable',
+};
+
+export interface PdfVerificationResult {
+  status: PdfVerificationStatus;
+  issues: string[];
+}
+
+export interface VerifiableInvoice {
+  invoiceId: string;
+  amount: number;
+  currency: string;
+  dueDate: string; // YYYY-MM-DD
+}
+
+const PDF_SIGNATURE = [0x25, 0x50, 0x44, 0x46, 0x2d]; // "%PDF-"
+
+// Readers accept the header anywhere in the first 1024 bytes
+export const PDF_SIGNATURE_WINDOW = 1024;
+
+export const hasPdfSignature = (bytes: Uint8Array): boolean => {
+  const limit = Math.min(bytes.length, PDF_SIGNATURE_WINDOW) - PDF_SIGNATURE.length;
+  for (let offset = 0; offset <= limit; offset++) {
+    if (PDF_SIGNATURE.every((byte, i) => bytes[offset + i] === byte)) return true;
+  }
+  return false;
+};
+
+const isWordChar = (char: string | undefined): boolean => !!char && /[a-z0-9]/i.test(char);
+
+// INV-1 must not match inside INV-10, but may sit between separators such as "scan_INV-1.pdf"
+export const containsInvoiceId = (haystack: string, invoiceId: string): boolean => {
+  const text = haystack.toLowerCase();
+  const needle = invoiceId.toLowerCase();
+  if (!needle) return false;
+
+  let index = text.indexOf(needle);
+  while (index !== -1) {
+    if (!isWordChar(text[index - 1]) && !isWordChar(text[index + needle.length])) return true;
+    index = text.indexOf(needle, index + 1);
+  }
+  return false;
+};
+
+const escapeRegExp = (value: string): string => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// A number or date may not be glued to other digits: 1,234.56 is not inside 11,234.567
+const containsNumberToken = (text: string, token: string): boolean =>
+  new RegExp(`(?<![\\d.,])${escapeRegExp(token)}(?!\\d|[.,]\\d)`, 'i').test(text);
+
+const groupThousands = (digits: string, separator: string): string =>
+  digits.replace(/\B(?=(\d{3})+(?!\d))/g, separator);
+
+// Every common way of printing the amount: 1,234.56 / 1.234,56 / 1 234,56 / 1'234.56 / 1234.56
+const formatAmountVariants = (amount: number): string[] => {
+  const [whole, cents] = Math.abs(amount).toFixed(2).split('.');
+  const variants = new Set<string>();
+
+  [',', '.', ' ', "'", ''].forEach(group => {
+    ['.', ','].filter(decimal => decimal !== group).forEach(decimal => {
+      variants.add(`${groupThousands(whole, group)}${decimal}${cents}`);
+    });
+    // Whole amounts are often printed without cents, and JPY never has any
+    if (cents === '00') variants.add(groupThousands(whole, group));
+  });
+
+  return [...variants];
+};
+
+const MONTHS = ['January', 'February', 'March', 'April', 'May', 'June', 'July', 'August', 'September', 'October', 'November', 'December'];
+
+const formatDateVariants = (isoDate: string): string[] => {
+  const [year, month, day] = isoDate.split('-');
+  if (!year || !month || !day) return [isoDate];
+
+  const d = String(Number(day));
+  const m = String(Number(month));
+  const longMonth = MONTHS[Number(month) - 1] || '';
+  const shortMonth = longMonth.slice(0, 3);
+
+  return [
+    `${year}-${month}-${day}`,
+    `${year}/${month}/${day}`,
+    ...[[day, month], [d, m]].flatMap(([dd, mm]) => [
+      `${dd}/${mm}/${year}`, `${mm}/${dd}/${year}`, `${dd}.${mm}.${year}`, `${dd}-${mm}-${year}`,
+    ]),
+    ...[longMonth, shortMonth].flatMap(name => [
+      `${d} ${name} ${year}`, `${day} ${name} ${year}`, `${name} ${d}, ${year}`, `${name} ${d} ${year}`, `${d}-${name}-${year}`,
+    ]),
+  ];
+};
+
+const CURRENCY_SYMBOLS: Record<string, string[]> = {
+  USD: ['$', 'US$'],
+  EUR: ['€'],
+  GBP: ['£'],
+  JPY: ['¥', '円'],
+  CAD: ['C$', 'CA$'],
+  AUD: ['A$', 'AU$'],
+  CHF: ['Fr.', 'SFr.'],
+  CNY: ['¥', '元', 'RMB'],
+};
+
+const containsCurrency = (text: string, currency: string): boolean =>
+  containsInvoiceId(text, currency) || (CURRENCY_SYMBOLS[currency.toUpperCase()] || []).some(symbol => text.includes(symbol));
+
+// Text layers break lines and use non-breaking or narrow spaces inside numbers; \s covers all of them
+const normalizeText = (text: string): string => text.replace(/\s+/g, ' ');
+
+export const verifyInvoicePdfText = (rawText: string, invoice: VerifiableInvoice): PdfVerificationResult => {
+  const text = normalizeText(rawText);
+  if (!text.trim()) {
+    return { status: 'NO_TEXT', issues: ['The PDF has no text layer, so its content could not be checked'] };
+  }
+
+  const issues: string[] = [];
+
+  if (!containsInvoiceId(text, invoice.invoiceId)) {
+    issues.push(`Invoice number ${invoice.invoiceId} not found in the document`);
+  }
+  if (!formatAmountVariants(invoice.amount).some(variant => containsNumberToken(text, variant))) {
+    issues.push(`Amount ${Math.abs(invoice.amount).toFixed(2)} not found in the document`);
+  }
+  if (!containsCurrency(text, invoice.currency)) {
+    issues.push(`Currency ${invoice.currency} not found in the document`);
+  }
+  if (!formatDateVariants(invoice.dueDate).some(variant => containsNumberToken(text, variant))) {
+    issues.push(`Due date ${invoice.dueDate} not found in the document`);
+  }
+
+  return { status: issues.length === 0 ? 'VERIFIED' : 'MISMATCH', issues };
+};
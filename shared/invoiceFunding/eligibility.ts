@@ -0,0 +1,233 @@
+// shared/invoiceFunding/eligibility.ts - Eligibility score, advance and discount fee of an invoice under a workspace's funding terms
+
+// Per-workspace terms, stored as JSON on WorkspaceSettings.fundingTerms
+export interface FundingTerms {
+  advanceRatePercent: number; // Share of the eligible amount paid out up front
+  annualDiscountRatePercent: number; // Fee = advance × rate × days to due / dayCountBasis
+  dayCountBasis: 360 | 365;
+  maxTenorDays?: number; // Issue date to due date
+  minDaysToDue?: number;
+  maxDaysToDue?: number;
+  minAmount?: number; // In the invoice's currency
+  maxAmount?: number;
+  excludedDebtorCountries: string[]; // ISO 3166-1 alpha-2
+}
+
+export const DEFAULT_FUNDING_TERMS: FundingTerms = {
+  advanceRatePercent: 80,
+  annualDiscountRatePercent: 12,
+  dayCountBasis: 360,
+  maxTenorDays: 180,
+  excludedDebtorCountries: [],
+};
+
+export const DAY_COUNT_BASES: FundingTerms['dayCountBasis'][] = [360, 365];
+
+export interface EligibilityInvoice {
+  amount: number;
+  issueDate: string;
+  dueDate: string;
+  debtorCountry?: string; // From the debtor registry, when the debtor is registered
+}
+
+export interface EligibilityCheck {
+  id: 'tenor' | 'not-overdue' | 'days-to-due' | 'amount' | 'debtor-country';
+  label: string;
+  passed: boolean;
+  detail: string;
+}
+
+export interface InvoiceEligibility {
+  eligible: boolean; // Every check passed
+  score: number; // Share of checks passed, 0-100
+  checks: EligibilityCheck[];
+  tenorDays: number;
+  daysToDue: number;
+  eligibleAmount: number;
+  advanceAmount: number;
+  feeAmount: number;
+  netAmount: number; // Advance less the discount fee
+  advanceRatePercent: number;
+  annualDiscountRatePercent: number;
+  dayCountBasis: number;
+  evaluatedOn: string; // YYYY-MM-DD the days were counted from
+}
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+
+const round2 = (value: number): number => Math.round(value * 100) / 100;
+
+// Midnight UTC of a calendar date, so the browser and the submit function count the same days in any time zone
+const toUtcDay = (date: string | Date): number => {
+  if (typeof date === 'string') {
+    const match = /^(\d{4})-(\d{2})-(\d{2})/.exec(date);
+    if (!match) return NaN;
+    return Date.UTC(Number(match[1]), Number(match[2]) - 1, Number(match[3]));
+  }
+  return Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate());
+};
+
+// Tenor: Due Date - Issue Date
+export const calculateMaturityDays = (issueDate: string, dueDate: string): number =>
+  Math.round((toUtcDay(dueDate) - toUtcDay(issueDate)) / DAY_MS);
+
+// Days to due date: Due Date - Today's Date, both as UTC calendar dates
+export const calculateDaysToDueDate = (dueDate: string, today: Date = new Date()): number =>
+  Math.round((toUtcDay(dueDate) - toUtcDay(today)) / DAY_MS);
+
+const isNonNegative = (value: unknown): boolean => typeof value === 'number' && Number.isFinite(value) && value >= 0;
+
+// Problems with a set of terms; empty when they can be saved
+export const checkFundingTerms = (terms: FundingTerms): string[] => {
+  const problems: string[] = [];
+  if (!isNonNegative(terms.advanceRatePercent) || terms.advanceRatePercent > 100) {
+    problems.push('Advance rate must be a percentage between 0 and 100');
+  }
+  if (!isNonNegative(terms.annualDiscountRatePercent) || terms.annualDiscountRatePercent > 100) {
+    problems.push('Annual discount rate must be a percentage between 0 and 100');
+  }
+  if (!DAY_COUNT_BASES.includes(terms.dayCountBasis)) {
+    problems.push('Day count basis must be 360 or 365');
+  }
+  (['maxTenorDays', 'minDaysToDue', 'maxDaysToDue', 'minAmount', 'maxAmount'] as const).forEach(key => {
+    if (terms[key] !== undefined && !isNonNegative(terms[key])) {
+      problems.push(`${key} must be a positive number`);
+    }
+  });
+  if (terms.minDaysToDue !== undefined && terms.maxDaysToDue !== undefined && terms.minDaysToDue > terms.maxDaysToDue) {
+    problems.push('Minimum days to due date is above the maximum');
+  }
+  if (terms.minAmount !== undefined && terms.maxAmount !== undefined && terms.minAmount > terms.maxAmount) {
+    problems.push('Minimum amount is above the maximum');
+  }
+  if (!Array.isArray(terms.excludedDebtorCountries) ||
+    terms.excludedDebtorCountries.some(country => typeof country !== 'string' || !/^[A-Z]{2}$/.test(country))) {
+    problems.push('Excluded debtor countries must be two-letter ISO codes');
+  }
+  return problems;
+};
+
+// a.json() fields come back as a JSON string or an object depending on the code path
+export const parseFundingTerms = (stored: unknown): FundingTerms | null => {
+  try {
+    const value = typeof stored === 'string' ? JSON.parse(stored) : stored;
+    if (!value || typeof value !== 'object' || Array.isArray(value)) return null;
+    const terms = value as FundingTerms;
+    return checkFundingTerms(terms).length === 0 ? terms : null;
+  } catch {
+    return null;
+  }
+};
+
+export const evaluateEligibility = (
+  invoice: EligibilityInvoice,
+  terms: FundingTerms,
+  today: Date = new Date()
+): InvoiceEligibility => {
+  const tenorDays = calculateMaturityDays(invoice.issueDate, invoice.dueDate);
+  const daysToDue = calculateDaysToDueDate(invoice.dueDate, today);
+  const checks: EligibilityCheck[] = [];
+
+  checks.push({
+    id: 'tenor',
+    label: 'Tenor',
+    passed: tenorDays > 0 && (terms.maxTenorDays === undefined || tenorDays <= terms.maxTenorDays),
+    detail: terms.maxTenorDays !== undefined ? `${tenorDays} days (max ${terms.maxTenorDays})` : `${tenorDays} days`,
+  });
+  checks.push({
+    id: 'not-overdue',
+    label: 'Not overdue',
+    passed: daysToDue >= 0,
+    detail: daysToDue >= 0 ? `Due in ${daysToDue} days` : `Overdue by ${-daysToDue} days`,
+  });
+  if (terms.minDaysToDue !== undefined || terms.maxDaysToDue !== undefined) {
+    checks.push({
+      id: 'days-to-due',
+      label: 'Days to due date',
+      passed: (terms.minDaysToDue === undefined || daysToDue >= terms.minDaysToDue) &&
+        (terms.maxDaysToDue === undefined || daysToDue <= terms.maxDaysToDue),
+      detail: `${daysToDue} days (${terms.minDaysToDue ?? 0}–${terms.maxDaysToDue ?? '∞'})`,
+    });
+  }
+  if (terms.minAmount !== undefined || terms.maxAmount !== undefined) {
+    checks.push({
+      id: 'amount',
+      label: 'Amount',
+      passed: (terms.minAmount === undefined || invoice.amount >= terms.minAmount) &&
+        (terms.maxAmount === undefined || invoice.amount <= terms.maxAmount),
+      detail: `${invoice.amount} (${terms.minAmount ?? 0}–${terms.maxAmount ?? '∞'})`,
+    });
+  }
+  if (terms.excludedDebtorCountries.length > 0) {
+    // Unregistered debtors have no country on file; they are not held against the invoice
+    const country = invoice.debtorCountry?.toUpperCase();
+    checks.push({
+      id: 'debtor-country',
+      label: 'Debtor country',
+      passed: !country || !terms.excludedDebtorCountries.includes(country),
+      detail: country ? `${country}${terms.excludedDebtorCountries.includes(country) ? ' is excluded' : ''}` : 'Unknown',
+    });
+  }
+
+  const passedCount = checks.filter(check => check.passed).length;
+  const eligible = passedCount === checks.length;
+  const eligibleAmount = eligible ? invoice.amount : 0;
+  const advanceAmount = round2(eligibleAmount * terms.advanceRatePercent / 100);
+  const feeAmount = round2(advanceAmount * (terms.annualDiscountRatePercent / 100) * Math.max(daysToDue, 0) / terms.dayCountBasis);
+
+  return {
+    eligible,
+    score: Math.round((passedCount / checks.length) * 100),
+    checks,
+    tenorDays,
+    daysToDue,
+    eligibleAmount,
+    advanceAmount,
+    feeAmount,
+    netAmount: round2(advanceAmount - feeAmount),
+    advanceRatePercent: terms.advanceRatePercent,
+    annualDiscountRatePercent: terms.annualDiscountRatePercent,
+    dayCountBasis: terms.dayCountBasis,
+    evaluatedOn: today.toISOString().split('T')[0],
+  };
+};
+
+export interface FundingSummary {
+  invoiceCount: number;
+  eligibleCount: number;
+  faceAmount: number;
+  eligibleAmount: number;
+  advanceAmount: number;
+  feeAmount: number;
+  netAmount: number;
+}
+
+// Totals per currency; amounts in different currencies are never added up
+export const summarizeFunding = (
+  results: { currency: string; amount: number; eligibility: InvoiceEligibility }[]
+): Record<string, FundingSummary> =>
+  results.reduce((totals, { currency, amount, eligibility }) => {
+    const summary = totals[currency] || {
+      invoiceCount: 0, eligibleCount: 0, faceAmount: 0, eligibleAmount: 0, advanceAmount: 0, feeAmount: 0, netAmount: 0,
+    };
+    totals[currency] = {
+      invoiceCount: summary.invoiceCount + 1,
+      eligibleCount: summary.eligibleCount + (eligibility.eligible ? 1 : 0),
+      faceAmount: round2(summary.faceAmount + amount),
+      eligibleAmount: round2(summary.eligibleAmount + eligibility.eligibleAmount),
+      advanceAmount: round2(summary.advanceAmount + eligibility.advanceAmount),
+      feeAmount: round2(summary.feeAmount + eligibility.feeAmount),
+      netAmount: round2(summary.netAmount + eligibility.netAmount),
+    };
+    return totals;
+  }, {} as Record<string, FundingSummary>);
+
+// Stored eligibility of a submitted invoice; null for invoices submitted before scoring existed
+export const parseStoredEligibility = (stored: unknown): InvoiceEligibility | null => {
+  try {
+    const value = typeof stored === 'string' ? JSON.parse(stored) : stored;
+    return value && typeof value === 'object' && typeof value.score === 'number' ? value as InvoiceEligibility : null;
+  } catch {
+    return null;
+  }
+};
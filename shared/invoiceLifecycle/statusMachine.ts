@@ -0,0 +1,50 @@
+// shared/invoiceLifecycle/statusMachine.ts - Allowed lifecycle transitions for submitted invoices
+
+// Keep in sync with the SubmittedInvoiceStatus enum in amplify/data/resource.ts
+export const INVOICE_STATUSES = [
+  'SUBMITTED',
+  'UNDER_REVIEW',
+  'APPROVED',
+  'REJECTED',
+  'FUNDED',
+  'PARTIALLY_PAID',
+  'SETTLED',
+  'WRITTEN_OFF',
+] as const;
+
+export type InvoiceStatus = typeof INVOICE_STATUSES[number];
+
+export const STATUS_TRANSITIONS: Record<InvoiceStatus, InvoiceStatus[]> = {
+  SUBMITTED: ['UNDER_REVIEW', 'REJECTED'],
+  UNDER_REVIEW: ['APPROVED', 'REJECTED'],
+  APPROVED: ['FUNDED', 'REJECTED'],
+  REJECTED: [],
+  FUNDED: ['PARTIALLY_PAID', 'SETTLED', 'WRITTEN_OFF'],
+  PARTIALLY_PAID: ['PARTIALLY_PAID', 'SETTLED', 'WRITTEN_OFF'], // Each further part-payment is recorded
+  SETTLED: [],
+  WRITTEN_OFF: [],
+};
+
+export const STATUS_LABELS: Record<InvoiceStatus, string> = {
+  SUBMITTED: 'Submitted',
+  UNDER_REVIEW: 'Under Review',
+  APPROVED: 'Approved',
+  REJECTED: 'Rejected',
+  FUNDED: 'Funded',
+  PARTIALLY_PAID: 'Partially Paid',
+  SETTLED: 'Settled',
+  WRITTEN_OFF: 'Written Off',
+};
+
+export const isInvoiceStatus = (value: unknown): value is InvoiceStatus =>
+  typeof value === 'string' && (INVOICE_STATUSES as readonly string[]).includes(value);
+
+// Invoices submitted before statuses existed are treated as SUBMITTED
+export const getInvoiceStatus = (value: unknown): InvoiceStatus =>
+  isInvoiceStatus(value) ? value : 'SUBMITTED';
+
+export const canTransition = (from: InvoiceStatus, to: InvoiceStatus): boolean =>
+  STATUS_TRANSITIONS[from].includes(to);
+
+export const isTerminalStatus = (status: InvoiceStatus): boolean =>
+  STATUS_TRANSITIONS[status].length === 0;
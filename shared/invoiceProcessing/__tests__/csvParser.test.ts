@@ -0,0 +1,34 @@
+// shared/invoiceProcessing/__tests__/csvParser.test.ts - Record splitting, row numbering and header checks
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseCsv } from '../csvParser';
+
+describe('parseCsv', () => {
+  it('keeps the whitespace of field values and trims only the headers', () => {
+    const { headers, rows } = parseCsv(' id , product \n1,  padded  \n2, " quoted " \n');
+
+    assert.deepEqual(headers, ['id', 'product']);
+    assert.deepEqual(rows.map(row => row.data), [
+      { id: '1', product: '  padded  ' },
+      { id: '2', product: ' quoted ' },
+    ]);
+  });
+
+  it('counts blank lines and multi-line records when numbering rows', () => {
+    const { rows, issues } = parseCsv('id,note\n1,a\n\n2,"two\nlines"\n   \n3,"bad"x\n4,d\n');
+
+    assert.deepEqual(rows.map(row => [row.rowNumber, row.line]), [[2, 2], [4, 4], [7, 8]]);
+    assert.deepEqual(issues.map(issue => [issue.rowNumber, issue.line]), [[6, 7]]);
+  });
+
+  it('rejects an empty header row', () => {
+    assert.throws(() => parseCsv(''), /^Error: Invalid CSV header row: /);
+    assert.throws(() => parseCsv('\nid,amount\n1,10\n'), /^Error: Invalid CSV header row: /);
+    assert.throws(() => parseCsv(' , ,\n1,2,3\n'), /^Error: Invalid CSV header row: /);
+  });
+
+  it('rejects a header row that cannot be read with its position', () => {
+    assert.throws(() => parseCsv('id,"amount"x\n1,10\n'), /^Error: Invalid CSV header row: Line 1, column 12: /);
+    assert.throws(() => parseCsv('id,"amount\n1,10\n'), /^Error: Invalid CSV header row: Line 1, column 4: Unterminated quoted field/);
+  });
+});
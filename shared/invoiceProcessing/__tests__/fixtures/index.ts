@@ -0,0 +1,10 @@
+// shared/invoiceProcessing/__tests__/fixtures/index.ts - Load sample upload files as the bytes the parsers receive
+import { readFileSync } from 'node:fs';
+
+export const readFixture = (name: string): ArrayBuffer => {
+  const bytes = readFileSync(new URL(`./${name}`, import.meta.url));
+  return bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength);
+};
+
+export const readFixtureText = (name: string): string =>
+  readFileSync(new URL(`./${name}`, import.meta.url), 'utf8');
@@ -0,0 +1,158 @@
+// shared/invoiceProcessing/__tests__/invoiceFile.test.ts - Reading and validating uploaded CSV and XLSX files
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { readFixture } from './fixtures';
+import { readInvoiceFile, validateInvoiceRows } from '../invoiceFile';
+import { getMissingFields, suggestColumnMapping } from '../columnMapping';
+import type { ColumnMapping } from '../columnMapping';
+import { DEFAULT_VALIDATION_RULES } from '../validationRules';
+
+const IDENTITY_MAPPING: ColumnMapping = {
+  invoice_id: 'invoice_id',
+  seller_id: 'seller_id',
+  debtor_id: 'debtor_id',
+  currency: 'currency',
+  amount: 'amount',
+  product: 'product',
+  issue_date: 'issue_date',
+  due_date: 'due_date',
+};
+
+// Rule ids named in a row's errors, e.g. "Row 3: [amount-positive] ..." -> amount-positive
+const failedRules = (errors: string[]) => errors.map(error => /\[([^\]]+)\]/.exec(error)?.[1]);
+
+describe('readInvoiceFile', () => {
+  it('reads CSV headers and rows, numbering rows like a spreadsheet', () => {
+    const file = readInvoiceFile(readFixture('invoices.csv'), 'CSV');
+
+    assert.deepEqual(file.headers, Object.keys(IDENTITY_MAPPING));
+    assert.equal(file.delimiter, ',');
+    assert.deepEqual(file.parseErrors, []);
+    assert.deepEqual(file.rows.map(row => row.rowNumber), [2, 3]);
+    assert.equal(file.rows[1].row.product, 'Hardware, spare parts');
+  });
+
+  it('detects a semicolon delimiter and CRLF line endings', () => {
+    const file = readInvoiceFile(readFixture('renamed-headers.csv'), 'CSV');
+
+    assert.equal(file.delimiter, ';');
+    assert.equal(file.headers.length, 8);
+    assert.equal(file.rows.length, 1);
+    assert.equal(file.rows[0].row['Payment Due'], '2026-09-30');
+  });
+
+  it('reports malformed CSV records with their line and column and keeps the rest', () => {
+    const file = readInvoiceFile(readFixture('invalid-rows.csv'), 'CSV');
+
+    assert.deepEqual(file.rows.map(row => row.rowNumber), [2, 3, 4, 6]);
+    assert.equal(file.parseErrors.length, 1);
+    assert.equal(file.parseErrors[0].row, 5);
+    assert.equal(file.parseErrors[0].line, 5);
+    assert.match(file.parseErrors[0].errors[0], /^Row 5: Line 5, column \d+: /);
+  });
+
+  it('reads the first XLSX sheet by default', () => {
+    const file = readInvoiceFile(readFixture('invoices.xlsx'), 'XLSX');
+
+    assert.deepEqual(file.sheetNames, ['September']);
+    assert.deepEqual(file.headers, Object.keys(IDENTITY_MAPPING));
+    assert.deepEqual(file.rows.map(row => [row.rowNumber, row.sheetName]), [[2, 'September'], [3, 'September']]);
+    assert.equal(file.rows[0].row.amount, 1250.5);
+  });
+
+  it('stacks the selected XLSX sheets with unique row numbers and merged headers', () => {
+    const file = readInvoiceFile(readFixture('invoices.xlsx'), 'XLSX', { sheetNames: ['September', 'October'] });
+
+    assert.deepEqual(file.headers, [...Object.keys(IDENTITY_MAPPING), 'po_number']);
+    assert.deepEqual(file.rows.map(row => [row.rowNumber, row.sheetName]), [
+      [2, 'September'],
+      [3, 'September'],
+      [5, 'October'],
+    ]);
+  });
+
+  it('keeps XLSX row numbers in line with the sheet when it has blank rows', () => {
+    const sheet = readInvoiceFile(readFixture('blank-rows.xlsx'), 'XLSX');
+    const stacked = readInvoiceFile(readFixture('blank-rows.xlsx'), 'XLSX', { sheetNames: ['September', 'October'] });
+
+    assert.deepEqual(sheet.rows.map(row => row.rowNumber), [2, 4]);
+    assert.equal(sheet.rows[1].row.product, 'Hardware');
+    // September spans four rows, so October's third row comes out as the seventh
+    assert.deepEqual(stacked.rows.map(row => [row.rowNumber, row.sheetName]), [
+      [2, 'September'],
+      [4, 'September'],
+      [7, 'October'],
+    ]);
+  });
+
+  it('rejects a sheet that is not in the workbook', () => {
+    assert.throws(
+      () => readInvoiceFile(readFixture('invoices.xlsx'), 'XLSX', { sheetNames: ['November'] }),
+      /Sheet "November" not found in workbook/
+    );
+  });
+});
+
+describe('validateInvoiceRows', () => {
+  it('accepts well-formed CSV rows and normalizes the currency', () => {
+    const file = readInvoiceFile(readFixture('invoices.csv'), 'CSV');
+    const invoices = validateInvoiceRows(file.rows, IDENTITY_MAPPING);
+
+    assert.deepEqual(invoices.map(invoice => invoice.isValid), [true, true]);
+    assert.equal(invoices[0].amount, 1250.5);
+    assert.equal(invoices[1].currency, 'USD');
+    assert.equal(invoices[1].dueDate, '2026-11-14');
+  });
+
+  it('validates XLSX rows and keeps the source values of invalid ones', () => {
+    const file = readInvoiceFile(readFixture('invoices.xlsx'), 'XLSX', { sheetNames: ['September', 'October'] });
+    const invoices = validateInvoiceRows(file.rows, IDENTITY_MAPPING);
+
+    assert.deepEqual(invoices.map(invoice => invoice.isValid), [true, true, false]);
+    assert.deepEqual(failedRules(invoices[2].validationErrors), ['amount-format']);
+    assert.equal(invoices[2].amount, 0);
+    assert.equal(invoices[2].sourceValues?.amount, 'n/a');
+  });
+
+  it('maps renamed headers through the suggested column mapping', () => {
+    const file = readInvoiceFile(readFixture('renamed-headers.csv'), 'CSV');
+    const { mapping } = suggestColumnMapping(file.headers);
+
+    assert.deepEqual(getMissingFields(mapping, file.headers), []);
+    const [invoice] = validateInvoiceRows(file.rows, mapping);
+    assert.equal(invoice.isValid, true);
+    assert.equal(invoice.sellerId, '1b2c3d4e-5f60-4718-8293-a4b5c6d7e8f9');
+    assert.equal(invoice.amount, 300);
+  });
+
+  it('leaves unrecognized headers unmapped and fails every row on the missing fields', () => {
+    const file = readInvoiceFile(readFixture('unknown-headers.csv'), 'CSV');
+    const { mapping } = suggestColumnMapping(file.headers);
+
+    assert.ok(getMissingFields(mapping, file.headers).includes('invoice_id'));
+    const invoices = validateInvoiceRows(file.rows, mapping);
+    assert.equal(invoices.length, 2);
+    invoices.forEach(invoice => {
+      assert.equal(invoice.isValid, false);
+      assert.ok(failedRules(invoice.validationErrors).includes('invoice-id-required'));
+    });
+  });
+
+  it('reports every broken rule of an invalid row with its row number', () => {
+    const file = readInvoiceFile(readFixture('invalid-rows.csv'), 'CSV');
+    const invoices = validateInvoiceRows(file.rows, IDENTITY_MAPPING, DEFAULT_VALIDATION_RULES);
+    const byRow = Object.fromEntries(invoices.map(invoice => [invoice.rowNumber, invoice]));
+
+    assert.equal(byRow[2].isValid, true);
+
+    assert.deepEqual(failedRules(byRow[3].validationErrors), ['invoice-id-uuid', 'currency-supported', 'amount-positive']);
+    assert.ok(byRow[3].validationErrors.every(error => error.startsWith('Row 3: ')));
+    assert.equal(byRow[3].invoiceId, '');
+    assert.equal(byRow[3].sourceValues?.invoice_id, 'not-a-uuid');
+
+    assert.deepEqual(failedRules(byRow[4].validationErrors), ['amount-format', 'issue-date-format', 'debtor-id-required']);
+    assert.equal(byRow[4].issueDate, '');
+
+    assert.deepEqual(failedRules(byRow[6].validationErrors), ['due-after-issue']);
+  });
+});
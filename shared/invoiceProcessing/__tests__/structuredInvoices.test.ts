@@ -0,0 +1,131 @@
+// shared/invoiceProcessing/__tests__/structuredInvoices.test.ts - JSON and UBL / Peppol BIS e-invoice parsing
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { readFixture, readFixtureText } from './fixtures';
+import { parseInvoiceJson } from '../jsonInvoiceParser';
+import { parseUblInvoice } from '../ublParser';
+import { readInvoiceFile, validateInvoiceRows } from '../invoiceFile';
+import { INVOICE_FIELDS } from '../columnMapping';
+import type { ColumnMapping } from '../columnMapping';
+
+// Structured files are already keyed by the canonical fields
+const IDENTITY_MAPPING = Object.fromEntries(INVOICE_FIELDS.map(field => [field.key, field.key])) as ColumnMapping;
+
+describe('parseInvoiceJson', () => {
+  it('reads camelCase and snake_case records and numbers them from 1', () => {
+    const { rows } = parseInvoiceJson(readFixtureText('invoices.json'));
+
+    assert.deepEqual(rows.map(row => row.rowNumber), [1, 2, 5]);
+    assert.deepEqual(rows[0].row, {
+      invoice_id: '6f1c2a3e-8b4d-4e5f-9a6b-7c8d9e0f1a2b',
+      seller_id: '1b2c3d4e-5f60-4718-8293-a4b5c6d7e8f9',
+      debtor_id: '2c3d4e5f-6071-4829-93a4-b5c6d7e8f9a0',
+      currency: 'EUR',
+      amount: '1250.5',
+      product: 'Consulting services',
+      issue_date: '2026-09-01',
+      due_date: '2026-10-31',
+    });
+    assert.equal(rows[1].row.invoice_id, '7a2d3b4f-9c5e-4f60-8b7c-8d9e0f1a2b3c');
+    assert.equal(rows[1].row.product, '');
+  });
+
+  it('reports entries that are not invoice objects', () => {
+    const { parseErrors } = parseInvoiceJson(readFixtureText('invoices.json'));
+
+    assert.deepEqual(parseErrors, [
+      { row: 3, errors: ['Row 3: Expected an invoice object'] },
+      { row: 4, errors: ['Row 4: Expected an invoice object'] },
+    ]);
+  });
+
+  it('rejects malformed JSON and documents that are not an array', () => {
+    assert.throws(() => parseInvoiceJson(readFixtureText('invalid.json')), /^Error: Invalid JSON: /);
+    assert.throws(() => parseInvoiceJson(readFixtureText('not-an-array.json')), /must contain an array of invoices/);
+  });
+
+  it('validates JSON rows like any other upload', () => {
+    const file = readInvoiceFile(readFixture('invoices.json'), 'JSON');
+    const invoices = validateInvoiceRows(file.rows, IDENTITY_MAPPING);
+
+    assert.deepEqual(file.headers, INVOICE_FIELDS.map(field => field.key));
+    assert.equal(file.parseErrors.length, 2);
+    assert.equal(invoices[0].isValid, true);
+    assert.equal(invoices[1].currency, 'USD');
+    assert.equal(invoices[2].isValid, false);
+    assert.ok(invoices[2].validationErrors.some(error => error.startsWith('Row 5: [amount-format]')));
+  });
+});
+
+describe('parseUblInvoice', () => {
+  it('reads a UBL 2.1 invoice', () => {
+    const { rows, parseErrors } = parseUblInvoice(readFixtureText('ubl-invoice.xml'));
+
+    assert.deepEqual(parseErrors, []);
+    assert.deepEqual(rows, [{
+      rowNumber: 1,
+      row: {
+        invoice_id: '6f1c2a3e-8b4d-4e5f-9a6b-7c8d9e0f1a2b',
+        seller_id: '1b2c3d4e-5f60-4718-8293-a4b5c6d7e8f9',
+        debtor_id: '2c3d4e5f-6071-4829-93a4-b5c6d7e8f9a0',
+        currency: 'EUR',
+        amount: '1210.00',
+        product: 'Consulting services',
+        issue_date: '2026-09-01',
+        due_date: '2026-10-31',
+      },
+    }]);
+  });
+
+  it('ignores namespace prefixes and falls back for missing elements', () => {
+    const [{ row }] = parseUblInvoice(readFixtureText('ubl-invoice-prefixed.xml')).rows;
+
+    assert.equal(row.invoice_id, '000123'); // Leading zeros kept
+    assert.equal(row.seller_id, 'NL123456789B01'); // PartyLegalEntity
+    assert.equal(row.debtor_id, 'DE987654321'); // PartyTaxScheme
+    assert.equal(row.currency, 'USD'); // From the PayableAmount currencyID
+    assert.equal(row.amount, '980.50');
+    assert.equal(row.product, 'Hardware (+2 more)');
+    assert.equal(row.due_date, '2026-11-14'); // PaymentMeans/PaymentDueDate
+  });
+
+  it('reads a Peppol BIS Billing 3.0 invoice, preferring PartyIdentification over EndpointID', () => {
+    const [{ row }] = parseUblInvoice(readFixtureText('peppol-bis-invoice.xml')).rows;
+
+    assert.equal(row.invoice_id, '7a2d3b4f-9c5e-4f60-8b7c-8d9e0f1a2b3c');
+    assert.equal(row.seller_id, '5790000435951');
+    assert.equal(row.debtor_id, '3d4e5f60-7182-4930-a4b5-c6d7e8f9a0b1');
+    assert.equal(row.currency, 'GBP');
+    assert.equal(row.amount, '600.00');
+    assert.equal(row.product, 'Freight');
+    assert.equal(row.due_date, '2026-10-20');
+  });
+
+  it('turns a credit note into a negative amount that fails validation', () => {
+    const file = readInvoiceFile(readFixture('ubl-credit-note.xml'), 'UBL');
+    const [{ row }] = file.rows;
+
+    assert.equal(row.amount, '-242.00');
+    assert.equal(row.product, 'Credit note: Consulting services');
+    assert.equal(row.due_date, '2026-11-04');
+
+    const [invoice] = validateInvoiceRows(file.rows, IDENTITY_MAPPING);
+    assert.equal(invoice.isValid, false);
+    assert.deepEqual(invoice.validationErrors, ['Row 1: [amount-positive] Amount must be greater than 0']);
+  });
+
+  it('keeps a credit note negative when its total is already written negative', () => {
+    const xml = readFixtureText('ubl-credit-note.xml').replace('>242.00<', '>-242.00<');
+
+    assert.equal(parseUblInvoice(xml).rows[0].row.amount, '-242.00');
+  });
+
+  it('rejects truncated XML with its position', () => {
+    assert.throws(() => parseUblInvoice(readFixtureText('malformed.xml')), /^Error: Invalid XML: line \d+, column \d+: /);
+    assert.throws(() => parseUblInvoice('<Invoice><ID>1</Foo></Invoice>'), /^Error: Invalid XML: /);
+  });
+
+  it('rejects well-formed XML that is not an invoice or credit note', () => {
+    assert.throws(() => parseUblInvoice(readFixtureText('not-ubl.xml')), /not a UBL 2.1 Invoice or CreditNote/);
+  });
+});
@@ -0,0 +1,56 @@
+// shared/invoiceProcessing/__tests__/validationRules.test.ts - Locked required rules of the fields a submitted invoice needs
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  DEFAULT_VALIDATION_RULES,
+  REQUIRED_RULE_IDS,
+  checkValidationRules,
+  parseValidationRules,
+} from '../validationRules';
+import type { ValidationRule } from '../validationRules';
+
+const without = (ruleId: string) => DEFAULT_VALIDATION_RULES.filter(rule => rule.id !== ruleId);
+
+const switchedOff = (ruleId: string) =>
+  DEFAULT_VALIDATION_RULES.map(rule => (rule.id === ruleId ? { ...rule, enabled: false } : rule));
+
+describe('checkValidationRules', () => {
+  it('accepts the defaults and optional rules switched off', () => {
+    assert.deepEqual(checkValidationRules(DEFAULT_VALIDATION_RULES), []);
+    assert.deepEqual(checkValidationRules(switchedOff('product-required')), []);
+    assert.deepEqual(checkValidationRules(without('invoice-id-uuid')), []);
+  });
+
+  it('rejects removing or switching off a locked required rule', () => {
+    Object.values(REQUIRED_RULE_IDS).forEach(ruleId => {
+      assert.deepEqual(checkValidationRules(without(ruleId)), [`Rule "${ruleId}": cannot be removed`]);
+      assert.deepEqual(checkValidationRules(switchedOff(ruleId)), [`Rule "${ruleId}": cannot be switched off`]);
+    });
+  });
+
+  it('rejects reusing a locked rule id for another check', () => {
+    const rules: ValidationRule[] = DEFAULT_VALIDATION_RULES.map(rule =>
+      rule.id === 'due-date-required' ? { id: rule.id, type: 'required', field: 'product', enabled: true } : rule
+    );
+
+    assert.deepEqual(checkValidationRules(rules), ['Rule "due-date-required": must stay a required check on due_date']);
+  });
+});
+
+describe('parseValidationRules', () => {
+  it('switches locked rules back on and restores missing ones in stored rule sets', () => {
+    const stored = JSON.stringify(switchedOff('issue-date-required').filter(rule => rule.id !== 'amount-required'));
+    const rules = parseValidationRules(stored);
+
+    assert.ok(rules);
+    assert.deepEqual(checkValidationRules(rules), []);
+    assert.equal(rules.find(rule => rule.id === 'issue-date-required')?.enabled, true);
+    assert.equal(rules.find(rule => rule.id === 'amount-required')?.enabled, true);
+  });
+
+  it('keeps optional rules as they were stored', () => {
+    const rules = parseValidationRules(JSON.stringify(switchedOff('product-required')));
+
+    assert.equal(rules?.find(rule => rule.id === 'product-required')?.enabled, false);
+  });
+});
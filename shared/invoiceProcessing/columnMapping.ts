@@ -0,0 +1,182 @@
+// shared/invoiceProcessing/columnMapping.ts - Map non-standard spreadsheet headers onto the invoice fields
+import type { CsvRow } from './csvParser';
+
+export type InvoiceFieldKey =
+  | 'invoice_id'
+  | 'seller_id'
+  | 'debtor_id'
+  | 'currency'
+  | 'amount'
+  | 'product'
+  | 'issue_date'
+  | 'due_date';
+
+// Canonical field -> source header (null when the field is not present in the file)
+export type ColumnMapping = Record<InvoiceFieldKey, string | null>;
+
+export interface InvoiceFieldDefinition {
+  key: InvoiceFieldKey;
+  label: string;
+  aliases: string[];
+}
+
+export interface MappingSuggestion {
+  mapping: ColumnMapping;
+  confidence: Record<InvoiceFieldKey, number>; // 0..1 match score of the suggested header
+}
+
+export const INVOICE_FIELDS: InvoiceFieldDefinition[] = [
+  {
+    key: 'invoice_id',
+    label: 'Invoice ID',
+    aliases: ['invoice no', 'invoice number', 'invoice nr', 'invoice', 'inv no', 'document number', 'doc no', 'bill number', 'invoice reference'],
+  },
+  {
+    key: 'seller_id',
+    label: 'Seller ID',
+    aliases: ['seller', 'supplier id', 'supplier', 'vendor id', 'vendor', 'creditor id'],
+  },
+  {
+    key: 'debtor_id',
+    label: 'Debtor ID',
+    aliases: ['debtor', 'customer id', 'customer', 'buyer id', 'buyer', 'client id', 'client', 'customer number'],
+  },
+  {
+    key: 'currency',
+    label: 'Currency',
+    aliases: ['ccy', 'curr', 'currency code', 'iso currency'],
+  },
+  {
+    key: 'amount',
+    label: 'Amount',
+    aliases: ['gross amount', 'total', 'total amount', 'invoice amount', 'amount due', 'invoice total', 'grand total', 'value'],
+  },
+  {
+    key: 'product',
+    label: 'Product',
+    aliases: ['description', 'product description', 'item', 'item description', 'goods', 'service'],
+  },
+  {
+    key: 'issue_date',
+    label: 'Issue Date',
+    aliases: ['invoice date', 'date', 'document date', 'issued', 'issued on', 'bill date'],
+  },
+  {
+    key: 'due_date',
+    label: 'Due Date',
+    aliases: ['payment due', 'due', 'payment due date', 'maturity date', 'due by', 'payment date'],
+  },
+];
+
+// Suggestions below this score are left unmapped for the user to pick
+export const MIN_SUGGESTION_SCORE = 0.6;
+
+export const normalizeHeader = (header: string): string =>
+  header
+    .toLowerCase()
+    .replace(/#/g, ' no ')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+
+// Order-independent fingerprint of a file's headers, used to find saved profiles
+export const headerSignature = (headers: string[]): string =>
+  headers
+    .map(normalizeHeader)
+    .filter(Boolean)
+    .sort()
+    .join('|');
+
+const levenshtein = (a: string, b: string): number => {
+  const previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    let diagonal = previous[0];
+    previous[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const above = previous[j];
+      previous[j] = Math.min(
+        previous[j] + 1,
+        previous[j - 1] + 1,
+        diagonal + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+      diagonal = above;
+    }
+  }
+  return previous[b.length];
+};
+
+const similarity = (a: string, b: string): number => {
+  if (!a || !b) return 0;
+  if (a === b) return 1;
+  if (a.replace(/ /g, '') === b.replace(/ /g, '')) return 0.98;
+
+  const editScore = 1 - levenshtein(a, b) / Math.max(a.length, b.length);
+
+  const aTokens = new Set(a.split(' '));
+  const bTokens = new Set(b.split(' '));
+  const shared = [...aTokens].filter(token => bTokens.has(token)).length;
+  const tokenScore = shared / new Set([...aTokens, ...bTokens]).size;
+
+  return Math.max(editScore, tokenScore * 0.9);
+};
+
+// Best score of a header against a field's key, label and aliases
+export const scoreHeader = (header: string, field: InvoiceFieldDefinition): number => {
+  const normalized = normalizeHeader(header);
+  const candidates = [normalizeHeader(field.key), normalizeHeader(field.label), ...field.aliases];
+  return Math.max(...candidates.map(candidate => similarity(normalized, candidate)));
+};
+
+export const isIdentityMapping = (headers: string[]): boolean =>
+  INVOICE_FIELDS.every(field => headers.includes(field.key));
+
+// Greedy one-to-one assignment: strongest header/field pairs are matched first
+export const suggestColumnMapping = (headers: string[]): MappingSuggestion => {
+  const mapping = Object.fromEntries(INVOICE_FIELDS.map(field => [field.key, null])) as ColumnMapping;
+  const confidence = Object.fromEntries(INVOICE_FIELDS.map(field => [field.key, 0])) as Record<InvoiceFieldKey, number>;
+
+  const pairs = INVOICE_FIELDS.flatMap(field =>
+    headers.map(header => ({ field: field.key, header, score: scoreHeader(header, field) }))
+  ).sort((a, b) => b.score - a.score);
+
+  const usedHeaders = new Set<string>();
+  for (const pair of pairs) {
+    if (pair.score < MIN_SUGGESTION_SCORE) break;
+    if (mapping[pair.field] !== null || usedHeaders.has(pair.header)) continue;
+    mapping[pair.field] = pair.header;
+    confidence[pair.field] = pair.score;
+    usedHeaders.add(pair.header);
+  }
+
+  return { mapping, confidence };
+};
+
+// Mapping is usable only if every field has a column that exists in the file
+export const getMissingFields = (mapping: ColumnMapping, headers: string[]): InvoiceFieldKey[] =>
+  INVOICE_FIELDS
+    .filter(field => !mapping[field.key] || !headers.includes(mapping[field.key]!))
+    .map(field => field.key);
+
+// Rename a source row's columns to the canonical snake_case keys
+export const applyColumnMapping = (row: CsvRow, mapping: ColumnMapping): CsvRow => {
+  const mapped: CsvRow = {};
+  INVOICE_FIELDS.forEach(field => {
+    const source = mapping[field.key];
+    mapped[field.key] = source ? String(row[source] ?? '') : '';
+  });
+  return mapped;
+};
+
+// Profiles are stored as a.json(), which may come back as a string or an object
+export const parseStoredMapping = (stored: unknown): ColumnMapping | null => {
+  try {
+    const value = typeof stored === 'string' ? JSON.parse(stored) : stored;
+    if (!value || typeof value !== 'object') return null;
+    const mapping = Object.fromEntries(INVOICE_FIELDS.map(field => {
+      const source = (value as Record<string, unknown>)[field.key];
+      return [field.key, typeof source === 'string' ? source : null];
+    })) as ColumnMapping;
+    return mapping;
+  } catch {
+    return null;
+  }
+};
@@ -0,0 +1,246 @@
+// shared/invoiceProcessing/csvParser.ts - RFC 4180 CSV reader with line/column error reporting
+
+export interface CsvRow {
+  [key: string]: string;
+}
+
+export type CsvDelimiter = ',' | ';' | '\t' | '|';
+
+export interface CsvParseOptions {
+  // Field separator. Leave undefined (or 'auto') to detect it from the header line.
+  delimiter?: CsvDelimiter | 'auto';
+}
+
+// A malformed record. Line and column are 1-based positions in the source text.
+export interface CsvParseIssue {
+  rowNumber: number;
+  line: number;
+  column: number;
+  message: string;
+}
+
+export interface ParsedCsvRow {
+  rowNumber: number; // Record number, header = 1 (matches spreadsheet row numbers)
+  line: number; // Physical line the record starts on
+  data: CsvRow;
+}
+
+export interface CsvParseResult {
+  delimiter: CsvDelimiter;
+  headers: string[];
+  rows: ParsedCsvRow[];
+  issues: CsvParseIssue[];
+}
+
+interface CsvRecord {
+  values: string[];
+  rowNumber: number;
+  line: number;
+  fieldColumns: number[];
+}
+
+export const SUPPORTED_DELIMITERS: CsvDelimiter[] = [',', ';', '\t', '|'];
+
+export const DELIMITER_LABELS: Record<CsvDelimiter, string> = {
+  ',': 'Comma (,)',
+  ';': 'Semicolon (;)',
+  '\t': 'Tab',
+  '|': 'Pipe (|)',
+};
+
+const BOM = '\uFEFF';
+
+// Pick the delimiter that splits the header line into the most fields (quotes are respected)
+export const detectDelimiter = (text: string): CsvDelimiter => {
+  const source = text.startsWith(BOM) ? text.slice(1) : text;
+  const counts: Record<CsvDelimiter, number> = { ',': 0, ';': 0, '\t': 0, '|': 0 };
+  let inQuotes = false;
+
+  for (const char of source) {
+    if (char === '"') {
+      inQuotes = !inQuotes;
+    } else if (!inQuotes && (char === '\n' || char === '\r')) {
+      break;
+    } else if (!inQuotes && char in counts) {
+      counts[char as CsvDelimiter]++;
+    }
+  }
+
+  return SUPPORTED_DELIMITERS.reduce((best, candidate) =>
+    counts[candidate] > counts[best] ? candidate : best
+  , ',' as CsvDelimiter);
+};
+
+// Split text into records. Malformed and blank records are skipped but still counted,
+// so row numbers match the source file; malformed ones are reported in `issues`
+// and parsing resumes at the start of the next line.
+const readRecords = (text: string, delimiter: CsvDelimiter): { records: CsvRecord[]; issues: CsvParseIssue[] } => {
+  const records: CsvRecord[] = [];
+  const issues: CsvParseIssue[] = [];
+
+  let pos = text.startsWith(BOM) ? 1 : 0;
+  let line = 1;
+  let lineStart = pos;
+  let rowNumber = 0;
+
+  const column = (index: number) => index - lineStart + 1;
+
+  // Consume a line break at `pos` (CRLF, LF or CR) and advance the line counter
+  const consumeLineBreak = (): boolean => {
+    const char = text[pos];
+    if (char === '\r') {
+      pos += text[pos + 1] === '\n' ? 2 : 1;
+    } else if (char === '\n') {
+      pos += 1;
+    } else {
+      return false;
+    }
+    line++;
+    lineStart = pos;
+    return true;
+  };
+
+  const skipToNextLine = () => {
+    while (pos < text.length && !consumeLineBreak()) {
+      pos++;
+    }
+  };
+
+  while (pos < text.length) {
+    const recordLine = line;
+    rowNumber++;
+    const values: string[] = [];
+    const fieldColumns: number[] = [];
+    let malformed = false;
+
+    for (;;) {
+      // Leading whitespace before a quoted field is tolerated
+      let fieldStart = pos;
+      while (text[fieldStart] === ' ' || (text[fieldStart] === '\t' && delimiter !== '\t')) {
+        fieldStart++;
+      }
+      fieldColumns.push(column(fieldStart));
+
+      if (text[fieldStart] === '"') {
+        const quoteLine = line;
+        const quoteColumn = column(fieldStart);
+        let value = '';
+        pos = fieldStart + 1;
+
+        for (;;) {
+          if (pos >= text.length) {
+            issues.push({ rowNumber, line: quoteLine, column: quoteColumn, message: 'Unterminated quoted field' });
+            return { records, issues };
+          }
+          const char = text[pos];
+          if (char === '"') {
+            if (text[pos + 1] === '"') {
+              value += '"';
+              pos += 2;
+              continue;
+            }
+            pos++;
+            break;
+          }
+          if (char === '\r' || char === '\n') {
+            value += char === '\r' && text[pos + 1] === '\n' ? '\r\n' : char;
+            consumeLineBreak();
+            continue;
+          }
+          value += char;
+          pos++;
+        }
+
+        while (text[pos] === ' ' || (text[pos] === '\t' && delimiter !== '\t')) {
+          pos++;
+        }
+        if (pos < text.length && text[pos] !== delimiter && text[pos] !== '\r' && text[pos] !== '\n') {
+          issues.push({ rowNumber, line, column: column(pos), message: `Unexpected character '${text[pos]}' after closing quote` });
+          malformed = true;
+          skipToNextLine();
+          break;
+        }
+        values.push(value);
+      } else {
+        let end = pos;
+        while (end < text.length && text[end] !== delimiter && text[end] !== '\r' && text[end] !== '\n') {
+          if (text[end] === '"') {
+            issues.push({ rowNumber, line, column: column(end), message: 'Unescaped quote in unquoted field' });
+            malformed = true;
+            break;
+          }
+          end++;
+        }
+        if (malformed) {
+          pos = end;
+          skipToNextLine();
+          break;
+        }
+        values.push(text.slice(pos, end));
+        pos = end;
+      }
+
+      if (text[pos] === delimiter) {
+        pos++;
+        continue;
+      }
+      consumeLineBreak();
+      break;
+    }
+
+    const isBlank = values.length === 1 && values[0].trim() === '';
+    if (!malformed && !isBlank) {
+      records.push({ values, rowNumber, line: recordLine, fieldColumns });
+    }
+  }
+
+  return { records, issues };
+};
+
+// Parse CSV text into header-keyed rows. Throws when the header row is empty or cannot be read.
+export const parseCsv = (text: string, options: CsvParseOptions = {}): CsvParseResult => {
+  const delimiter = !options.delimiter || options.delimiter === 'auto'
+    ? detectDelimiter(text)
+    : options.delimiter;
+
+  const { records, issues } = readRecords(text, delimiter);
+  const [headerRecord, ...dataRecords] = records;
+
+  // The header is always the first record; a blank or malformed one is not skipped
+  const headerIssue = issues.find(issue => issue.rowNumber === 1);
+  if (headerIssue) {
+    throw new Error(`Invalid CSV header row: ${formatCsvIssue(headerIssue)}`);
+  }
+  const headers = headerRecord?.rowNumber === 1 ? headerRecord.values.map(header => header.trim()) : [];
+  if (!headers.some(Boolean)) {
+    throw new Error('Invalid CSV header row: the first line has no column names');
+  }
+
+  const rows: ParsedCsvRow[] = [];
+
+  dataRecords.forEach(record => {
+    const { rowNumber } = record;
+    if (record.values.length > headers.length) {
+      issues.push({
+        rowNumber,
+        line: record.line,
+        column: record.fieldColumns[headers.length],
+        message: `Expected ${headers.length} fields but found ${record.values.length} (unquoted delimiter in a value?)`,
+      });
+      return;
+    }
+
+    const data: CsvRow = {};
+    headers.forEach((header, i) => {
+      data[header] = record.values[i] ?? '';
+    });
+    rows.push({ rowNumber, line: record.line, data });
+  });
+
+  issues.sort((a, b) => a.rowNumber - b.rowNumber);
+
+  return { delimiter, headers, rows, issues };
+};
+
+export const formatCsvIssue = (issue: CsvParseIssue): string =>
+  `Line ${issue.line}, column ${issue.column}: ${issue.message}`;
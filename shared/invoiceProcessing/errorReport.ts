@@ -0,0 +1,62 @@
+// shared/invoiceProcessing/errorReport.ts - The rejected rows of an upload as they were in the file, with their errors
+import type { CsvRow } from './csvParser';
+import type { RawInvoiceFile } from './invoiceFile';
+import type { ProcessingError } from './types';
+
+// Named so they do not clash with the file's own columns
+export const ERROR_REPORT_ROW_COLUMN = 'Source Row';
+export const ERROR_REPORT_SHEET_COLUMN = 'Source Sheet';
+export const ERROR_REPORT_ERRORS_COLUMN = 'Validation Errors';
+
+export interface ErrorReport {
+  headers: string[];
+  rows: CsvRow[];
+}
+
+// InvoiceUploadJob.processingErrors is stored as a JSON string but may come back parsed
+export const parseProcessingErrors = (stored: unknown): ProcessingError[] => {
+  try {
+    const value = typeof stored === 'string' ? JSON.parse(stored) : stored;
+    return Array.isArray(value) ? value as ProcessingError[] : [];
+  } catch {
+    return [];
+  }
+};
+
+// The row is its own column in the report, so the "Row N: " prefix is dropped
+const formatErrors = (errors: string[]) =>
+  errors.map(error => error.replace(/^Row \d+: /, '')).join('; ');
+
+// Spreadsheet cells arrive as numbers or booleans as well as strings
+const toCellText = (value: unknown) => (value === null || value === undefined ? '' : String(value));
+
+// Rows that could not be read at all appear with empty cells and their parse error
+export const buildErrorReport = (file: RawInvoiceFile, errors: ProcessingError[]): ErrorReport => {
+  const errorsByRow = new Map<number, string[]>();
+  errors.forEach(({ row, errors: messages }) => {
+    errorsByRow.set(row, [...(errorsByRow.get(row) || []), ...messages]);
+  });
+
+  const showSheet = (file.sheetNames?.length || 0) > 1;
+  const headers = [
+    ERROR_REPORT_ROW_COLUMN,
+    ...(showSheet ? [ERROR_REPORT_SHEET_COLUMN] : []),
+    ...file.headers,
+    ERROR_REPORT_ERRORS_COLUMN,
+  ];
+
+  const rowsByNumber = new Map(file.rows.map(row => [row.rowNumber, row]));
+  const rows = [...errorsByRow.keys()]
+    .sort((a, b) => a - b)
+    .map(rowNumber => {
+      const raw = rowsByNumber.get(rowNumber);
+      return {
+        [ERROR_REPORT_ROW_COLUMN]: String(rowNumber),
+        ...(showSheet && { [ERROR_REPORT_SHEET_COLUMN]: raw?.sheetName || '' }),
+        ...Object.fromEntries(file.headers.map(header => [header, toCellText(raw?.row[header])])),
+        [ERROR_REPORT_ERRORS_COLUMN]: formatErrors(errorsByRow.get(rowNumber) || []),
+      };
+    });
+
+  return { headers, rows };
+};
@@ -0,0 +1,159 @@
+// shared/invoiceProcessing/invoiceFile.ts - Turn uploaded file bytes into validated invoice rows
+import * as XLSX from 'xlsx';
+import { parseCsv, formatCsvIssue } from './csvParser';
+import type { CsvDelimiter, CsvParseOptions, CsvRow } from './csvParser';
+import { INVOICE_FIELDS, applyColumnMapping } from './columnMapping';
+import type { ColumnMapping } from './columnMapping';
+import { validateInvoiceData } from './validation';
+import type { ValidationRule } from './validationRules';
+import { parseInvoiceJson } from './jsonInvoiceParser';
+import { parseUblInvoice } from './ublParser';
+import type { InvoiceData, ProcessingError, StructuredInvoiceRows } from './types';
+
+// Keep in sync with the FileType enum in amplify/data/resource.ts
+export const INVOICE_FILE_TYPES = ['CSV', 'XLSX', 'XLSM', 'XLS', 'ODS', 'JSON', 'UBL'] as const;
+
+export type InvoiceFileType = typeof INVOICE_FILE_TYPES[number];
+
+const FILE_TYPE_BY_EXTENSION: Record<string, InvoiceFileType> = {
+  csv: 'CSV',
+  xlsx: 'XLSX',
+  xlsm: 'XLSM',
+  xls: 'XLS',
+  ods: 'ODS',
+  json: 'JSON',
+  xml: 'UBL',
+};
+
+// Formats whose fields are fixed by the format itself, so they never need column mapping
+export const isStructuredFileType = (fileType: InvoiceFileType): boolean =>
+  fileType === 'JSON' || fileType === 'UBL';
+
+// Spreadsheets may hold several sheets
+export const isWorkbookFileType = (fileType: InvoiceFileType): boolean =>
+  fileType !== 'CSV' && !isStructuredFileType(fileType);
+
+// For <input accept>; the extensions readInvoiceFile understands
+export const INVOICE_FILE_ACCEPT = Object.keys(FILE_TYPE_BY_EXTENSION).map(ext => `.${ext}`).join(',');
+
+// S3 object metadata key linking an uploaded file to its InvoiceUploadJob
+export const UPLOAD_JOB_METADATA_KEY = 'job-id';
+
+export interface RawInvoiceRow {
+  row: CsvRow;
+  rowNumber: number;
+  sheetName?: string; // Workbook sheet the row came from
+}
+
+export interface WorkbookSheet {
+  name: string;
+  rowCount: number; // Data rows below the header
+}
+
+export interface InvoiceFileReadOptions extends CsvParseOptions {
+  sheetNames?: string[]; // Workbook sheets to import; defaults to the first one
+}
+
+export interface RawInvoiceFile {
+  headers: string[];
+  rows: RawInvoiceRow[];
+  parseErrors: ProcessingError[]; // Records that could not be read at all
+  delimiter?: CsvDelimiter; // Delimiter actually used for CSV files
+  sheetNames?: string[]; // Sheets actually imported from a workbook
+}
+
+const getExtension = (fileName: string) => fileName.split('.').pop()?.toLowerCase() || '';
+
+export const isSupportedInvoiceFile = (fileName: string): boolean =>
+  getExtension(fileName) in FILE_TYPE_BY_EXTENSION;
+
+export const getInvoiceFileType = (fileName: string): InvoiceFileType =>
+  FILE_TYPE_BY_EXTENSION[getExtension(fileName)] || 'XLSX';
+
+// sheet_to_json skips blank rows; __rowNum__ keeps each row's 0-based position in the sheet
+type SheetRow = CsvRow & { __rowNum__: number };
+
+const readSheetRows = (worksheet: XLSX.WorkSheet) => ({
+  headerRow: (XLSX.utils.sheet_to_json(worksheet, { header: 1 }) as unknown[][])[0] || [],
+  rows: XLSX.utils.sheet_to_json(worksheet) as SheetRow[],
+  lastRowNumber: worksheet['!ref'] ? XLSX.utils.decode_range(worksheet['!ref']).e.r + 1 : 0,
+});
+
+// Sheets that hold data, so the user can choose which to import
+export const listWorkbookSheets = (fileBuffer: ArrayBuffer): WorkbookSheet[] => {
+  const workbook = XLSX.read(fileBuffer, { type: 'array' });
+  return workbook.SheetNames
+    .map(name => ({ name, rowCount: readSheetRows(workbook.Sheets[name]).rows.length }))
+    .filter(sheet => sheet.rowCount > 0);
+};
+
+// Read headers and raw rows; no mapping or validation yet
+export const readInvoiceFile = (
+  fileBuffer: ArrayBuffer,
+  fileType: InvoiceFileType,
+  options: InvoiceFileReadOptions = {}
+): RawInvoiceFile => {
+  if (isStructuredFileType(fileType)) {
+    const text = new TextDecoder().decode(fileBuffer);
+    const parsed: StructuredInvoiceRows = fileType === 'JSON' ? parseInvoiceJson(text) : parseUblInvoice(text);
+    return {
+      headers: INVOICE_FIELDS.map(field => field.key),
+      rows: parsed.rows,
+      parseErrors: parsed.parseErrors,
+    };
+  }
+
+  if (fileType === 'CSV') {
+    const csvText = new TextDecoder().decode(fileBuffer);
+    const parsed = parseCsv(csvText, options);
+    return {
+      headers: parsed.headers,
+      rows: parsed.rows.map(({ data, rowNumber }) => ({ row: data, rowNumber })),
+      parseErrors: parsed.issues.map(issue => ({
+        row: issue.rowNumber,
+        line: issue.line,
+        column: issue.column,
+        errors: [`Row ${issue.rowNumber}: ${formatCsvIssue(issue)}`]
+      })),
+      delimiter: parsed.delimiter,
+    };
+  }
+
+  const workbook = XLSX.read(fileBuffer, { type: 'array' });
+  const sheetNames = options.sheetNames?.length ? options.sheetNames : [workbook.SheetNames[0]];
+
+  const headers: string[] = [];
+  const rows: RawInvoiceRow[] = [];
+  // Row numbers count as if the selected sheets were stacked, headers included,
+  // so they stay unique across sheets (a single sheet keeps its own row numbers)
+  let rowOffset = 0;
+
+  for (const sheetName of sheetNames) {
+    const worksheet = workbook.Sheets[sheetName];
+    if (!worksheet) {
+      throw new Error(`Sheet "${sheetName}" not found in workbook`);
+    }
+
+    const sheet = readSheetRows(worksheet);
+    sheet.headerRow
+      .map(header => String(header ?? '').trim())
+      .filter(header => header && !headers.includes(header))
+      .forEach(header => headers.push(header));
+    sheet.rows.forEach(row => rows.push({ row, rowNumber: rowOffset + row.__rowNum__ + 1, sheetName }));
+    rowOffset += sheet.lastRowNumber;
+  }
+
+  return {
+    headers,
+    rows,
+    parseErrors: [],
+    sheetNames,
+  };
+};
+
+export const validateInvoiceRows = (
+  rows: RawInvoiceRow[],
+  mapping: ColumnMapping,
+  rules?: ValidationRule[] // The workspace's rules; the defaults when it has none configured
+): InvoiceData[] =>
+  rows.map(({ row, rowNumber }) => validateInvoiceData(applyColumnMapping(row, mapping), rowNumber, rules));
@@ -0,0 +1,52 @@
+// shared/invoiceProcessing/jsonInvoiceParser.ts - Read JSON arrays of invoices shaped like InvoiceData
+import type { CsvRow } from './csvParser';
+import type { InvoiceFieldKey } from './columnMapping';
+import type { StructuredInvoiceRows } from './types';
+
+// InvoiceData property -> canonical field; snake_case keys are accepted as they are
+const JSON_FIELD_KEYS: Record<string, InvoiceFieldKey> = {
+  invoiceId: 'invoice_id',
+  sellerId: 'seller_id',
+  debtorId: 'debtor_id',
+  currency: 'currency',
+  amount: 'amount',
+  product: 'product',
+  issueDate: 'issue_date',
+  dueDate: 'due_date',
+};
+
+const toFieldValue = (value: unknown): string =>
+  value === null || value === undefined ? '' : String(value).trim();
+
+// Records are numbered from 1 in array order
+export const parseInvoiceJson = (text: string): StructuredInvoiceRows => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text.replace(/^\uFEFF/, ''));
+  } catch (error) {
+    throw new Error(`Invalid JSON: ${error instanceof Error ? error.message : 'could not parse file'}`);
+  }
+
+  if (!Array.isArray(data)) {
+    throw new Error('JSON invoice files must contain an array of invoices');
+  }
+
+  const result: StructuredInvoiceRows = { rows: [], parseErrors: [] };
+
+  data.forEach((record, index) => {
+    const rowNumber = index + 1;
+    if (!record || typeof record !== 'object' || Array.isArray(record)) {
+      result.parseErrors.push({ row: rowNumber, errors: [`Row ${rowNumber}: Expected an invoice object`] });
+      return;
+    }
+
+    const row: CsvRow = {};
+    Object.entries(record as Record<string, unknown>).forEach(([key, value]) => {
+      const field = JSON_FIELD_KEYS[key] || key;
+      row[field] = toFieldValue(value);
+    });
+    result.rows.push({ row, rowNumber });
+  });
+
+  return result;
+};
@@ -0,0 +1,31 @@
+// shared/invoiceProcessing/types.ts - Types shared by the upload UI and the processing Lambda
+import type { CsvRow } from './csvParser';
+
+export interface InvoiceData {
+  rowNumber: number; // Row in the source file (header = 1)
+  invoiceId: string;
+  sellerId: string;
+  debtorId: string;
+  currency: string;
+  amount: number;
+  product: string;
+  issueDate: string;
+  dueDate: string;
+  isValid: boolean;
+  validationErrors: string[];
+  sourceValues?: CsvRow; // Values as read from the file, kept for rows that failed validation
+}
+
+export interface ProcessingError {
+  row: number;
+  line?: number; // Source line/column of a malformed CSV record
+  column?: number;
+  invoice_id?: string;
+  errors: string[];
+}
+
+// Rows read from JSON or XML e-invoices, already keyed by the canonical field names
+export interface StructuredInvoiceRows {
+  rows: { row: CsvRow; rowNumber: number }[];
+  parseErrors: ProcessingError[];
+}
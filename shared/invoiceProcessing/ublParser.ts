@@ -0,0 +1,85 @@
+// shared/invoiceProcessing/ublParser.ts - Read UBL 2.1 Invoice/CreditNote XML, including Peppol BIS Billing 3.0
+import { XMLParser, XMLValidator } from 'fast-xml-parser';
+import type { CsvRow } from './csvParser';
+import type { StructuredInvoiceRows } from './types';
+
+type XmlNode = Record<string, unknown>;
+
+const parser = new XMLParser({
+  ignoreAttributes: false,
+  removeNSPrefix: true, // cbc:/cac: prefixes vary between senders
+  parseTagValue: false, // Keep identifiers like 000123 and amounts exactly as written
+  isArray: name => name === 'InvoiceLine' || name === 'CreditNoteLine' || name === 'PartyIdentification',
+});
+
+const child = (node: unknown, ...path: string[]): unknown =>
+  path.reduce<unknown>((current, key) => {
+    if (Array.isArray(current)) current = current[0];
+    return current && typeof current === 'object' ? (current as XmlNode)[key] : undefined;
+  }, node);
+
+// Elements with attributes (currencyID, schemeID) parse to { '#text': value, ... }
+const nodeText = (node: unknown): string => {
+  if (Array.isArray(node)) return nodeText(node[0]);
+  if (node && typeof node === 'object') return nodeText((node as XmlNode)['#text']);
+  return node === null || node === undefined ? '' : String(node).trim();
+};
+
+// Peppol puts the routing id in EndpointID; our own party ids usually travel in PartyIdentification
+const partyId = (party: unknown): string =>
+  nodeText(child(party, 'Party', 'PartyIdentification', 'ID')) ||
+  nodeText(child(party, 'Party', 'EndpointID')) ||
+  nodeText(child(party, 'Party', 'PartyLegalEntity', 'CompanyID')) ||
+  nodeText(child(party, 'Party', 'PartyTaxScheme', 'CompanyID'));
+
+const productDescription = (lines: unknown): string => {
+  const lineList = Array.isArray(lines) ? lines : [];
+  const names = lineList
+    .map(line => nodeText(child(line, 'Item', 'Name')) || nodeText(child(line, 'Item', 'Description')))
+    .filter(Boolean);
+  if (names.length === 0) return '';
+  return names.length === 1 ? names[0] : `${names[0]} (+${names.length - 1} more)`;
+};
+
+// One document per file; it becomes row 1
+export const parseUblInvoice = (xml: string): StructuredInvoiceRows => {
+  const source = xml.replace(/^\uFEFF/, '');
+  // The parser reads truncated or mismatched markup without complaint, so the file is checked first
+  const validation = XMLValidator.validate(source);
+  if (validation !== true) {
+    const { msg, line, col } = validation.err;
+    throw new Error(`Invalid XML: line ${line}, column ${col}: ${msg}`);
+  }
+
+  let document: XmlNode;
+  try {
+    document = parser.parse(source) as XmlNode;
+  } catch (error) {
+    throw new Error(`Invalid XML: ${error instanceof Error ? error.message : 'could not parse file'}`);
+  }
+
+  const isCreditNote = !document.Invoice && !!document.CreditNote;
+  const root = document.Invoice || document.CreditNote;
+  if (!root || typeof root !== 'object') {
+    throw new Error('XML file is not a UBL 2.1 Invoice or CreditNote');
+  }
+
+  const payableAmount = nodeText(child(root, 'LegalMonetaryTotal', 'PayableAmount'));
+  const lines = child(root, isCreditNote ? 'CreditNoteLine' : 'InvoiceLine');
+  const product = productDescription(lines);
+
+  const row: CsvRow = {
+    invoice_id: nodeText(child(root, 'ID')),
+    seller_id: partyId(child(root, 'AccountingSupplierParty')),
+    debtor_id: partyId(child(root, 'AccountingCustomerParty')),
+    currency: nodeText(child(root, 'DocumentCurrencyCode')) || nodeText(child(root, 'LegalMonetaryTotal', 'PayableAmount', '@_currencyID')),
+    // Credit notes reduce what the debtor owes, so they can never be financed as a positive receivable
+    amount: isCreditNote && payableAmount && !payableAmount.startsWith('-') ? `-${payableAmount}` : payableAmount,
+    product: isCreditNote ? `Credit note${product ? `: ${product}` : ''}` : product,
+    issue_date: nodeText(child(root, 'IssueDate')),
+    // Invoices carry DueDate; credit notes and some senders only give a payment due date
+    due_date: nodeText(child(root, 'DueDate')) || nodeText(child(root, 'PaymentMeans', 'PaymentDueDate')),
+  };
+
+  return { rows: [{ row, rowNumber: 1 }], parseErrors: [] };
+};
@@ -0,0 +1,141 @@
+// shared/invoiceProcessing/validation.ts - Row validation rules for uploaded invoice files
+import type { CsvRow } from './csvParser';
+import type { InvoiceData } from './types';
+import { INVOICE_FIELDS } from './columnMapping';
+import type { InvoiceFieldKey } from './columnMapping';
+import {
+  DEFAULT_VALIDATION_RULES,
+  evaluateValidationRules,
+  formatDateString,
+  formatRuleViolation,
+} from './validationRules';
+import type { ValidationRule } from './validationRules';
+import { PARTY_KIND_LABELS } from '../masterData/parties';
+import type { PartyKind, PartyRegistry, RegisteredParty } from '../masterData/parties';
+
+// Fields are only filled in when none of the rules checking them failed; the rest stay empty
+export const validateInvoiceData = (
+  row: CsvRow,
+  rowNumber: number,
+  rules: ValidationRule[] = DEFAULT_VALIDATION_RULES
+): InvoiceData => {
+  const values = Object.fromEntries(
+    INVOICE_FIELDS.map(field => [field.key, String(row[field.key] ?? '').trim()])
+  ) as Record<InvoiceFieldKey, string>;
+  const violations = evaluateValidationRules(values, rules);
+  const failedFields = new Set(violations.map(violation => violation.field));
+  const accept = (field: InvoiceFieldKey) => values[field] !== '' && !failedFields.has(field);
+
+  const invoice: InvoiceData = {
+    rowNumber,
+    invoiceId: accept('invoice_id') ? values.invoice_id : '',
+    sellerId: accept('seller_id') ? values.seller_id : '',
+    debtorId: accept('debtor_id') ? values.debtor_id : '',
+    currency: accept('currency') ? values.currency.toUpperCase() : '',
+    amount: accept('amount') ? Number(values.amount) : 0,
+    product: accept('product') ? values.product : '',
+    issueDate: accept('issue_date') ? formatDateString(values.issue_date) : '',
+    dueDate: accept('due_date') ? formatDateString(values.due_date) : '',
+    isValid: true,
+    validationErrors: []
+  };
+
+  if (violations.length > 0) {
+    invoice.isValid = false;
+    invoice.validationErrors = violations.map(violation => formatRuleViolation(violation, rowNumber));
+    invoice.sourceValues = values;
+  }
+
+  return invoice;
+};
+
+// Column values for an Invoice record; rows that failed validation keep what the file said where a field did not parse
+export const getStoredInvoiceFields = (invoice: InvoiceData) => {
+  const source = invoice.sourceValues || {};
+  return {
+    invoiceId: invoice.invoiceId || source.invoice_id || '',
+    sellerId: invoice.sellerId || source.seller_id || '',
+    debtorId: invoice.debtorId || source.debtor_id || '',
+    currency: invoice.currency || source.currency || '',
+    amount: invoice.amount,
+    product: invoice.product || source.product || '',
+    issueDate: invoice.issueDate || source.issue_date || '',
+    dueDate: invoice.dueDate || source.due_date || '',
+  };
+};
+
+// Invoice already stored in the workspace, as far as duplicate checks need it
+export interface ExistingInvoice {
+  invoiceId: string;
+  sellerId: string;
+  debtorId: string;
+  amount: number;
+  issueDate: string;
+}
+
+// Same seller, debtor, amount and issue date under a different number is a common double-financing pattern
+const getNearDuplicateKey = (invoice: ExistingInvoice): string =>
+  [invoice.sellerId.toLowerCase(), invoice.debtorId.toLowerCase(), invoice.amount.toFixed(2), invoice.issueDate].join('|');
+
+// Marks rows repeating an earlier row of the file or an invoice already in the workspace; the first occurrence stays valid
+export const markDuplicateInvoices = (invoices: InvoiceData[], existingInvoices: ExistingInvoice[] = []): InvoiceData[] => {
+  const existingIds = new Set(existingInvoices.map(existing => existing.invoiceId.toLowerCase()));
+  const existingByKey = new Map(existingInvoices.map(existing => [getNearDuplicateKey(existing), existing.invoiceId]));
+  const rowById = new Map<string, number>();
+  const rowByKey = new Map<string, InvoiceData>();
+
+  return invoices.map(invoice => {
+    // Rows missing these fields already carry their own errors
+    if (!invoice.invoiceId || !invoice.sellerId || !invoice.debtorId || !invoice.amount || !invoice.issueDate) {
+      return invoice;
+    }
+
+    const errors: string[] = [];
+    const id = invoice.invoiceId.toLowerCase();
+    const key = getNearDuplicateKey(invoice);
+
+    const earlierRow = rowById.get(id);
+    if (earlierRow !== undefined) {
+      errors.push(`Row ${invoice.rowNumber}: [duplicate-invoice-id] Duplicate invoice_id ${invoice.invoiceId} (also on row ${earlierRow})`);
+    } else if (existingIds.has(id)) {
+      errors.push(`Row ${invoice.rowNumber}: [duplicate-invoice-id] Duplicate invoice_id ${invoice.invoiceId} already exists in this workspace`);
+    } else {
+      const earlierMatch = rowByKey.get(key);
+      const existingMatch = existingByKey.get(key);
+      if (earlierMatch) {
+        errors.push(`Row ${invoice.rowNumber}: [possible-duplicate] Possible duplicate of row ${earlierMatch.rowNumber} (invoice ${earlierMatch.invoiceId}): same seller, debtor, amount and issue date`);
+      } else if (existingMatch) {
+        errors.push(`Row ${invoice.rowNumber}: [possible-duplicate] Possible duplicate of invoice ${existingMatch} in this workspace: same seller, debtor, amount and issue date`);
+      }
+    }
+
+    if (!rowById.has(id)) rowById.set(id, invoice.rowNumber);
+    if (!rowByKey.has(key)) rowByKey.set(key, invoice);
+
+    return errors.length > 0
+      ? { ...invoice, isValid: false, validationErrors: [...invoice.validationErrors, ...errors] }
+      : invoice;
+  });
+};
+
+// Marks rows whose seller or debtor is missing from the workspace registry or deactivated there
+export const markUnregisteredParties = (invoices: InvoiceData[], registry: PartyRegistry): InvoiceData[] =>
+  invoices.map(invoice => {
+    const errors: string[] = [];
+    const check = (kind: PartyKind, id: string, parties: Map<string, RegisteredParty>) => {
+      // Empty IDs already carry their own errors; an empty registry means the workspace does not use one
+      if (!id || parties.size === 0) return;
+      const party = parties.get(id.toLowerCase());
+      if (!party) {
+        errors.push(`Row ${invoice.rowNumber}: [${kind}-registered] Unknown ${kind}_id ${id}: not in this workspace's ${kind} registry`);
+      } else if (!party.isActive) {
+        errors.push(`Row ${invoice.rowNumber}: [${kind}-active] ${PARTY_KIND_LABELS[kind]} ${party.legalName} (${id}) is inactive`);
+      }
+    };
+    check('seller', invoice.sellerId, registry.sellers);
+    check('debtor', invoice.debtorId, registry.debtors);
+
+    return errors.length > 0
+      ? { ...invoice, isValid: false, validationErrors: [...invoice.validationErrors, ...errors] }
+      : invoice;
+  });
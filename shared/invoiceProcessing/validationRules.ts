@@ -0,0 +1,468 @@
+// shared/invoiceProcessing/validationRules.ts - Declarative invoice validation rules, configurable per workspace
+import { INVOICE_FIELDS } from './columnMapping';
+import type { InvoiceFieldKey } from './columnMapping';
+
+export const RULE_TYPES = [
+  'required',
+  'pattern',
+  'allowedValues',
+  'numberRange',
+  'dateRange',
+  'compareFields',
+  'maxTenor',
+  'currencyAmountRange',
+] as const;
+
+export type RuleType = typeof RULE_TYPES[number];
+
+export const RULE_TYPE_LABELS: Record<RuleType, string> = {
+  required: 'Required',
+  pattern: 'Pattern (regex)',
+  allowedValues: 'Allowed values',
+  numberRange: 'Number range',
+  dateRange: 'Date range',
+  compareFields: 'Compare fields',
+  maxTenor: 'Maximum tenor',
+  currencyAmountRange: 'Amount per currency',
+};
+
+export const COMPARISON_OPERATORS = ['lt', 'lte', 'gt', 'gte', 'eq', 'ne'] as const;
+
+export type ComparisonOperator = typeof COMPARISON_OPERATORS[number];
+
+// Fields whose values are compared as numbers or as YYYY-MM-DD dates rather than as text
+export const NUMBER_FIELDS: InvoiceFieldKey[] = ['amount'];
+export const DATE_FIELDS: InvoiceFieldKey[] = ['issue_date', 'due_date'];
+
+interface RuleBase {
+  id: string; // Named in every error the rule produces
+  enabled: boolean;
+  message?: string; // Replaces the generated description in errors
+}
+
+export interface RequiredRule extends RuleBase {
+  type: 'required';
+  field: InvoiceFieldKey;
+}
+
+export interface PatternRule extends RuleBase {
+  type: 'pattern';
+  field: InvoiceFieldKey;
+  pattern: string;
+  flags?: string;
+}
+
+export interface AllowedValuesRule extends RuleBase {
+  type: 'allowedValues';
+  field: InvoiceFieldKey;
+  values: string[];
+  caseSensitive?: boolean;
+}
+
+export interface NumberRangeRule extends RuleBase {
+  type: 'numberRange';
+  field: InvoiceFieldKey;
+  min?: number;
+  max?: number;
+  exclusiveMin?: boolean;
+  exclusiveMax?: boolean;
+}
+
+// Bounds are YYYY-MM-DD, "today", or relative to today such as "today-90" or "today+365"
+export interface DateRangeRule extends RuleBase {
+  type: 'dateRange';
+  field: InvoiceFieldKey;
+  min?: string;
+  max?: string;
+}
+
+export interface CompareFieldsRule extends RuleBase {
+  type: 'compareFields';
+  field: InvoiceFieldKey;
+  operator: ComparisonOperator;
+  otherField: InvoiceFieldKey;
+}
+
+// Days from issue date to due date
+export interface MaxTenorRule extends RuleBase {
+  type: 'maxTenor';
+  maxDays: number;
+}
+
+export interface CurrencyAmountRangeRule extends RuleBase {
+  type: 'currencyAmountRange';
+  currency: string;
+  min?: number;
+  max?: number;
+}
+
+export type ValidationRule =
+  | RequiredRule
+  | PatternRule
+  | AllowedValuesRule
+  | NumberRangeRule
+  | DateRangeRule
+  | CompareFieldsRule
+  | MaxTenorRule
+  | CurrencyAmountRangeRule;
+
+export interface RuleViolation {
+  ruleId: string;
+  field?: InvoiceFieldKey; // Set when the rule checks a single field
+  message: string;
+}
+
+// Keep in sync with the Currency enum in amplify/data/resource.ts
+export const VALID_CURRENCIES = ['USD', 'EUR', 'GBP', 'JPY', 'CAD', 'AUD', 'CHF', 'CNY'];
+
+const UUID_PATTERN = '^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$';
+
+// What every workspace validates until its admins change it
+export const DEFAULT_VALIDATION_RULES: ValidationRule[] = [
+  { id: 'invoice-id-required', type: 'required', field: 'invoice_id', enabled: true },
+  { id: 'invoice-id-uuid', type: 'pattern', field: 'invoice_id', pattern: UUID_PATTERN, flags: 'i', enabled: true, message: 'Invoice ID must be a UUID' },
+  { id: 'seller-id-required', type: 'required', field: 'seller_id', enabled: true },
+  { id: 'seller-id-uuid', type: 'pattern', field: 'seller_id', pattern: UUID_PATTERN, flags: 'i', enabled: true, message: 'Seller ID must be a UUID' },
+  { id: 'debtor-id-required', type: 'required', field: 'debtor_id', enabled: true },
+  { id: 'debtor-id-uuid', type: 'pattern', field: 'debtor_id', pattern: UUID_PATTERN, flags: 'i', enabled: true, message: 'Debtor ID must be a UUID' },
+  { id: 'currency-required', type: 'required', field: 'currency', enabled: true },
+  { id: 'currency-supported', type: 'allowedValues', field: 'currency', values: VALID_CURRENCIES, enabled: true },
+  { id: 'amount-required', type: 'required', field: 'amount', enabled: true },
+  { id: 'amount-positive', type: 'numberRange', field: 'amount', min: 0, exclusiveMin: true, enabled: true },
+  { id: 'product-required', type: 'required', field: 'product', enabled: true },
+  { id: 'issue-date-required', type: 'required', field: 'issue_date', enabled: true },
+  { id: 'due-date-required', type: 'required', field: 'due_date', enabled: true },
+  { id: 'due-after-issue', type: 'compareFields', field: 'due_date', operator: 'gt', otherField: 'issue_date', enabled: true },
+];
+
+// Amounts and dates must parse before they can be stored, so these checks cannot be switched off
+export const FORMAT_RULE_IDS: Partial<Record<InvoiceFieldKey, string>> = {
+  amount: 'amount-format',
+  issue_date: 'issue-date-format',
+  due_date: 'due-date-format',
+};
+
+// SubmittedInvoice cannot store these fields empty, so their required rules cannot be switched off or removed
+export const REQUIRED_RULE_IDS: Partial<Record<InvoiceFieldKey, string>> = {
+  invoice_id: 'invoice-id-required',
+  seller_id: 'seller-id-required',
+  debtor_id: 'debtor-id-required',
+  currency: 'currency-required',
+  amount: 'amount-required',
+  issue_date: 'issue-date-required',
+  due_date: 'due-date-required',
+};
+
+export const isLockedRule = (ruleId: string): boolean =>
+  Object.values(REQUIRED_RULE_IDS).includes(ruleId);
+
+const FIELD_LABELS = Object.fromEntries(INVOICE_FIELDS.map(field => [field.key, field.label])) as Record<InvoiceFieldKey, string>;
+
+const isFieldKey = (value: unknown): value is InvoiceFieldKey =>
+  INVOICE_FIELDS.some(field => field.key === value);
+
+const DATE_BOUND_PATTERN = /^(\d{4}-\d{2}-\d{2}|today([+-]\d+)?)$/;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const isValidDate = (dateString: string): boolean => {
+  const date = new Date(dateString);
+  if (isNaN(date.getTime())) return false;
+  return /^\d{4}-\d{2}-\d{2}$/.test(dateString);
+};
+
+// Overflowing days such as 2024-02-30 roll over the way Date parses them
+export const formatDateString = (dateString: string): string => {
+  const date = new Date(dateString);
+  return date.toISOString().split('T')[0];
+};
+
+const resolveDateBound = (bound: string, today: Date): string => {
+  const relative = /^today([+-]\d+)?$/.exec(bound);
+  if (!relative) return bound;
+  return new Date(today.getTime() + Number(relative[1] || 0) * DAY_MS).toISOString().split('T')[0];
+};
+
+const formatNumber = (value: number) => value.toLocaleString('en-US', { maximumFractionDigits: 2 });
+
+const OPERATOR_WORDS: Record<ComparisonOperator, { text: string; date: string }> = {
+  lt: { text: 'less than', date: 'before' },
+  lte: { text: 'at most', date: 'on or before' },
+  gt: { text: 'greater than', date: 'after' },
+  gte: { text: 'at least', date: 'on or after' },
+  eq: { text: 'equal to', date: 'the same as' },
+  ne: { text: 'different from', date: 'different from' },
+};
+
+const describeRange = (min?: number, max?: number, exclusiveMin?: boolean, exclusiveMax?: boolean): string => {
+  const lower = min === undefined ? null : `${exclusiveMin ? 'greater than' : 'at least'} ${formatNumber(min)}`;
+  const upper = max === undefined ? null : `${exclusiveMax ? 'less than' : 'at most'} ${formatNumber(max)}`;
+  return [lower, upper].filter(Boolean).join(' and ');
+};
+
+// What the rule requires, in words; also the error text unless the rule has its own message
+export const describeRule = (rule: ValidationRule): string => {
+  switch (rule.type) {
+    case 'required':
+      return `${FIELD_LABELS[rule.field]} is required`;
+    case 'pattern':
+      return `${FIELD_LABELS[rule.field]} must match /${rule.pattern}/${rule.flags || ''}`;
+    case 'allowedValues':
+      return `${FIELD_LABELS[rule.field]} must be one of: ${rule.values.join(', ')}`;
+    case 'numberRange':
+      return `${FIELD_LABELS[rule.field]} must be ${describeRange(rule.min, rule.max, rule.exclusiveMin, rule.exclusiveMax)}`;
+    case 'dateRange':
+      return `${FIELD_LABELS[rule.field]} must be ${[
+        rule.min && `on or after ${rule.min}`,
+        rule.max && `on or before ${rule.max}`,
+      ].filter(Boolean).join(' and ')}`;
+    case 'compareFields': {
+      const words = OPERATOR_WORDS[rule.operator];
+      return `${FIELD_LABELS[rule.field]} must be ${DATE_FIELDS.includes(rule.field) ? words.date : words.text} ${FIELD_LABELS[rule.otherField]}`;
+    }
+    case 'maxTenor':
+      return `Due date must be at most ${rule.maxDays} days after issue date`;
+    case 'currencyAmountRange':
+      return `${rule.currency} amounts must be ${describeRange(rule.min, rule.max)}`;
+  }
+};
+
+const hasValidBounds = ({ min, max }: { min?: number; max?: number }) =>
+  [min, max].every(bound => bound === undefined || Number.isFinite(bound));
+
+// Problems that would make a rule set unusable; empty when it can be saved
+export const checkValidationRules = (rules: ValidationRule[]): string[] => {
+  const problems: string[] = [];
+  const seenIds = new Set<string>();
+
+  rules.forEach((rule, index) => {
+    const name = rule.id ? `Rule "${rule.id}"` : `Rule ${index + 1}`;
+    if (!/^[a-z0-9][a-z0-9-]*$/.test(rule.id || '')) {
+      problems.push(`${name}: id must be lowercase letters, digits and dashes`);
+    } else if (seenIds.has(rule.id)) {
+      problems.push(`${name}: id is used more than once`);
+    }
+    seenIds.add(rule.id);
+
+    if (!RULE_TYPES.includes(rule.type)) {
+      problems.push(`${name}: unknown rule type ${String(rule.type)}`);
+      return;
+    }
+    if ('field' in rule && !isFieldKey(rule.field)) {
+      problems.push(`${name}: unknown field ${String(rule.field)}`);
+      return;
+    }
+
+    switch (rule.type) {
+      case 'pattern':
+        try {
+          new RegExp(rule.pattern, rule.flags);
+        } catch {
+          problems.push(`${name}: invalid regular expression`);
+        }
+        break;
+      case 'allowedValues':
+        if (!Array.isArray(rule.values) || rule.values.length === 0) {
+          problems.push(`${name}: list at least one allowed value`);
+        }
+        break;
+      case 'numberRange':
+        if (!hasValidBounds(rule)) {
+          problems.push(`${name}: minimum and maximum must be numbers`);
+        }
+        if (!NUMBER_FIELDS.includes(rule.field)) {
+          problems.push(`${name}: number ranges apply to ${NUMBER_FIELDS.join(', ')} only`);
+        }
+        if (rule.min === undefined && rule.max === undefined) {
+          problems.push(`${name}: set a minimum, a maximum or both`);
+        }
+        break;
+      case 'dateRange':
+        if (!DATE_FIELDS.includes(rule.field)) {
+          problems.push(`${name}: date ranges apply to ${DATE_FIELDS.join(', ')} only`);
+        }
+        if (!rule.min && !rule.max) {
+          problems.push(`${name}: set a start, an end or both`);
+        }
+        [rule.min, rule.max].forEach(bound => {
+          if (bound && !DATE_BOUND_PATTERN.test(bound)) {
+            problems.push(`${name}: "${bound}" is not YYYY-MM-DD, today, or today±days`);
+          }
+        });
+        break;
+      case 'compareFields': {
+        if (!isFieldKey(rule.otherField) || rule.otherField === rule.field) {
+          problems.push(`${name}: compare with a different field`);
+        } else if (
+          NUMBER_FIELDS.includes(rule.field) !== NUMBER_FIELDS.includes(rule.otherField) ||
+          DATE_FIELDS.includes(rule.field) !== DATE_FIELDS.includes(rule.otherField)
+        ) {
+          problems.push(`${name}: ${rule.field} and ${rule.otherField} hold different kinds of values`);
+        }
+        if (!COMPARISON_OPERATORS.includes(rule.operator)) {
+          problems.push(`${name}: unknown operator ${String(rule.operator)}`);
+        }
+        break;
+      }
+      case 'maxTenor':
+        if (!Number.isInteger(rule.maxDays) || rule.maxDays < 0) {
+          problems.push(`${name}: maximum tenor must be a whole number of days`);
+        }
+        break;
+      case 'currencyAmountRange':
+        if (!hasValidBounds(rule)) {
+          problems.push(`${name}: minimum and maximum must be numbers`);
+        }
+        if (!/^[A-Z]{3}$/.test(rule.currency || '')) {
+          problems.push(`${name}: currency must be a three-letter code`);
+        }
+        if (rule.min === undefined && rule.max === undefined) {
+          problems.push(`${name}: set a minimum, a maximum or both`);
+        }
+        break;
+    }
+  });
+
+  (Object.entries(REQUIRED_RULE_IDS) as [InvoiceFieldKey, string][]).forEach(([field, ruleId]) => {
+    const rule = rules.find(candidate => candidate.id === ruleId);
+    if (!rule) {
+      problems.push(`Rule "${ruleId}": cannot be removed`);
+    } else if (rule.type !== 'required' || rule.field !== field) {
+      problems.push(`Rule "${ruleId}": must stay a required check on ${field}`);
+    } else if (!rule.enabled) {
+      problems.push(`Rule "${ruleId}": cannot be switched off`);
+    }
+  });
+
+  return problems;
+};
+
+// Rule sets saved before the required rules were locked get them back, switched on
+const withLockedRules = (rules: ValidationRule[]): ValidationRule[] => [
+  ...rules.map(rule => (isLockedRule(rule.id) ? { ...rule, enabled: true } : rule)),
+  ...DEFAULT_VALIDATION_RULES.filter(rule => isLockedRule(rule.id) && !rules.some(existing => existing.id === rule.id)),
+];
+
+// WorkspaceSettings.validationRules is stored as a JSON string; null means the workspace uses the defaults
+export const parseValidationRules = (stored: unknown): ValidationRule[] | null => {
+  try {
+    const value = typeof stored === 'string' ? JSON.parse(stored) : stored;
+    if (!Array.isArray(value)) return null;
+    const rules = withLockedRules(value as ValidationRule[]);
+    return checkValidationRules(rules).length === 0 ? rules : null;
+  } catch {
+    return null;
+  }
+};
+
+// Field values as the rules compare them; null when the value is missing or does not parse
+const getTypedValue = (field: InvoiceFieldKey, value: string): string | number | null => {
+  if (!value) return null;
+  if (NUMBER_FIELDS.includes(field)) {
+    const number = Number(value);
+    return isFinite(number) ? number : null;
+  }
+  if (DATE_FIELDS.includes(field)) return isValidDate(value) ? formatDateString(value) : null;
+  return value;
+};
+
+const compare = (left: string | number, operator: ComparisonOperator, right: string | number): boolean => {
+  switch (operator) {
+    case 'lt': return left < right;
+    case 'lte': return left <= right;
+    case 'gt': return left > right;
+    case 'gte': return left >= right;
+    case 'eq': return left === right;
+    case 'ne': return left !== right;
+  }
+};
+
+// Only "required" looks at empty values; every other rule leaves them to it
+const passesRule = (rule: ValidationRule, values: Record<InvoiceFieldKey, string>, today: Date): boolean => {
+  switch (rule.type) {
+    case 'required':
+      return values[rule.field] !== '';
+    case 'pattern':
+      return !values[rule.field] || new RegExp(rule.pattern, rule.flags).test(values[rule.field]);
+    case 'allowedValues': {
+      const value = values[rule.field];
+      return !value || (rule.caseSensitive
+        ? rule.values.includes(value)
+        : rule.values.some(allowed => allowed.toLowerCase() === value.toLowerCase()));
+    }
+    case 'numberRange': {
+      const value = getTypedValue(rule.field, values[rule.field]);
+      if (typeof value !== 'number') return true;
+      if (rule.min !== undefined && (rule.exclusiveMin ? value <= rule.min : value < rule.min)) return false;
+      if (rule.max !== undefined && (rule.exclusiveMax ? value >= rule.max : value > rule.max)) return false;
+      return true;
+    }
+    case 'dateRange': {
+      const value = getTypedValue(rule.field, values[rule.field]);
+      if (typeof value !== 'string') return true;
+      if (rule.min && value < resolveDateBound(rule.min, today)) return false;
+      if (rule.max && value > resolveDateBound(rule.max, today)) return false;
+      return true;
+    }
+    case 'compareFields': {
+      const left = getTypedValue(rule.field, values[rule.field]);
+      const right = getTypedValue(rule.otherField, values[rule.otherField]);
+      if (left === null || right === null) return true;
+      return typeof left === 'string' && typeof right === 'string' && !DATE_FIELDS.includes(rule.field)
+        ? compare(left.toLowerCase(), rule.operator, right.toLowerCase())
+        : compare(left, rule.operator, right);
+    }
+    case 'maxTenor': {
+      const issueDate = getTypedValue('issue_date', values.issue_date);
+      const dueDate = getTypedValue('due_date', values.due_date);
+      if (typeof issueDate !== 'string' || typeof dueDate !== 'string') return true;
+      return (Date.parse(dueDate) - Date.parse(issueDate)) / DAY_MS <= rule.maxDays;
+    }
+    case 'currencyAmountRange': {
+      const amount = getTypedValue('amount', values.amount);
+      if (values.currency.toUpperCase() !== rule.currency || typeof amount !== 'number') return true;
+      return (rule.min === undefined || amount >= rule.min) && (rule.max === undefined || amount <= rule.max);
+    }
+  }
+};
+
+const getRuleField = (rule: ValidationRule): InvoiceFieldKey | undefined => {
+  if (rule.type === 'currencyAmountRange') return 'amount';
+  // Cross-field rules do not make either value unusable on its own
+  if (rule.type === 'compareFields' || rule.type === 'maxTenor') return undefined;
+  return rule.field;
+};
+
+// Values are the trimmed file values keyed by canonical field; format checks run before any configured rule
+export const evaluateValidationRules = (
+  values: Record<InvoiceFieldKey, string>,
+  rules: ValidationRule[],
+  today: Date = new Date()
+): RuleViolation[] => {
+  const violations: RuleViolation[] = [];
+
+  (Object.entries(FORMAT_RULE_IDS) as [InvoiceFieldKey, string][]).forEach(([field, ruleId]) => {
+    if (values[field] && getTypedValue(field, values[field]) === null) {
+      violations.push({
+        ruleId,
+        field,
+        message: DATE_FIELDS.includes(field)
+          ? `${FIELD_LABELS[field]} must be a date in YYYY-MM-DD format`
+          : `${FIELD_LABELS[field]} must be a number`,
+      });
+    }
+  });
+
+  rules
+    .filter(rule => rule.enabled)
+    .forEach(rule => {
+      if (!passesRule(rule, values, today)) {
+        violations.push({ ruleId: rule.id, field: getRuleField(rule), message: rule.message || describeRule(rule) });
+      }
+    });
+
+  return violations;
+};
+
+export const formatRuleViolation = (violation: RuleViolation, rowNumber: number): string =>
+  `Row ${rowNumber}: [${violation.ruleId}] ${violation.message}`;
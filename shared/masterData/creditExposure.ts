@@ -0,0 +1,109 @@
+// shared/masterData/creditExposure.ts - Debtor exposure against credit limits and portfolio concentration
+import { getInvoiceStatus, isTerminalStatus } from '../invoiceLifecycle/statusMachine';
+
+// Invoice as far as exposure needs it; amounts are face value
+export interface ExposureInvoice {
+  debtorId: string;
+  currency: string;
+  amount: number;
+}
+
+export interface DebtorLimits {
+  debtorId: string;
+  legalName: string;
+  creditLimit?: number; // In the debtor's default currency
+  creditLimitCurrency?: string;
+  maxConcentrationPercent?: number; // Largest share of the portfolio in one currency
+}
+
+// Exceeding a credit line blocks submission; concentration and limits that cannot be checked only warn
+export type ExposureStatus = 'OK' | 'WARN' | 'BLOCK';
+
+// One debtor in one currency of the pending batch
+export interface DebtorExposure {
+  debtorId: string;
+  legalName?: string;
+  currency: string;
+  outstanding: number; // Submitted, not yet settled, written off or rejected
+  pending: number; // Invoices about to be submitted
+  total: number;
+  creditLimit?: number;
+  availableCredit?: number; // Before the pending batch
+  concentrationPercent: number;
+  maxConcentrationPercent?: number;
+  status: ExposureStatus;
+  issues: string[];
+}
+
+// Rejected, settled and written-off invoices no longer count; part-paid ones count in full, as payments are not itemized
+export const isOutstanding = (status: unknown): boolean => !isTerminalStatus(getInvoiceStatus(status));
+
+const sumByKey = (invoices: ExposureInvoice[], key: (invoice: ExposureInvoice) => string): Map<string, number> =>
+  invoices.reduce((totals, invoice) => {
+    totals.set(key(invoice), (totals.get(key(invoice)) || 0) + (invoice.amount || 0));
+    return totals;
+  }, new Map<string, number>());
+
+const formatAmount = (amount: number, currency: string): string =>
+  `${amount.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })} ${currency}`;
+
+// Every debtor/currency the pending batch adds to, worst first
+export const checkDebtorExposure = (
+  outstanding: ExposureInvoice[],
+  pending: ExposureInvoice[],
+  debtors: DebtorLimits[]
+): DebtorExposure[] => {
+  const debtorKey = (invoice: ExposureInvoice) => `${invoice.debtorId.toLowerCase()}|${invoice.currency}`;
+  const limitsById = new Map(debtors.map(debtor => [debtor.debtorId.toLowerCase(), debtor]));
+  const outstandingByDebtor = sumByKey(outstanding, debtorKey);
+  const pendingByDebtor = sumByKey(pending, debtorKey);
+  const portfolioByCurrency = sumByKey([...outstanding, ...pending], invoice => invoice.currency);
+  const debtorIds = new Map(pending.map(invoice => [debtorKey(invoice), invoice]));
+
+  const exposures = [...debtorIds].map(([key, { debtorId, currency }]): DebtorExposure => {
+    const limits = limitsById.get(debtorId.toLowerCase());
+    const outstandingAmount = outstandingByDebtor.get(key) || 0;
+    const pendingAmount = pendingByDebtor.get(key) || 0;
+    const total = outstandingAmount + pendingAmount;
+    const portfolio = portfolioByCurrency.get(currency) || 0;
+    const concentrationPercent = portfolio > 0 ? (total / portfolio) * 100 : 0;
+    const issues: string[] = [];
+    let status: ExposureStatus = 'OK';
+
+    const hasLimit = limits?.creditLimit !== undefined;
+    const limitApplies = hasLimit && limits?.creditLimitCurrency === currency;
+    if (limitApplies && limits?.creditLimit !== undefined && total > limits.creditLimit) {
+      status = 'BLOCK';
+      issues.push(`Exposure ${formatAmount(total, currency)} exceeds the credit limit of ${formatAmount(limits.creditLimit, currency)}`);
+    } else if (hasLimit && !limitApplies) {
+      status = 'WARN';
+      issues.push(`Credit limit is set in ${limits?.creditLimitCurrency || 'no currency'}; ${currency} invoices are not checked against it`);
+    }
+
+    const maxConcentration = limits?.maxConcentrationPercent;
+    if (maxConcentration !== undefined && concentrationPercent > maxConcentration) {
+      if (status === 'OK') status = 'WARN';
+      issues.push(`${concentrationPercent.toFixed(1)}% of the ${currency} portfolio exceeds the maximum of ${maxConcentration}%`);
+    }
+
+    return {
+      debtorId,
+      legalName: limits?.legalName,
+      currency,
+      outstanding: outstandingAmount,
+      pending: pendingAmount,
+      total,
+      ...(limitApplies && limits?.creditLimit !== undefined && {
+        creditLimit: limits.creditLimit,
+        availableCredit: limits.creditLimit - outstandingAmount,
+      }),
+      concentrationPercent,
+      maxConcentrationPercent: maxConcentration,
+      status,
+      issues,
+    };
+  });
+
+  const severity: Record<ExposureStatus, number> = { BLOCK: 0, WARN: 1, OK: 2 };
+  return exposures.sort((a, b) => severity[a.status] - severity[b.status] || b.total - a.total);
+};
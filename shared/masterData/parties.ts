@@ -0,0 +1,161 @@
+// shared/masterData/parties.ts - Seller and debtor master data: bulk import rows and the registry invoices are checked against
+import { parseCsv, formatCsvIssue } from '../invoiceProcessing/csvParser';
+import { normalizeHeader } from '../invoiceProcessing/columnMapping';
+import type { ProcessingError } from '../invoiceProcessing/types';
+
+export type PartyKind = 'seller' | 'debtor';
+
+export const PARTY_KINDS: PartyKind[] = ['seller', 'debtor'];
+
+export const PARTY_KIND_LABELS: Record<PartyKind, string> = {
+  seller: 'Seller',
+  debtor: 'Debtor',
+};
+
+// One seller or debtor as entered or imported; partyId is the ID invoice files use
+export interface PartyInput {
+  partyId: string;
+  legalName: string;
+  country?: string; // ISO 3166-1 alpha-2
+  registrationNumber?: string;
+  vatId?: string;
+  defaultCurrency?: string;
+  paymentTermsDays?: number;
+  creditLimit?: number; // Debtors only, in defaultCurrency
+  maxConcentrationPercent?: number; // Debtors only
+  isActive: boolean;
+}
+
+// An imported row; isActive is left out when the file has no active value, so re-imports keep the current status
+export type PartyImportRow = Omit<PartyInput, 'isActive'> & { isActive?: boolean };
+
+interface PartyColumn {
+  key: keyof PartyInput;
+  label: string;
+  aliases: string[]; // Normalized header names accepted for the column
+  debtorOnly?: boolean;
+}
+
+export const PARTY_CSV_COLUMNS: PartyColumn[] = [
+  { key: 'partyId', label: 'id', aliases: ['id', 'seller id', 'debtor id', 'party id', 'uuid'] },
+  { key: 'legalName', label: 'legal_name', aliases: ['legal name', 'name', 'company', 'company name'] },
+  { key: 'country', label: 'country', aliases: ['country', 'country code'] },
+  { key: 'registrationNumber', label: 'registration_number', aliases: ['registration number', 'registration no', 'company number', 'reg no'] },
+  { key: 'vatId', label: 'vat_id', aliases: ['vat id', 'vat', 'vat number', 'tax id'] },
+  { key: 'defaultCurrency', label: 'default_currency', aliases: ['default currency', 'currency'] },
+  { key: 'paymentTermsDays', label: 'payment_terms_days', aliases: ['payment terms days', 'payment terms', 'terms'] },
+  { key: 'creditLimit', label: 'credit_limit', aliases: ['credit limit', 'limit', 'credit line'], debtorOnly: true },
+  { key: 'maxConcentrationPercent', label: 'max_concentration_percent', aliases: ['max concentration percent', 'max concentration', 'concentration limit'], debtorOnly: true },
+  { key: 'isActive', label: 'active', aliases: ['active', 'is active', 'status'] },
+];
+
+export const getPartyCsvColumns = (kind: PartyKind): PartyColumn[] =>
+  PARTY_CSV_COLUMNS.filter(column => kind === 'debtor' || !column.debtorOnly);
+
+// Header line of the import template
+export const getPartyCsvTemplate = (kind: PartyKind): string =>
+  getPartyCsvColumns(kind).map(column => column.label).join(',');
+
+const INACTIVE_VALUES = ['false', 'no', 'n', '0', 'inactive'];
+
+// Problems with one party; empty when it can be saved
+export const checkPartyInput = (party: PartyImportRow): string[] => {
+  const problems: string[] = [];
+  if (!party.partyId) problems.push('ID is required');
+  if (!party.legalName) problems.push('Legal name is required');
+  if (party.country && !/^[A-Z]{2}$/.test(party.country)) {
+    problems.push('Country must be a two-letter ISO code');
+  }
+  if (party.defaultCurrency && !/^[A-Z]{3}$/.test(party.defaultCurrency)) {
+    problems.push('Default currency must be a three-letter code');
+  }
+  if (party.paymentTermsDays !== undefined && (!Number.isInteger(party.paymentTermsDays) || party.paymentTermsDays < 0)) {
+    problems.push('Payment terms must be a whole number of days');
+  }
+  if (party.creditLimit !== undefined) {
+    if (!Number.isFinite(party.creditLimit) || party.creditLimit < 0) {
+      problems.push('Credit limit must be a positive amount');
+    } else if (!party.defaultCurrency) {
+      problems.push('Credit limit needs a default currency to be counted in');
+    }
+  }
+  if (party.maxConcentrationPercent !== undefined &&
+    (!Number.isFinite(party.maxConcentrationPercent) || party.maxConcentrationPercent <= 0 || party.maxConcentrationPercent > 100)) {
+    problems.push('Maximum concentration must be a percentage between 0 and 100');
+  }
+  return problems;
+};
+
+// Rows are numbered like spreadsheet rows (header = 1); a later row for the same ID wins.
+// Throws when the header row is empty or cannot be read.
+export const parsePartyCsv = (text: string, kind: PartyKind): { parties: PartyImportRow[]; errors: ProcessingError[] } => {
+  const parsed = parseCsv(text);
+  const errors: ProcessingError[] = parsed.issues.map(issue => ({
+    row: issue.rowNumber,
+    line: issue.line,
+    column: issue.column,
+    errors: [`Row ${issue.rowNumber}: ${formatCsvIssue(issue)}`],
+  }));
+
+  const headerFor = (column: PartyColumn) => parsed.headers.find(header => column.aliases.includes(normalizeHeader(header)));
+  const headers = new Map(getPartyCsvColumns(kind).map(column => [column.key, headerFor(column)]));
+  const missing = PARTY_CSV_COLUMNS.filter(column => (column.key === 'partyId' || column.key === 'legalName') && !headers.get(column.key));
+  if (missing.length > 0) {
+    errors.push({ row: 1, errors: [`Row 1: Missing column ${missing.map(column => column.label).join(', ')}`] });
+    return { parties: [], errors };
+  }
+
+  const byId = new Map<string, PartyImportRow>();
+  parsed.rows.forEach(({ data, rowNumber }) => {
+    const value = (key: keyof PartyInput) => {
+      const header = headers.get(key);
+      return header ? (data[header] ?? '').trim() : '';
+    };
+    const terms = value('paymentTermsDays');
+    const creditLimit = value('creditLimit').replace(/[\s,]/g, '');
+    const maxConcentration = value('maxConcentrationPercent').replace(/%$/, '').trim();
+    const active = value('isActive').toLowerCase();
+    const party: PartyImportRow = {
+      partyId: value('partyId'),
+      legalName: value('legalName'),
+      ...(value('country') && { country: value('country').toUpperCase() }),
+      ...(value('registrationNumber') && { registrationNumber: value('registrationNumber') }),
+      ...(value('vatId') && { vatId: value('vatId') }),
+      ...(value('defaultCurrency') && { defaultCurrency: value('defaultCurrency').toUpperCase() }),
+      ...(terms && { paymentTermsDays: Number(terms) }),
+      ...(creditLimit && { creditLimit: Number(creditLimit) }),
+      ...(maxConcentration && { maxConcentrationPercent: Number(maxConcentration) }),
+      ...(active && { isActive: !INACTIVE_VALUES.includes(active) }),
+    };
+
+    const problems = checkPartyInput(party);
+    if (problems.length > 0) {
+      errors.push({ row: rowNumber, errors: problems.map(problem => `Row ${rowNumber}: ${problem}`) });
+    } else {
+      byId.set(party.partyId.toLowerCase(), party);
+    }
+  });
+
+  return { parties: [...byId.values()], errors };
+};
+
+export interface RegisteredParty {
+  legalName: string;
+  isActive: boolean;
+}
+
+// Lower-cased ID -> party. A kind with no registered parties is not checked, so workspaces can adopt the registry gradually
+export interface PartyRegistry {
+  sellers: Map<string, RegisteredParty>;
+  debtors: Map<string, RegisteredParty>;
+}
+
+export const buildPartyRegistry = (
+  sellers: { sellerId: string; legalName: string; isActive: boolean }[],
+  debtors: { debtorId: string; legalName: string; isActive: boolean }[]
+): PartyRegistry => ({
+  sellers: new Map(sellers.map(({ sellerId, legalName, isActive }) => [sellerId.toLowerCase(), { legalName, isActive }])),
+  debtors: new Map(debtors.map(({ debtorId, legalName, isActive }) => [debtorId.toLowerCase(), { legalName, isActive }])),
+});
+
+export const EMPTY_PARTY_REGISTRY: PartyRegistry = { sellers: new Map(), debtors: new Map() };
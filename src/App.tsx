@@ -1,4 +1,5 @@
 // src/App.tsx - Complete Application with Router Integration - AWS Amplify Gen 2
+import React, { useEffect, useState } from 'react';
 import { Authenticator } from '@aws-amplify/ui-react';
 import { Amplify } from 'aws-amplify';
 import outputs from '../amplify_outputs.json';
@@ -8,51 +9,97 @@ import { Navbar } from './components/Navbar';
 import DashboardPage from './pages/DashboardPage';
 import UploadPage from './pages/UploadPage';
 import SubmittedInvoicesPage from './pages/SubmittedInvoicesPage';
+import OrganizationPage from './pages/OrganizationPage';
+import MasterDataPage from './pages/MasterDataPage';
+import { OrganizationProvider } from './context/OrganizationProvider';
 import { appTheme } from './theme';
+import { canAccessRoute, getUserGroups } from './utils/userGroups';
+import type { UserGroup } from './utils/userGroups';
 
 // Configure Amplify
 Amplify.configure(outputs);
 
+type AuthenticatedAppProps = {
+  signOut?: () => void;
+  user?: React.ComponentProps<typeof Navbar>['user'];
+};
+
+// Signed-in shell - loads the user's Cognito groups before deciding which pages exist
+const AuthenticatedApp: React.FC<AuthenticatedAppProps> = ({ signOut, user }) => {
+  const [groups, setGroups] = useState<UserGroup[] | null>(null);
+
+  useEffect(() => {
+    getUserGroups().then(userGroups => {
+      console.log('👥 [AUTH] User groups:', userGroups);
+      setGroups(userGroups);
+    });
+  }, [user?.username]);
+
+  // Pages the user's groups don't allow fall back to the dashboard
+  const guard = (path: string, element: React.ReactElement) =>
+    groups && !canAccessRoute(path, groups) ? <Navigate to="/" replace /> : element;
+
+  return (
+    <OrganizationProvider>
+      <Router>
+        <div className="authenticated-app">
+          {/* Navigation Bar - Always visible after authentication */}
+          <Navbar signOut={signOut} user={user} groups={groups || []} />
+        
+          {/* Main Content Area with Routing */}
+          <main className="main-content">
+            {groups && (
+              <Routes>
+                {/* Dashboard - Default route */}
+                <Route 
+                  path="/" 
+                  element={<DashboardPage />} 
+                />
+              
+                {/* Upload Page */}
+                <Route 
+                  path="/upload" 
+                  element={guard('/upload', <UploadPage />)} 
+                />
+              
+                {/* Submitted Invoices Page */}
+                <Route 
+                  path="/submitted-invoices" 
+                  element={guard('/submitted-invoices', <SubmittedInvoicesPage />)} 
+                />
+              
+                {/* Seller and debtor registries */}
+                <Route 
+                  path="/master-data" 
+                  element={guard('/master-data', <MasterDataPage />)} 
+                />
+              
+                {/* Organization workspaces */}
+                <Route 
+                  path="/organization" 
+                  element={<OrganizationPage />} 
+                />
+              
+                {/* Catch-all redirect to dashboard */}
+                <Route 
+                  path="*" 
+                  element={<Navigate to="/" replace />} 
+                />
+              </Routes>
+            )}
+          </main>
+        </div>
+      </Router>
+    </OrganizationProvider>
+  );
+};
+
 export default function App() {
   return (
     <div className="app">
       <Authenticator>
         {({ signOut, user }) => (
-          <Router>
-            <div className="authenticated-app">
-              {/* Navigation Bar - Always visible after authentication */}
-              <Navbar signOut={signOut} user={user} />
-              
-              {/* Main Content Area with Routing */}
-              <main className="main-content">
-                <Routes>
-                  {/* Dashboard - Default route */}
-                  <Route 
-                    path="/" 
-                    element={<DashboardPage />} 
-                  />
-                  
-                  {/* Upload Page */}
-                  <Route 
-                    path="/upload" 
-                    element={<UploadPage />} 
-                  />
-                  
-                  {/* Submitted Invoices Page */}
-                  <Route 
-                    path="/submitted-invoices" 
-                    element={<SubmittedInvoicesPage />} 
-                  />
-                  
-                  {/* Catch-all redirect to dashboard */}
-                  <Route 
-                    path="*" 
-                    element={<Navigate to="/" replace />} 
-                  />
-                </Routes>
-              </main>
-            </div>
-          </Router>
+          <AuthenticatedApp signOut={signOut} user={user} />
         )}
       </Authenticator>
 
@@ -0,0 +1,78 @@
+// src/components/ErrorReportLinks.tsx - Download links for the error report of one upload job
+import React, { useState } from 'react';
+import type { Schema } from '../../amplify/data/resource';
+import { downloadErrorReport } from '../utils/errorReport';
+import type { ErrorReportFormat } from '../utils/errorReport';
+
+interface ErrorReportLinksProps {
+  job: Schema["InvoiceUploadJob"]["type"];
+}
+
+const FORMATS: ErrorReportFormat[] = ['CSV', 'XLSX'];
+
+export const ErrorReportLinks: React.FC<ErrorReportLinksProps> = ({ job }) => {
+  const [downloading, setDownloading] = useState<ErrorReportFormat | null>(null);
+
+  const handleDownload = async (format: ErrorReportFormat) => {
+    setDownloading(format);
+    try {
+      await downloadErrorReport(job, format);
+    } catch (error) {
+      console.error('❌ [ERROR REPORT] Download failed:', error);
+      alert(`Could not download the error report: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      setDownloading(null);
+    }
+  };
+
+  return (
+    <span className="error-report-links" title="Rejected rows as they were in the file, with the reason for each">
+      <span className="error-report-label">📋 Error report</span>
+      {FORMATS.map(format => (
+        <button
+          key={format}
+          onClick={() => handleDownload(format)}
+          disabled={downloading !== null}
+          className="error-report-btn"
+        >
+          {downloading === format ? '🔄' : format}
+        </button>
+      ))}
+
+      <style>{`
+        .error-report-links {
+          display: inline-flex;
+          align-items: center;
+          gap: 4px;
+          font-size: 12px;
+          white-space: nowrap;
+        }
+
+        .error-report-label {
+          color: #c53030;
+          font-weight: 500;
+        }
+
+        .error-report-btn {
+          padding: 2px 8px;
+          background: white;
+          border: 1px solid #feb2b2;
+          border-radius: 4px;
+          color: #c53030;
+          font-size: 11px;
+          font-weight: 600;
+          cursor: pointer;
+        }
+
+        .error-report-btn:hover:not(:disabled) {
+          background: #fff5f5;
+        }
+
+        .error-report-btn:disabled {
+          opacity: 0.6;
+          cursor: not-allowed;
+        }
+      `}</style>
+    </span>
+  );
+};
@@ -0,0 +1,418 @@
+// src/components/InvoiceDocumentsPanel.tsx - List, open and attach the typed supporting documents of one invoice
+import React, { useMemo, useState } from 'react';
+import { DOCUMENT_TYPES, DOCUMENT_TYPE_LABELS } from '../../shared/invoiceDocuments/documentTypes';
+import type { DocumentType } from '../../shared/invoiceDocuments/documentTypes';
+import type { InvoiceDocument } from '../utils/invoiceDocuments';
+
+interface InvoiceDocumentsPanelProps {
+  title: string;
+  documents: InvoiceDocument[];
+  requiredTypes?: DocumentType[];
+  hasInvoicePdf: boolean; // The invoice's own PDF satisfies INVOICE_PDF
+  getFileUrl: (document: InvoiceDocument) => Promise<string>;
+  onUpload?: (file: File, documentType: DocumentType, onProgress: (percent: number) => void) => Promise<void>;
+  onRemove?: (document: InvoiceDocument) => Promise<void>;
+  onClose: () => void;
+}
+
+const formatFileSize = (bytes: number | null | undefined) => {
+  if (!bytes) return '—';
+  if (bytes < 1024 * 1024) return `${Math.max(1, Math.round(bytes / 1024))} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+export const InvoiceDocumentsPanel: React.FC<InvoiceDocumentsPanelProps> = ({
+  title,
+  documents,
+  requiredTypes = [],
+  hasInvoicePdf,
+  getFileUrl,
+  onUpload,
+  onRemove,
+  onClose
+}) => {
+  const [documentType, setDocumentType] = useState<DocumentType>('PROOF_OF_DELIVERY');
+  const [file, setFile] = useState<File | null>(null);
+  const [uploadProgress, setUploadProgress] = useState<number | null>(null);
+  const [busyDocumentId, setBusyDocumentId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [fileInputKey, setFileInputKey] = useState(0);
+
+  const sortedDocuments = useMemo(
+    () => [...documents].sort((a, b) =>
+      DOCUMENT_TYPES.indexOf(a.documentType as DocumentType) - DOCUMENT_TYPES.indexOf(b.documentType as DocumentType) ||
+      b.uploadedAt.localeCompare(a.uploadedAt)
+    ),
+    [documents]
+  );
+
+  const presentTypes = useMemo(() => {
+    const types = new Set(documents.map(document => document.documentType));
+    if (hasInvoicePdf) types.add('INVOICE_PDF');
+    return types;
+  }, [documents, hasInvoicePdf]);
+
+  const handleUpload = async () => {
+    if (!file || !onUpload) return;
+
+    setError(null);
+    setUploadProgress(0);
+    try {
+      await onUpload(file, documentType, setUploadProgress);
+      setFile(null);
+      setFileInputKey(key => key + 1);
+    } catch (uploadError) {
+      console.error('❌ [DOCUMENTS] Upload failed:', uploadError);
+      setError(uploadError instanceof Error ? uploadError.message : 'Upload failed');
+    } finally {
+      setUploadProgress(null);
+    }
+  };
+
+  const handleOpen = async (document: InvoiceDocument) => {
+    setError(null);
+    setBusyDocumentId(document.id);
+    try {
+      window.open(await getFileUrl(document), '_blank');
+    } catch (openError) {
+      console.error('❌ [DOCUMENTS] Could not open document:', openError);
+      setError(openError instanceof Error ? openError.message : 'Could not open document');
+    } finally {
+      setBusyDocumentId(null);
+    }
+  };
+
+  const handleRemove = async (document: InvoiceDocument) => {
+    if (!onRemove || !confirm(`Remove ${document.fileName} from this invoice?`)) return;
+
+    setError(null);
+    setBusyDocumentId(document.id);
+    try {
+      await onRemove(document);
+    } catch (removeError) {
+      console.error('❌ [DOCUMENTS] Could not remove document:', removeError);
+      setError(removeError instanceof Error ? removeError.message : 'Could not remove document');
+    } finally {
+      setBusyDocumentId(null);
+    }
+  };
+
+  return (
+    <div className="documents-overlay" onClick={onClose}>
+      <div
+        className="documents-modal"
+        role="dialog"
+        aria-labelledby="documents-title"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="documents-header">
+          <h3 id="documents-title">📎 Documents for {title}</h3>
+          <button onClick={onClose} className="documents-close-btn" aria-label="Close">✕</button>
+        </div>
+
+        {requiredTypes.length > 0 && (
+          <div className="documents-requirements">
+            <span>Required for submission:</span>
+            {requiredTypes.map(type => (
+              <span key={type} className={`documents-requirement ${presentTypes.has(type) ? 'met' : 'missing'}`}>
+                {presentTypes.has(type) ? '✅' : '⚠️'} {DOCUMENT_TYPE_LABELS[type]}
+              </span>
+            ))}
+          </div>
+        )}
+
+        {error && <div className="documents-error">❌ {error}</div>}
+
+        {sortedDocuments.length === 0 ? (
+          <div className="documents-empty">
+            No supporting documents yet{hasInvoicePdf ? ' — the invoice PDF is attached separately' : ''}.
+          </div>
+        ) : (
+          <div className="documents-table-container">
+            <table className="documents-table">
+              <thead>
+                <tr>
+                  <th>Type</th>
+                  <th>File</th>
+                  <th>Size</th>
+                  <th>Uploaded</th>
+                  <th></th>
+                </tr>
+              </thead>
+              <tbody>
+                {sortedDocuments.map(document => (
+                  <tr key={document.id}>
+                    <td>
+                      <span className="documents-type">
+                        {DOCUMENT_TYPE_LABELS[document.documentType as DocumentType] || document.documentType}
+                      </span>
+                    </td>
+                    <td className="documents-file" title={document.fileName}>{document.fileName}</td>
+                    <td>{formatFileSize(document.fileSize)}</td>
+                    <td className="documents-uploaded">
+                      {new Date(document.uploadedAt).toLocaleString()}
+                      {document.uploadedBy && <div>{document.uploadedBy}</div>}
+                    </td>
+                    <td className="documents-actions">
+                      <button
+                        onClick={() => handleOpen(document)}
+                        disabled={busyDocumentId === document.id}
+                        className="documents-action-btn"
+                      >
+                        ⬇ Open
+                      </button>
+                      {onRemove && (
+                        <button
+                          onClick={() => handleRemove(document)}
+                          disabled={busyDocumentId === document.id}
+                          className="documents-action-btn remove"
+                        >
+                          🗑 Remove
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        {onUpload && (
+          <div className="documents-upload">
+            <select
+              value={documentType}
+              onChange={(e) => setDocumentType(e.target.value as DocumentType)}
+              disabled={uploadProgress !== null}
+            >
+              {DOCUMENT_TYPES.map(type => (
+                <option key={type} value={type}>{DOCUMENT_TYPE_LABELS[type]}</option>
+              ))}
+            </select>
+            <input
+              key={fileInputKey}
+              type="file"
+              onChange={(e) => setFile(e.target.files?.[0] || null)}
+              disabled={uploadProgress !== null}
+            />
+            <button
+              onClick={handleUpload}
+              disabled={!file || uploadProgress !== null}
+              className="documents-upload-btn"
+            >
+              {uploadProgress !== null ? `Uploading ${uploadProgress}%` : '⤴ Attach'}
+            </button>
+          </div>
+        )}
+      </div>
+
+      <style>{`
+        .documents-overlay {
+          position: fixed;
+          inset: 0;
+          background: rgba(0, 43, 75, 0.55);
+          display: flex;
+          align-items: center;
+          justify-content: center;
+          z-index: 2000;
+          padding: 20px;
+        }
+
+        .documents-modal {
+          background: white;
+          border-radius: 12px;
+          box-shadow: 0 20px 50px rgba(0, 0, 0, 0.25);
+          width: 100%;
+          max-width: 760px;
+          max-height: 90vh;
+          display: flex;
+          flex-direction: column;
+          padding: 24px;
+          font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif;
+        }
+
+        .documents-header {
+          display: flex;
+          justify-content: space-between;
+          align-items: center;
+          margin-bottom: 12px;
+        }
+
+        .documents-header h3 {
+          margin: 0;
+          color: #002b4b;
+          font-size: 20px;
+        }
+
+        .documents-close-btn {
+          background: none;
+          border: none;
+          font-size: 18px;
+          color: #5e6e77;
+          cursor: pointer;
+        }
+
+        .documents-requirements {
+          display: flex;
+          flex-wrap: wrap;
+          align-items: center;
+          gap: 8px;
+          margin-bottom: 12px;
+          font-size: 13px;
+          color: #5e6e77;
+        }
+
+        .documents-requirement {
+          padding: 2px 8px;
+          border-radius: 10px;
+          font-size: 12px;
+          font-weight: 600;
+        }
+
+        .documents-requirement.met {
+          background: #c6f6d5;
+          color: #276749;
+        }
+
+        .documents-requirement.missing {
+          background: #fefcbf;
+          color: #975a16;
+        }
+
+        .documents-error {
+          background: #fff5f5;
+          border: 1px solid #fed7d7;
+          border-radius: 6px;
+          padding: 8px 12px;
+          margin-bottom: 12px;
+          color: #c53030;
+          font-size: 13px;
+        }
+
+        .documents-empty {
+          padding: 24px;
+          text-align: center;
+          color: #5e6e77;
+          font-size: 14px;
+          border: 1px dashed #cbd5e0;
+          border-radius: 8px;
+        }
+
+        .documents-table-container {
+          overflow-y: auto;
+          border: 1px solid #e2e8f0;
+          border-radius: 8px;
+        }
+
+        .documents-table {
+          width: 100%;
+          border-collapse: collapse;
+          font-size: 13px;
+        }
+
+        .documents-table th {
+          position: sticky;
+          top: 0;
+          background: #f8fafc;
+          text-align: left;
+          padding: 8px 10px;
+          color: #002b4b;
+          border-bottom: 1px solid #e2e8f0;
+        }
+
+        .documents-table td {
+          padding: 8px 10px;
+          border-bottom: 1px solid #edf2f7;
+          vertical-align: top;
+        }
+
+        .documents-type {
+          display: inline-block;
+          padding: 2px 8px;
+          border-radius: 10px;
+          background: #e6f6fd;
+          color: #002b4b;
+          font-size: 12px;
+          font-weight: 600;
+          white-space: nowrap;
+        }
+
+        .documents-file {
+          max-width: 220px;
+          overflow: hidden;
+          text-overflow: ellipsis;
+          white-space: nowrap;
+          color: #002b4b;
+        }
+
+        .documents-uploaded {
+          color: #5e6e77;
+          font-size: 12px;
+        }
+
+        .documents-actions {
+          white-space: nowrap;
+        }
+
+        .documents-action-btn {
+          padding: 4px 10px;
+          margin-right: 6px;
+          background: white;
+          border: 1px solid #32b3e7;
+          border-radius: 4px;
+          color: #002b4b;
+          font-size: 12px;
+          cursor: pointer;
+        }
+
+        .documents-action-btn.remove {
+          border-color: #fc8181;
+          color: #c53030;
+        }
+
+        .documents-action-btn:disabled {
+          opacity: 0.6;
+          cursor: not-allowed;
+        }
+
+        .documents-upload {
+          display: flex;
+          flex-wrap: wrap;
+          align-items: center;
+          gap: 10px;
+          margin-top: 16px;
+          padding-top: 16px;
+          border-top: 1px solid #e2e8f0;
+        }
+
+        .documents-upload select {
+          padding: 6px 8px;
+          border: 1px solid #cbd5e0;
+          border-radius: 4px;
+          font-size: 13px;
+        }
+
+        .documents-upload input[type="file"] {
+          flex: 1;
+          font-size: 13px;
+        }
+
+        .documents-upload-btn {
+          padding: 8px 16px;
+          background: linear-gradient(135deg, #32b3e7, #1a9bd8);
+          border: none;
+          border-radius: 6px;
+          color: white;
+          font-size: 14px;
+          font-weight: 600;
+          cursor: pointer;
+        }
+
+        .documents-upload-btn:disabled {
+          background: #cbd5e0;
+          cursor: not-allowed;
+        }
+      `}</style>
+    </div>
+  );
+};
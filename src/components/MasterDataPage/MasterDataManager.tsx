@@ -0,0 +1,714 @@
+// components/MasterDataManager.tsx - Seller and debtor registries of the active workspace, with CSV bulk import
+import React, { useEffect, useState } from 'react';
+import { useActiveOrganization } from '../../context/organizationContext';
+import { fetchParties, importParties, saveParty } from '../../utils/partyRegistry';
+import type { Party, PartyImportResult } from '../../utils/partyRegistry';
+import { canSetCreditLimits, getUserGroups } from '../../utils/userGroups';
+import {
+  PARTY_KINDS,
+  PARTY_KIND_LABELS,
+  checkPartyInput,
+  getPartyCsvTemplate,
+  parsePartyCsv,
+} from '../../../shared/masterData/parties';
+import type { PartyImportRow, PartyInput, PartyKind } from '../../../shared/masterData/parties';
+import type { ProcessingError } from '../../../shared/invoiceProcessing/types';
+
+// Form state for one party; numbers stay text until the party is saved
+interface PartyDraft {
+  partyId: string;
+  legalName: string;
+  country: string;
+  registrationNumber: string;
+  vatId: string;
+  defaultCurrency: string;
+  paymentTermsDays: string;
+  creditLimit: string;
+  maxConcentrationPercent: string;
+  isActive: boolean;
+}
+
+const EMPTY_DRAFT: PartyDraft = {
+  partyId: '',
+  legalName: '',
+  country: '',
+  registrationNumber: '',
+  vatId: '',
+  defaultCurrency: '',
+  paymentTermsDays: '',
+  creditLimit: '',
+  maxConcentrationPercent: '',
+  isActive: true,
+};
+
+const toDraft = (party: Party): PartyDraft => ({
+  partyId: party.partyId,
+  legalName: party.legalName,
+  country: party.country || '',
+  registrationNumber: party.registrationNumber || '',
+  vatId: party.vatId || '',
+  defaultCurrency: party.defaultCurrency || '',
+  paymentTermsDays: party.paymentTermsDays !== undefined ? String(party.paymentTermsDays) : '',
+  creditLimit: party.creditLimit !== undefined ? String(party.creditLimit) : '',
+  maxConcentrationPercent: party.maxConcentrationPercent !== undefined ? String(party.maxConcentrationPercent) : '',
+  isActive: party.isActive,
+});
+
+const fromDraft = (draft: PartyDraft): PartyInput => ({
+  partyId: draft.partyId.trim(),
+  legalName: draft.legalName.trim(),
+  ...(draft.country.trim() && { country: draft.country.trim().toUpperCase() }),
+  ...(draft.registrationNumber.trim() && { registrationNumber: draft.registrationNumber.trim() }),
+  ...(draft.vatId.trim() && { vatId: draft.vatId.trim() }),
+  ...(draft.defaultCurrency.trim() && { defaultCurrency: draft.defaultCurrency.trim().toUpperCase() }),
+  ...(draft.paymentTermsDays.trim() && { paymentTermsDays: Number(draft.paymentTermsDays.trim()) }),
+  ...(draft.creditLimit.trim() && { creditLimit: Number(draft.creditLimit.trim()) }),
+  ...(draft.maxConcentrationPercent.trim() && { maxConcentrationPercent: Number(draft.maxConcentrationPercent.trim()) }),
+  isActive: draft.isActive,
+});
+
+interface ImportPreview {
+  fileName: string;
+  parties: PartyImportRow[];
+  errors: ProcessingError[];
+}
+
+export const MasterDataManager: React.FC = () => {
+  const { activeOrganizationId, activeOrganization } = useActiveOrganization();
+  const [kind, setKind] = useState<PartyKind>('seller');
+  const [parties, setParties] = useState<Party[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [refreshKey, setRefreshKey] = useState(0);
+  const [draft, setDraft] = useState<PartyDraft>(EMPTY_DRAFT);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [importPreview, setImportPreview] = useState<ImportPreview | null>(null);
+  const [searchTerm, setSearchTerm] = useState('');
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+  const [canSetLimits, setCanSetLimits] = useState(false);
+
+  const label = PARTY_KIND_LABELS[kind];
+
+  useEffect(() => {
+    getUserGroups().then(groups => setCanSetLimits(canSetCreditLimits(groups)));
+  }, []);
+
+  useEffect(() => {
+    let isMounted = true;
+    setLoading(true);
+
+    fetchParties(kind, activeOrganizationId)
+      .then(loaded => isMounted && setParties(loaded))
+      .catch(error => {
+        console.error(`❌ [MASTER DATA] Failed to load ${kind}s:`, error);
+        if (isMounted) setMessage({ type: 'error', text: `Failed to load ${kind}s` });
+      })
+      .finally(() => isMounted && setLoading(false));
+
+    return () => {
+      isMounted = false;
+    };
+  }, [kind, activeOrganizationId, refreshKey]);
+
+  const resetForm = () => {
+    setDraft(EMPTY_DRAFT);
+    setEditingId(null);
+  };
+
+  const handleKindChange = (nextKind: PartyKind) => {
+    setKind(nextKind);
+    setParties([]);
+    resetForm();
+    setImportPreview(null);
+    setMessage(null);
+  };
+
+  const candidate = fromDraft(draft);
+  const duplicate = parties.find(party =>
+    party.id !== editingId && party.partyId.toLowerCase() === candidate.partyId.toLowerCase()
+  );
+  const draftProblems = [
+    ...checkPartyInput(candidate),
+    ...(duplicate ? [`ID is already registered to ${duplicate.legalName}`] : []),
+  ];
+  const isDraftEmpty = !draft.partyId.trim() && !draft.legalName.trim();
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (draftProblems.length > 0) return;
+
+    setSaving(true);
+    setMessage(null);
+    try {
+      await saveParty(kind, candidate, activeOrganizationId, editingId || undefined, canSetLimits);
+      console.log(`📇 [MASTER DATA] ${label} saved:`, candidate.partyId);
+      setMessage({ type: 'success', text: `${label} ${candidate.legalName} saved` });
+      resetForm();
+      setRefreshKey(prev => prev + 1);
+    } catch (error) {
+      console.error(`❌ [MASTER DATA] Failed to save ${kind}:`, error);
+      setMessage({ type: 'error', text: error instanceof Error ? error.message : `Failed to save ${kind}` });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const toggleActive = async (party: Party) => {
+    setSaving(true);
+    setMessage(null);
+    try {
+      await saveParty(kind, { ...party, isActive: !party.isActive }, activeOrganizationId, party.id, canSetLimits);
+      setRefreshKey(prev => prev + 1);
+    } catch (error) {
+      console.error(`❌ [MASTER DATA] Failed to update ${kind}:`, error);
+      setMessage({ type: 'error', text: error instanceof Error ? error.message : `Failed to update ${kind}` });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleImportFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    setMessage(null);
+    try {
+      const { parties: parsed, errors } = parsePartyCsv(await file.text(), kind);
+      console.log(`📇 [MASTER DATA] Import file read:`, { fileName: file.name, parties: parsed.length, errors: errors.length });
+      setImportPreview({ fileName: file.name, parties: parsed, errors });
+    } catch (error) {
+      console.error(`❌ [MASTER DATA] Import file could not be read:`, error);
+      setMessage({ type: 'error', text: error instanceof Error ? error.message : 'Import file could not be read' });
+    }
+  };
+
+  const handleImport = async () => {
+    if (!importPreview) return;
+
+    setSaving(true);
+    setMessage(null);
+    try {
+      const result: PartyImportResult = await importParties(kind, importPreview.parties, parties, activeOrganizationId, canSetLimits);
+      const summary = `${result.created} created, ${result.updated} updated`;
+      setMessage(result.failed.length > 0
+        ? {
+            type: 'error',
+            text: `${summary}, ${result.failed.length} failed: ${result.failed.map(failure => `${failure.partyId} (${failure.message})`).join('; ')}`,
+          }
+        : { type: 'success', text: `${label}s imported: ${summary}` });
+      setImportPreview(null);
+      setRefreshKey(prev => prev + 1);
+    } catch (error) {
+      console.error(`❌ [MASTER DATA] Import failed:`, error);
+      setMessage({ type: 'error', text: error instanceof Error ? error.message : 'Import failed' });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const downloadTemplate = () => {
+    const url = URL.createObjectURL(new Blob([`${getPartyCsvTemplate(kind)}\n`], { type: 'text/csv;charset=utf-8' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${kind}s-template.csv`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const search = searchTerm.trim().toLowerCase();
+  const visibleParties = search
+    ? parties.filter(party =>
+        [party.partyId, party.legalName, party.registrationNumber, party.vatId]
+          .some(value => value?.toLowerCase().includes(search))
+      )
+    : parties;
+  const existingIds = new Set(parties.map(party => party.partyId.toLowerCase()));
+
+  return (
+    <div className="master-data-manager">
+      <div className="md-tabs">
+        {PARTY_KINDS.map(partyKind => (
+          <button
+            key={partyKind}
+            className={`md-tab ${kind === partyKind ? 'active' : ''}`}
+            onClick={() => handleKindChange(partyKind)}
+          >
+            {PARTY_KIND_LABELS[partyKind]}s
+          </button>
+        ))}
+        <span className="md-workspace">
+          {activeOrganization ? `🏢 ${activeOrganization.name}` : '👤 Personal workspace'}
+        </span>
+      </div>
+
+      <p className="md-hint">
+        Once a workspace has any {kind}s registered, uploaded invoice rows must use the ID of an active {kind}.
+        Deactivate a {kind} instead of deleting it so earlier invoices keep their name.
+      </p>
+
+      {message && <div className={`md-message ${message.type}`}>{message.text}</div>}
+
+      <div className="md-card">
+        <div className="md-card-header">
+          <h3>📇 {label}s ({parties.length})</h3>
+          <input
+            className="md-search"
+            value={searchTerm}
+            onChange={(e) => setSearchTerm(e.target.value)}
+            placeholder="Search ID, name, registration or VAT number"
+          />
+        </div>
+
+        {loading ? (
+          <div className="md-empty">Loading {kind}s...</div>
+        ) : visibleParties.length === 0 ? (
+          <div className="md-empty">{parties.length === 0 ? `No ${kind}s registered yet` : `No ${kind}s match the search`}</div>
+        ) : (
+          <div className="md-table-wrapper">
+            <table className="md-table">
+              <thead>
+                <tr>
+                  <th>Legal name</th>
+                  <th>ID</th>
+                  <th>Country</th>
+                  <th>Registration no.</th>
+                  <th>VAT ID</th>
+                  <th>Currency</th>
+                  <th>Terms</th>
+                  {kind === 'debtor' && <th>Credit limit</th>}
+                  {kind === 'debtor' && <th>Max share</th>}
+                  <th>Status</th>
+                  <th></th>
+                </tr>
+              </thead>
+              <tbody>
+                {visibleParties.map(party => (
+                  <tr key={party.id} className={party.isActive ? '' : 'inactive'}>
+                    <td>{party.legalName}</td>
+                    <td className="md-id">{party.partyId}</td>
+                    <td>{party.country || '—'}</td>
+                    <td>{party.registrationNumber || '—'}</td>
+                    <td>{party.vatId || '—'}</td>
+                    <td>{party.defaultCurrency || '—'}</td>
+                    <td>{party.paymentTermsDays !== undefined ? `${party.paymentTermsDays} days` : '—'}</td>
+                    {kind === 'debtor' && (
+                      <td>
+                        {party.creditLimit !== undefined
+                          ? `${party.creditLimit.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })} ${party.defaultCurrency || ''}`
+                          : '—'}
+                      </td>
+                    )}
+                    {kind === 'debtor' && (
+                      <td>{party.maxConcentrationPercent !== undefined ? `${party.maxConcentrationPercent}%` : '—'}</td>
+                    )}
+                    <td>
+                      <span className={`md-status ${party.isActive ? 'active' : 'inactive'}`}>
+                        {party.isActive ? 'Active' : 'Inactive'}
+                      </span>
+                    </td>
+                    <td className="md-actions">
+                      <button
+                        className="md-btn"
+                        onClick={() => {
+                          setDraft(toDraft(party));
+                          setEditingId(party.id);
+                        }}
+                        disabled={saving}
+                      >
+                        Edit
+                      </button>
+                      <button
+                        className={`md-btn ${party.isActive ? 'danger' : ''}`}
+                        onClick={() => toggleActive(party)}
+                        disabled={saving}
+                      >
+                        {party.isActive ? 'Deactivate' : 'Activate'}
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      <div className="md-card">
+        <h3>{editingId ? `✏️ Edit ${kind}` : `➕ Add ${kind}`}</h3>
+        <form className="md-form" onSubmit={handleSubmit}>
+          <input
+            value={draft.partyId}
+            onChange={(e) => setDraft(prev => ({ ...prev, partyId: e.target.value }))}
+            placeholder={`${label} ID used in invoice files`}
+          />
+          <input
+            value={draft.legalName}
+            onChange={(e) => setDraft(prev => ({ ...prev, legalName: e.target.value }))}
+            placeholder="Legal name"
+          />
+          <input
+            value={draft.country}
+            onChange={(e) => setDraft(prev => ({ ...prev, country: e.target.value }))}
+            placeholder="Country (e.g. DE)"
+            maxLength={2}
+            className="narrow"
+          />
+          <input
+            value={draft.registrationNumber}
+            onChange={(e) => setDraft(prev => ({ ...prev, registrationNumber: e.target.value }))}
+            placeholder="Registration number"
+          />
+          <input
+            value={draft.vatId}
+            onChange={(e) => setDraft(prev => ({ ...prev, vatId: e.target.value }))}
+            placeholder="VAT ID"
+          />
+          <input
+            value={draft.defaultCurrency}
+            onChange={(e) => setDraft(prev => ({ ...prev, defaultCurrency: e.target.value }))}
+            placeholder="Currency"
+            maxLength={3}
+            className="narrow"
+          />
+          <input
+            value={draft.paymentTermsDays}
+            onChange={(e) => setDraft(prev => ({ ...prev, paymentTermsDays: e.target.value }))}
+            placeholder="Terms (days)"
+            inputMode="numeric"
+            className="narrow"
+          />
+          {kind === 'debtor' && (
+            <>
+              <input
+                value={draft.creditLimit}
+                onChange={(e) => setDraft(prev => ({ ...prev, creditLimit: e.target.value }))}
+                placeholder="Credit limit (default currency)"
+                inputMode="decimal"
+                disabled={!canSetLimits}
+                title={canSetLimits ? undefined : 'Only admins can change credit limits'}
+              />
+              <input
+                value={draft.maxConcentrationPercent}
+                onChange={(e) => setDraft(prev => ({ ...prev, maxConcentrationPercent: e.target.value }))}
+                placeholder="Max share %"
+                inputMode="decimal"
+                className="narrow"
+                disabled={!canSetLimits}
+                title={canSetLimits ? undefined : 'Only admins can change concentration limits'}
+              />
+            </>
+          )}
+          <label className="md-checkbox">
+            <input
+              type="checkbox"
+              checked={draft.isActive}
+              onChange={(e) => setDraft(prev => ({ ...prev, isActive: e.target.checked }))}
+            />
+            Active
+          </label>
+          <button type="submit" className="md-btn primary" disabled={saving || draftProblems.length > 0}>
+            {saving ? 'Saving...' : editingId ? 'Save changes' : `Add ${kind}`}
+          </button>
+          {(editingId || !isDraftEmpty) && (
+            <button type="button" className="md-btn" onClick={resetForm} disabled={saving}>
+              Cancel
+            </button>
+          )}
+        </form>
+        {!isDraftEmpty && draftProblems.length > 0 && (
+          <ul className="md-problems">
+            {draftProblems.map(problem => <li key={problem}>{problem}</li>)}
+          </ul>
+        )}
+      </div>
+
+      <div className="md-card">
+        <h3>📥 Import {kind}s from CSV</h3>
+        <p className="md-hint">
+          Columns: <code>{getPartyCsvTemplate(kind)}</code>. Only id and legal_name are required; rows with an ID that is
+          already registered update that {kind}, and empty cells keep its current values.
+        </p>
+        <div className="md-form">
+          <label className="md-btn primary md-file">
+            Choose CSV file
+            <input type="file" accept=".csv,text/csv" onChange={handleImportFile} disabled={saving} />
+          </label>
+          <button className="md-btn" onClick={downloadTemplate}>Download template</button>
+        </div>
+
+        {importPreview && (
+          <div className="md-import-preview">
+            <div className="md-import-summary">
+              <strong>{importPreview.fileName}</strong>:{' '}
+              {importPreview.parties.filter(party => !existingIds.has(party.partyId.toLowerCase())).length} new,{' '}
+              {importPreview.parties.filter(party => existingIds.has(party.partyId.toLowerCase())).length} updated
+              {importPreview.errors.length > 0 && `, ${importPreview.errors.length} rows skipped`}
+            </div>
+            {!canSetLimits && importPreview.parties.some(party =>
+              party.creditLimit !== undefined || party.maxConcentrationPercent !== undefined) && (
+              <p className="md-hint">
+                Credit limits and max shares in the file are ignored: only admins can set them.
+              </p>
+            )}
+            {importPreview.errors.length > 0 && (
+              <ul className="md-problems">
+                {importPreview.errors.flatMap(error => error.errors).map(error => <li key={error}>{error}</li>)}
+              </ul>
+            )}
+            <div className="md-form">
+              <button
+                className="md-btn primary"
+                onClick={handleImport}
+                disabled={saving || importPreview.parties.length === 0}
+              >
+                {saving ? 'Importing...' : `Import ${importPreview.parties.length} ${kind}s`}
+              </button>
+              <button className="md-btn" onClick={() => setImportPreview(null)} disabled={saving}>
+                Discard
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+
+      <style>{`
+        .master-data-manager {
+          padding: 25px;
+          display: flex;
+          flex-direction: column;
+          gap: 20px;
+        }
+
+        .md-tabs {
+          display: flex;
+          align-items: center;
+          gap: 8px;
+        }
+
+        .md-tab {
+          padding: 8px 18px;
+          background: white;
+          border: 1px solid rgba(50, 179, 231, 0.4);
+          border-radius: 20px;
+          color: #002b4b;
+          font-size: 14px;
+          font-weight: 600;
+          cursor: pointer;
+        }
+
+        .md-tab.active {
+          background: #32b3e7;
+          border-color: #32b3e7;
+          color: white;
+        }
+
+        .md-workspace {
+          margin-left: auto;
+          color: #5e6e77;
+          font-size: 14px;
+        }
+
+        .md-hint {
+          margin: 0 0 12px 0;
+          color: #5e6e77;
+          font-size: 14px;
+        }
+
+        .md-hint code {
+          background: #f7fafc;
+          padding: 1px 4px;
+          border-radius: 3px;
+          font-size: 12px;
+        }
+
+        .md-message {
+          padding: 12px 16px;
+          border-radius: 6px;
+          font-size: 14px;
+        }
+
+        .md-message.success {
+          background: #c6f6d5;
+          color: #276749;
+        }
+
+        .md-message.error {
+          background: #fed7d7;
+          color: #c53030;
+        }
+
+        .md-card {
+          border: 1px solid rgba(50, 179, 231, 0.3);
+          border-radius: 8px;
+          padding: 20px;
+          background: white;
+        }
+
+        .md-card h3 {
+          margin: 0 0 12px 0;
+          color: #002b4b;
+          font-size: 18px;
+        }
+
+        .md-card-header {
+          display: flex;
+          align-items: center;
+          justify-content: space-between;
+          gap: 12px;
+          margin-bottom: 12px;
+        }
+
+        .md-card-header h3 {
+          margin: 0;
+        }
+
+        .md-search {
+          padding: 8px 12px;
+          border: 1px solid rgba(50, 179, 231, 0.4);
+          border-radius: 4px;
+          font-size: 14px;
+          min-width: 280px;
+        }
+
+        .md-empty {
+          padding: 20px;
+          text-align: center;
+          color: #5e6e77;
+          font-size: 14px;
+        }
+
+        .md-table-wrapper {
+          overflow-x: auto;
+        }
+
+        .md-table {
+          width: 100%;
+          border-collapse: collapse;
+          font-size: 14px;
+        }
+
+        .md-table th,
+        .md-table td {
+          text-align: left;
+          padding: 8px;
+          border-bottom: 1px solid #edf2f7;
+          color: #002b4b;
+          white-space: nowrap;
+        }
+
+        .md-table tr.inactive td {
+          color: #a0aec0;
+        }
+
+        .md-id {
+          font-family: monospace;
+          font-size: 12px;
+        }
+
+        .md-status {
+          padding: 2px 8px;
+          border-radius: 10px;
+          font-size: 12px;
+          font-weight: 600;
+        }
+
+        .md-status.active {
+          background: #c6f6d5;
+          color: #276749;
+        }
+
+        .md-status.inactive {
+          background: #fed7d7;
+          color: #c53030;
+        }
+
+        .md-actions {
+          display: flex;
+          gap: 6px;
+        }
+
+        .md-form {
+          display: flex;
+          gap: 10px;
+          margin-top: 15px;
+          flex-wrap: wrap;
+          align-items: center;
+        }
+
+        .md-form input:not([type="checkbox"]):not([type="file"]) {
+          flex: 1;
+          min-width: 180px;
+          padding: 8px 12px;
+          border: 1px solid rgba(50, 179, 231, 0.4);
+          border-radius: 4px;
+          font-size: 14px;
+        }
+
+        .md-form input.narrow {
+          flex: 0 0 110px;
+          min-width: 0;
+        }
+
+        .md-checkbox {
+          display: flex;
+          align-items: center;
+          gap: 6px;
+          color: #002b4b;
+          font-size: 14px;
+        }
+
+        .md-file input {
+          display: none;
+        }
+
+        .md-problems {
+          margin: 12px 0 0 0;
+          padding-left: 20px;
+          color: #c53030;
+          font-size: 13px;
+          max-height: 200px;
+          overflow-y: auto;
+        }
+
+        .md-import-preview {
+          margin-top: 15px;
+          padding: 15px;
+          background: #f7fafc;
+          border-radius: 6px;
+        }
+
+        .md-import-summary {
+          color: #002b4b;
+          font-size: 14px;
+        }
+
+        .md-btn {
+          padding: 6px 12px;
+          background: white;
+          border: 1px solid #32b3e7;
+          border-radius: 4px;
+          color: #002b4b;
+          font-size: 13px;
+          cursor: pointer;
+          white-space: nowrap;
+        }
+
+        .md-btn.primary {
+          background: #32b3e7;
+          color: white;
+        }
+
+        .md-btn.danger {
+          border-color: #e53e3e;
+          color: #c53030;
+        }
+
+        .md-btn:disabled {
+          opacity: 0.6;
+          cursor: not-allowed;
+        }
+      `}</style>
+    </div>
+  );
+};
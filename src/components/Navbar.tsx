@@ -1,6 +1,9 @@
 // src/components/Navbar.tsx - Main Navigation Component
 import React, { useState } from 'react';
 import { Link, useLocation, useNavigate } from 'react-router-dom';
+import { canAccessRoute } from '../utils/userGroups';
+import type { UserGroup } from '../utils/userGroups';
+import { useActiveOrganization } from '../context/organizationContext';
 
 interface NavbarProps {
   signOut?: () => void;
@@ -13,12 +16,14 @@ interface NavbarProps {
       loginId?: string;
     };
   };
+  groups?: UserGroup[];
 }
 
-export const Navbar: React.FC<NavbarProps> = ({ signOut, user }) => {
+export const Navbar: React.FC<NavbarProps> = ({ signOut, user, groups = [] }) => {
   const location = useLocation();
   const navigate = useNavigate();
   const [isMobileMenuOpen, setIsMobileMenuOpen] = useState(false);
+  const { organizations, activeOrganizationId, setActiveOrganizationId } = useActiveOrganization();
 
   const getUserDisplayName = () => {
     if (!user) return 'User';
@@ -40,7 +45,7 @@ export const Navbar: React.FC<NavbarProps> = ({ signOut, user }) => {
     setIsMobileMenuOpen(false);
   };
 
-  const navigationItems = [
+  const allNavigationItems = [
     {
       path: '/',
       label: 'Dashboard',
@@ -58,9 +63,24 @@ export const Navbar: React.FC<NavbarProps> = ({ signOut, user }) => {
       label: 'Sell',
       icon: '',
       description: 'View submitted invoices'
+    },
+    {
+      path: '/master-data',
+      label: 'Master Data',
+      icon: '',
+      description: 'Registered sellers and debtors'
+    },
+    {
+      path: '/organization',
+      label: 'Organization',
+      icon: '',
+      description: 'Manage workspaces and teammates'
     }
   ];
 
+  // Only show pages the user's groups can open
+  const navigationItems = allNavigationItems.filter(item => canAccessRoute(item.path, groups));
+
   return (
     <nav className="navbar">
       <div className="navbar-container">
@@ -89,9 +109,25 @@ export const Navbar: React.FC<NavbarProps> = ({ signOut, user }) => {
 
         {/* User Info and Actions */}
         <div className="navbar-actions">
+          {/* Workspace switcher - every page shows data for the selected workspace */}
+          <select
+            className="workspace-select"
+            value={activeOrganizationId || ''}
+            onChange={(e) => setActiveOrganizationId(e.target.value || null)}
+            title="Active workspace"
+          >
+            <option value="">🏠 Personal</option>
+            {organizations.map(organization => (
+              <option key={organization.id} value={organization.id}>🏢 {organization.name}</option>
+            ))}
+          </select>
+
           <div className="user-info">
             <span className="user-icon">👤</span>
             <span className="user-name">{getUserDisplayName()}</span>
+            {groups.length > 0 && (
+              <span className="user-role">{groups.join(' • ')}</span>
+            )}
           </div>
           
           {signOut && (
@@ -302,6 +338,28 @@ export const Navbar: React.FC<NavbarProps> = ({ signOut, user }) => {
           white-space: nowrap;
         }
 
+        .workspace-select {
+          padding: 6px 10px;
+          border: 1px solid rgba(50, 179, 231, 0.3);
+          border-radius: 6px;
+          background: white;
+          color: #002b4b;
+          font-size: 13px;
+          max-width: 180px;
+          cursor: pointer;
+        }
+
+        .user-role {
+          padding: 2px 8px;
+          background: #f0f9ff;
+          border: 1px solid rgba(50, 179, 231, 0.3);
+          border-radius: 10px;
+          font-size: 11px;
+          font-weight: 600;
+          color: #32b3e7;
+          white-space: nowrap;
+        }
+
         .logout-btn {
           display: flex;
           align-items: center;
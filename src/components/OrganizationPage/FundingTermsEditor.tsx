@@ -0,0 +1,257 @@
+// components/FundingTermsEditor.tsx - Configure eligibility limits, advance rate and discount fee of a workspace
+import React, { useEffect, useMemo, useState } from 'react';
+import { generateClient } from 'aws-amplify/data';
+import type { Schema } from '../../../amplify/data/resource';
+import { DAY_COUNT_BASES, DEFAULT_FUNDING_TERMS, checkFundingTerms } from '../../../shared/invoiceFunding/eligibility';
+import type { FundingTerms } from '../../../shared/invoiceFunding/eligibility';
+import { fetchWorkspaceSettings, getFundingTerms } from '../../utils/workspaceSettings';
+
+const client = generateClient<Schema>();
+
+interface FundingTermsEditorProps {
+  organizationId: string | null;
+  canEdit: boolean; // Organization owners and admins, or anyone in their personal workspace
+}
+
+// Every input is kept as typed; empty optional limits are left out of the saved terms
+interface TermsDraft {
+  advanceRatePercent: string;
+  annualDiscountRatePercent: string;
+  dayCountBasis: FundingTerms['dayCountBasis'];
+  maxTenorDays: string;
+  minDaysToDue: string;
+  maxDaysToDue: string;
+  minAmount: string;
+  maxAmount: string;
+  excludedDebtorCountries: string;
+}
+
+type OptionalLimit = 'maxTenorDays' | 'minDaysToDue' | 'maxDaysToDue' | 'minAmount' | 'maxAmount';
+
+const OPTIONAL_LIMITS: { key: OptionalLimit; label: string }[] = [
+  { key: 'maxTenorDays', label: 'Max tenor (days)' },
+  { key: 'minDaysToDue', label: 'Min days to due date' },
+  { key: 'maxDaysToDue', label: 'Max days to due date' },
+  { key: 'minAmount', label: 'Min amount' },
+  { key: 'maxAmount', label: 'Max amount' },
+];
+
+const toText = (value: number | undefined) => (value === undefined ? '' : String(value));
+
+const toDraft = (terms: FundingTerms): TermsDraft => ({
+  advanceRatePercent: String(terms.advanceRatePercent),
+  annualDiscountRatePercent: String(terms.annualDiscountRatePercent),
+  dayCountBasis: terms.dayCountBasis,
+  maxTenorDays: toText(terms.maxTenorDays),
+  minDaysToDue: toText(terms.minDaysToDue),
+  maxDaysToDue: toText(terms.maxDaysToDue),
+  minAmount: toText(terms.minAmount),
+  maxAmount: toText(terms.maxAmount),
+  excludedDebtorCountries: terms.excludedDebtorCountries.join(', '),
+});
+
+const fromDraft = (draft: TermsDraft): FundingTerms => {
+  const terms: FundingTerms = {
+    advanceRatePercent: Number(draft.advanceRatePercent),
+    annualDiscountRatePercent: Number(draft.annualDiscountRatePercent),
+    dayCountBasis: draft.dayCountBasis,
+    excludedDebtorCountries: draft.excludedDebtorCountries
+      .split(',')
+      .map(country => country.trim().toUpperCase())
+      .filter(Boolean),
+  };
+  OPTIONAL_LIMITS.forEach(({ key }) => {
+    if (draft[key].trim() !== '') terms[key] = Number(draft[key]);
+  });
+  return terms;
+};
+
+export const FundingTermsEditor: React.FC<FundingTermsEditorProps> = ({ organizationId, canEdit }) => {
+  const [savedTerms, setSavedTerms] = useState<FundingTerms>(DEFAULT_FUNDING_TERMS);
+  const [draft, setDraft] = useState<TermsDraft>(toDraft(DEFAULT_FUNDING_TERMS));
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+  useEffect(() => {
+    let isMounted = true;
+    setLoading(true);
+
+    fetchWorkspaceSettings(organizationId)
+      .then(settings => {
+        if (!isMounted) return;
+        const loaded = getFundingTerms(settings);
+        setSavedTerms(loaded);
+        setDraft(toDraft(loaded));
+      })
+      .catch(error => {
+        console.error('❌ [FUNDING] Failed to load funding terms:', error);
+        if (isMounted) setMessage({ type: 'error', text: 'Failed to load funding terms' });
+      })
+      .finally(() => isMounted && setLoading(false));
+
+    return () => {
+      isMounted = false;
+    };
+  }, [organizationId]);
+
+  const terms = useMemo(() => fromDraft(draft), [draft]);
+  const problems = useMemo(() => checkFundingTerms(terms), [terms]);
+  const isChanged = JSON.stringify(terms) !== JSON.stringify(savedTerms);
+
+  const updateDraft = (changes: Partial<TermsDraft>) => setDraft(prev => ({ ...prev, ...changes }));
+
+  const handleSave = async () => {
+    setSaving(true);
+    setMessage(null);
+    try {
+      const result = await client.mutations.updateWorkspaceSettings({
+        organizationId: organizationId ?? undefined,
+        fundingTerms: JSON.stringify(terms),
+      });
+      if (result.errors || !result.data) {
+        throw new Error(result.errors?.[0]?.message || 'Failed to save funding terms');
+      }
+      console.log('⚙️ [FUNDING] Funding terms saved:', terms);
+      setSavedTerms(terms);
+      setMessage({ type: 'success', text: 'Funding terms saved. They apply to invoices submitted from now on.' });
+    } catch (error) {
+      console.error('❌ [FUNDING] Failed to save funding terms:', error);
+      setMessage({ type: 'error', text: error instanceof Error ? error.message : 'Failed to save funding terms' });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading) {
+    return <div className="funding-loading">Loading funding terms...</div>;
+  }
+
+  return (
+    <div className="funding-terms-editor">
+      {message && (
+        <div className={`org-message ${message.type}`}>
+          {message.type === 'success' ? '✅' : '❌'} {message.text}
+        </div>
+      )}
+
+      <p className="org-hint">
+        Valid invoices are scored against these limits before submission. Eligible invoices are advanced at the advance
+        rate, less a discount fee of advance × annual rate × days to due date / day count basis. Leave a limit empty to skip it.
+      </p>
+
+      <fieldset className="funding-form" disabled={!canEdit || saving}>
+        <label>
+          Advance rate (%)
+          <input type="number" min={0} max={100} step="any" value={draft.advanceRatePercent}
+            onChange={e => updateDraft({ advanceRatePercent: e.target.value })} />
+        </label>
+        <label>
+          Annual discount rate (%)
+          <input type="number" min={0} max={100} step="any" value={draft.annualDiscountRatePercent}
+            onChange={e => updateDraft({ annualDiscountRatePercent: e.target.value })} />
+        </label>
+        <label>
+          Day count basis
+          <select value={draft.dayCountBasis}
+            onChange={e => updateDraft({ dayCountBasis: Number(e.target.value) as FundingTerms['dayCountBasis'] })}>
+            {DAY_COUNT_BASES.map(basis => <option key={basis} value={basis}>{basis}</option>)}
+          </select>
+        </label>
+        {OPTIONAL_LIMITS.map(({ key, label }) => (
+          <label key={key}>
+            {label}
+            <input type="number" min={0} step="any" value={draft[key]} onChange={e => updateDraft({ [key]: e.target.value })} />
+          </label>
+        ))}
+        <label className="funding-wide">
+          Excluded debtor countries (comma separated)
+          <input value={draft.excludedDebtorCountries} placeholder="RU, BY"
+            onChange={e => updateDraft({ excludedDebtorCountries: e.target.value })} />
+        </label>
+      </fieldset>
+
+      {canEdit ? (
+        <>
+          {problems.length > 0 && (
+            <ul className="funding-problems">
+              {problems.map(problem => <li key={problem}>{problem}</li>)}
+            </ul>
+          )}
+
+          <div className="funding-save-actions">
+            <button className="org-btn" onClick={() => setDraft(toDraft(DEFAULT_FUNDING_TERMS))} disabled={saving}>
+              Reset to defaults
+            </button>
+            <button className="org-btn" onClick={() => setDraft(toDraft(savedTerms))} disabled={saving || !isChanged}>
+              Discard changes
+            </button>
+            <button className="org-btn primary" onClick={handleSave} disabled={saving || !isChanged || problems.length > 0}>
+              {saving ? 'Saving...' : 'Save terms'}
+            </button>
+          </div>
+        </>
+      ) : (
+        <p className="org-hint">Only organization owners and admins can change the funding terms.</p>
+      )}
+
+      <style>{`
+        .funding-loading {
+          color: #5e6e77;
+          font-size: 14px;
+        }
+
+        .funding-form {
+          display: flex;
+          flex-wrap: wrap;
+          align-items: flex-end;
+          gap: 10px;
+          margin: 0;
+          padding: 0;
+          border: none;
+        }
+
+        .funding-form label {
+          display: flex;
+          flex-direction: column;
+          gap: 4px;
+          font-size: 12px;
+          color: #5e6e77;
+        }
+
+        .funding-form label.funding-wide {
+          flex: 1;
+          min-width: 220px;
+        }
+
+        .funding-form input,
+        .funding-form select {
+          padding: 6px 10px;
+          border: 1px solid rgba(50, 179, 231, 0.4);
+          border-radius: 4px;
+          font-size: 14px;
+        }
+
+        .funding-form input[type="number"] {
+          width: 140px;
+        }
+
+        .funding-problems {
+          margin: 10px 0 0 0;
+          padding-left: 18px;
+          color: #c53030;
+          font-size: 13px;
+        }
+
+        .funding-save-actions {
+          display: flex;
+          justify-content: flex-end;
+          gap: 10px;
+          margin-top: 20px;
+          padding-top: 15px;
+          border-top: 1px solid #edf2f7;
+        }
+      `}</style>
+    </div>
+  );
+};
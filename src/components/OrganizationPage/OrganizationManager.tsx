@@ -0,0 +1,475 @@
+// components/OrganizationManager.tsx - Create organizations, manage members and answer invitations
+import React, { useCallback, useEffect, useState } from 'react';
+import { generateClient } from 'aws-amplify/data';
+import { getCurrentUser } from 'aws-amplify/auth';
+import type { Schema } from '../../../amplify/data/resource';
+import { useActiveOrganization } from '../../context/organizationContext';
+import { ValidationRulesEditor } from './ValidationRulesEditor';
+import { FundingTermsEditor } from './FundingTermsEditor';
+
+const client = generateClient<Schema>();
+
+type OrganizationMember = Schema["OrganizationMember"]["type"];
+type OrganizationInvitation = Schema["OrganizationInvitation"]["type"];
+type OrganizationRole = NonNullable<OrganizationMember["role"]>;
+
+const ROLE_LABELS: Record<OrganizationRole, string> = {
+  OWNER: 'Owner',
+  ADMIN: 'Admin',
+  MEMBER: 'Member',
+};
+
+const getErrorMessage = (errors: { message?: string }[] | undefined, fallback: string) =>
+  errors?.[0]?.message || fallback;
+
+export const OrganizationManager: React.FC = () => {
+  const {
+    organizations,
+    activeOrganization,
+    setActiveOrganizationId,
+    refreshOrganizations,
+  } = useActiveOrganization();
+
+  const [currentUserSub, setCurrentUserSub] = useState<string | null>(null);
+  const [members, setMembers] = useState<OrganizationMember[]>([]);
+  const [invitations, setInvitations] = useState<OrganizationInvitation[]>([]);
+  const [myInvitations, setMyInvitations] = useState<OrganizationInvitation[]>([]);
+  const [newOrganizationName, setNewOrganizationName] = useState('');
+  const [inviteEmail, setInviteEmail] = useState('');
+  const [inviteRole, setInviteRole] = useState<OrganizationRole>('MEMBER');
+  const [isWorking, setIsWorking] = useState(false);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+  const myRole = members.find(member => member.userSub === currentUserSub)?.role;
+  const canManage = myRole === 'OWNER' || myRole === 'ADMIN';
+
+  useEffect(() => {
+    getCurrentUser()
+      .then(user => setCurrentUserSub(user.userId))
+      .catch(error => console.error('❌ [ORG] Failed to read current user:', error));
+  }, []);
+
+  const loadMyInvitations = useCallback(async () => {
+    const result = await client.queries.listMyOrganizationInvitations();
+    if (result.errors) {
+      console.error('❌ [ORG] Failed to load invitations:', result.errors);
+      return;
+    }
+    setMyInvitations((result.data || []).filter((invitation): invitation is OrganizationInvitation => !!invitation));
+  }, []);
+
+  const loadOrganizationDetails = useCallback(async () => {
+    if (!activeOrganization) {
+      setMembers([]);
+      setInvitations([]);
+      return;
+    }
+
+    const [membersResult, invitationsResult] = await Promise.all([
+      client.models.OrganizationMember.list({ filter: { organizationId: { eq: activeOrganization.id } } }),
+      client.models.OrganizationInvitation.list({
+        filter: { organizationId: { eq: activeOrganization.id }, status: { eq: 'PENDING' } }
+      }),
+    ]);
+    setMembers(membersResult.data);
+    setInvitations(invitationsResult.data);
+  }, [activeOrganization]);
+
+  useEffect(() => {
+    loadMyInvitations();
+  }, [loadMyInvitations]);
+
+  useEffect(() => {
+    loadOrganizationDetails();
+  }, [loadOrganizationDetails]);
+
+  // Runs one membership change and reports its outcome
+  const runAction = async (action: () => Promise<string>) => {
+    setIsWorking(true);
+    setMessage(null);
+    try {
+      const successText = await action();
+      setMessage({ type: 'success', text: successText });
+    } catch (error) {
+      console.error('❌ [ORG] Action failed:', error);
+      setMessage({ type: 'error', text: error instanceof Error ? error.message : 'Something went wrong' });
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleCreateOrganization = (event: React.FormEvent) => {
+    event.preventDefault();
+    const name = newOrganizationName.trim();
+    if (!name) return;
+
+    runAction(async () => {
+      const result = await client.mutations.createOrganization({ name });
+      if (result.errors || !result.data) {
+        throw new Error(getErrorMessage(result.errors, 'Failed to create organization'));
+      }
+      console.log('🏢 [ORG] Organization created:', result.data.id);
+      setNewOrganizationName('');
+      await refreshOrganizations();
+      setActiveOrganizationId(result.data.id);
+      return `Created ${result.data.name}`;
+    });
+  };
+
+  const handleInvite = (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!activeOrganization || !inviteEmail.trim()) return;
+
+    runAction(async () => {
+      const result = await client.mutations.inviteOrganizationMember({
+        organizationId: activeOrganization.id,
+        email: inviteEmail.trim(),
+        role: inviteRole,
+      });
+      if (result.errors || !result.data) {
+        throw new Error(getErrorMessage(result.errors, 'Failed to send invitation'));
+      }
+      setInviteEmail('');
+      await loadOrganizationDetails();
+      return `Invitation sent to ${result.data.email}`;
+    });
+  };
+
+  const handleRevoke = (invitation: OrganizationInvitation) => {
+    runAction(async () => {
+      const result = await client.mutations.revokeOrganizationInvitation({ invitationId: invitation.id });
+      if (result.errors) {
+        throw new Error(getErrorMessage(result.errors, 'Failed to revoke invitation'));
+      }
+      await loadOrganizationDetails();
+      return `Invitation for ${invitation.email} revoked`;
+    });
+  };
+
+  const handleAccept = (invitation: OrganizationInvitation) => {
+    runAction(async () => {
+      const result = await client.mutations.acceptOrganizationInvitation({ invitationId: invitation.id });
+      if (result.errors) {
+        throw new Error(getErrorMessage(result.errors, 'Failed to accept invitation'));
+      }
+      await Promise.all([refreshOrganizations(), loadMyInvitations()]);
+      setActiveOrganizationId(invitation.organizationId);
+      return `Joined ${invitation.organizationName || 'organization'}`;
+    });
+  };
+
+  const handleRemove = (member: OrganizationMember) => {
+    const isSelf = member.userSub === currentUserSub;
+    const confirmText = isSelf
+      ? `Leave ${activeOrganization?.name}? You will lose access to its invoices.`
+      : `Remove ${member.email || member.username} from ${activeOrganization?.name}?`;
+    if (!window.confirm(confirmText)) return;
+
+    runAction(async () => {
+      const result = await client.mutations.removeOrganizationMember({ memberId: member.id });
+      if (result.errors) {
+        throw new Error(getErrorMessage(result.errors, 'Failed to remove member'));
+      }
+      if (isSelf) {
+        setActiveOrganizationId(null);
+        await refreshOrganizations();
+        return `You left ${activeOrganization?.name}`;
+      }
+      await loadOrganizationDetails();
+      return `${member.email || member.username} removed`;
+    });
+  };
+
+  return (
+    <div className="organization-manager">
+      {message && (
+        <div className={`org-message ${message.type}`}>
+          {message.type === 'success' ? '✅' : '❌'} {message.text}
+        </div>
+      )}
+
+      {/* Invitations addressed to the signed-in user */}
+      {myInvitations.length > 0 && (
+        <div className="org-card">
+          <h3>📨 Invitations for you</h3>
+          <ul className="org-list">
+            {myInvitations.map(invitation => (
+              <li key={invitation.id}>
+                <span>
+                  <strong>{invitation.organizationName || 'Organization'}</strong> as {ROLE_LABELS[invitation.role as OrganizationRole] || invitation.role}
+                </span>
+                <button className="org-btn primary" disabled={isWorking} onClick={() => handleAccept(invitation)}>
+                  Accept
+                </button>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      <div className="org-card">
+        <h3>🏢 Your workspaces</h3>
+        <p className="org-hint">
+          Invoices, uploads and submissions belong to the workspace selected in the navigation bar.
+        </p>
+        <ul className="org-list">
+          <li>
+            <span>Personal workspace</span>
+            <button
+              className="org-btn"
+              disabled={!activeOrganization}
+              onClick={() => setActiveOrganizationId(null)}
+            >
+              {activeOrganization ? 'Switch' : 'Active'}
+            </button>
+          </li>
+          {organizations.map(organization => (
+            <li key={organization.id}>
+              <span>{organization.name}</span>
+              <button
+                className="org-btn"
+                disabled={activeOrganization?.id === organization.id}
+                onClick={() => setActiveOrganizationId(organization.id)}
+              >
+                {activeOrganization?.id === organization.id ? 'Active' : 'Switch'}
+              </button>
+            </li>
+          ))}
+        </ul>
+
+        <form className="org-form" onSubmit={handleCreateOrganization}>
+          <input
+            type="text"
+            placeholder="New organization name"
+            value={newOrganizationName}
+            onChange={event => setNewOrganizationName(event.target.value)}
+            maxLength={100}
+          />
+          <button type="submit" className="org-btn primary" disabled={isWorking || !newOrganizationName.trim()}>
+            Create organization
+          </button>
+        </form>
+      </div>
+
+      {activeOrganization && (
+        <div className="org-card">
+          <h3>👥 Members of {activeOrganization.name}</h3>
+          <table className="org-table">
+            <thead>
+              <tr>
+                <th>Email</th>
+                <th>Role</th>
+                <th>Joined</th>
+                <th></th>
+              </tr>
+            </thead>
+            <tbody>
+              {members.map(member => (
+                <tr key={member.id}>
+                  <td>{member.email || member.username}{member.userSub === currentUserSub ? ' (you)' : ''}</td>
+                  <td>{ROLE_LABELS[member.role as OrganizationRole] || member.role}</td>
+                  <td>{new Date(member.joinedAt).toLocaleDateString()}</td>
+                  <td>
+                    {(canManage || member.userSub === currentUserSub) && (
+                      <button className="org-btn danger" disabled={isWorking} onClick={() => handleRemove(member)}>
+                        {member.userSub === currentUserSub ? 'Leave' : 'Remove'}
+                      </button>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+
+          {canManage && (
+            <>
+              <h4>Invite a teammate</h4>
+              <form className="org-form" onSubmit={handleInvite}>
+                <input
+                  type="email"
+                  placeholder="teammate@company.com"
+                  value={inviteEmail}
+                  onChange={event => setInviteEmail(event.target.value)}
+                />
+                <select value={inviteRole} onChange={event => setInviteRole(event.target.value as OrganizationRole)}>
+                  <option value="MEMBER">Member</option>
+                  <option value="ADMIN">Admin</option>
+                </select>
+                <button type="submit" className="org-btn primary" disabled={isWorking || !inviteEmail.trim()}>
+                  Send invitation
+                </button>
+              </form>
+
+              {invitations.length > 0 && (
+                <>
+                  <h4>Pending invitations</h4>
+                  <ul className="org-list">
+                    {invitations.map(invitation => (
+                      <li key={invitation.id}>
+                        <span>
+                          {invitation.email} · {ROLE_LABELS[invitation.role as OrganizationRole] || invitation.role}
+                          {invitation.expiresAt && ` · expires ${new Date(invitation.expiresAt).toLocaleDateString()}`}
+                        </span>
+                        <button className="org-btn danger" disabled={isWorking} onClick={() => handleRevoke(invitation)}>
+                          Revoke
+                        </button>
+                      </li>
+                    ))}
+                  </ul>
+                </>
+              )}
+            </>
+          )}
+        </div>
+      )}
+
+      <div className="org-card">
+        <h3>🧮 Validation rules for {activeOrganization ? activeOrganization.name : 'your personal workspace'}</h3>
+        <ValidationRulesEditor
+          key={activeOrganization?.id || 'personal'}
+          organizationId={activeOrganization?.id ?? null}
+          canEdit={!activeOrganization || canManage}
+        />
+      </div>
+
+      <div className="org-card">
+        <h3>💶 Funding terms for {activeOrganization ? activeOrganization.name : 'your personal workspace'}</h3>
+        <FundingTermsEditor
+          key={activeOrganization?.id || 'personal'}
+          organizationId={activeOrganization?.id ?? null}
+          canEdit={!activeOrganization || canManage}
+        />
+      </div>
+
+      <style>{`
+        .organization-manager {
+          padding: 25px;
+          display: flex;
+          flex-direction: column;
+          gap: 20px;
+        }
+
+        .org-card {
+          border: 1px solid rgba(50, 179, 231, 0.3);
+          border-radius: 8px;
+          padding: 20px;
+          background: white;
+        }
+
+        .org-card h3 {
+          margin: 0 0 12px 0;
+          color: #002b4b;
+          font-size: 18px;
+        }
+
+        .org-card h4 {
+          margin: 20px 0 10px 0;
+          color: #002b4b;
+          font-size: 15px;
+        }
+
+        .org-hint {
+          margin: 0 0 12px 0;
+          color: #5e6e77;
+          font-size: 14px;
+        }
+
+        .org-message {
+          padding: 12px 16px;
+          border-radius: 6px;
+          font-size: 14px;
+        }
+
+        .org-message.success {
+          background: #c6f6d5;
+          color: #276749;
+        }
+
+        .org-message.error {
+          background: #fed7d7;
+          color: #c53030;
+        }
+
+        .org-list {
+          list-style: none;
+          margin: 0;
+          padding: 0;
+        }
+
+        .org-list li {
+          display: flex;
+          align-items: center;
+          justify-content: space-between;
+          gap: 12px;
+          padding: 8px 0;
+          border-bottom: 1px solid #edf2f7;
+          color: #002b4b;
+        }
+
+        .org-list li:last-child {
+          border-bottom: none;
+        }
+
+        .org-form {
+          display: flex;
+          gap: 10px;
+          margin-top: 15px;
+          flex-wrap: wrap;
+        }
+
+        .org-form input,
+        .org-form select {
+          padding: 8px 12px;
+          border: 1px solid rgba(50, 179, 231, 0.4);
+          border-radius: 4px;
+          font-size: 14px;
+        }
+
+        .org-form input {
+          flex: 1;
+          min-width: 200px;
+        }
+
+        .org-table {
+          width: 100%;
+          border-collapse: collapse;
+          font-size: 14px;
+        }
+
+        .org-table th,
+        .org-table td {
+          text-align: left;
+          padding: 8px;
+          border-bottom: 1px solid #edf2f7;
+          color: #002b4b;
+        }
+
+        .org-btn {
+          padding: 6px 12px;
+          background: white;
+          border: 1px solid #32b3e7;
+          border-radius: 4px;
+          color: #002b4b;
+          font-size: 13px;
+          cursor: pointer;
+          white-space: nowrap;
+        }
+
+        .org-btn.primary {
+          background: #32b3e7;
+          color: white;
+        }
+
+        .org-btn.danger {
+          border-color: #e53e3e;
+          color: #c53030;
+        }
+
+        .org-btn:disabled {
+          opacity: 0.6;
+          cursor: not-allowed;
+        }
+      `}</style>
+    </div>
+  );
+};
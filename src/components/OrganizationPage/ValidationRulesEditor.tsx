@@ -0,0 +1,557 @@
+// components/ValidationRulesEditor.tsx - Configure the rules every uploaded invoice row is checked against
+import React, { useEffect, useMemo, useState } from 'react';
+import { generateClient } from 'aws-amplify/data';
+import type { Schema } from '../../../amplify/data/resource';
+import { INVOICE_FIELDS } from '../../../shared/invoiceProcessing/columnMapping';
+import type { InvoiceFieldKey } from '../../../shared/invoiceProcessing/columnMapping';
+import {
+  COMPARISON_OPERATORS,
+  DATE_FIELDS,
+  DEFAULT_VALIDATION_RULES,
+  FORMAT_RULE_IDS,
+  NUMBER_FIELDS,
+  RULE_TYPES,
+  RULE_TYPE_LABELS,
+  REQUIRED_RULE_IDS,
+  checkValidationRules,
+  describeRule,
+  isLockedRule,
+} from '../../../shared/invoiceProcessing/validationRules';
+import type { ComparisonOperator, RuleType, ValidationRule } from '../../../shared/invoiceProcessing/validationRules';
+import { fetchWorkspaceSettings, getValidationRules } from '../../utils/workspaceSettings';
+
+const client = generateClient<Schema>();
+
+interface ValidationRulesEditorProps {
+  organizationId: string | null;
+  canEdit: boolean; // Organization owners and admins, or anyone in their personal workspace
+}
+
+// Form state for one rule; every input is kept as typed until the rule is added
+interface RuleDraft {
+  id: string;
+  type: RuleType;
+  field: InvoiceFieldKey;
+  message: string;
+  pattern: string;
+  flags: string;
+  values: string;
+  caseSensitive: boolean;
+  min: string;
+  max: string;
+  exclusiveMin: boolean;
+  exclusiveMax: boolean;
+  operator: ComparisonOperator;
+  otherField: InvoiceFieldKey;
+  maxDays: string;
+  currency: string;
+}
+
+const OPERATOR_SYMBOLS: Record<ComparisonOperator, string> = {
+  lt: '<',
+  lte: '≤',
+  gt: '>',
+  gte: '≥',
+  eq: '=',
+  ne: '≠',
+};
+
+const EMPTY_DRAFT: RuleDraft = {
+  id: '',
+  type: 'required',
+  field: 'invoice_id',
+  message: '',
+  pattern: '',
+  flags: '',
+  values: '',
+  caseSensitive: false,
+  min: '',
+  max: '',
+  exclusiveMin: false,
+  exclusiveMax: false,
+  operator: 'gt',
+  otherField: 'issue_date',
+  maxDays: '',
+  currency: '',
+};
+
+const FIELDS_BY_TYPE: Partial<Record<RuleType, InvoiceFieldKey[]>> = {
+  numberRange: NUMBER_FIELDS,
+  dateRange: DATE_FIELDS,
+};
+
+const toText = (value: number | string | undefined) => (value === undefined ? '' : String(value));
+
+const toNumber = (text: string) => (text.trim() === '' ? undefined : Number(text));
+
+const toDraft = (rule: ValidationRule): RuleDraft => ({
+  ...EMPTY_DRAFT,
+  id: rule.id,
+  type: rule.type,
+  message: rule.message || '',
+  ...('field' in rule && { field: rule.field }),
+  ...(rule.type === 'pattern' && { pattern: rule.pattern, flags: rule.flags || '' }),
+  ...(rule.type === 'allowedValues' && { values: rule.values.join(', '), caseSensitive: !!rule.caseSensitive }),
+  ...(rule.type === 'numberRange' && {
+    min: toText(rule.min),
+    max: toText(rule.max),
+    exclusiveMin: !!rule.exclusiveMin,
+    exclusiveMax: !!rule.exclusiveMax,
+  }),
+  ...(rule.type === 'dateRange' && { min: rule.min || '', max: rule.max || '' }),
+  ...(rule.type === 'compareFields' && { operator: rule.operator, otherField: rule.otherField }),
+  ...(rule.type === 'maxTenor' && { maxDays: String(rule.maxDays) }),
+  ...(rule.type === 'currencyAmountRange' && { currency: rule.currency, min: toText(rule.min), max: toText(rule.max) }),
+});
+
+const fromDraft = (draft: RuleDraft, enabled: boolean): ValidationRule => {
+  const base = { id: draft.id.trim(), enabled, ...(draft.message.trim() && { message: draft.message.trim() }) };
+  switch (draft.type) {
+    case 'required':
+      return { ...base, type: 'required', field: draft.field };
+    case 'pattern':
+      return { ...base, type: 'pattern', field: draft.field, pattern: draft.pattern, ...(draft.flags.trim() && { flags: draft.flags.trim() }) };
+    case 'allowedValues':
+      return {
+        ...base,
+        type: 'allowedValues',
+        field: draft.field,
+        values: draft.values.split(',').map(value => value.trim()).filter(Boolean),
+        ...(draft.caseSensitive && { caseSensitive: true }),
+      };
+    case 'numberRange':
+      return {
+        ...base,
+        type: 'numberRange',
+        field: draft.field,
+        min: toNumber(draft.min),
+        max: toNumber(draft.max),
+        ...(draft.exclusiveMin && { exclusiveMin: true }),
+        ...(draft.exclusiveMax && { exclusiveMax: true }),
+      };
+    case 'dateRange':
+      return { ...base, type: 'dateRange', field: draft.field, min: draft.min.trim() || undefined, max: draft.max.trim() || undefined };
+    case 'compareFields':
+      return { ...base, type: 'compareFields', field: draft.field, operator: draft.operator, otherField: draft.otherField };
+    case 'maxTenor':
+      return { ...base, type: 'maxTenor', maxDays: Number(draft.maxDays) };
+    case 'currencyAmountRange':
+      return {
+        ...base,
+        type: 'currencyAmountRange',
+        currency: draft.currency.trim().toUpperCase(),
+        min: toNumber(draft.min),
+        max: toNumber(draft.max),
+      };
+  }
+};
+
+export const ValidationRulesEditor: React.FC<ValidationRulesEditorProps> = ({ organizationId, canEdit }) => {
+  const [savedRules, setSavedRules] = useState<ValidationRule[]>(DEFAULT_VALIDATION_RULES);
+  const [rules, setRules] = useState<ValidationRule[]>(DEFAULT_VALIDATION_RULES);
+  const [draft, setDraft] = useState<RuleDraft>(EMPTY_DRAFT);
+  const [editingRuleId, setEditingRuleId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+  useEffect(() => {
+    let isMounted = true;
+    setLoading(true);
+
+    fetchWorkspaceSettings(organizationId)
+      .then(settings => {
+        if (!isMounted) return;
+        const loaded = getValidationRules(settings);
+        setSavedRules(loaded);
+        setRules(loaded);
+      })
+      .catch(error => {
+        console.error('❌ [RULES] Failed to load validation rules:', error);
+        if (isMounted) setMessage({ type: 'error', text: 'Failed to load validation rules' });
+      })
+      .finally(() => isMounted && setLoading(false));
+
+    return () => {
+      isMounted = false;
+    };
+  }, [organizationId]);
+
+  const isChanged = JSON.stringify(rules) !== JSON.stringify(savedRules);
+  const problems = useMemo(() => checkValidationRules(rules), [rules]);
+
+  // The rule being typed, checked together with the others so duplicate ids show up before adding it
+  const draftProblems = useMemo(() => {
+    const editedIndex = rules.findIndex(rule => rule.id === editingRuleId);
+    const candidateIndex = editedIndex >= 0 ? editedIndex : rules.length;
+    const candidate = fromDraft(draft, true);
+    const candidateRules = [...rules.slice(0, candidateIndex), candidate, ...rules.slice(candidateIndex + 1)];
+    const names = [`Rule "${candidate.id}": `, `Rule ${candidateIndex + 1}: `];
+    return checkValidationRules(candidateRules)
+      .filter(problem => names.some(name => problem.startsWith(name)))
+      .map(problem => problem.replace(/^Rule [^:]+: /, ''));
+  }, [draft, rules, editingRuleId]);
+
+  const fieldOptions = FIELDS_BY_TYPE[draft.type] || INVOICE_FIELDS.map(field => field.key);
+
+  const updateDraft = (changes: Partial<RuleDraft>) => {
+    setDraft(prev => {
+      const next = { ...prev, ...changes };
+      const allowedFields = FIELDS_BY_TYPE[next.type];
+      return allowedFields && !allowedFields.includes(next.field) ? { ...next, field: allowedFields[0] } : next;
+    });
+  };
+
+  const handleSubmitDraft = (event: React.FormEvent) => {
+    event.preventDefault();
+    if (draftProblems.length > 0) return;
+
+    if (editingRuleId) {
+      setRules(prev => prev.map(rule => (rule.id === editingRuleId ? fromDraft(draft, rule.enabled) : rule)));
+    } else {
+      setRules(prev => [...prev, fromDraft(draft, true)]);
+    }
+    setDraft(EMPTY_DRAFT);
+    setEditingRuleId(null);
+  };
+
+  const handleEdit = (rule: ValidationRule) => {
+    setDraft(toDraft(rule));
+    setEditingRuleId(rule.id);
+  };
+
+  const handleCancelEdit = () => {
+    setDraft(EMPTY_DRAFT);
+    setEditingRuleId(null);
+  };
+
+  const toggleRule = (ruleId: string) => {
+    setRules(prev => prev.map(rule => (rule.id === ruleId ? { ...rule, enabled: !rule.enabled } : rule)));
+  };
+
+  const removeRule = (ruleId: string) => {
+    setRules(prev => prev.filter(rule => rule.id !== ruleId));
+    if (editingRuleId === ruleId) handleCancelEdit();
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    setMessage(null);
+    try {
+      const result = await client.mutations.updateWorkspaceSettings({
+        organizationId: organizationId ?? undefined,
+        validationRules: JSON.stringify(rules),
+      });
+      if (result.errors || !result.data) {
+        throw new Error(result.errors?.[0]?.message || 'Failed to save validation rules');
+      }
+      console.log('⚙️ [RULES] Validation rules saved:', rules.length);
+      setSavedRules(rules);
+      setMessage({ type: 'success', text: 'Validation rules saved. They apply to new uploads and corrections.' });
+    } catch (error) {
+      console.error('❌ [RULES] Failed to save validation rules:', error);
+      setMessage({ type: 'error', text: error instanceof Error ? error.message : 'Failed to save validation rules' });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading) {
+    return <div className="rules-loading">Loading validation rules...</div>;
+  }
+
+  return (
+    <div className="validation-rules-editor">
+      {message && (
+        <div className={`org-message ${message.type}`}>
+          {message.type === 'success' ? '✅' : '❌'} {message.text}
+        </div>
+      )}
+
+      <p className="org-hint">
+        Every uploaded row is checked against these rules, in the upload preview and again when the file is processed.
+        Errors name the rule that produced them. Amounts must always be numbers and dates YYYY-MM-DD
+        ({Object.values(FORMAT_RULE_IDS).join(', ')}), and the required rules of the fields a submitted invoice
+        cannot be without ({Object.values(REQUIRED_RULE_IDS).join(', ')}) cannot be switched off or deleted.
+      </p>
+
+      <table className="org-table rules-table">
+        <thead>
+          <tr>
+            <th>On</th>
+            <th>Rule</th>
+            <th>Type</th>
+            <th>Requirement</th>
+            {canEdit && <th></th>}
+          </tr>
+        </thead>
+        <tbody>
+          {rules.map(rule => (
+            <tr key={rule.id} className={rule.enabled ? '' : 'rules-disabled'}>
+              <td>
+                <input
+                  type="checkbox"
+                  checked={rule.enabled}
+                  onChange={() => toggleRule(rule.id)}
+                  disabled={!canEdit || saving || isLockedRule(rule.id)}
+                  aria-label={`Enable ${rule.id}`}
+                />
+              </td>
+              <td><code>{rule.id}</code></td>
+              <td>{RULE_TYPE_LABELS[rule.type]}</td>
+              <td title={rule.message ? describeRule(rule) : undefined}>{rule.message || describeRule(rule)}</td>
+              {canEdit && (
+                <td className="rules-actions">
+                  <button className="org-btn" onClick={() => handleEdit(rule)} disabled={saving}>Edit</button>
+                  {!isLockedRule(rule.id) && (
+                    <button className="org-btn danger" onClick={() => removeRule(rule.id)} disabled={saving}>Delete</button>
+                  )}
+                </td>
+              )}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      {canEdit ? (
+        <>
+          <h4>{editingRuleId ? `Edit rule ${editingRuleId}` : 'Add a rule'}</h4>
+          <form className="rules-form" onSubmit={handleSubmitDraft}>
+            <label>
+              Id
+              <input value={draft.id} onChange={e => updateDraft({ id: e.target.value })} placeholder="eur-max-amount"
+                disabled={!!editingRuleId && isLockedRule(editingRuleId)} />
+            </label>
+            <label>
+              Type
+              <select value={draft.type} onChange={e => updateDraft({ type: e.target.value as RuleType })}>
+                {RULE_TYPES.map(type => <option key={type} value={type}>{RULE_TYPE_LABELS[type]}</option>)}
+              </select>
+            </label>
+
+            {draft.type !== 'maxTenor' && draft.type !== 'currencyAmountRange' && (
+              <label>
+                Field
+                <select value={draft.field} onChange={e => updateDraft({ field: e.target.value as InvoiceFieldKey })}>
+                  {fieldOptions.map(field => <option key={field} value={field}>{field}</option>)}
+                </select>
+              </label>
+            )}
+
+            {draft.type === 'pattern' && (
+              <>
+                <label className="rules-wide">
+                  Regular expression
+                  <input value={draft.pattern} onChange={e => updateDraft({ pattern: e.target.value })} placeholder="^INV-\d+$" />
+                </label>
+                <label>
+                  Flags
+                  <input value={draft.flags} onChange={e => updateDraft({ flags: e.target.value })} placeholder="i" />
+                </label>
+              </>
+            )}
+
+            {draft.type === 'allowedValues' && (
+              <>
+                <label className="rules-wide">
+                  Allowed values (comma separated)
+                  <input value={draft.values} onChange={e => updateDraft({ values: e.target.value })} placeholder="USD, EUR" />
+                </label>
+                <label className="rules-check">
+                  <input type="checkbox" checked={draft.caseSensitive} onChange={e => updateDraft({ caseSensitive: e.target.checked })} />
+                  Case sensitive
+                </label>
+              </>
+            )}
+
+            {draft.type === 'currencyAmountRange' && (
+              <label>
+                Currency
+                <input value={draft.currency} onChange={e => updateDraft({ currency: e.target.value })} placeholder="EUR" maxLength={3} />
+              </label>
+            )}
+
+            {(draft.type === 'numberRange' || draft.type === 'currencyAmountRange') && (
+              <>
+                <label>
+                  Minimum
+                  <input type="number" step="any" value={draft.min} onChange={e => updateDraft({ min: e.target.value })} />
+                </label>
+                <label>
+                  Maximum
+                  <input type="number" step="any" value={draft.max} onChange={e => updateDraft({ max: e.target.value })} />
+                </label>
+              </>
+            )}
+
+            {draft.type === 'numberRange' && (
+              <>
+                <label className="rules-check">
+                  <input type="checkbox" checked={draft.exclusiveMin} onChange={e => updateDraft({ exclusiveMin: e.target.checked })} />
+                  Above minimum
+                </label>
+                <label className="rules-check">
+                  <input type="checkbox" checked={draft.exclusiveMax} onChange={e => updateDraft({ exclusiveMax: e.target.checked })} />
+                  Below maximum
+                </label>
+              </>
+            )}
+
+            {draft.type === 'dateRange' && (
+              <>
+                <label>
+                  From
+                  <input value={draft.min} onChange={e => updateDraft({ min: e.target.value })} placeholder="today-90" />
+                </label>
+                <label>
+                  To
+                  <input value={draft.max} onChange={e => updateDraft({ max: e.target.value })} placeholder="today" />
+                </label>
+              </>
+            )}
+
+            {draft.type === 'compareFields' && (
+              <>
+                <label>
+                  Must be
+                  <select value={draft.operator} onChange={e => updateDraft({ operator: e.target.value as ComparisonOperator })}>
+                    {COMPARISON_OPERATORS.map(operator => <option key={operator} value={operator}>{OPERATOR_SYMBOLS[operator]}</option>)}
+                  </select>
+                </label>
+                <label>
+                  Other field
+                  <select value={draft.otherField} onChange={e => updateDraft({ otherField: e.target.value as InvoiceFieldKey })}>
+                    {INVOICE_FIELDS.map(field => <option key={field.key} value={field.key}>{field.key}</option>)}
+                  </select>
+                </label>
+              </>
+            )}
+
+            {draft.type === 'maxTenor' && (
+              <label>
+                Max days from issue to due date
+                <input type="number" min={0} step={1} value={draft.maxDays} onChange={e => updateDraft({ maxDays: e.target.value })} />
+              </label>
+            )}
+
+            <label className="rules-wide">
+              Error message (optional)
+              <input value={draft.message} onChange={e => updateDraft({ message: e.target.value })} placeholder={describeRule(fromDraft(draft, true))} />
+            </label>
+
+            <div className="rules-form-actions">
+              <button type="submit" className="org-btn primary" disabled={draftProblems.length > 0 || saving}>
+                {editingRuleId ? 'Update rule' : 'Add rule'}
+              </button>
+              {editingRuleId && (
+                <button type="button" className="org-btn" onClick={handleCancelEdit}>Cancel</button>
+              )}
+            </div>
+          </form>
+          {draft.id && draftProblems.length > 0 && (
+            <ul className="rules-problems">
+              {draftProblems.map(problem => <li key={problem}>{problem}</li>)}
+            </ul>
+          )}
+
+          {problems.length > 0 && (
+            <ul className="rules-problems">
+              {problems.map(problem => <li key={problem}>{problem}</li>)}
+            </ul>
+          )}
+
+          <div className="rules-save-actions">
+            <button className="org-btn" onClick={() => setRules(DEFAULT_VALIDATION_RULES)} disabled={saving}>
+              Reset to defaults
+            </button>
+            <button className="org-btn" onClick={() => setRules(savedRules)} disabled={saving || !isChanged}>
+              Discard changes
+            </button>
+            <button className="org-btn primary" onClick={handleSave} disabled={saving || !isChanged || problems.length > 0}>
+              {saving ? 'Saving...' : 'Save rules'}
+            </button>
+          </div>
+        </>
+      ) : (
+        <p className="org-hint">Only organization owners and admins can change the rules.</p>
+      )}
+
+      <style>{`
+        .rules-loading {
+          color: #5e6e77;
+          font-size: 14px;
+        }
+
+        .rules-table code {
+          font-size: 12px;
+          color: #002b4b;
+        }
+
+        .rules-table tr.rules-disabled td {
+          color: #a0aec0;
+        }
+
+        .rules-actions {
+          display: flex;
+          gap: 6px;
+          justify-content: flex-end;
+        }
+
+        .rules-form {
+          display: flex;
+          flex-wrap: wrap;
+          align-items: flex-end;
+          gap: 10px;
+        }
+
+        .rules-form label {
+          display: flex;
+          flex-direction: column;
+          gap: 4px;
+          font-size: 12px;
+          color: #5e6e77;
+        }
+
+        .rules-form label.rules-wide {
+          flex: 1;
+          min-width: 220px;
+        }
+
+        .rules-form label.rules-check {
+          flex-direction: row;
+          align-items: center;
+          padding-bottom: 8px;
+        }
+
+        .rules-form input:not([type="checkbox"]),
+        .rules-form select {
+          padding: 6px 10px;
+          border: 1px solid rgba(50, 179, 231, 0.4);
+          border-radius: 4px;
+          font-size: 14px;
+        }
+
+        .rules-form-actions {
+          display: flex;
+          gap: 8px;
+        }
+
+        .rules-problems {
+          margin: 10px 0 0 0;
+          padding-left: 18px;
+          color: #c53030;
+          font-size: 13px;
+        }
+
+        .rules-save-actions {
+          display: flex;
+          justify-content: flex-end;
+          gap: 10px;
+          margin-top: 20px;
+          padding-top: 15px;
+          border-top: 1px solid #edf2f7;
+        }
+      `}</style>
+    </div>
+  );
+};
@@ -0,0 +1,51 @@
+// src/components/PartyName.tsx - Seller or debtor legal name, with the ID from the invoice on hover
+import React from 'react';
+import { findParty } from '../utils/partyRegistry';
+import type { PartyDirectory } from '../utils/partyRegistry';
+import { PARTY_KIND_LABELS } from '../../shared/masterData/parties';
+import type { PartyKind } from '../../shared/masterData/parties';
+
+interface PartyNameProps {
+  directory: PartyDirectory | null;
+  kind: PartyKind;
+  partyId: string;
+  organizationId?: string | null;
+}
+
+export const PartyName: React.FC<PartyNameProps> = ({ directory, kind, partyId, organizationId }) => {
+  const party = partyId ? findParty(directory, kind, partyId, organizationId) : undefined;
+
+  // Unregistered IDs are shown as they are in the file
+  if (!party) {
+    return <span className="party-name party-unknown" title={partyId ? `${PARTY_KIND_LABELS[kind]} not registered` : undefined}>{partyId || '—'}</span>;
+  }
+
+  return (
+    <span className="party-name" title={`${PARTY_KIND_LABELS[kind]} ID: ${partyId}${party.isActive ? '' : ' (inactive)'}`}>
+      {party.legalName}
+      {!party.isActive && <span className="party-inactive">inactive</span>}
+
+      <style>{`
+        .party-name {
+          cursor: help;
+        }
+
+        .party-unknown {
+          font-family: monospace;
+          font-size: 12px;
+        }
+
+        .party-inactive {
+          margin-left: 6px;
+          padding: 1px 6px;
+          background: #fed7d7;
+          color: #c53030;
+          border-radius: 8px;
+          font-size: 10px;
+          font-weight: 600;
+          text-transform: uppercase;
+        }
+      `}</style>
+    </span>
+  );
+};
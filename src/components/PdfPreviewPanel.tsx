@@ -0,0 +1,390 @@
+// src/components/PdfPreviewPanel.tsx - Side panel that renders an invoice PDF next to the invoice fields
+import React, { useEffect, useRef, useState } from 'react';
+import type { PDFDocumentProxy, RenderTask } from 'pdfjs-dist';
+import { loadPdfDocument } from '../utils/pdfText';
+import { cachePdfThumbnail, getCachedPdfThumbnail, renderPdfPage } from '../utils/pdfThumbnails';
+
+export interface PdfPreviewField {
+  label: string;
+  value: React.ReactNode;
+}
+
+interface PdfPreviewPanelProps {
+  title: string;
+  pdfS3Key: string;
+  fileName?: string | null;
+  getFileUrl: () => Promise<string>; // Signed URL; teammates' files are signed by the backend
+  fields: PdfPreviewField[];
+  onClose: () => void;
+}
+
+const ZOOM_LEVELS = [0.5, 0.75, 1, 1.25, 1.5, 2, 3];
+const DEFAULT_ZOOM_INDEX = 2;
+
+export const PdfPreviewPanel: React.FC<PdfPreviewPanelProps> = ({
+  title,
+  pdfS3Key,
+  fileName,
+  getFileUrl,
+  fields,
+  onClose
+}) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const getFileUrlRef = useRef(getFileUrl);
+  getFileUrlRef.current = getFileUrl;
+
+  const [pdf, setPdf] = useState<PDFDocumentProxy | null>(null);
+  const [fileUrl, setFileUrl] = useState<string | null>(null);
+  const [pageNumber, setPageNumber] = useState(1);
+  const [zoomIndex, setZoomIndex] = useState(DEFAULT_ZOOM_INDEX);
+  const [thumbnail, setThumbnail] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [rendering, setRendering] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Load the document; a cached thumbnail shows while it downloads
+  useEffect(() => {
+    let isMounted = true;
+    let loadedPdf: PDFDocumentProxy | null = null;
+
+    setPdf(null);
+    setPageNumber(1);
+    setError(null);
+    setLoading(true);
+    setThumbnail(null);
+    getCachedPdfThumbnail(pdfS3Key)?.then(url => isMounted && setThumbnail(url)).catch(() => undefined);
+
+    const loadDocument = async () => {
+      try {
+        console.log('👁️ [PREVIEW] Loading PDF:', pdfS3Key);
+        const url = await getFileUrlRef.current();
+        const response = await fetch(url);
+        if (!response.ok) {
+          throw new Error(`Could not download the PDF (${response.status})`);
+        }
+
+        loadedPdf = await loadPdfDocument(await response.arrayBuffer());
+        if (!isMounted) return;
+
+        setFileUrl(url);
+        setPdf(loadedPdf);
+        cachePdfThumbnail(pdfS3Key, loadedPdf)
+          .then(thumbnailUrl => isMounted && setThumbnail(thumbnailUrl))
+          .catch(thumbnailError => console.warn('⚠️ [PREVIEW] Thumbnail render failed:', thumbnailError));
+        console.log('✅ [PREVIEW] PDF loaded:', { pages: loadedPdf.numPages });
+      } catch (loadError) {
+        console.error('❌ [PREVIEW] Failed to load PDF:', loadError);
+        if (isMounted) setError(loadError instanceof Error ? loadError.message : 'Failed to load PDF');
+      } finally {
+        if (isMounted) setLoading(false);
+      }
+    };
+
+    loadDocument();
+
+    return () => {
+      isMounted = false;
+      loadedPdf?.destroy();
+    };
+  }, [pdfS3Key]);
+
+  // Render the current page whenever the page or zoom changes
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!pdf || !canvas) return;
+
+    let renderTask: RenderTask | null = null;
+    let isCurrent = true;
+    setRendering(true);
+
+    renderPdfPage(pdf, pageNumber, canvas, ZOOM_LEVELS[zoomIndex])
+      .then(task => {
+        renderTask = task;
+        if (!isCurrent) task.cancel();
+        return task.promise;
+      })
+      .catch(renderError => {
+        // Cancelled renders are expected when the user flips pages quickly
+        if (renderError?.name !== 'RenderingCancelledException') {
+          console.error('❌ [PREVIEW] Page render failed:', renderError);
+          setError('Failed to render page');
+        }
+      })
+      .finally(() => isCurrent && setRendering(false));
+
+    return () => {
+      isCurrent = false;
+      renderTask?.cancel();
+    };
+  }, [pdf, pageNumber, zoomIndex]);
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  const pageCount = pdf?.numPages || 0;
+
+  return (
+    <div className="pdf-preview-overlay" onClick={onClose}>
+      <aside
+        className="pdf-preview-panel"
+        role="dialog"
+        aria-labelledby="pdf-preview-title"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <header className="pdf-preview-header">
+          <div>
+            <h3 id="pdf-preview-title">📄 {title}</h3>
+            {fileName && <span className="pdf-preview-filename">{fileName}</span>}
+          </div>
+          <button onClick={onClose} className="pdf-preview-close" title="Close (Esc)">✕</button>
+        </header>
+
+        <div className="pdf-preview-body">
+          <div className="pdf-preview-document">
+            <div className="pdf-preview-toolbar">
+              <button onClick={() => setPageNumber(p => p - 1)} disabled={!pdf || pageNumber <= 1}>
+                ← Prev
+              </button>
+              <span>Page {pageCount ? pageNumber : '–'} of {pageCount || '–'}</span>
+              <button onClick={() => setPageNumber(p => p + 1)} disabled={!pdf || pageNumber >= pageCount}>
+                Next →
+              </button>
+              <span className="pdf-preview-toolbar-spacer" />
+              <button onClick={() => setZoomIndex(z => z - 1)} disabled={!pdf || zoomIndex === 0} title="Zoom out">
+                −
+              </button>
+              <button onClick={() => setZoomIndex(DEFAULT_ZOOM_INDEX)} disabled={!pdf} title="Reset zoom">
+                {Math.round(ZOOM_LEVELS[zoomIndex] * 100)}%
+              </button>
+              <button
+                onClick={() => setZoomIndex(z => z + 1)}
+                disabled={!pdf || zoomIndex === ZOOM_LEVELS.length - 1}
+                title="Zoom in"
+              >
+                +
+              </button>
+              {fileUrl && (
+                <a href={fileUrl} target="_blank" rel="noreferrer" className="pdf-preview-open">
+                  ⤵ Open
+                </a>
+              )}
+            </div>
+
+            <div className="pdf-preview-canvas-container">
+              {error ? (
+                <div className="pdf-preview-message error">❌ {error}</div>
+              ) : loading ? (
+                <div className="pdf-preview-message">🔄 Loading document...</div>
+              ) : null}
+              <canvas
+                ref={canvasRef}
+                className={`pdf-preview-canvas ${rendering ? 'rendering' : ''}`}
+                style={{ display: pdf && !error ? 'block' : 'none' }}
+              />
+            </div>
+          </div>
+
+          <div className="pdf-preview-fields">
+            {thumbnail && (
+              <button
+                className="pdf-preview-thumbnail"
+                onClick={() => setPageNumber(1)}
+                title="Go to first page"
+              >
+                <img src={thumbnail} alt="First page" />
+              </button>
+            )}
+            <dl>
+              {fields.map(field => (
+                <React.Fragment key={field.label}>
+                  <dt>{field.label}</dt>
+                  <dd>{field.value}</dd>
+                </React.Fragment>
+              ))}
+            </dl>
+          </div>
+        </div>
+      </aside>
+
+      <style>{`
+        .pdf-preview-overlay {
+          position: fixed;
+          inset: 0;
+          background: rgba(0, 43, 75, 0.45);
+          display: flex;
+          justify-content: flex-end;
+          z-index: 2000;
+        }
+
+        .pdf-preview-panel {
+          background: white;
+          width: min(1100px, 100%);
+          height: 100%;
+          display: flex;
+          flex-direction: column;
+          box-shadow: -10px 0 40px rgba(0, 0, 0, 0.25);
+          font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif;
+        }
+
+        .pdf-preview-header {
+          display: flex;
+          justify-content: space-between;
+          align-items: flex-start;
+          padding: 16px 20px;
+          border-bottom: 1px solid #e2e8f0;
+        }
+
+        .pdf-preview-header h3 {
+          margin: 0;
+          color: #002b4b;
+          font-size: 18px;
+          word-break: break-all;
+        }
+
+        .pdf-preview-filename {
+          color: #5e6e77;
+          font-size: 12px;
+        }
+
+        .pdf-preview-close {
+          background: none;
+          border: none;
+          font-size: 20px;
+          color: #5e6e77;
+          cursor: pointer;
+        }
+
+        .pdf-preview-body {
+          flex: 1;
+          display: flex;
+          min-height: 0;
+        }
+
+        .pdf-preview-document {
+          flex: 1;
+          display: flex;
+          flex-direction: column;
+          min-width: 0;
+          background: #f1f5f9;
+        }
+
+        .pdf-preview-toolbar {
+          display: flex;
+          align-items: center;
+          gap: 8px;
+          padding: 8px 12px;
+          background: white;
+          border-bottom: 1px solid #e2e8f0;
+          font-size: 13px;
+          color: #002b4b;
+        }
+
+        .pdf-preview-toolbar button,
+        .pdf-preview-open {
+          padding: 4px 10px;
+          background: white;
+          border: 1px solid #32b3e7;
+          border-radius: 4px;
+          color: #002b4b;
+          font-size: 12px;
+          cursor: pointer;
+          text-decoration: none;
+        }
+
+        .pdf-preview-toolbar button:disabled {
+          opacity: 0.5;
+          cursor: not-allowed;
+        }
+
+        .pdf-preview-toolbar-spacer {
+          flex: 1;
+        }
+
+        .pdf-preview-canvas-container {
+          flex: 1;
+          overflow: auto;
+          padding: 16px;
+        }
+
+        .pdf-preview-canvas {
+          margin: 0 auto;
+          box-shadow: 0 2px 8px rgba(0, 0, 0, 0.15);
+          background: white;
+        }
+
+        .pdf-preview-canvas.rendering {
+          opacity: 0.6;
+        }
+
+        .pdf-preview-message {
+          text-align: center;
+          color: #5e6e77;
+          padding: 40px 0;
+        }
+
+        .pdf-preview-message.error {
+          color: #c53030;
+        }
+
+        .pdf-preview-fields {
+          width: 280px;
+          flex-shrink: 0;
+          padding: 16px;
+          border-left: 1px solid #e2e8f0;
+          overflow-y: auto;
+        }
+
+        .pdf-preview-thumbnail {
+          display: block;
+          padding: 0;
+          margin-bottom: 16px;
+          border: 1px solid #e2e8f0;
+          border-radius: 4px;
+          background: white;
+          cursor: pointer;
+        }
+
+        .pdf-preview-thumbnail img {
+          display: block;
+          width: 100%;
+        }
+
+        .pdf-preview-fields dl {
+          margin: 0;
+        }
+
+        .pdf-preview-fields dt {
+          color: #5e6e77;
+          font-size: 11px;
+          text-transform: uppercase;
+          letter-spacing: 0.04em;
+          margin-top: 12px;
+        }
+
+        .pdf-preview-fields dd {
+          margin: 2px 0 0 0;
+          color: #002b4b;
+          font-size: 14px;
+          word-break: break-all;
+        }
+
+        @media (max-width: 768px) {
+          .pdf-preview-body {
+            flex-direction: column;
+          }
+
+          .pdf-preview-fields {
+            width: auto;
+            border-left: none;
+            border-top: 1px solid #e2e8f0;
+          }
+        }
+      `}</style>
+    </div>
+  );
+};
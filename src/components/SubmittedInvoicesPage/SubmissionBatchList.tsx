@@ -0,0 +1,152 @@
+// components/SubmissionBatchList.tsx - One row per submission run, with drill-down and summary download
+import React, { useMemo } from 'react';
+import type { Schema } from '../../../amplify/data/resource';
+import { formatBatchNumber, getSubmitterName, parseCurrencyTotals } from '../../utils/submissionBatch';
+
+interface SubmissionBatchListProps {
+  batches: Schema["SubmissionBatch"]["type"][];
+  onViewBatch: (batchId: string) => void;
+  onDownloadSummary: (batch: Schema["SubmissionBatch"]["type"]) => void;
+}
+
+const STATUS_LABELS: Record<string, string> = {
+  IN_PROGRESS: '🔄 In progress',
+  COMPLETED: '✅ Completed',
+  PARTIAL: '⚠️ Partial',
+  FAILED: '❌ Failed',
+};
+
+export const SubmissionBatchList: React.FC<SubmissionBatchListProps> = ({
+  batches,
+  onViewBatch,
+  onDownloadSummary
+}) => {
+  // Newest submission first
+  const sortedBatches = useMemo(
+    () => [...batches].sort((a, b) => b.batchNumber - a.batchNumber),
+    [batches]
+  );
+
+  const formatTotals = (stored: unknown) => {
+    const totals = Object.entries(parseCurrencyTotals(stored));
+    if (totals.length === 0) return '—';
+    return totals.map(([currency, amount]) => {
+      try {
+        return new Intl.NumberFormat('en-US', { style: 'currency', currency, minimumFractionDigits: 2 }).format(amount);
+      } catch {
+        return `${currency} ${amount.toFixed(2)}`;
+      }
+    }).join(' • ');
+  };
+
+  if (sortedBatches.length === 0) {
+    return (
+      <div className="no-data">
+        <div className="no-data-content">
+          <div className="no-data-icon">📦</div>
+          <h3>No Submission Batches Yet</h3>
+          <p>Each time you submit invoices from the upload page, a numbered batch is created here.</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="invoices-table-container">
+      <table className="invoices-table batch-table">
+        <thead>
+          <tr>
+            <th>Batch</th>
+            <th>Submitted At</th>
+            <th>Submitted By</th>
+            <th>Status</th>
+            <th>Invoices</th>
+            <th>Totals</th>
+            <th>Note</th>
+            <th>Actions</th>
+          </tr>
+        </thead>
+        <tbody>
+          {sortedBatches.map(batch => (
+            <tr key={batch.id}>
+              <td className="invoice-id">{formatBatchNumber(batch.batchNumber)}</td>
+              <td className="datetime-cell">{new Date(batch.submittedAt).toLocaleString()}</td>
+              <td className="submitted-by" title={batch.submittedByEmail || undefined}>{getSubmitterName(batch)}</td>
+              <td>
+                <span className={`batch-status ${(batch.status || '').toLowerCase()}`}>
+                  {STATUS_LABELS[batch.status || ''] || batch.status}
+                </span>
+              </td>
+              <td>{batch.invoiceCount ?? 0}</td>
+              <td className="amount-cell">{formatTotals(batch.currencyTotals)}</td>
+              <td className="batch-note">{batch.note || ''}</td>
+              <td className="batch-actions">
+                <button onClick={() => onViewBatch(batch.id)} className="batch-action-btn">
+                  🔍 View
+                </button>
+                <button onClick={() => onDownloadSummary(batch)} className="batch-action-btn">
+                  ⬇️ Summary
+                </button>
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      <style>{`
+        .batch-status {
+          display: inline-block;
+          padding: 2px 8px;
+          border-radius: 10px;
+          font-size: 12px;
+          font-weight: 600;
+          white-space: nowrap;
+        }
+
+        .batch-status.completed {
+          background: #c6f6d5;
+          color: #276749;
+        }
+
+        .batch-status.partial,
+        .batch-status.in_progress {
+          background: #fefcbf;
+          color: #975a16;
+        }
+
+        .batch-status.failed {
+          background: #fed7d7;
+          color: #c53030;
+        }
+
+        .batch-note {
+          color: #5e6e77;
+          max-width: 220px;
+          overflow: hidden;
+          text-overflow: ellipsis;
+          white-space: nowrap;
+        }
+
+        .batch-actions {
+          white-space: nowrap;
+        }
+
+        .batch-action-btn {
+          padding: 4px 10px;
+          margin-right: 6px;
+          background: white;
+          border: 1px solid #32b3e7;
+          border-radius: 4px;
+          color: #002b4b;
+          font-size: 12px;
+          cursor: pointer;
+          transition: all 0.2s;
+        }
+
+        .batch-action-btn:hover {
+          background: #f0f9ff;
+        }
+      `}</style>
+    </div>
+  );
+};
@@ -2,10 +2,31 @@
 import React, { useState, useEffect, useMemo } from 'react';
 import { generateClient } from 'aws-amplify/data';
 import type { Schema } from '../../../amplify/data/resource';
+import { SubmissionBatchList } from './SubmissionBatchList';
+import { downloadBatchSummary, formatBatchNumber, getSubmitterKey, getSubmitterName } from '../../utils/submissionBatch';
+import {
+  INVOICE_STATUSES,
+  STATUS_LABELS,
+  STATUS_TRANSITIONS,
+  getInvoiceStatus,
+} from '../../../shared/invoiceLifecycle/statusMachine';
+import type { InvoiceStatus } from '../../../shared/invoiceLifecycle/statusMachine';
+import { canReviewInvoices, getUserGroups } from '../../utils/userGroups';
+import { getWorkspaceFilter, useActiveOrganization } from '../../context/organizationContext';
+import type { WorkspaceFilter } from '../../context/organizationContext';
+import { getWorkspaceFileUrl } from '../../utils/organizationFiles';
+import { PdfPreviewPanel } from '../PdfPreviewPanel';
+import { InvoiceDocumentsPanel } from '../InvoiceDocumentsPanel';
+import { uploadInvoiceDocument } from '../../utils/invoiceDocuments';
+import type { InvoiceDocument } from '../../utils/invoiceDocuments';
+import { fetchPartyDirectory, findParty } from '../../utils/partyRegistry';
+import type { PartyDirectory } from '../../utils/partyRegistry';
+import { PartyName } from '../PartyName';
+import { parseStoredEligibility } from '../../../shared/invoiceFunding/eligibility';
 
 const client = generateClient<Schema>();
 
-type SortableField = 'submittedAt' | 'submittedBy' | 'invoiceId' | 'sellerId' | 'debtorId' | 'amount' | 'currency' | 'product' | 'originalUploadJobId';
+type SortableField = 'submittedAt' | 'submittedBy' | 'invoiceId' | 'sellerId' | 'debtorId' | 'amount' | 'currency' | 'product' | 'originalUploadJobId' | 'status';
 
 export const SubmittedInvoicesViewer: React.FC = () => {
   const [submittedInvoices, setSubmittedInvoices] = useState<Schema["SubmittedInvoice"]["type"][]>([]);
@@ -14,15 +35,44 @@ export const SubmittedInvoicesViewer: React.FC = () => {
   const [sortBy, setSortBy] = useState<SortableField>('submittedAt');
   const [sortDirection, setSortDirection] = useState<'asc' | 'desc'>('desc');
   const [currentPage, setCurrentPage] = useState(1);
+  const [submissionBatches, setSubmissionBatches] = useState<Schema["SubmissionBatch"]["type"][]>([]);
+  const [viewMode, setViewMode] = useState<'invoices' | 'batches'>('invoices');
+  const [selectedBatchId, setSelectedBatchId] = useState<string | null>(null);
+  const [statusFilter, setStatusFilter] = useState<InvoiceStatus | 'ALL'>('ALL');
+  const [submitterFilter, setSubmitterFilter] = useState<string | null>(null);
+  const [transitioningId, setTransitioningId] = useState<string | null>(null);
+  const [isReviewer, setIsReviewer] = useState(false);
+  const [previewInvoice, setPreviewInvoice] = useState<Schema["SubmittedInvoice"]["type"] | null>(null);
+  const [invoiceDocuments, setInvoiceDocuments] = useState<InvoiceDocument[]>([]);
+  const [documentsInvoice, setDocumentsInvoice] = useState<Schema["SubmittedInvoice"]["type"] | null>(null);
+  const [partyDirectory, setPartyDirectory] = useState<PartyDirectory | null>(null);
+  const { activeOrganizationId } = useActiveOrganization();
   const itemsPerPage = 25;
 
+  // Reviewers work the queue across every workspace (undefined); everyone else sees the active one. null until it is known
+  const [workspaceFilter, setWorkspaceFilter] = useState<WorkspaceFilter | undefined | null>(null);
+
+  useEffect(() => {
+    let isMounted = true;
+    if (isReviewer) {
+      setWorkspaceFilter(undefined);
+    } else {
+      getWorkspaceFilter(activeOrganizationId).then(filter => isMounted && setWorkspaceFilter(filter));
+    }
+
+    return () => {
+      isMounted = false;
+    };
+  }, [isReviewer, activeOrganizationId]);
+
   // Enhanced manual refresh function
   const refreshSubmittedInvoices = async () => {
+    if (workspaceFilter === null) return;
     try {
       setLoading(true);
       console.log('🔄 [DEBUG] Refreshing submitted invoices...');
       
-      const result = await client.models.SubmittedInvoice.list();
+      const result = await client.models.SubmittedInvoice.list({ filter: workspaceFilter });
       if (result.errors) {
         console.error('❌ [DEBUG] Error fetching submitted invoices:', result.errors);
         setError('Failed to load submitted invoices');
@@ -31,6 +81,11 @@ export const SubmittedInvoicesViewer: React.FC = () => {
         setSubmittedInvoices(result.data || []);
         setError(null);
       }
+
+      const batchesResult = await client.models.SubmissionBatch.list({ filter: workspaceFilter });
+      if (!batchesResult.errors) {
+        setSubmissionBatches(batchesResult.data || []);
+      }
     } catch (err) {
       console.error('💥 [DEBUG] Exception during submitted invoices refresh:', err);
       setError('Failed to load submitted invoices');
@@ -41,6 +96,7 @@ export const SubmittedInvoicesViewer: React.FC = () => {
 
   // Load submitted invoices with real-time updates
   useEffect(() => {
+    if (workspaceFilter === null) return;
     console.log('🔄 [DEBUG] Setting up submitted invoices loading');
     
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
@@ -51,7 +107,7 @@ export const SubmittedInvoicesViewer: React.FC = () => {
       try {
         // Initial manual load
         console.log('📊 [DEBUG] Initial submitted invoices load...');
-        const initialResult = await client.models.SubmittedInvoice.list();
+        const initialResult = await client.models.SubmittedInvoice.list({ filter: workspaceFilter });
         
         if (isMounted && !initialResult.errors && initialResult.data) {
           console.log('✅ [DEBUG] Initial submitted invoices load successful:', initialResult.data.length, 'records');
@@ -61,7 +117,7 @@ export const SubmittedInvoicesViewer: React.FC = () => {
         
         // Setup real-time subscription
         console.log('📊 [DEBUG] Setting up submitted invoices subscription...');
-        subscription = client.models.SubmittedInvoice.observeQuery().subscribe({
+        subscription = client.models.SubmittedInvoice.observeQuery({ filter: workspaceFilter }).subscribe({
           next: ({ items, isSynced }) => {
             if (isMounted) {
               console.log('📊 [DEBUG] Submitted invoices subscription update:', {
@@ -99,19 +155,145 @@ export const SubmittedInvoicesViewer: React.FC = () => {
         subscription.unsubscribe();
       }
     };
+  }, [workspaceFilter]);
+
+  // Only reviewers and admins may move invoices through the lifecycle
+  useEffect(() => {
+    getUserGroups().then(groups => setIsReviewer(canReviewInvoices(groups)));
   }, []);
 
+  // Submission batches with real-time updates
+  useEffect(() => {
+    if (workspaceFilter === null) return;
+    const subscription = client.models.SubmissionBatch.observeQuery({ filter: workspaceFilter }).subscribe({
+      next: ({ items }) => {
+        console.log('📦 [DEBUG] Submission batches update:', items.length, 'batches');
+        setSubmissionBatches(items);
+      },
+      error: (err) => console.error('❌ [DEBUG] Submission batches subscription error:', err)
+    });
+
+    return () => subscription.unsubscribe();
+  }, [workspaceFilter]);
+
+  // Supporting documents, attached before or after submission
+  useEffect(() => {
+    if (workspaceFilter === null) return;
+    const subscription = client.models.InvoiceDocument.observeQuery({ filter: workspaceFilter }).subscribe({
+      next: ({ items }) => setInvoiceDocuments(items),
+      error: (err) => console.error('❌ [DOCUMENTS] Subscription error:', err)
+    });
+
+    return () => subscription.unsubscribe();
+  }, [workspaceFilter]);
+
+  // Seller and debtor names; reviewers need every workspace's registry
+  useEffect(() => {
+    let isMounted = true;
+    fetchPartyDirectory(isReviewer ? undefined : activeOrganizationId)
+      .then(directory => isMounted && setPartyDirectory(directory))
+      .catch(error => console.error('❌ [MASTER DATA] Failed to load sellers and debtors:', error));
+
+    return () => {
+      isMounted = false;
+    };
+  }, [isReviewer, activeOrganizationId]);
+
+  const documentsByInvoice = useMemo(() => {
+    const grouped = new Map<string, InvoiceDocument[]>();
+    invoiceDocuments.forEach(document => {
+      if (!document.submittedInvoiceId) return;
+      grouped.set(document.submittedInvoiceId, [...(grouped.get(document.submittedInvoiceId) || []), document]);
+    });
+    return grouped;
+  }, [invoiceDocuments]);
+
+  const selectedBatch = useMemo(
+    () => submissionBatches.find(batch => batch.id === selectedBatchId) || null,
+    [submissionBatches, selectedBatchId]
+  );
+
+  // Batch drill-down narrows the status counts as well as the table
+  const batchInvoices = useMemo(
+    () => selectedBatchId ? submittedInvoices.filter(inv => inv.submissionBatchId === selectedBatchId) : submittedInvoices,
+    [submittedInvoices, selectedBatchId]
+  );
+
+  const statusCounts = useMemo(() => batchInvoices.reduce((acc, inv) => {
+    const status = getInvoiceStatus(inv.status);
+    acc[status] = (acc[status] || 0) + 1;
+    return acc;
+  }, {} as Partial<Record<InvoiceStatus, number>>), [batchInvoices]);
+
+  // Invoices shown in the table
+  const visibleInvoices = useMemo(
+    () => batchInvoices.filter(inv =>
+      (statusFilter === 'ALL' || getInvoiceStatus(inv.status) === statusFilter) &&
+      (!submitterFilter || getSubmitterKey(inv) === submitterFilter)
+    ),
+    [batchInvoices, statusFilter, submitterFilter]
+  );
+
+  const handleStatusChange = async (invoice: Schema["SubmittedInvoice"]["type"], toStatus: InvoiceStatus) => {
+    const note = window.prompt(
+      `Move invoice ${invoice.invoiceId} from ${STATUS_LABELS[getInvoiceStatus(invoice.status)]} to ${STATUS_LABELS[toStatus]}?\n\nOptional note:`
+    );
+    if (note === null) return;
+
+    setTransitioningId(invoice.id);
+    try {
+      console.log('🔁 [STATUS] Requesting transition:', { id: invoice.id, toStatus });
+      const result = await client.mutations.transitionSubmittedInvoiceStatus({
+        submittedInvoiceId: invoice.id,
+        toStatus,
+        note: note.trim() || undefined,
+      });
+
+      if (result.errors || !result.data) {
+        console.error('❌ [STATUS] Transition rejected:', result.errors);
+        setError(result.errors?.[0]?.message || 'Failed to change invoice status');
+        return;
+      }
+
+      // The change is written by the function directly, so model subscriptions don't see it
+      const updated = result.data;
+      setSubmittedInvoices(prev => prev.map(inv => inv.id === updated.id ? { ...inv, ...updated } : inv));
+      setError(null);
+    } catch (err) {
+      console.error('💥 [STATUS] Exception during status transition:', err);
+      setError('Failed to change invoice status');
+    } finally {
+      setTransitioningId(null);
+    }
+  };
+
+  const handleViewBatch = (batchId: string) => {
+    setSelectedBatchId(batchId);
+    setViewMode('invoices');
+    setCurrentPage(1);
+  };
+
+  const handleDownloadSummary = (batch: Schema["SubmissionBatch"]["type"]) => {
+    console.log('⬇️ [DEBUG] Downloading summary for', formatBatchNumber(batch.batchNumber));
+    downloadBatchSummary(batch, submittedInvoices.filter(inv => inv.submissionBatchId === batch.id));
+  };
+
   // Calculate analytics for submitted invoices
   const analytics = useMemo(() => {
     const totalAmount = submittedInvoices.reduce((sum, inv) => sum + (inv.amount || 0), 0);
     
-    // Group by submittedBy (user who submitted)
+    // Group by the user who submitted, keyed by Cognito sub
     const submittedByGroups = submittedInvoices.reduce((acc, inv) => {
-      const submittedBy = inv.submittedBy || 'Unknown';
-      acc[submittedBy] = (acc[submittedBy] || 0) + 1;
+      const submitterKey = getSubmitterKey(inv);
+      acc[submitterKey] = (acc[submitterKey] || 0) + 1;
       return acc;
     }, {} as Record<string, number>);
 
+    const submitterNames = submittedInvoices.reduce((acc, inv) => {
+      acc[getSubmitterKey(inv)] = getSubmitterName(inv);
+      return acc;
+    }, {} as Record<string, string>);
+
     // Group by currency
     const currencyGroups = submittedInvoices.reduce((acc, inv) => {
       const currency = inv.currency || 'Unknown';
@@ -139,18 +321,20 @@ export const SubmittedInvoicesViewer: React.FC = () => {
       totalInvoices: submittedInvoices.length,
       totalAmount,
       submittedByGroups,
+      submitterNames,
       currencyGroups,
       monthlyGroups,
-      uniqueSubmitters: Object.keys(submittedByGroups),
+      // Most active submitters first
+      uniqueSubmitters: Object.keys(submittedByGroups).sort((a, b) => submittedByGroups[b] - submittedByGroups[a]),
       uniqueCurrencies: Object.keys(currencyGroups)
     };
   }, [submittedInvoices]);
 
   // Sort submitted invoices
   const sortedInvoices = useMemo(() => {
-    console.log('📊 [DEBUG] Sorting submitted invoices. Total:', submittedInvoices.length);
+    console.log('📊 [DEBUG] Sorting submitted invoices. Total:', visibleInvoices.length);
     
-    return submittedInvoices.sort((a, b) => {
+    return [...visibleInvoices].sort((a, b) => {
       let aValue: string | number | Date, bValue: string | number | Date;
       
       switch (sortBy) {
@@ -163,20 +347,21 @@ export const SubmittedInvoicesViewer: React.FC = () => {
           bValue = b.amount || 0;
           break;
         case 'submittedBy':
-          aValue = (a.submittedBy || '').toLowerCase();
-          bValue = (b.submittedBy || '').toLowerCase();
+          aValue = getSubmitterName(a).toLowerCase();
+          bValue = getSubmitterName(b).toLowerCase();
           break;
         case 'invoiceId':
           aValue = (a.invoiceId || '').toLowerCase();
           bValue = (b.invoiceId || '').toLowerCase();
           break;
+        // Sorted by the name shown in the column
         case 'sellerId':
-          aValue = (a.sellerId || '').toLowerCase();
-          bValue = (b.sellerId || '').toLowerCase();
+          aValue = (findParty(partyDirectory, 'seller', a.sellerId || '', a.organizationId)?.legalName || a.sellerId || '').toLowerCase();
+          bValue = (findParty(partyDirectory, 'seller', b.sellerId || '', b.organizationId)?.legalName || b.sellerId || '').toLowerCase();
           break;
         case 'debtorId':
-          aValue = (a.debtorId || '').toLowerCase();
-          bValue = (b.debtorId || '').toLowerCase();
+          aValue = (findParty(partyDirectory, 'debtor', a.debtorId || '', a.organizationId)?.legalName || a.debtorId || '').toLowerCase();
+          bValue = (findParty(partyDirectory, 'debtor', b.debtorId || '', b.organizationId)?.legalName || b.debtorId || '').toLowerCase();
           break;
         case 'product':
           aValue = (a.product || '').toLowerCase();
@@ -190,6 +375,10 @@ export const SubmittedInvoicesViewer: React.FC = () => {
           aValue = (a.originalUploadJobId || '').toLowerCase();
           bValue = (b.originalUploadJobId || '').toLowerCase();
           break;
+        case 'status':
+          aValue = INVOICE_STATUSES.indexOf(getInvoiceStatus(a.status));
+          bValue = INVOICE_STATUSES.indexOf(getInvoiceStatus(b.status));
+          break;
         default:
           aValue = new Date(a.submittedAt || '').getTime();
           bValue = new Date(b.submittedAt || '').getTime();
@@ -202,7 +391,7 @@ export const SubmittedInvoicesViewer: React.FC = () => {
         return aValue < bValue ? 1 : -1;
       }
     });
-  }, [submittedInvoices, sortBy, sortDirection]);
+  }, [visibleInvoices, sortBy, sortDirection, partyDirectory]);
 
   // Paginate results
   const paginatedInvoices = useMemo(() => {
@@ -234,6 +423,18 @@ export const SubmittedInvoicesViewer: React.FC = () => {
     }
   };
 
+  // Scored when the invoice was submitted; older invoices have no score
+  const formatStoredEligibility = (invoice: Schema["SubmittedInvoice"]["type"]): string => {
+    const eligibility = parseStoredEligibility(invoice.eligibility);
+    if (!eligibility) return 'Not scored';
+    if (!eligibility.eligible) {
+      const failed = eligibility.checks.filter(check => !check.passed).map(check => check.label).join(', ');
+      return `Not eligible (${eligibility.score}%): ${failed}`;
+    }
+    return `Advance ${formatCurrency(eligibility.advanceAmount, invoice.currency)} at ${eligibility.advanceRatePercent}%, ` +
+      `fee ${formatCurrency(eligibility.feeAmount, invoice.currency)} (scored ${eligibility.evaluatedOn})`;
+  };
+
   const formatDateTime = (dateString: string | null | undefined) => {
     if (!dateString) return 'N/A';
     try {
@@ -262,6 +463,55 @@ export const SubmittedInvoicesViewer: React.FC = () => {
         <p>View and manage all invoices that have been submitted for processing.</p>
       </div>
 
+      {documentsInvoice && (
+        <InvoiceDocumentsPanel
+          title={documentsInvoice.invoiceId}
+          documents={documentsByInvoice.get(documentsInvoice.id) || []}
+          hasInvoicePdf={!!documentsInvoice.pdfS3Key}
+          getFileUrl={(document) => getWorkspaceFileUrl(document.s3Key, isReviewer ? null : document.organizationId)}
+          // Submitters may still add late paperwork; submitted documents are not removed
+          onUpload={isReviewer ? undefined : async (file, documentType, onProgress) => {
+            await uploadInvoiceDocument(file, documentType, {
+              invoiceRecordId: documentsInvoice.id,
+              organizationId: documentsInvoice.organizationId,
+              onProgress
+            });
+          }}
+          onClose={() => setDocumentsInvoice(null)}
+        />
+      )}
+
+      {previewInvoice?.pdfS3Key && (
+        <PdfPreviewPanel
+          title={previewInvoice.invoiceId}
+          pdfS3Key={previewInvoice.pdfS3Key}
+          fileName={previewInvoice.pdfFileName}
+          // Reviewers read every uploader's folder directly; teammates go through the organization function
+          getFileUrl={() => getWorkspaceFileUrl(previewInvoice.pdfS3Key || '', isReviewer ? null : previewInvoice.organizationId)}
+          onClose={() => setPreviewInvoice(null)}
+          fields={[
+            { label: 'Invoice ID', value: previewInvoice.invoiceId },
+            { label: 'Status', value: STATUS_LABELS[getInvoiceStatus(previewInvoice.status)] },
+            { label: 'Amount', value: formatCurrency(previewInvoice.amount, previewInvoice.currency) },
+            { label: 'Currency', value: previewInvoice.currency },
+            { label: 'Issue Date', value: new Date(previewInvoice.issueDate).toLocaleDateString() },
+            { label: 'Due Date', value: new Date(previewInvoice.dueDate).toLocaleDateString() },
+            {
+              label: 'Seller',
+              value: <PartyName directory={partyDirectory} kind="seller" partyId={previewInvoice.sellerId || ''} organizationId={previewInvoice.organizationId} />
+            },
+            {
+              label: 'Debtor',
+              value: <PartyName directory={partyDirectory} kind="debtor" partyId={previewInvoice.debtorId || ''} organizationId={previewInvoice.organizationId} />
+            },
+            { label: 'Product', value: previewInvoice.product },
+            { label: 'Funding', value: formatStoredEligibility(previewInvoice) },
+            { label: 'Submitted By', value: getSubmitterName(previewInvoice) },
+            { label: 'Submitted At', value: formatDateTime(previewInvoice.submittedAt) },
+          ]}
+        />
+      )}
+
       {error && (
         <div className="error-message">
           ❌ {error}
@@ -277,9 +527,18 @@ export const SubmittedInvoicesViewer: React.FC = () => {
             {analytics.uniqueSubmitters.length > 0 && (
               <div className="card-breakdown">
                 {analytics.uniqueSubmitters.slice(0, 3).map(submitter => (
-                  <span key={submitter} className="status-item">
-                    {submitter}: {analytics.submittedByGroups[submitter]}
-                  </span>
+                  <button
+                    key={submitter}
+                    className={`status-item submitter-filter ${submitterFilter === submitter ? 'active' : ''}`}
+                    onClick={() => {
+                      setSubmitterFilter(submitterFilter === submitter ? null : submitter);
+                      setViewMode('invoices');
+                      setCurrentPage(1);
+                    }}
+                    title={submitterFilter === submitter ? 'Show all submitters' : 'Show only this submitter'}
+                  >
+                    {analytics.submitterNames[submitter]}: {analytics.submittedByGroups[submitter]}
+                  </button>
                 ))}
               </div>
             )}
@@ -299,11 +558,80 @@ export const SubmittedInvoicesViewer: React.FC = () => {
         </div>
       </div>
 
+      {/* View toggle: flat invoice list or numbered submission batches */}
+      <div className="view-toggle">
+        <button
+          className={`view-toggle-btn ${viewMode === 'invoices' ? 'active' : ''}`}
+          onClick={() => setViewMode('invoices')}
+        >
+          📄 Invoices
+        </button>
+        <button
+          className={`view-toggle-btn ${viewMode === 'batches' ? 'active' : ''}`}
+          onClick={() => setViewMode('batches')}
+        >
+          📦 Batches ({submissionBatches.length})
+        </button>
+      </div>
+
+      {viewMode === 'invoices' && selectedBatch && (
+        <div className="batch-filter-banner">
+          <span>
+            Showing batch <strong>{formatBatchNumber(selectedBatch.batchNumber)}</strong>
+            {selectedBatch.note ? ` — ${selectedBatch.note}` : ''}
+          </span>
+          <div>
+            <button onClick={() => handleDownloadSummary(selectedBatch)} className="refresh-btn">
+              ⬇️ Download Summary
+            </button>
+            <button onClick={() => { setSelectedBatchId(null); setViewMode('batches'); }} className="refresh-btn">
+              ← Back to Batches
+            </button>
+          </div>
+        </div>
+      )}
+
+      {viewMode === 'invoices' && submitterFilter && (
+        <div className="batch-filter-banner">
+          <span>
+            Showing invoices submitted by <strong>{analytics.submitterNames[submitterFilter] || 'Unknown'}</strong>
+          </span>
+          <div>
+            <button onClick={() => { setSubmitterFilter(null); setCurrentPage(1); }} className="refresh-btn">
+              ✕ All Submitters
+            </button>
+          </div>
+        </div>
+      )}
+
+      {/* Status filter chips */}
+      {viewMode === 'invoices' && batchInvoices.length > 0 && (
+        <div className="status-filters">
+          <button
+            className={`status-filter-chip ${statusFilter === 'ALL' ? 'active' : ''}`}
+            onClick={() => { setStatusFilter('ALL'); setCurrentPage(1); }}
+          >
+            All ({batchInvoices.length})
+          </button>
+          {INVOICE_STATUSES.filter(status => statusCounts[status]).map(status => (
+            <button
+              key={status}
+              className={`status-filter-chip ${status.toLowerCase()} ${statusFilter === status ? 'active' : ''}`}
+              onClick={() => { setStatusFilter(status); setCurrentPage(1); }}
+            >
+              {STATUS_LABELS[status]} ({statusCounts[status]})
+            </button>
+          ))}
+        </div>
+      )}
+
       {/* Results Summary with Refresh Button */}
       <div className="results-summary">
         <div className="summary-content">
           <p>
-            Showing {paginatedInvoices.length} of {sortedInvoices.length} submitted invoices
+            {viewMode === 'batches'
+              ? `${submissionBatches.length} submission batches`
+              : `Showing ${paginatedInvoices.length} of ${sortedInvoices.length} submitted invoices`}
           </p>
           <button 
             onClick={refreshSubmittedInvoices}
@@ -316,7 +644,13 @@ export const SubmittedInvoicesViewer: React.FC = () => {
         </div>
       </div>
 
-      {submittedInvoices.length === 0 ? (
+      {viewMode === 'batches' ? (
+        <SubmissionBatchList
+          batches={submissionBatches}
+          onViewBatch={handleViewBatch}
+          onDownloadSummary={handleDownloadSummary}
+        />
+      ) : submittedInvoices.length === 0 ? (
         <div className="no-data">
           <div className="no-data-content">
             <div className="no-data-icon">📋</div>
@@ -354,13 +688,13 @@ export const SubmittedInvoicesViewer: React.FC = () => {
                     className={`sortable ${sortBy === 'sellerId' ? 'active' : ''}`}
                     onClick={() => handleSort('sellerId')}
                   >
-                    Seller ID {sortBy === 'sellerId' && (sortDirection === 'asc' ? '↑' : '↓')}
+                    Seller {sortBy === 'sellerId' && (sortDirection === 'asc' ? '↑' : '↓')}
                   </th>
                   <th 
                     className={`sortable ${sortBy === 'debtorId' ? 'active' : ''}`}
                     onClick={() => handleSort('debtorId')}
                   >
-                    Debtor ID {sortBy === 'debtorId' && (sortDirection === 'asc' ? '↑' : '↓')}
+                    Debtor {sortBy === 'debtorId' && (sortDirection === 'asc' ? '↑' : '↓')}
                   </th>
                   <th 
                     className={`sortable ${sortBy === 'product' ? 'active' : ''}`}
@@ -380,12 +714,19 @@ export const SubmittedInvoicesViewer: React.FC = () => {
                   >
                     Amount {sortBy === 'amount' && (sortDirection === 'asc' ? '↑' : '↓')}
                   </th>
+                  <th>PDF</th>
                   <th 
                     className={`sortable ${sortBy === 'originalUploadJobId' ? 'active' : ''}`}
                     onClick={() => handleSort('originalUploadJobId')}
                   >
                     Original Upload Job {sortBy === 'originalUploadJobId' && (sortDirection === 'asc' ? '↑' : '↓')}
                   </th>
+                  <th 
+                    className={`sortable ${sortBy === 'status' ? 'active' : ''}`}
+                    onClick={() => handleSort('status')}
+                  >
+                    Status {sortBy === 'status' && (sortDirection === 'asc' ? '↑' : '↓')}
+                  </th>
                 </tr>
               </thead>
               <tbody>
@@ -394,17 +735,17 @@ export const SubmittedInvoicesViewer: React.FC = () => {
                     <td className="datetime-cell">
                       {formatDateTime(invoice.submittedAt)}
                     </td>
-                    <td className="submitted-by">
-                      {invoice.submittedBy || 'Unknown'}
+                    <td className="submitted-by" title={invoice.submittedByEmail || undefined}>
+                      {getSubmitterName(invoice)}
                     </td>
                     <td className="invoice-id">
                       {invoice.invoiceId || 'N/A'}
                     </td>
                     <td className="seller-id">
-                      {invoice.sellerId || 'N/A'}
+                      <PartyName directory={partyDirectory} kind="seller" partyId={invoice.sellerId || ''} organizationId={invoice.organizationId} />
                     </td>
                     <td className="debtor-id">
-                      {invoice.debtorId || 'N/A'}
+                      <PartyName directory={partyDirectory} kind="debtor" partyId={invoice.debtorId || ''} organizationId={invoice.organizationId} />
                     </td>
                     <td className="product-cell">
                       {invoice.product || 'N/A'}
@@ -415,9 +756,46 @@ export const SubmittedInvoicesViewer: React.FC = () => {
                     <td className="amount-cell">
                       {invoice.amount != null ? formatCurrency(invoice.amount, invoice.currency || 'USD') : 'N/A'}
                     </td>
+                    <td className="pdf-cell">
+                      {invoice.pdfS3Key ? (
+                        <button
+                          onClick={() => setPreviewInvoice(invoice)}
+                          className="pdf-preview-btn"
+                          title={`Preview: ${invoice.pdfFileName || 'invoice.pdf'}`}
+                        >
+                          👁 Preview
+                        </button>
+                      ) : '—'}
+                      <button
+                        onClick={() => setDocumentsInvoice(invoice)}
+                        className="pdf-preview-btn documents-btn"
+                        title="Supporting documents"
+                      >
+                        📎 {documentsByInvoice.get(invoice.id)?.length || 0}
+                      </button>
+                    </td>
                     <td className="upload-job-id">
                       {invoice.originalUploadJobId || 'N/A'}
                     </td>
+                    <td className="status-cell">
+                      <span className={`invoice-status-badge ${getInvoiceStatus(invoice.status).toLowerCase()}`}>
+                        {STATUS_LABELS[getInvoiceStatus(invoice.status)]}
+                      </span>
+                      {isReviewer && STATUS_TRANSITIONS[getInvoiceStatus(invoice.status)].length > 0 && (
+                        <select
+                          value=""
+                          disabled={transitioningId === invoice.id}
+                          onChange={(e) => handleStatusChange(invoice, e.target.value as InvoiceStatus)}
+                          className="status-action-select"
+                          title="Move to next status"
+                        >
+                          <option value="" disabled>{transitioningId === invoice.id ? 'Updating...' : 'Move to...'}</option>
+                          {STATUS_TRANSITIONS[getInvoiceStatus(invoice.status)].map(next => (
+                            <option key={next} value={next}>{STATUS_LABELS[next]}</option>
+                          ))}
+                        </select>
+                      )}
+                    </td>
                   </tr>
                 ))}
               </tbody>
@@ -562,6 +940,154 @@ export const SubmittedInvoicesViewer: React.FC = () => {
           font-weight: 500;
         }
 
+        .submitter-filter {
+          border: 1px solid transparent;
+          font-size: 12px;
+          color: #5e6e77;
+          cursor: pointer;
+        }
+
+        .submitter-filter:hover,
+        .submitter-filter.active {
+          border-color: #32b3e7;
+          color: #002b4b;
+        }
+
+        .status-filters {
+          display: flex;
+          flex-wrap: wrap;
+          gap: 8px;
+          margin-bottom: 15px;
+        }
+
+        .status-filter-chip {
+          padding: 4px 12px;
+          background: white;
+          border: 1px solid #cbd5e0;
+          border-radius: 14px;
+          color: #5e6e77;
+          font-size: 13px;
+          cursor: pointer;
+          transition: all 0.2s;
+        }
+
+        .status-filter-chip.active {
+          border-color: #002b4b;
+          background: #002b4b;
+          color: white;
+        }
+
+        .status-cell {
+          white-space: nowrap;
+        }
+
+        .invoice-status-badge {
+          display: inline-block;
+          padding: 2px 8px;
+          border-radius: 10px;
+          font-size: 11px;
+          font-weight: 600;
+          background: #e2e8f0;
+          color: #4a5568;
+        }
+
+        .invoice-status-badge.under_review {
+          background: #fefcbf;
+          color: #975a16;
+        }
+
+        .invoice-status-badge.approved,
+        .invoice-status-badge.funded {
+          background: #bee3f8;
+          color: #2c5282;
+        }
+
+        .invoice-status-badge.partially_paid {
+          background: #e9d8fd;
+          color: #553c9a;
+        }
+
+        .invoice-status-badge.settled {
+          background: #c6f6d5;
+          color: #276749;
+        }
+
+        .invoice-status-badge.rejected,
+        .invoice-status-badge.written_off {
+          background: #fed7d7;
+          color: #c53030;
+        }
+
+        .pdf-preview-btn {
+          padding: 3px 8px;
+          background: #32b3e7;
+          border: none;
+          border-radius: 4px;
+          color: white;
+          font-size: 11px;
+          white-space: nowrap;
+          cursor: pointer;
+        }
+
+        .pdf-preview-btn:hover {
+          background: #1a9bd8;
+        }
+
+        .pdf-preview-btn.documents-btn {
+          margin-left: 4px;
+        }
+
+        .status-action-select {
+          margin-left: 6px;
+          padding: 2px 4px;
+          border: 1px solid #32b3e7;
+          border-radius: 4px;
+          font-size: 11px;
+          color: #002b4b;
+          background: white;
+        }
+
+        .view-toggle {
+          display: flex;
+          gap: 8px;
+          margin-bottom: 15px;
+        }
+
+        .view-toggle-btn {
+          padding: 8px 16px;
+          background: white;
+          border: 1px solid #32b3e7;
+          border-radius: 6px;
+          color: #002b4b;
+          font-size: 14px;
+          font-weight: 500;
+          cursor: pointer;
+          transition: all 0.2s;
+        }
+
+        .view-toggle-btn.active {
+          background: #32b3e7;
+          color: white;
+        }
+
+        .batch-filter-banner {
+          display: flex;
+          justify-content: space-between;
+          align-items: center;
+          flex-wrap: wrap;
+          gap: 10px;
+          background: #f0f9ff;
+          border: 1px solid #32b3e7;
+          border-radius: 6px;
+          padding: 10px 15px;
+          margin-bottom: 15px;
+          color: #002b4b;
+        }
+
+        .batch-filter-banner .refresh-btn {
+          margin-left: 8px;
+        }
+
         .results-summary {
           margin-bottom: 15px;
           display: flex;
@@ -0,0 +1,319 @@
+// components/BulkPdfMatchDialog.tsx - Confirm which invoice each dropped PDF is attached to
+import React, { useMemo, useState } from 'react';
+import type { Schema } from '../../../amplify/data/resource';
+import type { PdfMatchStatus, ProposedPdfMatch } from '../../utils/pdfMatching';
+
+type Invoice = Schema["Invoice"]["type"];
+
+export interface PdfAssignment {
+  file: File;
+  invoice: Invoice;
+}
+
+interface BulkPdfMatchDialogProps {
+  proposals: ProposedPdfMatch<Invoice>[];
+  invoices: Invoice[]; // Invoices a PDF may be attached to
+  onConfirm: (assignments: PdfAssignment[]) => void;
+  onCancel: () => void;
+}
+
+const STATUS_LABELS: Record<PdfMatchStatus, string> = {
+  matched: '✅ Matched',
+  ambiguous: '⚠️ Ambiguous',
+  unmatched: '❓ Unmatched',
+};
+
+const STATUS_ORDER: PdfMatchStatus[] = ['matched', 'ambiguous', 'unmatched'];
+
+export const BulkPdfMatchDialog: React.FC<BulkPdfMatchDialogProps> = ({
+  proposals,
+  invoices,
+  onConfirm,
+  onCancel
+}) => {
+  const rows = useMemo(
+    () => [...proposals].sort((a, b) => STATUS_ORDER.indexOf(a.status) - STATUS_ORDER.indexOf(b.status)),
+    [proposals]
+  );
+
+  // Only confident matches are preselected; everything else waits for the user
+  const [selected, setSelected] = useState<string[]>(() =>
+    rows.map(row => (row.status === 'matched' ? row.candidates[0].id : ''))
+  );
+
+  const invoicesById = useMemo(() => new Map(invoices.map(invoice => [invoice.id, invoice])), [invoices]);
+  const sortedInvoices = useMemo(
+    () => [...invoices].sort((a, b) => a.invoiceId.localeCompare(b.invoiceId)),
+    [invoices]
+  );
+
+  const selectionCounts = selected.reduce((counts, id) => {
+    if (id) counts.set(id, (counts.get(id) || 0) + 1);
+    return counts;
+  }, new Map<string, number>());
+  const hasConflicts = [...selectionCounts.values()].some(count => count > 1);
+  const assignedCount = selected.filter(Boolean).length;
+
+  const counts = STATUS_ORDER.map(status => ({
+    status,
+    count: rows.filter(row => row.status === status).length
+  }));
+
+  const describeSource = (row: ProposedPdfMatch<Invoice>) => {
+    if (row.note) return row.note;
+    if (row.source === 'filename') return 'Invoice ID in filename';
+    if (row.source === 'text') return 'Invoice ID in document text';
+    return 'No invoice ID found';
+  };
+
+  const handleConfirm = () => {
+    const assignments = rows.flatMap((row, index) => {
+      const invoice = invoicesById.get(selected[index]);
+      return invoice ? [{ file: row.file, invoice }] : [];
+    });
+    onConfirm(assignments);
+  };
+
+  return (
+    <div className="pdf-match-overlay">
+      <div className="pdf-match-modal" role="dialog" aria-labelledby="pdf-match-title">
+        <h3 id="pdf-match-title">📎 Attach {rows.length} PDF{rows.length === 1 ? '' : 's'}</h3>
+        <p>
+          Review the proposed invoice for each file. Nothing is uploaded until you confirm.
+        </p>
+
+        <div className="pdf-match-counts">
+          {counts.map(({ status, count }) => (
+            <span key={status} className={`pdf-match-status ${status}`}>
+              {STATUS_LABELS[status]}: {count}
+            </span>
+          ))}
+        </div>
+
+        <div className="pdf-match-table-container">
+          <table className="pdf-match-table">
+            <thead>
+              <tr>
+                <th>File</th>
+                <th>Status</th>
+                <th>Found By</th>
+                <th>Attach To</th>
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map((row, index) => {
+                const invoice = invoicesById.get(selected[index]);
+                const isConflict = !!invoice && (selectionCounts.get(invoice.id) || 0) > 1;
+                const options = row.status === 'ambiguous' ? row.candidates : sortedInvoices;
+
+                return (
+                  <tr key={`${row.file.name}-${index}`} className={isConflict ? 'conflict' : ''}>
+                    <td className="pdf-match-file" title={row.file.name}>{row.file.name}</td>
+                    <td>
+                      <span className={`pdf-match-status ${row.status}`}>{STATUS_LABELS[row.status]}</span>
+                    </td>
+                    <td className="pdf-match-source">{describeSource(row)}</td>
+                    <td>
+                      <select
+                        value={selected[index]}
+                        onChange={(e) => setSelected(prev => prev.map((id, i) => (i === index ? e.target.value : id)))}
+                      >
+                        <option value="">— Skip this file —</option>
+                        {options.map(option => (
+                          <option key={option.id} value={option.id}>
+                            {option.invoiceId}{option.pdfS3Key ? ' (has PDF)' : ''}
+                          </option>
+                        ))}
+                      </select>
+                      {isConflict && <div className="pdf-match-warning">Selected for more than one file</div>}
+                      {!isConflict && invoice?.pdfS3Key && (
+                        <div className="pdf-match-warning">Replaces {invoice.pdfFileName || 'the current PDF'}</div>
+                      )}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+
+        <div className="pdf-match-actions">
+          <button onClick={onCancel} className="pdf-match-cancel-btn">
+            Cancel
+          </button>
+          <button
+            onClick={handleConfirm}
+            disabled={assignedCount === 0 || hasConflicts}
+            className="pdf-match-confirm-btn"
+          >
+            ⤴ Upload {assignedCount} PDF{assignedCount === 1 ? '' : 's'}
+          </button>
+        </div>
+      </div>
+
+      <style>{`
+        .pdf-match-overlay {
+          position: fixed;
+          inset: 0;
+          background: rgba(0, 43, 75, 0.55);
+          display: flex;
+          align-items: center;
+          justify-content: center;
+          z-index: 2000;
+          padding: 20px;
+        }
+
+        .pdf-match-modal {
+          background: white;
+          border-radius: 12px;
+          box-shadow: 0 20px 50px rgba(0, 0, 0, 0.25);
+          width: 100%;
+          max-width: 860px;
+          max-height: 90vh;
+          display: flex;
+          flex-direction: column;
+          padding: 24px;
+          font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif;
+        }
+
+        .pdf-match-modal h3 {
+          margin: 0 0 6px 0;
+          color: #002b4b;
+          font-size: 20px;
+        }
+
+        .pdf-match-modal p {
+          margin: 0 0 12px 0;
+          color: #5e6e77;
+          font-size: 14px;
+        }
+
+        .pdf-match-counts {
+          display: flex;
+          gap: 8px;
+          margin-bottom: 12px;
+        }
+
+        .pdf-match-status {
+          display: inline-block;
+          padding: 2px 8px;
+          border-radius: 10px;
+          font-size: 12px;
+          font-weight: 600;
+          white-space: nowrap;
+        }
+
+        .pdf-match-status.matched {
+          background: #c6f6d5;
+          color: #276749;
+        }
+
+        .pdf-match-status.ambiguous {
+          background: #fefcbf;
+          color: #975a16;
+        }
+
+        .pdf-match-status.unmatched {
+          background: #edf2f7;
+          color: #4a5568;
+        }
+
+        .pdf-match-table-container {
+          overflow-y: auto;
+          border: 1px solid #e2e8f0;
+          border-radius: 8px;
+        }
+
+        .pdf-match-table {
+          width: 100%;
+          border-collapse: collapse;
+          font-size: 13px;
+        }
+
+        .pdf-match-table th {
+          position: sticky;
+          top: 0;
+          background: #f8fafc;
+          text-align: left;
+          padding: 8px 10px;
+          color: #002b4b;
+          border-bottom: 1px solid #e2e8f0;
+        }
+
+        .pdf-match-table td {
+          padding: 8px 10px;
+          border-bottom: 1px solid #edf2f7;
+          vertical-align: top;
+        }
+
+        .pdf-match-table tr.conflict {
+          background: #fff5f5;
+        }
+
+        .pdf-match-file {
+          max-width: 240px;
+          overflow: hidden;
+          text-overflow: ellipsis;
+          white-space: nowrap;
+          color: #002b4b;
+        }
+
+        .pdf-match-source {
+          color: #5e6e77;
+        }
+
+        .pdf-match-table select {
+          width: 100%;
+          padding: 4px 6px;
+          border: 1px solid #cbd5e0;
+          border-radius: 4px;
+          font-size: 13px;
+        }
+
+        .pdf-match-warning {
+          margin-top: 4px;
+          color: #c05621;
+          font-size: 12px;
+        }
+
+        .pdf-match-actions {
+          display: flex;
+          justify-content: flex-end;
+          gap: 12px;
+          margin-top: 20px;
+        }
+
+        .pdf-match-cancel-btn,
+        .pdf-match-confirm-btn {
+          padding: 10px 18px;
+          border-radius: 6px;
+          font-size: 14px;
+          font-weight: 600;
+          cursor: pointer;
+          transition: all 0.2s;
+        }
+
+        .pdf-match-cancel-btn {
+          background: white;
+          border: 1px solid #cbd5e0;
+          color: #5e6e77;
+        }
+
+        .pdf-match-cancel-btn:hover {
+          background: #f7fafc;
+        }
+
+        .pdf-match-confirm-btn {
+          background: linear-gradient(135deg, #32b3e7, #1a9bd8);
+          border: none;
+          color: white;
+        }
+
+        .pdf-match-confirm-btn:disabled {
+          background: #cbd5e0;
+          cursor: not-allowed;
+        }
+      `}</style>
+    </div>
+  );
+};
@@ -0,0 +1,408 @@
+// components/ColumnMappingWizard.tsx - Confirm how a file's headers map onto invoice fields
+import React, { useState, useMemo } from 'react';
+import type { Schema } from '../../../amplify/data/resource';
+import type { CsvRow } from '../../../shared/invoiceProcessing/csvParser';
+import {
+  INVOICE_FIELDS,
+  getMissingFields,
+  parseStoredMapping,
+} from '../../../shared/invoiceProcessing/columnMapping';
+import type { ColumnMapping, InvoiceFieldKey, MappingSuggestion } from '../../../shared/invoiceProcessing/columnMapping';
+
+interface ColumnMappingWizardProps {
+  fileName: string;
+  headers: string[];
+  sampleRows: CsvRow[];
+  suggestion: MappingSuggestion;
+  profiles: Schema["ColumnMappingProfile"]["type"][];
+  onConfirm: (mapping: ColumnMapping, profileName: string | null) => void;
+  onCancel: () => void;
+}
+
+export const ColumnMappingWizard: React.FC<ColumnMappingWizardProps> = ({
+  fileName,
+  headers,
+  sampleRows,
+  suggestion,
+  profiles,
+  onConfirm,
+  onCancel
+}) => {
+  const [mapping, setMapping] = useState<ColumnMapping>(suggestion.mapping);
+  const [confidence, setConfidence] = useState(suggestion.confidence);
+  const [saveProfile, setSaveProfile] = useState(true);
+  const [profileName, setProfileName] = useState(fileName.replace(/\.[^.]+$/, ''));
+
+  const missingFields = useMemo(() => getMissingFields(mapping, headers), [mapping, headers]);
+
+  // A header assigned to two fields is almost always a mistake
+  const duplicateHeaders = useMemo(() => {
+    const counts = Object.values(mapping).reduce((acc, header) => {
+      if (header) acc[header] = (acc[header] || 0) + 1;
+      return acc;
+    }, {} as Record<string, number>);
+    return Object.keys(counts).filter(header => counts[header] > 1);
+  }, [mapping]);
+
+  const canConfirm = missingFields.length === 0 &&
+    duplicateHeaders.length === 0 &&
+    (!saveProfile || profileName.trim().length > 0);
+
+  const handleFieldChange = (field: InvoiceFieldKey, header: string) => {
+    setMapping(prev => ({ ...prev, [field]: header || null }));
+    // Manual choices are treated as certain
+    setConfidence(prev => ({ ...prev, [field]: header ? 1 : 0 }));
+  };
+
+  const handleApplyProfile = (profileId: string) => {
+    const profile = profiles.find(p => p.id === profileId);
+    const stored = profile ? parseStoredMapping(profile.mapping) : null;
+    if (!stored) return;
+
+    console.log('📋 [MAPPING] Applying saved profile:', profile?.name);
+    setMapping(stored);
+    setConfidence(prev => Object.fromEntries(
+      Object.keys(prev).map(key => [key, stored[key as InvoiceFieldKey] ? 1 : 0])
+    ) as Record<InvoiceFieldKey, number>);
+    setSaveProfile(false);
+  };
+
+  const getConfidenceClass = (score: number): string => {
+    if (score >= 0.9) return 'high';
+    if (score >= 0.75) return 'medium';
+    return 'low';
+  };
+
+  return (
+    <div className="mapping-overlay">
+      <div className="mapping-modal" role="dialog" aria-labelledby="mapping-title">
+        <div className="mapping-header">
+          <h3 id="mapping-title">🧭 Map Columns</h3>
+          <p>
+            <strong>{fileName}</strong> uses headers we don't recognise. Confirm which column holds each invoice field.
+          </p>
+        </div>
+
+        {profiles.length > 0 && (
+          <div className="mapping-profiles">
+            <label htmlFor="mapping-profile">Start from a saved profile:</label>
+            <select id="mapping-profile" defaultValue="" onChange={(e) => handleApplyProfile(e.target.value)}>
+              <option value="" disabled>Choose profile...</option>
+              {profiles.map(profile => (
+                <option key={profile.id} value={profile.id}>{profile.name}</option>
+              ))}
+            </select>
+          </div>
+        )}
+
+        <div className="mapping-table-container">
+          <table className="mapping-table">
+            <thead>
+              <tr>
+                <th>Invoice Field</th>
+                <th>Source Column</th>
+                <th>Match</th>
+                <th>Sample Values</th>
+              </tr>
+            </thead>
+            <tbody>
+              {INVOICE_FIELDS.map(field => {
+                const header = mapping[field.key];
+                const isMissing = missingFields.includes(field.key);
+                const isDuplicate = !!header && duplicateHeaders.includes(header);
+                return (
+                  <tr key={field.key} className={isMissing || isDuplicate ? 'mapping-row-error' : ''}>
+                    <td className="field-name">
+                      {field.label}
+                      <span className="field-key">{field.key}</span>
+                    </td>
+                    <td>
+                      <select
+                        value={header || ''}
+                        onChange={(e) => handleFieldChange(field.key, e.target.value)}
+                      >
+                        <option value="">— Not mapped —</option>
+                        {headers.map(h => (
+                          <option key={h} value={h}>{h}</option>
+                        ))}
+                      </select>
+                    </td>
+                    <td>
+                      {header ? (
+                        <span className={`confidence-badge ${getConfidenceClass(confidence[field.key])}`}>
+                          {Math.round(confidence[field.key] * 100)}%
+                        </span>
+                      ) : (
+                        <span className="confidence-badge missing">Missing</span>
+                      )}
+                    </td>
+                    <td className="sample-values">
+                      {header
+                        ? sampleRows.slice(0, 3).map(row => row[header]).filter(Boolean).join(' • ') || '(empty)'
+                        : ''}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+
+        {missingFields.length > 0 && (
+          <div className="mapping-warning">
+            ⚠️ Choose a column for: {missingFields.map(key => INVOICE_FIELDS.find(f => f.key === key)?.label).join(', ')}
+          </div>
+        )}
+        {duplicateHeaders.length > 0 && (
+          <div className="mapping-warning">
+            ⚠️ Column(s) used for more than one field: {duplicateHeaders.join(', ')}
+          </div>
+        )}
+
+        <div className="mapping-save">
+          <label>
+            <input
+              type="checkbox"
+              checked={saveProfile}
+              onChange={(e) => setSaveProfile(e.target.checked)}
+            />
+            Save as profile for future uploads with these headers
+          </label>
+          {saveProfile && (
+            <input
+              type="text"
+              value={profileName}
+              onChange={(e) => setProfileName(e.target.value)}
+              placeholder="Profile name, e.g. SAP export"
+              className="profile-name-input"
+            />
+          )}
+        </div>
+
+        <div className="mapping-actions">
+          <button onClick={onCancel} className="mapping-cancel-btn">
+            Cancel Upload
+          </button>
+          <button
+            onClick={() => onConfirm(mapping, saveProfile ? profileName.trim() : null)}
+            disabled={!canConfirm}
+            className="mapping-confirm-btn"
+          >
+            ✅ Confirm Mapping
+          </button>
+        </div>
+      </div>
+
+      <style>{`
+        .mapping-overlay {
+          position: fixed;
+          inset: 0;
+          background: rgba(0, 43, 75, 0.55);
+          display: flex;
+          align-items: center;
+          justify-content: center;
+          z-index: 2000;
+          padding: 20px;
+        }
+
+        .mapping-modal {
+          background: white;
+          border-radius: 12px;
+          box-shadow: 0 20px 50px rgba(0, 0, 0, 0.25);
+          width: 100%;
+          max-width: 860px;
+          max-height: 90vh;
+          overflow-y: auto;
+          padding: 24px;
+          font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif;
+        }
+
+        .mapping-header h3 {
+          margin: 0 0 6px 0;
+          color: #002b4b;
+          font-size: 20px;
+        }
+
+        .mapping-header p {
+          margin: 0 0 16px 0;
+          color: #5e6e77;
+          font-size: 14px;
+        }
+
+        .mapping-profiles {
+          display: flex;
+          align-items: center;
+          gap: 10px;
+          margin-bottom: 16px;
+          font-size: 13px;
+          color: #002b4b;
+        }
+
+        .mapping-profiles select,
+        .mapping-table select {
+          padding: 6px 8px;
+          border: 1px solid #32b3e7;
+          border-radius: 4px;
+          background: white;
+          color: #002b4b;
+          font-size: 13px;
+          min-width: 180px;
+        }
+
+        .mapping-table-container {
+          border: 1px solid #e2e8f0;
+          border-radius: 8px;
+          overflow-x: auto;
+        }
+
+        .mapping-table {
+          width: 100%;
+          border-collapse: collapse;
+          font-size: 13px;
+        }
+
+        .mapping-table th {
+          background: linear-gradient(135deg, #002b4b, #32b3e7);
+          color: white;
+          padding: 10px 12px;
+          text-align: left;
+          font-weight: 600;
+        }
+
+        .mapping-table td {
+          padding: 8px 12px;
+          border-bottom: 1px solid #e2e8f0;
+          vertical-align: middle;
+        }
+
+        .mapping-row-error {
+          background: #fff5f5;
+        }
+
+        .field-name {
+          font-weight: 600;
+          color: #002b4b;
+        }
+
+        .field-key {
+          display: block;
+          font-family: monospace;
+          font-size: 11px;
+          font-weight: 400;
+          color: #9ca3af;
+        }
+
+        .confidence-badge {
+          display: inline-block;
+          padding: 2px 8px;
+          border-radius: 10px;
+          font-size: 11px;
+          font-weight: 600;
+        }
+
+        .confidence-badge.high {
+          background: #c6f6d5;
+          color: #276749;
+        }
+
+        .confidence-badge.medium {
+          background: #fefcbf;
+          color: #975a16;
+        }
+
+        .confidence-badge.low,
+        .confidence-badge.missing {
+          background: #fed7d7;
+          color: #c53030;
+        }
+
+        .sample-values {
+          color: #5e6e77;
+          max-width: 260px;
+          overflow: hidden;
+          text-overflow: ellipsis;
+          white-space: nowrap;
+        }
+
+        .mapping-warning {
+          margin-top: 12px;
+          padding: 10px 12px;
+          background: #fffbeb;
+          border: 1px solid #f59e0b;
+          border-radius: 6px;
+          color: #92400e;
+          font-size: 13px;
+        }
+
+        .mapping-save {
+          display: flex;
+          align-items: center;
+          flex-wrap: wrap;
+          gap: 12px;
+          margin-top: 16px;
+          font-size: 13px;
+          color: #002b4b;
+        }
+
+        .mapping-save label {
+          display: flex;
+          align-items: center;
+          gap: 6px;
+          cursor: pointer;
+        }
+
+        .profile-name-input {
+          flex: 1;
+          min-width: 200px;
+          padding: 6px 10px;
+          border: 1px solid #32b3e7;
+          border-radius: 4px;
+          font-size: 13px;
+        }
+
+        .mapping-actions {
+          display: flex;
+          justify-content: flex-end;
+          gap: 12px;
+          margin-top: 20px;
+        }
+
+        .mapping-cancel-btn,
+        .mapping-confirm-btn {
+          padding: 10px 18px;
+          border-radius: 6px;
+          font-size: 14px;
+          font-weight: 600;
+          cursor: pointer;
+          transition: all 0.2s;
+        }
+
+        .mapping-cancel-btn {
+          background: white;
+          border: 1px solid #cbd5e0;
+          color: #5e6e77;
+        }
+
+        .mapping-cancel-btn:hover {
+          background: #f7fafc;
+        }
+
+        .mapping-confirm-btn {
+          background: linear-gradient(135deg, #32b3e7, #1a9bd8);
+          border: none;
+          color: white;
+        }
+
+        .mapping-confirm-btn:hover:not(:disabled) {
+          transform: translateY(-1px);
+          box-shadow: 0 4px 12px rgba(50, 179, 231, 0.3);
+        }
+
+        .mapping-confirm-btn:disabled {
+          background: #cbd5e0;
+          cursor: not-allowed;
+        }
+      `}</style>
+    </div>
+  );
+};
@@ -0,0 +1,144 @@
+// components/DocumentRequirementsEditor.tsx - Choose which document types every invoice needs before submission
+import React, { useEffect, useState } from 'react';
+import { generateClient } from 'aws-amplify/data';
+import type { Schema } from '../../../amplify/data/resource';
+import { DOCUMENT_TYPES, DOCUMENT_TYPE_LABELS } from '../../../shared/invoiceDocuments/documentTypes';
+import type { DocumentType } from '../../../shared/invoiceDocuments/documentTypes';
+
+const client = generateClient<Schema>();
+
+interface DocumentRequirementsEditorProps {
+  organizationId: string | null;
+  requiredTypes: DocumentType[];
+  onSaved: (requiredTypes: DocumentType[]) => void;
+  disabled?: boolean;
+}
+
+export const DocumentRequirementsEditor: React.FC<DocumentRequirementsEditorProps> = ({
+  organizationId,
+  requiredTypes,
+  onSaved,
+  disabled
+}) => {
+  const [selected, setSelected] = useState<DocumentType[]>(requiredTypes);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => setSelected(requiredTypes), [requiredTypes]);
+
+  const isChanged = selected.length !== requiredTypes.length || selected.some(type => !requiredTypes.includes(type));
+
+  const toggleType = (type: DocumentType) => {
+    setSelected(prev => prev.includes(type) ? prev.filter(t => t !== type) : DOCUMENT_TYPES.filter(t => t === type || prev.includes(t)));
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    setError(null);
+    try {
+      const result = await client.mutations.updateWorkspaceSettings({
+        organizationId: organizationId ?? undefined,
+        requiredDocumentTypes: selected,
+      });
+      if (result.errors || !result.data) {
+        throw new Error(result.errors?.[0]?.message || 'Failed to save requirements');
+      }
+      console.log('⚙️ [SETTINGS] Required documents saved:', selected);
+      onSaved(selected);
+    } catch (saveError) {
+      console.error('❌ [SETTINGS] Failed to save required documents:', saveError);
+      setError(saveError instanceof Error ? saveError.message : 'Failed to save requirements');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <details className="document-requirements-editor">
+      <summary>
+        📋 Required documents: {requiredTypes.length > 0
+          ? requiredTypes.map(type => DOCUMENT_TYPE_LABELS[type]).join(', ')
+          : 'none'}
+      </summary>
+      <div className="document-requirements-options">
+        {DOCUMENT_TYPES.map(type => (
+          <label key={type}>
+            <input
+              type="checkbox"
+              checked={selected.includes(type)}
+              onChange={() => toggleType(type)}
+              disabled={disabled || saving}
+            />
+            {DOCUMENT_TYPE_LABELS[type]}
+          </label>
+        ))}
+        <button
+          onClick={handleSave}
+          disabled={disabled || saving || !isChanged}
+          className="document-requirements-save-btn"
+        >
+          {saving ? 'Saving...' : 'Save'}
+        </button>
+      </div>
+      {organizationId && (
+        <p className="document-requirements-hint">Applies to everyone in the organization; only owners and admins can change it.</p>
+      )}
+      {error && <p className="document-requirements-error">❌ {error}</p>}
+
+      <style>{`
+        .document-requirements-editor {
+          margin: 10px 0;
+          font-size: 13px;
+          color: #002b4b;
+        }
+
+        .document-requirements-editor summary {
+          cursor: pointer;
+          font-weight: 600;
+        }
+
+        .document-requirements-options {
+          display: flex;
+          flex-wrap: wrap;
+          align-items: center;
+          gap: 12px;
+          margin-top: 8px;
+        }
+
+        .document-requirements-options label {
+          display: flex;
+          align-items: center;
+          gap: 4px;
+          cursor: pointer;
+        }
+
+        .document-requirements-save-btn {
+          padding: 4px 12px;
+          background: white;
+          border: 1px solid #32b3e7;
+          border-radius: 4px;
+          color: #002b4b;
+          font-size: 12px;
+          cursor: pointer;
+        }
+
+        .document-requirements-save-btn:disabled {
+          opacity: 0.6;
+          cursor: not-allowed;
+        }
+
+        .document-requirements-hint {
+          margin: 6px 0 0 0;
+          color: #5e6e77;
+          font-size: 12px;
+        }
+
+        .document-requirements-error {
+          margin: 6px 0 0 0;
+          color: #c53030;
+          font-size: 12px;
+        }
+      `}</style>
+    </details>
+  );
+};
@@ -0,0 +1,173 @@
+// components/DuplicateUploadDialog.tsx - Warn before uploading a file whose exact content was uploaded before
+import React from 'react';
+import type { Schema } from '../../../amplify/data/resource';
+import { getUploadJobAnchor } from '../../utils/duplicateFiles';
+
+type UploadJob = Schema["InvoiceUploadJob"]["type"];
+
+interface DuplicateUploadDialogProps {
+  fileName: string;
+  earlierJobs: UploadJob[];
+  listedJobIds: Set<string>; // Jobs whose file is in the Files Manager and can be linked to
+  onContinue: () => void;
+  onCancel: () => void;
+}
+
+export const DuplicateUploadDialog: React.FC<DuplicateUploadDialogProps> = ({
+  fileName,
+  earlierJobs,
+  listedJobIds,
+  onContinue,
+  onCancel
+}) => (
+  <div className="duplicate-upload-overlay">
+    <div className="duplicate-upload-modal" role="dialog" aria-labelledby="duplicate-upload-title">
+      <h3 id="duplicate-upload-title">⚠️ File Already Uploaded</h3>
+      <p>
+        <strong>{fileName}</strong> has exactly the same content as {earlierJobs.length === 1 ? 'an earlier upload' : `${earlierJobs.length} earlier uploads`}.
+        Uploading it again creates a second copy of every invoice in it.
+      </p>
+
+      <ul className="duplicate-upload-list">
+        {earlierJobs.map(job => (
+          <li key={job.id}>
+            <span className="duplicate-upload-name">{job.fileName}</span>
+            <span className="duplicate-upload-meta">
+              {job.createdAt ? new Date(job.createdAt).toLocaleString() : 'Unknown date'} · {job.status}
+              {job.successfulInvoices ? ` · ${job.successfulInvoices} invoices` : ''}
+            </span>
+            {listedJobIds.has(job.id) ? (
+              // Following the link skips this upload and jumps to the earlier file
+              <a href={`#${getUploadJobAnchor(job.id)}`} onClick={onCancel} className="duplicate-upload-link">
+                Show earlier upload
+              </a>
+            ) : (
+              <span className="duplicate-upload-meta">Job {job.id}</span>
+            )}
+          </li>
+        ))}
+      </ul>
+
+      <div className="duplicate-upload-actions">
+        <button onClick={onCancel} className="duplicate-upload-cancel-btn">
+          Cancel Upload
+        </button>
+        <button onClick={onContinue} className="duplicate-upload-confirm-btn">
+          Upload Anyway
+        </button>
+      </div>
+    </div>
+
+    <style>{`
+      .duplicate-upload-overlay {
+        position: fixed;
+        inset: 0;
+        background: rgba(0, 43, 75, 0.55);
+        display: flex;
+        align-items: center;
+        justify-content: center;
+        z-index: 2000;
+        padding: 20px;
+      }
+
+      .duplicate-upload-modal {
+        background: white;
+        border-radius: 12px;
+        box-shadow: 0 20px 50px rgba(0, 0, 0, 0.25);
+        width: 100%;
+        max-width: 560px;
+        max-height: 90vh;
+        overflow-y: auto;
+        padding: 24px;
+        font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif;
+      }
+
+      .duplicate-upload-modal h3 {
+        margin: 0 0 6px 0;
+        color: #002b4b;
+        font-size: 20px;
+      }
+
+      .duplicate-upload-modal p {
+        margin: 0 0 16px 0;
+        color: #5e6e77;
+        font-size: 14px;
+      }
+
+      .duplicate-upload-list {
+        list-style: none;
+        margin: 0;
+        padding: 0;
+        border: 1px solid #e2e8f0;
+        border-radius: 8px;
+      }
+
+      .duplicate-upload-list li {
+        display: flex;
+        flex-wrap: wrap;
+        align-items: center;
+        gap: 4px 10px;
+        padding: 10px 12px;
+        font-size: 14px;
+      }
+
+      .duplicate-upload-list li + li {
+        border-top: 1px solid #e2e8f0;
+      }
+
+      .duplicate-upload-name {
+        flex: 1;
+        color: #002b4b;
+        font-weight: 600;
+      }
+
+      .duplicate-upload-meta {
+        color: #5e6e77;
+        font-size: 12px;
+      }
+
+      .duplicate-upload-link {
+        color: #1a9bd8;
+        font-size: 12px;
+        font-weight: 600;
+      }
+
+      .duplicate-upload-actions {
+        display: flex;
+        justify-content: flex-end;
+        gap: 12px;
+        margin-top: 20px;
+      }
+
+      .duplicate-upload-cancel-btn,
+      .duplicate-upload-confirm-btn {
+        padding: 10px 18px;
+        border-radius: 6px;
+        font-size: 14px;
+        font-weight: 600;
+        cursor: pointer;
+        transition: all 0.2s;
+      }
+
+      .duplicate-upload-cancel-btn {
+        background: white;
+        border: 1px solid #cbd5e0;
+        color: #5e6e77;
+      }
+
+      .duplicate-upload-cancel-btn:hover {
+        background: #f7fafc;
+      }
+
+      .duplicate-upload-confirm-btn {
+        background: #fefcbf;
+        border: 1px solid #f6e05e;
+        color: #975a16;
+      }
+
+      .duplicate-upload-confirm-btn:hover {
+        background: #faf089;
+      }
+    `}</style>
+  </div>
+);
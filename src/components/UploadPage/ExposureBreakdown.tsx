@@ -0,0 +1,126 @@
+// components/ExposureBreakdown.tsx - Per-debtor exposure of the pending batch against credit limits and concentration
+import React from 'react';
+import type { DebtorExposure, ExposureStatus } from '../../../shared/masterData/creditExposure';
+
+interface ExposureBreakdownProps {
+  exposures: DebtorExposure[];
+}
+
+const STATUS_LABELS: Record<ExposureStatus, string> = {
+  OK: '✅ Within limits',
+  WARN: '⚠️ Warning',
+  BLOCK: '🚫 Over limit',
+};
+
+const formatAmount = (amount: number): string =>
+  amount.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+export const ExposureBreakdown: React.FC<ExposureBreakdownProps> = ({ exposures }) => {
+  const flagged = exposures.filter(exposure => exposure.status !== 'OK').length;
+
+  return (
+    <details className="exposure-breakdown" open={flagged > 0}>
+      <summary>
+        📊 Debtor exposure: {exposures.length} debtor/currency position(s)
+        {flagged > 0 && <span className="exposure-flagged"> — {flagged} need attention</span>}
+      </summary>
+
+      <table className="exposure-table">
+        <thead>
+          <tr>
+            <th>Debtor</th>
+            <th>Outstanding</th>
+            <th>This batch</th>
+            <th>Total</th>
+            <th>Credit limit</th>
+            <th>Share of portfolio</th>
+            <th>Status</th>
+          </tr>
+        </thead>
+        <tbody>
+          {exposures.map(exposure => (
+            <tr key={`${exposure.debtorId}|${exposure.currency}`} className={`exposure-${exposure.status.toLowerCase()}`}>
+              <td title={`Debtor ID: ${exposure.debtorId}`}>{exposure.legalName || exposure.debtorId}</td>
+              <td>{formatAmount(exposure.outstanding)} {exposure.currency}</td>
+              <td>{formatAmount(exposure.pending)} {exposure.currency}</td>
+              <td><strong>{formatAmount(exposure.total)} {exposure.currency}</strong></td>
+              <td>
+                {exposure.creditLimit !== undefined ? (
+                  <span title={`Available before this batch: ${formatAmount(exposure.availableCredit ?? 0)} ${exposure.currency}`}>
+                    {formatAmount(exposure.creditLimit)} {exposure.currency}
+                  </span>
+                ) : '—'}
+              </td>
+              <td>
+                {exposure.concentrationPercent.toFixed(1)}%
+                {exposure.maxConcentrationPercent !== undefined && ` / max ${exposure.maxConcentrationPercent}%`}
+              </td>
+              <td>
+                <div>{STATUS_LABELS[exposure.status]}</div>
+                {exposure.issues.map(issue => <div key={issue} className="exposure-issue">{issue}</div>)}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      <style>{`
+        .exposure-breakdown {
+          margin: 12px 0;
+          padding: 10px 14px;
+          background: #f7fafc;
+          border: 1px solid #e2e8f0;
+          border-radius: 6px;
+          font-size: 13px;
+          color: #002b4b;
+        }
+
+        .exposure-breakdown summary {
+          cursor: pointer;
+          font-weight: 600;
+        }
+
+        .exposure-flagged {
+          color: #c05621;
+        }
+
+        .exposure-table {
+          width: 100%;
+          margin-top: 10px;
+          border-collapse: collapse;
+        }
+
+        .exposure-table th,
+        .exposure-table td {
+          text-align: left;
+          padding: 6px 8px;
+          border-bottom: 1px solid #e2e8f0;
+          vertical-align: top;
+        }
+
+        .exposure-table th {
+          font-size: 12px;
+          color: #5e6e77;
+        }
+
+        .exposure-block {
+          background: #fff5f5;
+        }
+
+        .exposure-warn {
+          background: #fffaf0;
+        }
+
+        .exposure-issue {
+          margin-top: 2px;
+          font-size: 12px;
+          color: #744210;
+        }
+
+        .exposure-block .exposure-issue {
+          color: #c53030;
+        }
+      `}</style>
+    </details>
+  );
+};
@@ -0,0 +1,95 @@
+// components/FundingSummary.tsx - Eligible amount, advance and discount fee of the pending batch per currency
+import React from 'react';
+import type { FundingSummary as CurrencyFundingSummary } from '../../../shared/invoiceFunding/eligibility';
+
+interface FundingSummaryProps {
+  summaries: Record<string, CurrencyFundingSummary>;
+}
+
+const formatAmount = (amount: number): string =>
+  amount.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+export const FundingSummary: React.FC<FundingSummaryProps> = ({ summaries }) => {
+  const currencies = Object.keys(summaries).sort();
+  const ineligible = currencies.reduce((count, currency) =>
+    count + summaries[currency].invoiceCount - summaries[currency].eligibleCount, 0);
+
+  return (
+    <details className="funding-summary" open={ineligible > 0}>
+      <summary>
+        💶 Funding: {currencies.map(currency =>
+          `${formatAmount(summaries[currency].netAmount)} ${currency}`).join(' + ')} net advance
+        {ineligible > 0 && <span className="funding-ineligible"> — {ineligible} invoice(s) not eligible</span>}
+      </summary>
+
+      <table className="funding-table">
+        <thead>
+          <tr>
+            <th>Currency</th>
+            <th>Eligible</th>
+            <th>Face value</th>
+            <th>Eligible amount</th>
+            <th>Advance</th>
+            <th>Discount fee</th>
+            <th>Net advance</th>
+          </tr>
+        </thead>
+        <tbody>
+          {currencies.map(currency => {
+            const summary = summaries[currency];
+            return (
+              <tr key={currency}>
+                <td>{currency}</td>
+                <td>{summary.eligibleCount} / {summary.invoiceCount}</td>
+                <td>{formatAmount(summary.faceAmount)}</td>
+                <td>{formatAmount(summary.eligibleAmount)}</td>
+                <td>{formatAmount(summary.advanceAmount)}</td>
+                <td>{formatAmount(summary.feeAmount)}</td>
+                <td><strong>{formatAmount(summary.netAmount)}</strong></td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+
+      <style>{`
+        .funding-summary {
+          margin: 12px 0;
+          padding: 10px 14px;
+          background: #f7fafc;
+          border: 1px solid #e2e8f0;
+          border-radius: 6px;
+          font-size: 13px;
+          color: #002b4b;
+        }
+
+        .funding-summary summary {
+          cursor: pointer;
+          font-weight: 600;
+        }
+
+        .funding-ineligible {
+          color: #c05621;
+        }
+
+        .funding-table {
+          width: 100%;
+          margin-top: 10px;
+          border-collapse: collapse;
+        }
+
+        .funding-table th,
+        .funding-table td {
+          text-align: left;
+          padding: 6px 8px;
+          border-bottom: 1px solid #e2e8f0;
+        }
+
+        .funding-table th {
+          font-size: 12px;
+          color: #5e6e77;
+        }
+      `}</style>
+    </details>
+  );
+};
@@ -1,14 +1,46 @@
 // components/InvoiceViewer.tsx - Updated with SubmitInvoices component - ENHANCED DATA LOADING - TypeScript Fixed
-import React, { useState, useEffect, useMemo } from 'react';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
 import { generateClient } from 'aws-amplify/data';
 import { uploadData, getUrl } from 'aws-amplify/storage';
 import type { Schema } from '../../../amplify/data/resource';
 import { SubmitInvoices } from './SubmitInvoices';
+import { getWorkspaceFilter, useActiveOrganization } from '../../context/organizationContext';
+import { getWorkspaceFileUrl } from '../../utils/organizationFiles';
+import { attachInvoicePdf } from '../../utils/invoicePdf';
+import { assertPdfFile, verifyInvoicePdf } from '../../utils/pdfVerification';
+import { PDF_VERIFICATION_LABELS } from '../../../shared/invoiceDocuments/pdfVerification';
+import { proposePdfMatches } from '../../utils/pdfMatching';
+import type { ProposedPdfMatch } from '../../utils/pdfMatching';
+import { runWithConcurrency } from '../../utils/concurrency';
+import { sha256Hex } from '../../utils/fileHash';
+import { findFilesSharedAcrossInvoices } from '../../utils/duplicateFiles';
+import { getInvoiceDraft, saveInvoiceEdit, validateInvoiceDraft } from '../../utils/invoiceEditing';
+import type { InvoiceDraft } from '../../utils/invoiceEditing';
+import { fetchWorkspaceSettings, getFundingTerms, getValidationRules } from '../../utils/workspaceSettings';
+import { DEFAULT_VALIDATION_RULES } from '../../../shared/invoiceProcessing/validationRules';
+import type { ValidationRule } from '../../../shared/invoiceProcessing/validationRules';
+import {
+  DEFAULT_FUNDING_TERMS,
+  calculateDaysToDueDate,
+  calculateMaturityDays,
+  evaluateEligibility,
+} from '../../../shared/invoiceFunding/eligibility';
+import type { FundingTerms, InvoiceEligibility } from '../../../shared/invoiceFunding/eligibility';
+import { fetchPartyDirectory, findParty, toPartyRegistry } from '../../utils/partyRegistry';
+import type { PartyDirectory } from '../../utils/partyRegistry';
+import { PartyName } from '../PartyName';
+import type { InvoiceFieldKey } from '../../../shared/invoiceProcessing/columnMapping';
+import { BulkPdfMatchDialog } from './BulkPdfMatchDialog';
+import { PdfPreviewPanel } from '../PdfPreviewPanel';
+import { InvoiceDocumentsPanel } from '../InvoiceDocumentsPanel';
+import { removeInvoiceDocument, uploadInvoiceDocument } from '../../utils/invoiceDocuments';
+import type { InvoiceDocument } from '../../utils/invoiceDocuments';
+import type { PdfAssignment } from './BulkPdfMatchDialog';
 //import type { AmplifyConfig, AmplifyStorageConfig } from '../../utils/amplifyConfigSetup';
 
 const client = generateClient<Schema>();
 
-type SortableField = 'issueDate' | 'dueDate' | 'amount' | 'daysToDueDate' | 'maturityDays' | 'invoiceId' | 'sellerId' | 'debtorId' | 'product' | 'currency' | 'format' | 'pdfDocument';
+type SortableField = 'issueDate' | 'dueDate' | 'amount' | 'daysToDueDate' | 'maturityDays' | 'invoiceId' | 'sellerId' | 'debtorId' | 'product' | 'currency' | 'format' | 'pdfDocument' | 'eligibility';
 
 interface StorageConfigItem {
   bucket?: string;
@@ -29,7 +61,14 @@ interface UploadResultExtended {
 
 // Note: Global Window interface declarations are in src/types/global.d.ts
 
+// Parallel S3 uploads when PDFs are dropped in bulk
+const PDF_UPLOAD_CONCURRENCY = 3;
+
 export const InvoiceViewer: React.FC = () => {
+  const { activeOrganizationId } = useActiveOrganization();
+  // Read by the refresh exposed on window, which is registered once
+  const activeOrganizationIdRef = useRef(activeOrganizationId);
+  activeOrganizationIdRef.current = activeOrganizationId;
   const [invoices, setInvoices] = useState<Schema["Invoice"]["type"][]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
@@ -41,6 +80,19 @@ export const InvoiceViewer: React.FC = () => {
   const [uploadingPdfs, setUploadingPdfs] = useState<Set<string>>(new Set());
   const [pdfUploadProgress, setPdfUploadProgress] = useState<Record<string, number>>({});
   const [deletingPdfs, setDeletingPdfs] = useState<Set<string>>(new Set());
+  const [verifyingPdfs, setVerifyingPdfs] = useState<Set<string>>(new Set());
+  const [previewInvoice, setPreviewInvoice] = useState<Schema["Invoice"]["type"] | null>(null);
+  const [invoiceDocuments, setInvoiceDocuments] = useState<InvoiceDocument[]>([]);
+  const [documentsInvoice, setDocumentsInvoice] = useState<Schema["Invoice"]["type"] | null>(null);
+  const [editingInvoiceId, setEditingInvoiceId] = useState<string | null>(null);
+  const [editDraft, setEditDraft] = useState<InvoiceDraft | null>(null);
+  const [savingEdit, setSavingEdit] = useState(false);
+  const [validationRules, setValidationRules] = useState<ValidationRule[]>(DEFAULT_VALIDATION_RULES);
+  const [partyDirectory, setPartyDirectory] = useState<PartyDirectory | null>(null);
+  const [fundingTerms, setFundingTerms] = useState<FundingTerms>(DEFAULT_FUNDING_TERMS);
+  const [isDraggingPdfs, setIsDraggingPdfs] = useState(false);
+  const [pdfAnalysis, setPdfAnalysis] = useState<{ analyzed: number; total: number } | null>(null);
+  const [pdfMatchProposals, setPdfMatchProposals] = useState<ProposedPdfMatch<Schema["Invoice"]["type"]>[] | null>(null);
   const itemsPerPage = 20;
 
   // Helper function to get S3 bucket name from Amplify configuration
@@ -105,7 +157,7 @@ export const InvoiceViewer: React.FC = () => {
       console.log('🔄 [DEBUG] Manually refreshing invoices with enhanced strategy...');
       
       // Strategy 1: Direct list query
-      const result = await client.models.Invoice.list();
+      const result = await client.models.Invoice.list({ filter: await getWorkspaceFilter(activeOrganizationIdRef.current) });
       if (result.errors) {
         console.error('❌ [DEBUG] Error fetching invoices via list:', result.errors);
         
@@ -141,7 +193,8 @@ export const InvoiceViewer: React.FC = () => {
       try {
         // Strategy 1: Initial manual load to get immediate data
         console.log('📊 [DEBUG] Initial manual load...');
-        const initialResult = await client.models.Invoice.list();
+        const filter = await getWorkspaceFilter(activeOrganizationId);
+        const initialResult = await client.models.Invoice.list({ filter });
         
         if (isMounted && !initialResult.errors && initialResult.data) {
           console.log('✅ [DEBUG] Initial load successful:', initialResult.data.length, 'invoices');
@@ -151,7 +204,8 @@ export const InvoiceViewer: React.FC = () => {
         
         // Strategy 2: Setup real-time subscription for updates
         console.log('📊 [DEBUG] Setting up real-time subscription...');
-        subscription = client.models.Invoice.observeQuery().subscribe({
+        if (!isMounted) return;
+        subscription = client.models.Invoice.observeQuery({ filter }).subscribe({
           next: ({ items, isSynced }) => {
             if (isMounted) {
               console.log('📊 [DEBUG] Subscription update:', {
@@ -192,7 +246,114 @@ export const InvoiceViewer: React.FC = () => {
         subscription.unsubscribe();
       }
     };
-  }, [refreshKey]); // Add refreshKey as dependency to force re-subscription
+  }, [refreshKey, activeOrganizationId]); // Add refreshKey as dependency to force re-subscription
+
+  // Supporting documents of the workspace, grouped per invoice below
+  useEffect(() => {
+    let subscription: { unsubscribe: () => void } | null = null;
+    let isMounted = true;
+
+    getWorkspaceFilter(activeOrganizationId).then(filter => {
+      if (!isMounted) return;
+      subscription = client.models.InvoiceDocument.observeQuery({ filter }).subscribe({
+        next: ({ items }) => setInvoiceDocuments(items),
+        error: (err: Error) => console.error('❌ [DOCUMENTS] Subscription error:', err)
+      });
+    });
+
+    return () => {
+      isMounted = false;
+      subscription?.unsubscribe();
+    };
+  }, [activeOrganizationId]);
+
+  // Corrections are checked against the workspace's rules, like the upload was; valid rows are scored against its funding terms
+  useEffect(() => {
+    let isMounted = true;
+    fetchWorkspaceSettings(activeOrganizationId)
+      .then(settings => {
+        if (!isMounted) return;
+        setValidationRules(getValidationRules(settings));
+        setFundingTerms(getFundingTerms(settings));
+      })
+      .catch(error => {
+        console.error('❌ [SETTINGS] Failed to load workspace settings:', error);
+        if (isMounted) {
+          setValidationRules(DEFAULT_VALIDATION_RULES);
+          setFundingTerms(DEFAULT_FUNDING_TERMS);
+        }
+      });
+
+    return () => {
+      isMounted = false;
+    };
+  }, [activeOrganizationId]);
+
+  // Seller and debtor names for the table; corrections must also name registered parties
+  useEffect(() => {
+    let isMounted = true;
+    setPartyDirectory(null);
+    fetchPartyDirectory(activeOrganizationId)
+      .then(directory => isMounted && setPartyDirectory(directory))
+      .catch(error => console.error('❌ [MASTER DATA] Failed to load sellers and debtors:', error));
+
+    return () => {
+      isMounted = false;
+    };
+  }, [activeOrganizationId]);
+
+  const partyRegistry = useMemo(
+    () => partyDirectory ? toPartyRegistry(partyDirectory) : undefined,
+    [partyDirectory]
+  );
+
+  // Only valid invoices are scored; the debtor's country comes from the registry when it is registered
+  const eligibilityByInvoice = useMemo(() => {
+    const scored = new Map<string, InvoiceEligibility>();
+    invoices.filter(invoice => invoice.isValid).forEach(invoice => {
+      scored.set(invoice.id, evaluateEligibility({
+        amount: invoice.amount,
+        issueDate: invoice.issueDate,
+        dueDate: invoice.dueDate,
+        debtorCountry: findParty(partyDirectory, 'debtor', invoice.debtorId, invoice.organizationId)?.country,
+      }, fundingTerms));
+    });
+    return scored;
+  }, [invoices, partyDirectory, fundingTerms]);
+
+  const documentsByInvoice = useMemo(() => {
+    const grouped = new Map<string, InvoiceDocument[]>();
+    invoiceDocuments.forEach(document => {
+      if (!document.invoiceId) return;
+      grouped.set(document.invoiceId, [...(grouped.get(document.invoiceId) || []), document]);
+    });
+    return grouped;
+  }, [invoiceDocuments]);
+
+  // Invoice PDFs, including those attached as typed documents, that also sit on another invoice
+  const sharedPdfs = useMemo(() => findFilesSharedAcrossInvoices([
+    ...invoices.map(invoice => ({ invoiceRecordId: invoice.id, sha256: invoice.pdfSha256 })),
+    ...invoiceDocuments
+      .filter(document => document.documentType === 'INVOICE_PDF' && document.invoiceId)
+      .map(document => ({ invoiceRecordId: document.invoiceId || '', sha256: document.sha256 })),
+  ]), [invoices, invoiceDocuments]);
+
+  const invoiceNumbersById = useMemo(
+    () => new Map(invoices.map(invoice => [invoice.id, invoice.invoiceId])),
+    [invoices]
+  );
+
+  // Invalid rows are left out so a corrected row is not reported as a duplicate of the row it duplicated
+  const otherValidInvoices = useMemo(
+    () => invoices.filter(invoice => invoice.isValid && invoice.id !== editingInvoiceId),
+    [invoices, editingInvoiceId]
+  );
+
+  // Validation result of the row being edited, updated on every keystroke
+  const editValidation = useMemo(() => {
+    const invoice = invoices.find(inv => inv.id === editingInvoiceId);
+    return invoice && editDraft ? validateInvoiceDraft(invoice, editDraft, otherValidInvoices, validationRules, partyRegistry) : null;
+  }, [invoices, editingInvoiceId, editDraft, otherValidInvoices, validationRules, partyRegistry]);
 
   // Expose enhanced refresh function globally for other components to use
   useEffect(() => {
@@ -237,25 +398,10 @@ export const InvoiceViewer: React.FC = () => {
     };
   }, [invoices]);
 
-  // Calculate maturity days: Due Date - Issue Date
-  const calculateMaturityDays = (issueDate: string, dueDate: string): number => {
-    const issue = new Date(issueDate);
-    const due = new Date(dueDate);
-    const diffTime = due.getTime() - issue.getTime();
-    return Math.ceil(diffTime / (1000 * 60 * 60 * 24));
-  };
-
-  // Calculate days to due date: Due Date - Today's Date
-  const calculateDaysToDueDate = (dueDate: string): number => {
-    const today = new Date();
-    const due = new Date(dueDate);
-    
-    // Reset time to midnight for both dates to get accurate day difference
-    today.setHours(0, 0, 0, 0);
-    due.setHours(0, 0, 0, 0);
-    
-    const diffTime = due.getTime() - today.getTime();
-    return Math.ceil(diffTime / (1000 * 60 * 60 * 24));
+  // Maturity days: Due Date - Issue Date
+  const formatMaturityDays = (issueDate: string, dueDate: string): string => {
+    const days = calculateMaturityDays(issueDate, dueDate);
+    return isNaN(days) ? '—' : String(days);
   };
 
   // Sort invoices - Show ALL invoices (valid and invalid)
@@ -293,13 +439,14 @@ export const InvoiceViewer: React.FC = () => {
           aValue = a.invoiceId.toLowerCase();
           bValue = b.invoiceId.toLowerCase();
           break;
+        // Sorted by the name shown in the column
         case 'sellerId':
-          aValue = a.sellerId.toLowerCase();
-          bValue = b.sellerId.toLowerCase();
+          aValue = (findParty(partyDirectory, 'seller', a.sellerId)?.legalName || a.sellerId).toLowerCase();
+          bValue = (findParty(partyDirectory, 'seller', b.sellerId)?.legalName || b.sellerId).toLowerCase();
           break;
         case 'debtorId':
-          aValue = a.debtorId.toLowerCase();
-          bValue = b.debtorId.toLowerCase();
+          aValue = (findParty(partyDirectory, 'debtor', a.debtorId)?.legalName || a.debtorId).toLowerCase();
+          bValue = (findParty(partyDirectory, 'debtor', b.debtorId)?.legalName || b.debtorId).toLowerCase();
           break;
         case 'product':
           aValue = a.product.toLowerCase();
@@ -317,6 +464,11 @@ export const InvoiceViewer: React.FC = () => {
           aValue = a.pdfS3Key ? 'has_pdf' : 'no_pdf';
           bValue = b.pdfS3Key ? 'has_pdf' : 'no_pdf';
           break;
+        case 'eligibility':
+          // Invalid rows are not scored and sort below every valid one
+          aValue = eligibilityByInvoice.get(a.id)?.score ?? -1;
+          bValue = eligibilityByInvoice.get(b.id)?.score ?? -1;
+          break;
         default:
           aValue = new Date(a.issueDate).getTime();
           bValue = new Date(b.issueDate).getTime();
@@ -329,7 +481,7 @@ export const InvoiceViewer: React.FC = () => {
         return aValue < bValue ? 1 : -1;
       }
     });
-  }, [invoices, sortBy, sortDirection]);
+  }, [invoices, sortBy, sortDirection, partyDirectory, eligibilityByInvoice]);
 
   // Paginate results
   const paginatedInvoices = useMemo(() => {
@@ -350,15 +502,22 @@ export const InvoiceViewer: React.FC = () => {
   };
 
   const formatCurrency = (amount: number, currency: string): string => {
-    return new Intl.NumberFormat('en-US', {
-      style: 'currency',
-      currency: currency,
-      minimumFractionDigits: 2
-    }).format(amount);
+    try {
+      return new Intl.NumberFormat('en-US', {
+        style: 'currency',
+        currency: currency,
+        minimumFractionDigits: 2
+      }).format(amount);
+    } catch {
+      // Invalid rows may carry a currency code Intl does not accept
+      return `${currency} ${amount.toFixed(2)}`.trim();
+    }
   };
 
+  // Invalid rows keep the date text from the file, which may not parse
   const formatDate = (dateString: string): string => {
-    return new Date(dateString).toLocaleDateString();
+    const date = new Date(dateString);
+    return isNaN(date.getTime()) ? dateString || '—' : date.toLocaleDateString();
   };
 
   const getValidationErrorsTooltip = (errors: (string | null)[] | null | undefined): string => {
@@ -368,7 +527,9 @@ export const InvoiceViewer: React.FC = () => {
 
   // Helper function to format days with context
   const formatDaysToDueDate = (days: number): string => {
-    if (days > 0) {
+    if (isNaN(days)) {
+      return '—';
+    } else if (days > 0) {
       return `${days} days`;
     } else if (days === 0) {
       return 'Today';
@@ -385,6 +546,33 @@ export const InvoiceViewer: React.FC = () => {
     return 'due-normal';
   };
 
+  // Score badge with the advance and fee; the checks behind the score are in the tooltip
+  const renderEligibility = (eligibility: InvoiceEligibility | undefined, currency: string): React.ReactNode => {
+    if (!eligibility) {
+      return <span className="eligibility-none">—</span>;
+    }
+    const tooltip = eligibility.checks
+      .map(check => `${check.passed ? '✅' : '❌'} ${check.label}: ${check.detail}`)
+      .join('\n');
+    return (
+      <div className="eligibility-info" title={tooltip}>
+        <span className={`eligibility-badge ${eligibility.eligible ? 'eligible' : 'ineligible'}`}>
+          {eligibility.eligible ? '✅' : '⛔'} {eligibility.score}%
+        </span>
+        {eligibility.eligible ? (
+          <>
+            <span className="eligibility-amount">Advance {formatCurrency(eligibility.advanceAmount, currency)}</span>
+            <span className="eligibility-amount">Fee {formatCurrency(eligibility.feeAmount, currency)}</span>
+          </>
+        ) : (
+          <span className="eligibility-amount">
+            {eligibility.checks.filter(check => !check.passed).map(check => check.label).join(', ')}
+          </span>
+        )}
+      </div>
+    );
+  };
+
   // PDF Upload Handler - Updated with enhanced debugging
   const handlePdfUpload = async (invoiceId: string, file: File): Promise<void> => {
     if (!file.type.includes('pdf')) {
@@ -406,11 +594,15 @@ export const InvoiceViewer: React.FC = () => {
         throw new Error(`Invoice with ID ${invoiceId} not found in current invoice list`);
       }
       console.log('✅ [DEBUG] Invoice found:', { id: existingInvoice.id, invoiceId: existingInvoice.invoiceId });
+
+      // A renamed spreadsheet or image passes the MIME check above but not the header check
+      await assertPdfFile(file);
       
       // Generate unique S3 key for the PDF
       const timestamp = Date.now();
       const sanitizedFileName = file.name.replace(/[^a-zA-Z0-9.-]/g, '_');
-      const s3Key = `user-files/{identityId}/invoices/${invoiceId}/${timestamp}-${sanitizedFileName}`;
+      const workspaceFolder = activeOrganizationId ? `organizations/${activeOrganizationId}/` : '';
+      const s3Key = `user-files/{identityId}/${workspaceFolder}invoices/${invoiceId}/${timestamp}-${sanitizedFileName}`;
       
       console.log('📄 [DEBUG] Generated S3 key template:', s3Key);
       
@@ -499,6 +691,9 @@ export const InvoiceViewer: React.FC = () => {
       console.log('📄 [DEBUG] - Full S3 path:', fullS3Path);
       console.log('📄 [DEBUG] - PDF filename:', file.name);
 
+      // Compare the document's text with the invoice fields; the hash flags the same PDF on another invoice
+      const [verification, pdfSha256] = await Promise.all([verifyInvoicePdf(file, existingInvoice), sha256Hex(file)]);
+
       // Update the Invoice record with PDF info including full path
       console.log('💾 [DEBUG] Starting database update for invoice:', invoiceId);
       console.log('💾 [DEBUG] Update payload:', {
@@ -515,6 +710,8 @@ export const InvoiceViewer: React.FC = () => {
         pdfS3FullPath: fullS3Path, // Full path including bucket name (stored but not displayed)
         pdfFileName: file.name,
         pdfUploadedAt: new Date().toISOString(),
+        pdfSha256,
+        ...verification,
       });
 
       console.log('💾 [DEBUG] Database update result:', updateResult);
@@ -568,6 +765,53 @@ export const InvoiceViewer: React.FC = () => {
     }
   };
 
+  const startInvoiceEdit = (invoice: Schema["Invoice"]["type"]) => {
+    setEditingInvoiceId(invoice.id);
+    setEditDraft(getInvoiceDraft(invoice));
+  };
+
+  const cancelInvoiceEdit = () => {
+    setEditingInvoiceId(null);
+    setEditDraft(null);
+  };
+
+  const handleInvoiceEditSave = async (invoice: Schema["Invoice"]["type"]): Promise<void> => {
+    if (!editDraft) return;
+
+    setSavingEdit(true);
+    try {
+      await saveInvoiceEdit(invoice, editDraft, otherValidInvoices, validationRules, partyRegistry);
+      cancelInvoiceEdit();
+      await refreshInvoices();
+    } catch (error) {
+      console.error('💥 [EDIT] Failed to save invoice:', error);
+      alert(`Failed to save invoice: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      setSavingEdit(false);
+    }
+  };
+
+  const formatEditHistory = (invoice: Schema["Invoice"]["type"]): string =>
+    (invoice.editHistory || [])
+      .flatMap(edit => edit ? [`${new Date(edit.editedAt).toLocaleString()} ${edit.editedBy || ''}: ${edit.field} "${edit.originalValue ?? ''}" → "${edit.newValue ?? ''}"`] : [])
+      .join('\n');
+
+  // Data cells turn into inputs while their row is being edited
+  const renderEditableCell = (invoice: Schema["Invoice"]["type"], field: InvoiceFieldKey, content: React.ReactNode) =>
+    editingInvoiceId === invoice.id && editDraft ? (
+      <input
+        className="edit-cell-input"
+        value={editDraft[field]}
+        onChange={(e) => setEditDraft(prev => prev && { ...prev, [field]: e.target.value })}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter') handleInvoiceEditSave(invoice);
+          if (e.key === 'Escape') cancelInvoiceEdit();
+        }}
+        placeholder={field.endsWith('_date') ? 'YYYY-MM-DD' : undefined}
+        disabled={savingEdit}
+      />
+    ) : content;
+
   // PDF Download Handler
   const handlePdfDownload = async (invoice: Schema["Invoice"]["type"]): Promise<void> => {
     if (!invoice.pdfS3Key) return;
@@ -576,15 +820,11 @@ export const InvoiceViewer: React.FC = () => {
       console.log('📄 [DEBUG] Getting download URL for PDF:', invoice.pdfS3Key);
       console.log('📄 [DEBUG] Full S3 path (not used for download):', invoice.pdfS3FullPath);
       
-      const downloadUrl = await getUrl({
-        path: invoice.pdfS3Key, // Use relative path for download
-        options: {
-          expiresIn: 3600, // URL expires in 1 hour
-        },
-      });
+      // Teammates' PDFs live in the uploader's folder and need a backend-signed URL
+      const downloadUrl = await getWorkspaceFileUrl(invoice.pdfS3Key, invoice.organizationId);
 
       // Open PDF in new tab
-      window.open(downloadUrl.url.toString(), '_blank');
+      window.open(downloadUrl, '_blank');
       
     } catch (error) {
       console.error('💥 [DEBUG] Failed to download PDF:', error);
@@ -592,6 +832,44 @@ export const InvoiceViewer: React.FC = () => {
     }
   };
 
+  // Re-run the content check, e.g. for PDFs attached before verification existed or after the invoice was corrected
+  const handlePdfVerify = async (invoice: Schema["Invoice"]["type"]): Promise<void> => {
+    if (!invoice.pdfS3Key) return;
+
+    setVerifyingPdfs(prev => new Set(prev).add(invoice.id));
+
+    try {
+      console.log('🔎 [DEBUG] Re-verifying PDF for invoice:', invoice.invoiceId);
+      const fileUrl = await getWorkspaceFileUrl(invoice.pdfS3Key, invoice.organizationId);
+      const response = await fetch(fileUrl);
+      if (!response.ok) {
+        throw new Error(`Could not download the PDF (${response.status})`);
+      }
+
+      // PDFs attached before hashing existed get their hash here
+      const pdfBlob = await response.blob();
+      const updateResult = await client.models.Invoice.update({
+        id: invoice.id,
+        pdfSha256: await sha256Hex(pdfBlob),
+        ...(await verifyInvoicePdf(pdfBlob, invoice)),
+      });
+      if (updateResult.errors) {
+        throw new Error(updateResult.errors[0]?.message || 'Failed to save verification result');
+      }
+
+      await refreshInvoices();
+    } catch (error) {
+      console.error('💥 [DEBUG] PDF verification failed:', error);
+      alert(`Failed to verify PDF: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      setVerifyingPdfs(prev => {
+        const newSet = new Set(prev);
+        newSet.delete(invoice.id);
+        return newSet;
+      });
+    }
+  };
+
   // PDF Delete Handler - Updated to clear both path fields
   const handlePdfDelete = async (invoice: Schema["Invoice"]["type"]): Promise<void> => {
     if (!invoice.pdfS3Key || !invoice.id) return;
@@ -615,6 +893,10 @@ export const InvoiceViewer: React.FC = () => {
         pdfS3FullPath: null, // Clear the full path as well
         pdfFileName: null,
         pdfUploadedAt: null,
+        pdfSha256: null,
+        pdfVerificationStatus: null,
+        pdfVerificationIssues: null,
+        pdfVerifiedAt: null,
       });
 
       if (updateResult.errors) {
@@ -643,6 +925,79 @@ export const InvoiceViewer: React.FC = () => {
     }
   };
 
+  // Bulk drop: propose a match for every PDF, then let the user confirm before uploading
+  const handleBulkPdfDrop = async (event: React.DragEvent<HTMLDivElement>): Promise<void> => {
+    event.preventDefault();
+    setIsDraggingPdfs(false);
+
+    const droppedFiles = Array.from(event.dataTransfer.files);
+    const pdfFiles = droppedFiles.filter(file => file.type === 'application/pdf' || /\.pdf$/i.test(file.name));
+    console.log('📎 [BULK PDF] Files dropped:', { dropped: droppedFiles.length, pdfs: pdfFiles.length });
+
+    if (pdfFiles.length === 0) {
+      setError('Only PDF files can be dropped onto the invoice table');
+      return;
+    }
+
+    // Same rule as the per-row upload: invalid invoices cannot take a PDF
+    const eligibleInvoices = invoices.filter(inv => inv.isValid);
+    setPdfAnalysis({ analyzed: 0, total: pdfFiles.length });
+
+    try {
+      const proposals = await proposePdfMatches(pdfFiles, eligibleInvoices, analyzed =>
+        setPdfAnalysis({ analyzed, total: pdfFiles.length })
+      );
+      console.log('📎 [BULK PDF] Proposed matches:', proposals.map(p => ({ file: p.file.name, status: p.status, source: p.source })));
+      setPdfMatchProposals(proposals);
+    } catch (error) {
+      console.error('💥 [BULK PDF] Matching failed:', error);
+      setError(`Failed to analyze PDFs: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      setPdfAnalysis(null);
+    }
+  };
+
+  const handleBulkPdfConfirm = async (assignments: PdfAssignment[]): Promise<void> => {
+    setPdfMatchProposals(null);
+    const invoiceIds = assignments.map(({ invoice }) => invoice.id);
+
+    setUploadingPdfs(prev => new Set([...prev, ...invoiceIds]));
+    setPdfUploadProgress(prev => ({ ...prev, ...Object.fromEntries(invoiceIds.map(id => [id, 0])) }));
+
+    const results = await runWithConcurrency(assignments, PDF_UPLOAD_CONCURRENCY, async ({ file, invoice }) => {
+      try {
+        return await attachInvoicePdf(invoice, file, {
+          organizationId: invoice.organizationId,
+          onProgress: progress => setPdfUploadProgress(prev => ({ ...prev, [invoice.id]: progress })),
+        });
+      } finally {
+        setUploadingPdfs(prev => {
+          const newSet = new Set(prev);
+          newSet.delete(invoice.id);
+          return newSet;
+        });
+        setPdfUploadProgress(prev => {
+          const newProgress = { ...prev };
+          delete newProgress[invoice.id];
+          return newProgress;
+        });
+      }
+    });
+
+    const failed = results.flatMap((result, index) =>
+      result.status === 'rejected'
+        ? [`${assignments[index].file.name} (${result.reason instanceof Error ? result.reason.message : 'Unknown error'})`]
+        : []
+    );
+    console.log(`📎 [BULK PDF] Upload finished: ${assignments.length - failed.length} attached, ${failed.length} failed`);
+
+    if (failed.length > 0) {
+      setError(`${failed.length} PDF${failed.length === 1 ? '' : 's'} failed to upload: ${failed.join(', ')}`);
+    }
+
+    await refreshInvoices();
+  };
+
   if (loading) {
     return (
       <div className="invoice-viewer loading">
@@ -662,9 +1017,67 @@ export const InvoiceViewer: React.FC = () => {
         </div>
       )}
 
+      {previewInvoice?.pdfS3Key && (
+        <PdfPreviewPanel
+          title={previewInvoice.invoiceId}
+          pdfS3Key={previewInvoice.pdfS3Key}
+          fileName={previewInvoice.pdfFileName}
+          getFileUrl={() => getWorkspaceFileUrl(previewInvoice.pdfS3Key || '', previewInvoice.organizationId)}
+          onClose={() => setPreviewInvoice(null)}
+          fields={[
+            { label: 'Invoice ID', value: previewInvoice.invoiceId },
+            { label: 'Amount', value: formatCurrency(previewInvoice.amount, previewInvoice.currency) },
+            { label: 'Currency', value: previewInvoice.currency },
+            { label: 'Issue Date', value: formatDate(previewInvoice.issueDate) },
+            { label: 'Due Date', value: formatDate(previewInvoice.dueDate) },
+            { label: 'Seller', value: <PartyName directory={partyDirectory} kind="seller" partyId={previewInvoice.sellerId} /> },
+            { label: 'Debtor', value: <PartyName directory={partyDirectory} kind="debtor" partyId={previewInvoice.debtorId} /> },
+            { label: 'Product', value: previewInvoice.product },
+            {
+              label: 'PDF Check',
+              value: previewInvoice.pdfVerificationStatus
+                ? [
+                    PDF_VERIFICATION_LABELS[previewInvoice.pdfVerificationStatus],
+                    ...(previewInvoice.pdfVerificationIssues || []).filter((issue): issue is string => !!issue)
+                  ].join(' — ')
+                : 'Not checked'
+            },
+          ]}
+        />
+      )}
+
+      {documentsInvoice && (
+        <InvoiceDocumentsPanel
+          title={documentsInvoice.invoiceId}
+          documents={documentsByInvoice.get(documentsInvoice.id) || []}
+          hasInvoicePdf={!!documentsInvoice.pdfS3Key}
+          getFileUrl={(document) => getWorkspaceFileUrl(document.s3Key, document.organizationId)}
+          onUpload={async (file, documentType, onProgress) => {
+            await uploadInvoiceDocument(file, documentType, {
+              invoiceRecordId: documentsInvoice.id,
+              organizationId: documentsInvoice.organizationId,
+              onProgress
+            });
+          }}
+          onRemove={(document) => removeInvoiceDocument(document.id)}
+          onClose={() => setDocumentsInvoice(null)}
+        />
+      )}
+
+      {pdfMatchProposals && (
+        <BulkPdfMatchDialog
+          proposals={pdfMatchProposals}
+          invoices={invoices.filter(inv => inv.isValid)}
+          onConfirm={handleBulkPdfConfirm}
+          onCancel={() => setPdfMatchProposals(null)}
+        />
+      )}
+
       {/* ADD THIS: Submit Invoices Component */}
       <SubmitInvoices 
         invoices={invoices}
+        documents={invoiceDocuments}
+        eligibility={eligibilityByInvoice}
         loading={loading}
         onRefreshInvoices={refreshInvoices}
       />
@@ -696,6 +1109,11 @@ export const InvoiceViewer: React.FC = () => {
         <div className="summary-content">
           <p>
             Showing {paginatedInvoices.length} of {sortedInvoices.length} invoices (including valid and invalid records)
+            <span className="bulk-pdf-hint">
+              {pdfAnalysis
+                ? `🔍 Reading PDFs ${pdfAnalysis.analyzed}/${pdfAnalysis.total}...`
+                : '📎 Drop PDFs on the table to attach them in bulk'}
+            </span>
           </p>
           <button 
             onClick={refreshInvoices}
@@ -709,7 +1127,22 @@ export const InvoiceViewer: React.FC = () => {
       </div>
 
       {/* Invoice Table with Horizontal Scrolling */}
-      <div className="invoice-table-container">
+      <div
+        className={`invoice-table-container ${isDraggingPdfs ? 'pdf-drop-active' : ''}`}
+        onDragOver={(e) => {
+          if (!e.dataTransfer.types.includes('Files')) return;
+          e.preventDefault();
+          e.dataTransfer.dropEffect = 'copy';
+          setIsDraggingPdfs(true);
+        }}
+        onDragLeave={(e) => {
+          // Leaving for a child cell is not leaving the table
+          if (!e.currentTarget.contains(e.relatedTarget as Node | null)) {
+            setIsDraggingPdfs(false);
+          }
+        }}
+        onDrop={handleBulkPdfDrop}
+      >
         <table className="invoice-table">
           <thead>
             <tr>
@@ -725,6 +1158,7 @@ export const InvoiceViewer: React.FC = () => {
               >
                 PDF Document {sortBy === 'pdfDocument' && (sortDirection === 'asc' ? '↑' : '↓')}
               </th>
+              <th>Documents</th>
               <th 
                 className={`sortable ${sortBy === 'issueDate' ? 'active' : ''}`}
                 onClick={() => handleSort('issueDate')}
@@ -761,13 +1195,13 @@ export const InvoiceViewer: React.FC = () => {
                 className={`sortable ${sortBy === 'sellerId' ? 'active' : ''}`}
                 onClick={() => handleSort('sellerId')}
               >
-                Seller ID {sortBy === 'sellerId' && (sortDirection === 'asc' ? '↓' : '↑')}
+                Seller {sortBy === 'sellerId' && (sortDirection === 'asc' ? '↓' : '↑')}
               </th>
               <th 
                 className={`sortable ${sortBy === 'debtorId' ? 'active' : ''}`}
                 onClick={() => handleSort('debtorId')}
               >
-                Debtor ID {sortBy === 'debtorId' && (sortDirection === 'asc' ? '↑' : '↓')}
+                Debtor {sortBy === 'debtorId' && (sortDirection === 'asc' ? '↑' : '↓')}
               </th>
               <th 
                 className={`sortable ${sortBy === 'product' ? 'active' : ''}`}
@@ -787,16 +1221,44 @@ export const InvoiceViewer: React.FC = () => {
               >
                 Amount {sortBy === 'amount' && (sortDirection === 'asc' ? '↑' : '↓')}
               </th>
+              <th
+                className={`sortable ${sortBy === 'eligibility' ? 'active' : ''}`}
+                onClick={() => handleSort('eligibility')}
+                title={`Funding eligibility score, with the advance at ${fundingTerms.advanceRatePercent}% and the discount fee at ${fundingTerms.annualDiscountRatePercent}% a year (${fundingTerms.dayCountBasis}-day basis)`}
+              >
+                Eligibility {sortBy === 'eligibility' && (sortDirection === 'asc' ? '↑' : '↓')}
+              </th>
             </tr>
           </thead>
           <tbody>
             {paginatedInvoices.map((invoice) => (
               <tr 
                 key={invoice.id}
-                className={`${!invoice.isValid ? 'invalid-row' : ''}`}
+                className={`${!invoice.isValid ? 'invalid-row' : ''} ${editingInvoiceId === invoice.id ? 'editing-row' : ''}`}
               >
                 <td className="format-cell">
-                  {invoice.isValid ? (
+                  {editingInvoiceId === invoice.id && editValidation ? (
+                    <div className="edit-controls">
+                      <span className={`format-badge ${editValidation.isValid ? 'valid' : 'invalid'}`}>
+                        {editValidation.isValid ? '✅ Valid' : '❌ Invalid'}
+                      </span>
+                      {!editValidation.isValid && (
+                        <ul className="edit-errors">
+                          {editValidation.validationErrors.map((error, index) => (
+                            <li key={index}>{error.replace(/^Row \d+: /, '')}</li>
+                          ))}
+                        </ul>
+                      )}
+                      <div className="edit-buttons">
+                        <button onClick={() => handleInvoiceEditSave(invoice)} className="edit-save-btn" disabled={savingEdit}>
+                          {savingEdit ? '🔄 Saving...' : '💾 Save'}
+                        </button>
+                        <button onClick={cancelInvoiceEdit} className="edit-cancel-btn" disabled={savingEdit}>
+                          Cancel
+                        </button>
+                      </div>
+                    </div>
+                  ) : invoice.isValid ? (
                     <span className="format-badge valid">✅ Valid</span>
                   ) : (
                     <span 
@@ -808,9 +1270,27 @@ export const InvoiceViewer: React.FC = () => {
                       ❌ Invalid
                     </span>
                   )}
+
+                  {editingInvoiceId !== invoice.id && (
+                    <div className="edit-actions">
+                      <button
+                        onClick={() => startInvoiceEdit(invoice)}
+                        className="edit-row-btn"
+                        disabled={!!editingInvoiceId}
+                        title={invoice.isValid ? 'Edit invoice data' : 'Correct the invalid fields'}
+                      >
+                        ✏️ {invoice.isValid ? 'Edit' : 'Fix'}
+                      </button>
+                      {(invoice.editHistory || []).length > 0 && (
+                        <span className="edit-history-badge" title={formatEditHistory(invoice)}>
+                          ✎ Edited
+                        </span>
+                      )}
+                    </div>
+                  )}
                   
                   {/* Tooltip for invalid records */}
-                  {!invoice.isValid && hoveredInvalidRow === invoice.id && (
+                  {!invoice.isValid && editingInvoiceId !== invoice.id && hoveredInvalidRow === invoice.id && (
                     <div className="validation-tooltip">
                       <strong>Validation Errors:</strong>
                       <ul>
@@ -834,6 +1314,14 @@ export const InvoiceViewer: React.FC = () => {
                     // Show download and delete buttons if PDF exists
                     <div className="pdf-actions">
                       <div className="pdf-buttons">
+                        <button
+                          onClick={() => setPreviewInvoice(invoice)}
+                          className="pdf-download-btn"
+                          title={`Preview: ${invoice.pdfFileName || 'invoice.pdf'}`}
+                          disabled={deletingPdfs.has(invoice.id)}
+                        >
+                          👁 Preview
+                        </button>
                         <button
                           onClick={() => handlePdfDownload(invoice)}
                           className="pdf-download-btn"
@@ -857,6 +1345,33 @@ export const InvoiceViewer: React.FC = () => {
                         {invoice.pdfFileName && (
                           <span className="pdf-filename">{invoice.pdfFileName}</span>
                         )}
+                        {invoice.pdfVerificationStatus ? (
+                          <button
+                            onClick={() => handlePdfVerify(invoice)}
+                            className={`pdf-verification-badge ${invoice.pdfVerificationStatus.toLowerCase()}`}
+                            title={[
+                              ...(invoice.pdfVerificationIssues || []).filter((issue): issue is string => !!issue),
+                              'Click to check again'
+                            ].join('\n')}
+                            disabled={verifyingPdfs.has(invoice.id)}
+                          >
+                            {verifyingPdfs.has(invoice.id) ? '🔄 Checking...' : PDF_VERIFICATION_LABELS[invoice.pdfVerificationStatus]}
+                          </button>
+                        ) : (
+                          <button
+                            onClick={() => handlePdfVerify(invoice)}
+                            className="pdf-verification-badge unchecked"
+                            title="Check that the invoice number, amount, currency and due date appear in the PDF"
+                            disabled={verifyingPdfs.has(invoice.id)}
+                          >
+                            {verifyingPdfs.has(invoice.id) ? '🔄 Checking...' : '🔎 Verify'}
+                          </button>
+                        )}
+                        {sharedPdfs.has(invoice.id) && (
+                          <span className="pdf-duplicate-badge" title="The same file is attached to another invoice">
+                            ⚠️ Same PDF as {(sharedPdfs.get(invoice.id) || []).map(id => invoiceNumbersById.get(id) || id).join(', ')}
+                          </span>
+                        )}
                       </div>
                     </div>
                   ) : (
@@ -896,21 +1411,33 @@ export const InvoiceViewer: React.FC = () => {
                     </div>
                   )}
                 </td>
-                <td>{formatDate(invoice.issueDate)}</td>
-                <td>{formatDate(invoice.dueDate)}</td>
+                <td className="documents-cell">
+                  <button
+                    onClick={() => setDocumentsInvoice(invoice)}
+                    className="documents-count-btn"
+                    title="Supporting documents for this invoice"
+                  >
+                    📎 {documentsByInvoice.get(invoice.id)?.length || 0}
+                  </button>
+                </td>
+                <td>{renderEditableCell(invoice, 'issue_date', formatDate(invoice.issueDate))}</td>
+                <td>{renderEditableCell(invoice, 'due_date', formatDate(invoice.dueDate))}</td>
                 <td className="maturity-days-cell">
-                  {calculateMaturityDays(invoice.issueDate, invoice.dueDate)}
+                  {formatMaturityDays(invoice.issueDate, invoice.dueDate)}
                 </td>
                 <td className={`days-to-due-cell ${getDaysToDueDateClass(calculateDaysToDueDate(invoice.dueDate))}`}>
                   {formatDaysToDueDate(calculateDaysToDueDate(invoice.dueDate))}
                 </td>
-                <td className="invoice-id">{invoice.invoiceId}</td>
-                <td className="seller-id">{invoice.sellerId}</td>
-                <td className="debtor-id">{invoice.debtorId}</td>
-                <td className="product-cell">{invoice.product}</td>
-                <td className="currency-cell">{invoice.currency}</td>
+                <td className="invoice-id">{renderEditableCell(invoice, 'invoice_id', invoice.invoiceId)}</td>
+                <td className="seller-id">{renderEditableCell(invoice, 'seller_id', <PartyName directory={partyDirectory} kind="seller" partyId={invoice.sellerId} />)}</td>
+                <td className="debtor-id">{renderEditableCell(invoice, 'debtor_id', <PartyName directory={partyDirectory} kind="debtor" partyId={invoice.debtorId} />)}</td>
+                <td className="product-cell">{renderEditableCell(invoice, 'product', invoice.product)}</td>
+                <td className="currency-cell">{renderEditableCell(invoice, 'currency', invoice.currency)}</td>
                 <td className="amount-cell">
-                  {formatCurrency(invoice.amount, invoice.currency)}
+                  {renderEditableCell(invoice, 'amount', formatCurrency(invoice.amount, invoice.currency))}
+                </td>
+                <td className="eligibility-cell">
+                  {renderEligibility(eligibilityByInvoice.get(invoice.id), invoice.currency)}
                 </td>
               </tr>
             ))}
@@ -1054,6 +1581,12 @@ export const InvoiceViewer: React.FC = () => {
           color: #5e6e77;
           font-size: 14px;
         }
+
+        .bulk-pdf-hint {
+          margin-left: 12px;
+          color: #32b3e7;
+          font-size: 13px;
+        }
         
         .refresh-btn {
           padding: 6px 12px;
@@ -1091,6 +1624,11 @@ export const InvoiceViewer: React.FC = () => {
           height: auto;
         }
 
+        .invoice-table-container.pdf-drop-active {
+          border: 2px dashed #32b3e7;
+          background: #f0f9ff;
+        }
+
         .invoice-table {
           width: 100%;
           border-collapse: collapse;
@@ -1191,6 +1729,42 @@ export const InvoiceViewer: React.FC = () => {
           color: #32b3e7;
         }
 
+        .eligibility-info {
+          display: flex;
+          flex-direction: column;
+          gap: 2px;
+          cursor: help;
+        }
+
+        .eligibility-badge {
+          align-self: flex-start;
+          padding: 2px 8px;
+          border-radius: 10px;
+          font-size: 12px;
+          font-weight: 600;
+          white-space: nowrap;
+        }
+
+        .eligibility-badge.eligible {
+          background: #c6f6d5;
+          color: #22543d;
+        }
+
+        .eligibility-badge.ineligible {
+          background: #fed7d7;
+          color: #c53030;
+        }
+
+        .eligibility-amount {
+          font-size: 11px;
+          color: #5e6e77;
+          white-space: nowrap;
+        }
+
+        .eligibility-none {
+          color: #a0aec0;
+        }
+
         .maturity-days-cell {
           text-align: center;
           font-weight: 500;
@@ -1257,6 +1831,83 @@ export const InvoiceViewer: React.FC = () => {
           position: relative;
         }
 
+        .edit-actions {
+          display: flex;
+          align-items: center;
+          gap: 6px;
+          margin-top: 6px;
+        }
+
+        .edit-row-btn,
+        .edit-save-btn,
+        .edit-cancel-btn {
+          padding: 3px 8px;
+          border-radius: 4px;
+          font-size: 11px;
+          cursor: pointer;
+          white-space: nowrap;
+        }
+
+        .edit-row-btn,
+        .edit-cancel-btn {
+          background: white;
+          border: 1px solid #cbd5e0;
+          color: #002b4b;
+        }
+
+        .edit-save-btn {
+          background: #32b3e7;
+          border: none;
+          color: white;
+        }
+
+        .edit-row-btn:disabled,
+        .edit-save-btn:disabled,
+        .edit-cancel-btn:disabled {
+          opacity: 0.6;
+          cursor: not-allowed;
+        }
+
+        .edit-history-badge {
+          color: #5e6e77;
+          font-size: 11px;
+          cursor: help;
+        }
+
+        .editing-row td {
+          background: #f0f9ff;
+          vertical-align: top;
+        }
+
+        .edit-controls {
+          display: flex;
+          flex-direction: column;
+          gap: 6px;
+          min-width: 200px;
+        }
+
+        .edit-errors {
+          margin: 0;
+          padding-left: 16px;
+          color: #dc2626;
+          font-size: 11px;
+          white-space: normal;
+        }
+
+        .edit-buttons {
+          display: flex;
+          gap: 6px;
+        }
+
+        .edit-cell-input {
+          width: 100%;
+          min-width: 90px;
+          padding: 4px 6px;
+          border: 1px solid #32b3e7;
+          border-radius: 4px;
+          font-size: 12px;
+        }
+
         .validation-tooltip {
           position: absolute;
           top: 100%;
@@ -1361,6 +2012,36 @@ export const InvoiceViewer: React.FC = () => {
           color: #c53030;
         }
 
+        .pdf-duplicate-badge {
+          display: inline-block;
+          margin-top: 4px;
+          padding: 1px 6px;
+          border-radius: 8px;
+          background: #fefcbf;
+          color: #975a16;
+          font-size: 11px;
+          font-weight: 600;
+        }
+
+        .documents-cell {
+          text-align: center;
+        }
+
+        .documents-count-btn {
+          padding: 4px 10px;
+          background: white;
+          border: 1px solid #32b3e7;
+          border-radius: 4px;
+          color: #002b4b;
+          font-size: 12px;
+          cursor: pointer;
+          white-space: nowrap;
+        }
+
+        .documents-count-btn:hover {
+          background: #f0f9ff;
+        }
+
         .pdf-download-btn:disabled, 
         .pdf-delete-btn:disabled {
           opacity: 0.6;
@@ -1371,6 +2052,39 @@ export const InvoiceViewer: React.FC = () => {
           width: 100%;
         }
 
+        .pdf-verification-badge {
+          display: inline-block;
+          margin-top: 4px;
+          padding: 1px 8px;
+          border-radius: 10px;
+          border: none;
+          font-size: 11px;
+          font-weight: 600;
+          white-space: nowrap;
+          cursor: pointer;
+        }
+
+        .pdf-verification-badge:disabled {
+          cursor: wait;
+        }
+
+        .pdf-verification-badge.verified {
+          background: #c6f6d5;
+          color: #276749;
+        }
+
+        .pdf-verification-badge.mismatch,
+        .pdf-verification-badge.unreadable {
+          background: #fed7d7;
+          color: #c53030;
+        }
+
+        .pdf-verification-badge.no_text,
+        .pdf-verification-badge.unchecked {
+          background: #edf2f7;
+          color: #4a5568;
+        }
+
         .pdf-filename {
           font-size: 9px;
           color: #5e6e77;
@@ -0,0 +1,193 @@
+// components/SheetSelector.tsx - Choose which sheets of a multi-sheet workbook to import
+import React, { useState } from 'react';
+import type { WorkbookSheet } from '../../../shared/invoiceProcessing/invoiceFile';
+
+interface SheetSelectorProps {
+  fileName: string;
+  sheets: WorkbookSheet[];
+  onConfirm: (sheetNames: string[]) => void;
+  onCancel: () => void;
+}
+
+export const SheetSelector: React.FC<SheetSelectorProps> = ({
+  fileName,
+  sheets,
+  onConfirm,
+  onCancel
+}) => {
+  // Start with the first sheet, which is what single-sheet imports have always used
+  const [selected, setSelected] = useState<Set<string>>(() => new Set(sheets.slice(0, 1).map(sheet => sheet.name)));
+
+  const allSelected = selected.size === sheets.length;
+  const selectedRowCount = sheets
+    .filter(sheet => selected.has(sheet.name))
+    .reduce((sum, sheet) => sum + sheet.rowCount, 0);
+
+  const toggleSheet = (sheetName: string) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (next.has(sheetName)) {
+        next.delete(sheetName);
+      } else {
+        next.add(sheetName);
+      }
+      return next;
+    });
+  };
+
+  const toggleAll = () => {
+    setSelected(allSelected ? new Set() : new Set(sheets.map(sheet => sheet.name)));
+  };
+
+  return (
+    <div className="sheet-overlay">
+      <div className="sheet-modal" role="dialog" aria-labelledby="sheet-title">
+        <h3 id="sheet-title">📑 Choose Sheets</h3>
+        <p>
+          <strong>{fileName}</strong> has {sheets.length} sheets with data. Pick the ones that contain invoices.
+        </p>
+
+        <label className="sheet-option sheet-option-all">
+          <input type="checkbox" checked={allSelected} onChange={toggleAll} />
+          <span>Import all sheets</span>
+        </label>
+
+        <div className="sheet-list">
+          {sheets.map(sheet => (
+            <label key={sheet.name} className="sheet-option">
+              <input
+                type="checkbox"
+                checked={selected.has(sheet.name)}
+                onChange={() => toggleSheet(sheet.name)}
+              />
+              <span className="sheet-name">{sheet.name}</span>
+              <span className="sheet-rows">{sheet.rowCount.toLocaleString()} rows</span>
+            </label>
+          ))}
+        </div>
+
+        <div className="sheet-actions">
+          <button onClick={onCancel} className="sheet-cancel-btn">
+            Cancel Upload
+          </button>
+          <button
+            onClick={() => onConfirm(sheets.filter(sheet => selected.has(sheet.name)).map(sheet => sheet.name))}
+            disabled={selected.size === 0}
+            className="sheet-confirm-btn"
+          >
+            ✅ Import {selected.size} {selected.size === 1 ? 'sheet' : 'sheets'} ({selectedRowCount.toLocaleString()} rows)
+          </button>
+        </div>
+      </div>
+
+      <style>{`
+        .sheet-overlay {
+          position: fixed;
+          inset: 0;
+          background: rgba(0, 43, 75, 0.55);
+          display: flex;
+          align-items: center;
+          justify-content: center;
+          z-index: 2000;
+          padding: 20px;
+        }
+
+        .sheet-modal {
+          background: white;
+          border-radius: 12px;
+          box-shadow: 0 20px 50px rgba(0, 0, 0, 0.25);
+          width: 100%;
+          max-width: 520px;
+          max-height: 90vh;
+          overflow-y: auto;
+          padding: 24px;
+          font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif;
+        }
+
+        .sheet-modal h3 {
+          margin: 0 0 6px 0;
+          color: #002b4b;
+          font-size: 20px;
+        }
+
+        .sheet-modal p {
+          margin: 0 0 16px 0;
+          color: #5e6e77;
+          font-size: 14px;
+        }
+
+        .sheet-list {
+          border: 1px solid #e2e8f0;
+          border-radius: 8px;
+          margin-top: 8px;
+        }
+
+        .sheet-option {
+          display: flex;
+          align-items: center;
+          gap: 10px;
+          padding: 10px 12px;
+          font-size: 14px;
+          color: #002b4b;
+          cursor: pointer;
+        }
+
+        .sheet-list .sheet-option + .sheet-option {
+          border-top: 1px solid #e2e8f0;
+        }
+
+        .sheet-option-all {
+          font-weight: 600;
+          padding-left: 13px;
+        }
+
+        .sheet-name {
+          flex: 1;
+        }
+
+        .sheet-rows {
+          color: #5e6e77;
+          font-size: 12px;
+        }
+
+        .sheet-actions {
+          display: flex;
+          justify-content: flex-end;
+          gap: 12px;
+          margin-top: 20px;
+        }
+
+        .sheet-cancel-btn,
+        .sheet-confirm-btn {
+          padding: 10px 18px;
+          border-radius: 6px;
+          font-size: 14px;
+          font-weight: 600;
+          cursor: pointer;
+          transition: all 0.2s;
+        }
+
+        .sheet-cancel-btn {
+          background: white;
+          border: 1px solid #cbd5e0;
+          color: #5e6e77;
+        }
+
+        .sheet-cancel-btn:hover {
+          background: #f7fafc;
+        }
+
+        .sheet-confirm-btn {
+          background: linear-gradient(135deg, #32b3e7, #1a9bd8);
+          border: none;
+          color: white;
+        }
+
+        .sheet-confirm-btn:disabled {
+          background: #cbd5e0;
+          cursor: not-allowed;
+        }
+      `}</style>
+    </div>
+  );
+};
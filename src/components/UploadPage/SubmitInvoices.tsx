@@ -2,26 +2,72 @@
 import React, { useState, useMemo, useEffect } from 'react';
 import { generateClient } from 'aws-amplify/data';
 import type { Schema } from '../../../amplify/data/resource';
+import { formatBatchNumber } from '../../utils/submissionBatch';
+import { getWorkspaceFilter, useActiveOrganization } from '../../context/organizationContext';
+import { fetchWorkspaceSettings, getRequiredDocumentTypes } from '../../utils/workspaceSettings';
+import type { InvoiceDocument } from '../../utils/invoiceDocuments';
+import {
+  DEFAULT_REQUIRED_DOCUMENT_TYPES,
+  DOCUMENT_TYPE_LABELS,
+  getMissingDocumentTypes,
+} from '../../../shared/invoiceDocuments/documentTypes';
+import type { DocumentType } from '../../../shared/invoiceDocuments/documentTypes';
+import { DocumentRequirementsEditor } from './DocumentRequirementsEditor';
+import { findFilesSharedAcrossInvoices } from '../../utils/duplicateFiles';
+import { fetchParties } from '../../utils/partyRegistry';
+import { fetchOutstandingExposure, toDebtorLimits } from '../../utils/creditExposure';
+import { checkDebtorExposure } from '../../../shared/masterData/creditExposure';
+import type { DebtorLimits, ExposureInvoice } from '../../../shared/masterData/creditExposure';
+import { ExposureBreakdown } from './ExposureBreakdown';
+import { summarizeFunding } from '../../../shared/invoiceFunding/eligibility';
+import type { InvoiceEligibility } from '../../../shared/invoiceFunding/eligibility';
+import { FundingSummary } from './FundingSummary';
 
 const client = generateClient<Schema>();
 
+// Whether PDF content mismatches block submission; a per-browser preference
+const BLOCK_PDF_MISMATCHES_KEY = 'blockPdfMismatches';
+
+// Invoice ids sent per submitInvoiceBatch call. The function downloads and reads every invoice PDF,
+// ten at a time, so 25 leaves room for the workspace lookups inside the 30 second resolver timeout.
+// The function refuses larger calls (MAX_INVOICES_PER_CALL)
+const SUBMIT_BATCH_SIZE = 25;
+
 interface SubmitInvoicesProps {
   invoices: Schema["Invoice"]["type"][];
+  documents: InvoiceDocument[];
+  eligibility: Map<string, InvoiceEligibility>; // Scores of the valid invoices, by invoice record id
   loading: boolean;
   onRefreshInvoices: () => Promise<void>;
 }
 
 export const SubmitInvoices: React.FC<SubmitInvoicesProps> = ({
   invoices,
+  documents,
+  eligibility,
   loading,
   onRefreshInvoices
 }) => {
+  const { activeOrganizationId } = useActiveOrganization();
+
   // Submit button states
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [submitProgress, setSubmitProgress] = useState(0);
   const [submitMessage, setSubmitMessage] = useState<string | null>(null);
   const [submitError, setSubmitError] = useState<string | null>(null);
+  const [batchNote, setBatchNote] = useState('');
+  const [blockPdfMismatches, setBlockPdfMismatches] = useState(
+    () => localStorage.getItem(BLOCK_PDF_MISMATCHES_KEY) === 'true'
+  );
   
+  const [requiredDocumentTypes, setRequiredDocumentTypes] = useState<DocumentType[]>(DEFAULT_REQUIRED_DOCUMENT_TYPES);
+  const [loadingRequirements, setLoadingRequirements] = useState(true);
+
+  // Open exposure per debtor, checked against credit limits and concentration
+  const [outstandingExposure, setOutstandingExposure] = useState<ExposureInvoice[]>([]);
+  const [debtorLimits, setDebtorLimits] = useState<DebtorLimits[]>([]);
+  const [loadingExposure, setLoadingExposure] = useState(true);
+
   // Duplicate checking states
   const [duplicateInvoiceIds, setDuplicateInvoiceIds] = useState<string[]>([]);
   const [checkingDuplicates, setCheckingDuplicates] = useState(false);
@@ -43,7 +89,9 @@ export const SubmitInvoices: React.FC<SubmitInvoicesProps> = ({
         console.log('🔍 [DUPLICATES] Current invoice IDs:', currentInvoiceIds);
 
         // Query SubmittedInvoice table for any matching invoice IDs
-        const submittedInvoicesResult = await client.models.SubmittedInvoice.list();
+        const submittedInvoicesResult = await client.models.SubmittedInvoice.list({
+          filter: await getWorkspaceFilter(activeOrganizationId)
+        });
         
         if (submittedInvoicesResult.errors) {
           console.error('❌ [DUPLICATES] Error checking submitted invoices:', submittedInvoicesResult.errors);
@@ -73,25 +121,99 @@ export const SubmitInvoices: React.FC<SubmitInvoicesProps> = ({
     };
 
     checkForDuplicates();
-  }, [invoices]);
+  }, [invoices, activeOrganizationId]);
+
+  // Required document types follow the active workspace
+  useEffect(() => {
+    let isMounted = true;
+    setLoadingRequirements(true);
+
+    fetchWorkspaceSettings(activeOrganizationId)
+      .then(settings => isMounted && setRequiredDocumentTypes(getRequiredDocumentTypes(settings)))
+      .catch(error => {
+        console.error('❌ [SETTINGS] Failed to load workspace settings:', error);
+        if (isMounted) setRequiredDocumentTypes(DEFAULT_REQUIRED_DOCUMENT_TYPES);
+      })
+      .finally(() => isMounted && setLoadingRequirements(false));
+
+    return () => { isMounted = false; };
+  }, [activeOrganizationId]);
+
+  // Reloaded with the invoices, so a finished submission counts towards the next one
+  useEffect(() => {
+    let isMounted = true;
+    setLoadingExposure(true);
+
+    Promise.all([fetchOutstandingExposure(activeOrganizationId), fetchParties('debtor', activeOrganizationId)])
+      .then(([outstanding, debtors]) => {
+        if (!isMounted) return;
+        setOutstandingExposure(outstanding);
+        setDebtorLimits(toDebtorLimits(debtors));
+      })
+      .catch(error => {
+        console.error('❌ [EXPOSURE] Failed to load debtor exposure:', error);
+        if (isMounted) {
+          setOutstandingExposure([]);
+          setDebtorLimits([]);
+        }
+      })
+      .finally(() => isMounted && setLoadingExposure(false));
+
+    return () => { isMounted = false; };
+  }, [invoices, activeOrganizationId]);
+
+  const handleBlockPdfMismatchesChange = (enabled: boolean) => {
+    setBlockPdfMismatches(enabled);
+    localStorage.setItem(BLOCK_PDF_MISMATCHES_KEY, String(enabled));
+  };
 
   // Calculate submit button state
   const submitButtonState = useMemo(() => {
     const validInvoices = invoices.filter(inv => inv.isValid);
     const validInvoicesWithPdf = validInvoices.filter(inv => inv.pdfS3Key);
+    const mismatchedPdfInvoices = validInvoicesWithPdf.filter(inv => inv.pdfVerificationStatus === 'MISMATCH');
+    const sharedPdfs = findFilesSharedAcrossInvoices(validInvoicesWithPdf.map(inv => ({ invoiceRecordId: inv.id, sha256: inv.pdfSha256 })));
+    const sharedPdfInvoices = validInvoicesWithPdf.filter(inv => sharedPdfs.has(inv.id));
+
+    const missingByType = new Map<DocumentType, number>();
+    const incompleteInvoices = validInvoices.filter(inv => {
+      const missing = getMissingDocumentTypes(inv, documents.filter(document => document.invoiceId === inv.id), requiredDocumentTypes);
+      missing.forEach(type => missingByType.set(type, (missingByType.get(type) || 0) + 1));
+      return missing.length > 0;
+    });
     
     const hasInvoices = validInvoices.length > 0;
-    const allValidInvoicesHavePdf = validInvoices.length > 0 && validInvoicesWithPdf.length === validInvoices.length;
+    const allRequiredDocumentsPresent = validInvoices.length > 0 && incompleteInvoices.length === 0;
     const hasDuplicates = duplicateInvoiceIds.length > 0;
-    const isEnabled = hasInvoices && allValidInvoicesHavePdf && !hasDuplicates && !loading && !isSubmitting && !checkingDuplicates;
+    const blockedByPdfMismatches = blockPdfMismatches && mismatchedPdfInvoices.length > 0;
+
+    // Only shown once a debtor in the workspace has a limit configured
+    const hasDebtorLimits = debtorLimits.some(debtor => debtor.creditLimit !== undefined || debtor.maxConcentrationPercent !== undefined);
+    const exposures = hasDebtorLimits ? checkDebtorExposure(outstandingExposure, validInvoices, debtorLimits) : [];
+    const creditLimitBreaches = exposures.filter(exposure => exposure.status === 'BLOCK');
+    const exposureWarnings = exposures.filter(exposure => exposure.status === 'WARN');
+    const blockedByCreditLimits = creditLimitBreaches.length > 0;
+
+    // Ineligible invoices can still be submitted; the score is stored with them
+    const fundingSummary = summarizeFunding(validInvoices.flatMap(inv => {
+      const score = eligibility.get(inv.id);
+      return score ? [{ currency: inv.currency, amount: inv.amount, eligibility: score }] : [];
+    }));
+    const isEnabled = hasInvoices && allRequiredDocumentsPresent && !hasDuplicates && !blockedByPdfMismatches && !blockedByCreditLimits && !loading && !isSubmitting && !checkingDuplicates && !loadingRequirements && !loadingExposure;
     
     console.log('🔘 [SUBMIT] Submit button state:', {
       hasInvoices,
       validInvoices: validInvoices.length,
       validInvoicesWithPdf: validInvoicesWithPdf.length,
-      allValidInvoicesHavePdf,
+      requiredDocumentTypes,
+      incompleteInvoices: incompleteInvoices.length,
       hasDuplicates,
       duplicateCount: duplicateInvoiceIds.length,
+      pdfMismatches: mismatchedPdfInvoices.length,
+      blockedByPdfMismatches,
+      creditLimitBreaches: creditLimitBreaches.length,
+      exposureWarnings: exposureWarnings.length,
+      fundingSummary,
       isEnabled,
       loading,
       isSubmitting,
@@ -103,12 +225,23 @@ export const SubmitInvoices: React.FC<SubmitInvoicesProps> = ({
       enabled: isEnabled,
       validInvoices: validInvoices.length,
       validInvoicesWithPdf: validInvoicesWithPdf.length,
-      missingPdfs: validInvoices.length - validInvoicesWithPdf.length,
+      missingDocuments: incompleteInvoices.length,
+      missingDocumentSummary: Array.from(missingByType, ([type, count]) => `${count} ${DOCUMENT_TYPE_LABELS[type]}`).join(', '),
       hasDuplicates,
       duplicateCount: duplicateInvoiceIds.length,
-      duplicateIds: duplicateInvoiceIds
+      duplicateIds: duplicateInvoiceIds,
+      pdfMismatches: mismatchedPdfInvoices.length,
+      pdfMismatchIds: mismatchedPdfInvoices.map(inv => inv.invoiceId),
+      sharedPdfs: sharedPdfInvoices.length,
+      sharedPdfIds: sharedPdfInvoices.map(inv => inv.invoiceId),
+      blockedByPdfMismatches,
+      exposures,
+      creditLimitBreaches,
+      exposureWarnings,
+      blockedByCreditLimits,
+      fundingSummary
     };
-  }, [invoices, loading, isSubmitting, checkingDuplicates, duplicateInvoiceIds]);
+  }, [invoices, documents, eligibility, requiredDocumentTypes, loading, isSubmitting, checkingDuplicates, loadingRequirements, duplicateInvoiceIds, blockPdfMismatches, outstandingExposure, debtorLimits, loadingExposure]);
 
   // Submit invoices handler
   const handleSubmitInvoices = async () => {
@@ -124,7 +257,20 @@ export const SubmitInvoices: React.FC<SubmitInvoicesProps> = ({
       return;
     }
 
+    if (submitButtonState.blockedByCreditLimits) {
+      setSubmitError('Cannot submit: the batch takes debtors over their credit limits');
+      return;
+    }
+
+    // Concentration and unchecked limits are the submitter's call
+    const exposureWarningText = submitButtonState.exposureWarnings.length > 0
+      ? `Debtor exposure warnings:\n${submitButtonState.exposureWarnings
+          .map(exposure => `• ${exposure.legalName || exposure.debtorId}: ${exposure.issues.join('; ')}`)
+          .join('\n')}\n\n`
+      : '';
+
     const confirmSubmission = window.confirm(
+      exposureWarningText +
       `Are you sure you want to submit ${validInvoices.length} valid invoice(s)?\n\n` +
       `This will:\n` +
       `• Move all invoice data to the next step\n` +
@@ -142,109 +288,67 @@ export const SubmitInvoices: React.FC<SubmitInvoicesProps> = ({
     try {
       console.log('📤 [SUBMIT] Starting submission process for', validInvoices.length, 'invoices');
       
-      const currentDateTime = new Date().toISOString();
-      const currentDate = currentDateTime.split('T')[0];
       let successCount = 0;
       let failCount = 0;
       const errors: string[] = [];
+      // The first successful call opens the submission batch (and numbers it); the rest add to it
+      let submissionBatchId: string | undefined;
+      let batchNumber: number | undefined;
 
-      // Step 1: Copy all valid invoices to SubmittedInvoice table
-      console.log('📋 [SUBMIT] Step 1: Copying invoices to SubmittedInvoice table');
-      setSubmitMessage(`Copying ${validInvoices.length} invoices to permanent storage...`);
+      // Steps 1-2: Move invoices server-side; each call is atomic per transaction and safe to retry
+      console.log('📋 [SUBMIT] Moving invoices to SubmittedInvoice table');
+      setSubmitMessage(`Moving ${validInvoices.length} invoices to permanent storage...`);
       
-      for (let i = 0; i < validInvoices.length; i++) {
-        const invoice = validInvoices[i];
-        
+      for (let i = 0; i < validInvoices.length; i += SUBMIT_BATCH_SIZE) {
+        const batch = validInvoices.slice(i, i + SUBMIT_BATCH_SIZE);
+        console.log(`📝 [SUBMIT] Submitting invoices ${i + 1}-${i + batch.length}/${validInvoices.length}`);
+
         try {
-          console.log(`📝 [SUBMIT] Copying invoice ${i + 1}/${validInvoices.length}:`, invoice.invoiceId);
-          
-          // Create submitted invoice record
-          const submittedInvoiceData = {
-            invoiceId: invoice.invoiceId,
-            sellerId: invoice.sellerId,
-            debtorId: invoice.debtorId,
-            currency: invoice.currency,
-            amount: invoice.amount,
-            product: invoice.product,
-            issueDate: invoice.issueDate,
-            dueDate: invoice.dueDate,
-            uploadDate: invoice.uploadDate,
-            submittedDate: currentDate,
-            submittedAt: currentDateTime,
-            originalUploadJobId: invoice.uploadJobId,
-            originalInvoiceId: invoice.id,
-            // Copy PDF information (S3 files remain untouched)
-            pdfS3Key: invoice.pdfS3Key,
-            pdfFileName: invoice.pdfFileName,
-            pdfUploadedAt: invoice.pdfUploadedAt,
-            pdfS3FullPath: invoice.pdfS3FullPath,
-            // Submission metadata
-            submittedBy: 'user', // Could get actual user info if needed
-          };
-
-          const createResult = await client.models.SubmittedInvoice.create(submittedInvoiceData);
-
-          if (createResult.errors) {
-            console.error(`❌ [SUBMIT] Failed to create submitted invoice for ${invoice.invoiceId}:`, createResult.errors);
-            failCount++;
-            errors.push(`Failed to submit invoice ${invoice.invoiceId}: ${createResult.errors[0]?.message || 'Unknown error'}`);
+          const result = await client.mutations.submitInvoiceBatch({
+            invoiceIds: batch.map(invoice => invoice.id),
+            blockPdfMismatches, // The function reads every PDF again and applies this to its own result
+            ...(submissionBatchId
+              ? { submissionBatchId }
+              : { organizationId: activeOrganizationId ?? undefined, note: batchNote.trim() || undefined })
+          });
+
+          if (result.errors || !result.data) {
+            console.error('❌ [SUBMIT] Batch submission failed:', result.errors);
+            failCount += batch.length;
+            errors.push(`Failed to submit ${batch.length} invoice(s): ${result.errors?.[0]?.message || 'Unknown error'}`);
           } else {
-            console.log(`✅ [SUBMIT] Successfully created submitted invoice for ${invoice.invoiceId}`);
-            successCount++;
+            if (!submissionBatchId) {
+              submissionBatchId = result.data.submissionBatchId;
+              batchNumber = result.data.batchNumber;
+              console.log('📦 [SUBMIT] Submission batch opened:', formatBatchNumber(batchNumber), submissionBatchId);
+            }
+            console.log('✅ [SUBMIT] Batch submission result:', {
+              submitted: result.data.submittedCount,
+              alreadySubmitted: result.data.alreadySubmittedCount,
+              failed: result.data.failedCount
+            });
+            // A retry may find invoices that an earlier attempt already moved
+            successCount += result.data.submittedCount + result.data.alreadySubmittedCount;
+            failCount += result.data.failedCount;
+            result.data.outcomes
+              .filter(outcome => outcome.status === 'FAILED')
+              .forEach(outcome => errors.push(`Failed to submit invoice ${outcome.invoiceNumber || outcome.invoiceId}: ${outcome.error || 'Unknown error'}`));
           }
-          
-          // Update progress
-          const progress = ((i + 1) / validInvoices.length) * 40; // First 40% for copying
-          setSubmitProgress(progress);
-          
         } catch (error) {
-          console.error(`💥 [SUBMIT] Exception copying invoice ${invoice.invoiceId}:`, error);
-          failCount++;
-          errors.push(`Failed to submit invoice ${invoice.invoiceId}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+          console.error('💥 [SUBMIT] Exception submitting batch:', error);
+          failCount += batch.length;
+          errors.push(`Failed to submit ${batch.length} invoice(s): ${error instanceof Error ? error.message : 'Unknown error'}`);
         }
+
+        // Update progress
+        const progress = ((i + batch.length) / validInvoices.length) * 80; // First 80% for moving
+        setSubmitProgress(progress);
       }
 
-      console.log(`📊 [SUBMIT] Copy phase completed: ${successCount} successful, ${failCount} failed`);
+      console.log(`📊 [SUBMIT] Submission phase completed: ${successCount} successful, ${failCount} failed`);
 
-      // Step 2: Delete original invoices from Invoice table (only successful ones)
-      if (successCount > 0) {
-        console.log('🗑️ [SUBMIT] Step 2: Deleting original invoices from Invoice table');
-        setSubmitMessage(`Cleaning up workspace (deleting ${successCount} original records)...`);
-        
-        let deleteSuccessCount = 0;
-        
-        for (let i = 0; i < validInvoices.length; i++) {
-          const invoice = validInvoices[i];
-          
-          // Only delete if the copy was successful (check if this invoice was part of successful copies)
-          // We'll delete all that were processed successfully above
-          if (i < successCount) { // Simple approach - assumes they were processed in order
-            try {
-              console.log(`🗑️ [SUBMIT] Deleting original invoice ${i + 1}/${successCount}:`, invoice.invoiceId);
-              
-              const deleteResult = await client.models.Invoice.delete({ id: invoice.id });
-              
-              if (deleteResult.errors) {
-                console.error(`❌ [SUBMIT] Failed to delete original invoice ${invoice.invoiceId}:`, deleteResult.errors);
-                errors.push(`Failed to delete original invoice ${invoice.invoiceId}: ${deleteResult.errors[0]?.message || 'Unknown error'}`);
-              } else {
-                console.log(`✅ [SUBMIT] Successfully deleted original invoice ${invoice.invoiceId}`);
-                deleteSuccessCount++;
-              }
-              
-            } catch (error) {
-              console.error(`💥 [SUBMIT] Exception deleting invoice ${invoice.invoiceId}:`, error);
-              errors.push(`Failed to delete original invoice ${invoice.invoiceId}: ${error instanceof Error ? error.message : 'Unknown error'}`);
-            }
-          }
-          
-          // Update progress
-          const progress = 40 + ((i + 1) / successCount) * 40; // Second 40% for deletion
-          setSubmitProgress(Math.min(progress, 80));
-        }
-        
-        console.log(`📊 [SUBMIT] Delete phase completed: ${deleteSuccessCount} deleted`);
-      }
+      setBatchNote('');
+      const batchLabel = batchNumber ? ` as ${formatBatchNumber(batchNumber)}` : '';
 
       // Step 3: Refresh the UI and show results
       console.log('🔄 [SUBMIT] Step 3: Refreshing UI');
@@ -269,10 +373,10 @@ export const SubmitInvoices: React.FC<SubmitInvoicesProps> = ({
       setSubmitProgress(100);
       
       if (failCount === 0) {
-        setSubmitMessage(`✅ Successfully submitted ${successCount} invoices and cleared workspace!`);
+        setSubmitMessage(`✅ Successfully submitted ${successCount} invoices${batchLabel} and cleared workspace!`);
         console.log(`🎉 [SUBMIT] Submission completed successfully: ${successCount} invoices submitted, workspace cleared`);
       } else {
-        setSubmitMessage(`⚠️ Partially successful: ${successCount} submitted, ${failCount} failed, workspace cleared`);
+        setSubmitMessage(`⚠️ Partially successful: ${successCount} submitted${batchLabel}, ${failCount} failed, workspace cleared`);
         console.log(`⚠️ [SUBMIT] Submission partially completed: ${successCount} successful, ${failCount} failed, workspace cleared`);
         if (errors.length > 0) {
           setSubmitError(`Submission errors: ${errors.slice(0, 3).join('; ')}${errors.length > 3 ? ' ...' : ''}`);
@@ -331,9 +435,19 @@ export const SubmitInvoices: React.FC<SubmitInvoicesProps> = ({
           <h3> Submit Invoices</h3>
           <p>
             Ready to submit {submitButtonState.validInvoices} valid invoice(s) to permanent storage.
-            {submitButtonState.missingPdfs > 0 && (
-              <span className="missing-pdfs">
-                {' '}⚠️ {submitButtonState.missingPdfs} invoice(s) missing PDF files.
+            {submitButtonState.missingDocuments > 0 && (
+              <span className="missing-pdfs" title={`Missing: ${submitButtonState.missingDocumentSummary}`}>
+                {' '}⚠️ {submitButtonState.missingDocuments} invoice(s) missing required documents.
+              </span>
+            )}
+            {submitButtonState.pdfMismatches > 0 && (
+              <span className="missing-pdfs" title={submitButtonState.pdfMismatchIds.join(', ')}>
+                {' '}⚠️ {submitButtonState.pdfMismatches} PDF(s) do not match their invoice data.
+              </span>
+            )}
+            {submitButtonState.sharedPdfs > 0 && (
+              <span className="missing-pdfs" title={submitButtonState.sharedPdfIds.join(', ')}>
+                {' '}⚠️ {submitButtonState.sharedPdfs} invoice(s) share the same PDF file.
               </span>
             )}
             {checkingDuplicates && (
@@ -342,9 +456,9 @@ export const SubmitInvoices: React.FC<SubmitInvoicesProps> = ({
               </span>
             )}
           </p>
-          {!submitButtonState.enabled && submitButtonState.missingPdfs > 0 && (
+          {!submitButtonState.enabled && submitButtonState.missingDocuments > 0 && (
             <p className="submit-requirement">
-              📎 All valid invoices must have PDF files uploaded before submission.
+              📎 All valid invoices need their required documents before submission (missing: {submitButtonState.missingDocumentSummary}).
             </p>
           )}
           {!submitButtonState.enabled && submitButtonState.hasDuplicates && (
@@ -352,12 +466,54 @@ export const SubmitInvoices: React.FC<SubmitInvoicesProps> = ({
               🚫 Duplicate invoice IDs must be resolved before submission.
             </p>
           )}
+          {submitButtonState.blockedByPdfMismatches && (
+            <p className="submit-requirement">
+              🔎 PDFs flagged as mismatched must be replaced or re-checked before submission.
+            </p>
+          )}
+          {submitButtonState.blockedByCreditLimits && (
+            <p className="submit-requirement">
+              💳 {submitButtonState.creditLimitBreaches.length} debtor position(s) would exceed the credit limit. Remove
+              invoices for {submitButtonState.creditLimitBreaches.map(exposure => exposure.legalName || exposure.debtorId).join(', ')} or
+              raise the limit under Master Data.
+            </p>
+          )}
+          {submitButtonState.exposures.length > 0 && (
+            <ExposureBreakdown exposures={submitButtonState.exposures} />
+          )}
+          {Object.keys(submitButtonState.fundingSummary).length > 0 && (
+            <FundingSummary summaries={submitButtonState.fundingSummary} />
+          )}
+          <DocumentRequirementsEditor
+            organizationId={activeOrganizationId}
+            requiredTypes={requiredDocumentTypes}
+            onSaved={setRequiredDocumentTypes}
+            disabled={isSubmitting || loadingRequirements}
+          />
+          <label className="pdf-mismatch-toggle">
+            <input
+              type="checkbox"
+              checked={blockPdfMismatches}
+              onChange={(e) => handleBlockPdfMismatchesChange(e.target.checked)}
+              disabled={isSubmitting}
+            />
+            Block submission when a PDF does not match its invoice
+          </label>
           <p className="submit-note">
            💡 <strong>Note:</strong> Submitting will also clear your uploaded files list to keep your workspace clean.
           </p>
         </div>
         
         <div className="submit-actions">
+          <input
+            type="text"
+            value={batchNote}
+            onChange={(e) => setBatchNote(e.target.value)}
+            placeholder="Batch note (optional)"
+            className="batch-note-input"
+            disabled={isSubmitting}
+            maxLength={200}
+          />
           <button
             onClick={handleSubmitInvoices}
             disabled={!submitButtonState.enabled}
@@ -365,8 +521,12 @@ export const SubmitInvoices: React.FC<SubmitInvoicesProps> = ({
             title={
               !submitButtonState.enabled && submitButtonState.hasDuplicates
                 ? `Cannot submit: ${submitButtonState.duplicateCount} invoice(s) has/ve been already submitted: see below`
-                : !submitButtonState.enabled && submitButtonState.missingPdfs > 0
-                ? `Upload PDF files for ${submitButtonState.missingPdfs} invoice(s) to enable submission`
+                : !submitButtonState.enabled && submitButtonState.missingDocuments > 0
+                ? `Attach required documents for ${submitButtonState.missingDocuments} invoice(s) to enable submission`
+                : submitButtonState.blockedByPdfMismatches
+                ? `Resolve PDF mismatches for ${submitButtonState.pdfMismatches} invoice(s) to enable submission`
+                : submitButtonState.blockedByCreditLimits
+                ? `${submitButtonState.creditLimitBreaches.length} debtor position(s) would exceed the credit limit: see the debtor exposure breakdown`
                 : checkingDuplicates
                 ? 'Checking for duplicate invoices...'
                 : `Submit ${submitButtonState.validInvoices} valid invoice(s) to permanent storage and clear workspace`
@@ -501,6 +661,16 @@ export const SubmitInvoices: React.FC<SubmitInvoicesProps> = ({
           margin-top: 5px;
         }
 
+        .pdf-mismatch-toggle {
+          display: flex;
+          align-items: center;
+          gap: 6px;
+          color: #5e6e77;
+          font-size: 13px;
+          margin-top: 6px;
+          cursor: pointer;
+        }
+
         .submit-note {
           color: #059669 !important;
           font-size: 13px !important;
@@ -513,6 +683,18 @@ export const SubmitInvoices: React.FC<SubmitInvoicesProps> = ({
 
         .submit-actions {
           flex-shrink: 0;
+          display: flex;
+          align-items: center;
+          gap: 12px;
+        }
+
+        .batch-note-input {
+          padding: 12px 14px;
+          border: 1px solid #32b3e7;
+          border-radius: 8px;
+          font-size: 14px;
+          color: #002b4b;
+          width: 220px;
         }
 
         .submit-btn {
@@ -620,6 +802,15 @@ export const SubmitInvoices: React.FC<SubmitInvoicesProps> = ({
             gap: 15px;
           }
 
+          .submit-actions {
+            flex-direction: column;
+            align-items: stretch;
+          }
+
+          .batch-note-input {
+            width: auto;
+          }
+
           .submit-btn {
             min-width: auto;
             width: 100%;
@@ -0,0 +1,509 @@
+// components/UploadPreview.tsx - Review parsed rows before anything is written to the Invoice table
+import React, { useState, useMemo } from 'react';
+import type { InvoiceData, ProcessingError } from '../../../shared/invoiceProcessing/types';
+
+type PreviewFilter = 'all' | 'valid' | 'invalid' | 'excluded';
+
+interface UploadPreviewProps {
+  fileName: string;
+  invoices: InvoiceData[];
+  parseErrors: ProcessingError[];
+  onConfirm: (excludedRows: Set<number>) => void;
+  onCancel: () => void;
+}
+
+export const UploadPreview: React.FC<UploadPreviewProps> = ({
+  fileName,
+  invoices,
+  parseErrors,
+  onConfirm,
+  onCancel
+}) => {
+  const [excludedRows, setExcludedRows] = useState<Set<number>>(new Set());
+  const [filter, setFilter] = useState<PreviewFilter>('all');
+  const [currentPage, setCurrentPage] = useState(1);
+  const itemsPerPage = 50;
+
+  const summary = useMemo(() => {
+    const validRows = invoices.filter(inv => inv.isValid);
+    const includedValid = validRows.filter(inv => !excludedRows.has(inv.rowNumber));
+
+    // Totals only cover rows that will actually be imported
+    const currencyTotals = includedValid.reduce((acc, inv) => {
+      acc[inv.currency] = (acc[inv.currency] || 0) + inv.amount;
+      return acc;
+    }, {} as Record<string, number>);
+
+    return {
+      valid: validRows.length,
+      invalid: invoices.length - validRows.length,
+      malformed: parseErrors.length,
+      excluded: excludedRows.size,
+      toImport: includedValid.length,
+      currencyTotals
+    };
+  }, [invoices, parseErrors, excludedRows]);
+
+  const filteredInvoices = useMemo(() => {
+    switch (filter) {
+      case 'valid':
+        return invoices.filter(inv => inv.isValid);
+      case 'invalid':
+        return invoices.filter(inv => !inv.isValid);
+      case 'excluded':
+        return invoices.filter(inv => excludedRows.has(inv.rowNumber));
+      default:
+        return invoices;
+    }
+  }, [invoices, filter, excludedRows]);
+
+  const totalPages = Math.max(1, Math.ceil(filteredInvoices.length / itemsPerPage));
+  const paginatedInvoices = filteredInvoices.slice((currentPage - 1) * itemsPerPage, currentPage * itemsPerPage);
+
+  const toggleRow = (rowNumber: number) => {
+    setExcludedRows(prev => {
+      const next = new Set(prev);
+      if (next.has(rowNumber)) {
+        next.delete(rowNumber);
+      } else {
+        next.add(rowNumber);
+      }
+      return next;
+    });
+  };
+
+  const setAllExcluded = (exclude: boolean) => {
+    setExcludedRows(exclude ? new Set(invoices.map(inv => inv.rowNumber)) : new Set());
+  };
+
+  const handleFilterChange = (value: PreviewFilter) => {
+    setFilter(value);
+    setCurrentPage(1);
+  };
+
+  const formatCurrency = (amount: number, currency: string): string => {
+    try {
+      return new Intl.NumberFormat('en-US', {
+        style: 'currency',
+        currency,
+        minimumFractionDigits: 2
+      }).format(amount);
+    } catch {
+      return `${currency} ${amount.toFixed(2)}`;
+    }
+  };
+
+  return (
+    <div className="preview-overlay">
+      <div className="preview-modal" role="dialog" aria-labelledby="preview-title">
+        <div className="preview-header">
+          <h3 id="preview-title">👀 Review Upload</h3>
+          <p>
+            <strong>{fileName}</strong> — untick rows you don't want to import. Invalid rows are never imported and are
+            recorded as failures. Nothing is saved until you confirm.
+          </p>
+        </div>
+
+        <div className="preview-summary">
+          <div className="summary-item valid">✅ {summary.valid} Valid</div>
+          <div className="summary-item invalid">❌ {summary.invalid} Invalid</div>
+          {summary.malformed > 0 && (
+            <div className="summary-item invalid">⚠️ {summary.malformed} Unreadable</div>
+          )}
+          <div className="summary-item excluded">🚫 {summary.excluded} Excluded</div>
+          <div className="summary-item import">📥 {summary.toImport} To Import</div>
+        </div>
+
+        {Object.keys(summary.currencyTotals).length > 0 && (
+          <div className="preview-totals">
+            <strong>Totals to import:</strong>
+            {Object.entries(summary.currencyTotals).map(([currency, total]) => (
+              <span key={currency} className="currency-total">{formatCurrency(total, currency)}</span>
+            ))}
+          </div>
+        )}
+
+        {parseErrors.length > 0 && (
+          <details className="preview-parse-errors">
+            <summary>⚠️ {parseErrors.length} row(s) could not be read</summary>
+            <ul>
+              {parseErrors.map((parseError, index) => (
+                <li key={index}>{parseError.errors.join('; ')}</li>
+              ))}
+            </ul>
+          </details>
+        )}
+
+        <div className="preview-toolbar">
+          <select value={filter} onChange={(e) => handleFilterChange(e.target.value as PreviewFilter)}>
+            <option value="all">All rows ({invoices.length})</option>
+            <option value="valid">Valid only ({summary.valid})</option>
+            <option value="invalid">Invalid only ({summary.invalid})</option>
+            <option value="excluded">Excluded ({summary.excluded})</option>
+          </select>
+          <div className="toolbar-actions">
+            <button onClick={() => setAllExcluded(false)} className="toolbar-btn">Include All</button>
+            <button onClick={() => setAllExcluded(true)} className="toolbar-btn">Exclude All</button>
+          </div>
+        </div>
+
+        <div className="preview-table-container">
+          <table className="preview-table">
+            <thead>
+              <tr>
+                <th>Import</th>
+                <th>Row</th>
+                <th>Status</th>
+                <th>Invoice ID</th>
+                <th>Seller ID</th>
+                <th>Debtor ID</th>
+                <th>Product</th>
+                <th>Issue Date</th>
+                <th>Due Date</th>
+                <th>Amount</th>
+                <th>Validation Errors</th>
+              </tr>
+            </thead>
+            <tbody>
+              {paginatedInvoices.map(invoice => {
+                const isExcluded = excludedRows.has(invoice.rowNumber);
+                return (
+                  <tr
+                    key={invoice.rowNumber}
+                    className={`${!invoice.isValid ? 'invalid-row' : ''} ${isExcluded ? 'excluded-row' : ''}`}
+                  >
+                    <td>
+                      <input
+                        type="checkbox"
+                        checked={!isExcluded}
+                        onChange={() => toggleRow(invoice.rowNumber)}
+                        aria-label={`Import row ${invoice.rowNumber}`}
+                      />
+                    </td>
+                    <td className="row-number">{invoice.rowNumber}</td>
+                    <td>
+                      <span className={`format-badge ${invoice.isValid ? 'valid' : 'invalid'}`}>
+                        {invoice.isValid ? '✅ Valid' : '❌ Invalid'}
+                      </span>
+                    </td>
+                    <td className="mono">{invoice.invoiceId || '—'}</td>
+                    <td className="mono">{invoice.sellerId || '—'}</td>
+                    <td className="mono">{invoice.debtorId || '—'}</td>
+                    <td>{invoice.product || '—'}</td>
+                    <td>{invoice.issueDate || '—'}</td>
+                    <td>{invoice.dueDate || '—'}</td>
+                    <td className="amount-cell">
+                      {invoice.currency && invoice.amount ? formatCurrency(invoice.amount, invoice.currency) : '—'}
+                    </td>
+                    <td className="errors-cell">
+                      {invoice.validationErrors.length > 0 && (
+                        <ul>
+                          {invoice.validationErrors.map((validationError, index) => (
+                            <li key={index}>{validationError}</li>
+                          ))}
+                        </ul>
+                      )}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+
+        {totalPages > 1 && (
+          <div className="preview-pagination">
+            <button disabled={currentPage === 1} onClick={() => setCurrentPage(currentPage - 1)} className="toolbar-btn">
+              ← Previous
+            </button>
+            <span>Page {currentPage} of {totalPages}</span>
+            <button disabled={currentPage === totalPages} onClick={() => setCurrentPage(currentPage + 1)} className="toolbar-btn">
+              Next →
+            </button>
+          </div>
+        )}
+
+        <div className="preview-actions">
+          <button onClick={onCancel} className="preview-abort-btn">
+            🗑️ Abort File
+          </button>
+          <button
+            onClick={() => onConfirm(excludedRows)}
+            disabled={summary.toImport === 0}
+            className="preview-confirm-btn"
+            title={summary.toImport === 0 ? 'No valid rows selected for import' : undefined}
+          >
+            📥 Import {summary.toImport} Invoice{summary.toImport !== 1 ? 's' : ''}
+          </button>
+        </div>
+      </div>
+
+      <style>{`
+        .preview-overlay {
+          position: fixed;
+          inset: 0;
+          background: rgba(0, 43, 75, 0.55);
+          display: flex;
+          align-items: center;
+          justify-content: center;
+          z-index: 2000;
+          padding: 20px;
+        }
+
+        .preview-modal {
+          background: white;
+          border-radius: 12px;
+          box-shadow: 0 20px 50px rgba(0, 0, 0, 0.25);
+          width: 100%;
+          max-width: 1200px;
+          max-height: 92vh;
+          display: flex;
+          flex-direction: column;
+          padding: 24px;
+          font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif;
+        }
+
+        .preview-header h3 {
+          margin: 0 0 6px 0;
+          color: #002b4b;
+          font-size: 20px;
+        }
+
+        .preview-header p {
+          margin: 0 0 16px 0;
+          color: #5e6e77;
+          font-size: 14px;
+        }
+
+        .preview-summary {
+          display: flex;
+          flex-wrap: wrap;
+          gap: 10px;
+          margin-bottom: 12px;
+        }
+
+        .summary-item {
+          padding: 6px 12px;
+          border-radius: 16px;
+          font-size: 13px;
+          font-weight: 600;
+        }
+
+        .summary-item.valid {
+          background: #c6f6d5;
+          color: #276749;
+        }
+
+        .summary-item.invalid {
+          background: #fed7d7;
+          color: #c53030;
+        }
+
+        .summary-item.excluded {
+          background: #edf2f7;
+          color: #4a5568;
+        }
+
+        .summary-item.import {
+          background: rgba(50, 179, 231, 0.15);
+          color: #002b4b;
+        }
+
+        .preview-totals {
+          display: flex;
+          flex-wrap: wrap;
+          align-items: center;
+          gap: 12px;
+          margin-bottom: 12px;
+          font-size: 13px;
+          color: #002b4b;
+        }
+
+        .currency-total {
+          font-family: monospace;
+          font-weight: 600;
+        }
+
+        .preview-parse-errors {
+          margin-bottom: 12px;
+          padding: 10px 12px;
+          background: #fffbeb;
+          border: 1px solid #f59e0b;
+          border-radius: 6px;
+          color: #92400e;
+          font-size: 13px;
+        }
+
+        .preview-parse-errors ul {
+          margin: 8px 0 0 0;
+          padding-left: 20px;
+        }
+
+        .preview-toolbar {
+          display: flex;
+          justify-content: space-between;
+          align-items: center;
+          gap: 10px;
+          margin-bottom: 10px;
+        }
+
+        .preview-toolbar select {
+          padding: 6px 8px;
+          border: 1px solid #32b3e7;
+          border-radius: 4px;
+          color: #002b4b;
+          font-size: 13px;
+        }
+
+        .toolbar-actions {
+          display: flex;
+          gap: 8px;
+        }
+
+        .toolbar-btn {
+          padding: 6px 12px;
+          background: white;
+          border: 1px solid #32b3e7;
+          border-radius: 4px;
+          color: #002b4b;
+          font-size: 12px;
+          cursor: pointer;
+        }
+
+        .toolbar-btn:hover:not(:disabled) {
+          background: rgba(50, 179, 231, 0.1);
+        }
+
+        .toolbar-btn:disabled {
+          opacity: 0.5;
+          cursor: not-allowed;
+        }
+
+        .preview-table-container {
+          flex: 1;
+          overflow: auto;
+          border: 1px solid #e2e8f0;
+          border-radius: 8px;
+          min-height: 200px;
+        }
+
+        .preview-table {
+          width: 100%;
+          border-collapse: collapse;
+          font-size: 12px;
+        }
+
+        .preview-table th {
+          position: sticky;
+          top: 0;
+          background: linear-gradient(135deg, #002b4b, #32b3e7);
+          color: white;
+          padding: 8px 10px;
+          text-align: left;
+          white-space: nowrap;
+        }
+
+        .preview-table td {
+          padding: 6px 10px;
+          border-bottom: 1px solid #e2e8f0;
+          vertical-align: top;
+        }
+
+        .preview-table .invalid-row {
+          background: #fff5f5;
+        }
+
+        .preview-table .excluded-row {
+          opacity: 0.5;
+        }
+
+        .preview-table .mono {
+          font-family: monospace;
+          font-size: 11px;
+        }
+
+        .preview-table .row-number {
+          color: #9ca3af;
+        }
+
+        .preview-table .amount-cell {
+          text-align: right;
+          white-space: nowrap;
+          font-weight: 600;
+        }
+
+        .preview-table .errors-cell ul {
+          margin: 0;
+          padding-left: 16px;
+          color: #c53030;
+        }
+
+        .preview-table .format-badge {
+          padding: 2px 6px;
+          border-radius: 4px;
+          font-size: 11px;
+          white-space: nowrap;
+        }
+
+        .preview-table .format-badge.valid {
+          background: #c6f6d5;
+          color: #276749;
+        }
+
+        .preview-table .format-badge.invalid {
+          background: #fed7d7;
+          color: #c53030;
+        }
+
+        .preview-pagination {
+          display: flex;
+          justify-content: center;
+          align-items: center;
+          gap: 12px;
+          margin-top: 10px;
+          font-size: 13px;
+          color: #5e6e77;
+        }
+
+        .preview-actions {
+          display: flex;
+          justify-content: flex-end;
+          gap: 12px;
+          margin-top: 16px;
+        }
+
+        .preview-abort-btn,
+        .preview-confirm-btn {
+          padding: 10px 18px;
+          border-radius: 6px;
+          font-size: 14px;
+          font-weight: 600;
+          cursor: pointer;
+          transition: all 0.2s;
+        }
+
+        .preview-abort-btn {
+          background: linear-gradient(135deg, #fed7d7, #feb2b2);
+          border: 1px solid #f87171;
+          color: #dc2626;
+        }
+
+        .preview-confirm-btn {
+          background: linear-gradient(135deg, #32b3e7, #1a9bd8);
+          border: none;
+          color: white;
+        }
+
+        .preview-confirm-btn:hover:not(:disabled) {
+          transform: translateY(-1px);
+          box-shadow: 0 4px 12px rgba(50, 179, 231, 0.3);
+        }
+
+        .preview-confirm-btn:disabled {
+          background: #cbd5e0;
+          cursor: not-allowed;
+        }
+      `}</style>
+    </div>
+  );
+};
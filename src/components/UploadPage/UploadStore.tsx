@@ -1,12 +1,72 @@
 // components/UploadStore.tsx - Enhanced with session-based permissions and fixed height - CURRENT SESSION ONLY
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useEffect, useCallback, useRef } from 'react';
 import { uploadData, list, remove, getUrl } from 'aws-amplify/storage';
+import { fetchAuthSession } from 'aws-amplify/auth';
 import { generateClient } from 'aws-amplify/data';
-import * as XLSX from 'xlsx';
 import type { Schema } from '../../../amplify/data/resource';
+import { SUPPORTED_DELIMITERS, DELIMITER_LABELS } from '../../../shared/invoiceProcessing/csvParser';
+import type { CsvRow, CsvDelimiter } from '../../../shared/invoiceProcessing/csvParser';
+import {
+  INVOICE_FIELDS,
+  getMissingFields,
+  headerSignature,
+  isIdentityMapping,
+  parseStoredMapping,
+  suggestColumnMapping,
+} from '../../../shared/invoiceProcessing/columnMapping';
+import type { ColumnMapping, MappingSuggestion } from '../../../shared/invoiceProcessing/columnMapping';
+import { ColumnMappingWizard } from './ColumnMappingWizard';
+import { UploadPreview } from './UploadPreview';
+import { SheetSelector } from './SheetSelector';
+import type { InvoiceData, ProcessingError } from '../../../shared/invoiceProcessing/types';
+import {
+  INVOICE_FILE_ACCEPT,
+  UPLOAD_JOB_METADATA_KEY,
+  getInvoiceFileType,
+  isSupportedInvoiceFile,
+  isWorkbookFileType,
+  listWorkbookSheets,
+  readInvoiceFile,
+  validateInvoiceRows,
+} from '../../../shared/invoiceProcessing/invoiceFile';
+import type { InvoiceFileType, WorkbookSheet } from '../../../shared/invoiceProcessing/invoiceFile';
+import { markDuplicateInvoices, markUnregisteredParties } from '../../../shared/invoiceProcessing/validation';
+import type { ExistingInvoice } from '../../../shared/invoiceProcessing/validation';
+import { getWorkspaceFilter, getWorkspaceStoragePrefix, useActiveOrganization } from '../../context/organizationContext';
+import { getPdfFileNamesByRow, isZipFile, matchPdfsToInvoices, readInvoiceArchive } from '../../utils/invoiceArchive';
+import { attachInvoicePdf } from '../../utils/invoicePdf';
+import { sha256Hex } from '../../utils/fileHash';
+import { findEarlierUploadJobs, getUploadJobAnchor } from '../../utils/duplicateFiles';
+import { fetchPartyRegistry } from '../../utils/partyRegistry';
+import { DuplicateUploadDialog } from './DuplicateUploadDialog';
+import { ErrorReportLinks } from '../ErrorReportLinks';
+import { hasErrorReport } from '../../utils/errorReport';
+import { fetchWorkspaceSettings, getValidationRules } from '../../utils/workspaceSettings';
 
 const client = generateClient<Schema>();
 
+// Invoices already in the workspace, so the preview flags the same duplicates the Lambda will
+const listWorkspaceInvoices = async (organizationId: string | null): Promise<ExistingInvoice[]> => {
+  const filter = await getWorkspaceFilter(organizationId);
+  const existing: ExistingInvoice[] = [];
+  let nextToken: string | null | undefined;
+
+  do {
+    const result = await client.models.Invoice.list({
+      filter,
+      selectionSet: ['invoiceId', 'sellerId', 'debtorId', 'amount', 'issueDate'],
+      nextToken,
+    });
+    if (result.errors) {
+      throw new Error(`Failed to load existing invoices: ${result.errors[0]?.message || 'Unknown error'}`);
+    }
+    existing.push(...result.data);
+    nextToken = result.nextToken;
+  } while (nextToken);
+
+  return existing;
+};
+
 // Extend Window interface to include our refresh function
 declare global {
   interface Window {
@@ -28,6 +88,7 @@ interface EnhancedFileItem extends FileItem {
   hasActiveInvoices: boolean;
   hasSubmittedInvoices: boolean;
   associatedJobId?: string;
+  associatedJob?: Schema["InvoiceUploadJob"]["type"];
   processingStatus?: string;
 }
 
@@ -37,38 +98,100 @@ interface UploadProgress {
   isUploading: boolean;
   isProcessing: boolean;
   processingProgress: number;
+  isAwaitingReview?: boolean;
+  isCancelled?: boolean;
+}
+
+interface PreviewRequest {
+  fileName: string;
+  invoices: InvoiceData[];
+  parseErrors: ProcessingError[];
+}
+
+const JOB_POLL_INTERVAL_MS = 3000;
+const JOB_WATCH_TIMEOUT_MS = 10 * 60 * 1000;
+
+// Thrown when the user backs out of the mapping or preview step; nothing has been written yet
+class UploadCancelledError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UploadCancelledError';
+  }
 }
 
-interface ProcessingError {
-  row: number;
-  invoice_id?: string;
-  errors: string[];
+interface MappingRequest {
+  fileName: string;
+  headers: string[];
+  sampleRows: CsvRow[];
+  suggestion: MappingSuggestion;
+  profiles: Schema["ColumnMappingProfile"]["type"][];
+}
+
+interface SheetRequest {
+  fileName: string;
+  sheets: WorkbookSheet[];
+}
+
+interface MappingDecision {
+  mapping: ColumnMapping;
+  profileName: string | null;
 }
 
-interface InvoiceData {
-  invoiceId: string;
-  sellerId: string;
-  debtorId: string;
-  currency: string;
-  amount: number;
-  product: string;
-  issueDate: string;
-  dueDate: string;
-  isValid: boolean;
-  validationErrors: string[];
+interface ParsedFile {
+  invoices: InvoiceData[];
+  parseErrors: ProcessingError[]; // Records that could not be read at all
+  delimiter?: CsvDelimiter;
+  sheetNames?: string[];
+  columnMapping: ColumnMapping;
+  pdfFileNames: Map<number, string>; // Row number -> PDF named in a pdf_filename column
+}
+
+// One invoice file to process, with the PDFs that arrived alongside it in a ZIP
+interface InvoiceUpload {
+  file: File;
+  pdfs: File[];
+  archiveName?: string;
+  ignoredFiles?: string[];
+  duplicatePdfs?: string[];
+}
+
+interface DuplicateRequest {
+  fileName: string;
+  earlierJobs: Schema["InvoiceUploadJob"]["type"][];
 }
 
-interface CsvRow {
-  [key: string]: string;
+interface ArchiveReport {
+  archiveName: string;
+  attachedCount: number;
+  unmatchedPdfs: string[];
+  invoicesWithoutPdf: string[];
+  failedPdfs: { fileName: string; message: string }[];
+  ignoredFiles: string[];
+  duplicatePdfs: string[];
 }
 
 export const UploadStore: React.FC = () => {
+  const { activeOrganizationId } = useActiveOrganization();
   const [files, setFiles] = useState<EnhancedFileItem[]>([]);
   const [uploadProgress, setUploadProgress] = useState<UploadProgress[]>([]);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [deletingFiles, setDeletingFiles] = useState<Set<string>>(new Set());
   const [downloadingFiles, setDownloadingFiles] = useState<Set<string>>(new Set());
+  const [csvDelimiter, setCsvDelimiter] = useState<CsvDelimiter | 'auto'>('auto');
+  const [mappingRequest, setMappingRequest] = useState<MappingRequest | null>(null);
+  const [sheetRequest, setSheetRequest] = useState<SheetRequest | null>(null);
+  // Resolves with the chosen sheet names, or null if the file was aborted
+  const sheetResolverRef = useRef<((sheetNames: string[] | null) => void) | null>(null);
+  // Resolves the promise awaited by resolveColumnMapping once the wizard closes
+  const mappingResolverRef = useRef<((decision: MappingDecision | null) => void) | null>(null);
+  const [previewRequest, setPreviewRequest] = useState<PreviewRequest | null>(null);
+  const [archiveReports, setArchiveReports] = useState<ArchiveReport[]>([]);
+  // Resolves with the row numbers the user excluded, or null if the file was aborted
+  const previewResolverRef = useRef<((excludedRows: Set<number> | null) => void) | null>(null);
+  const [duplicateRequest, setDuplicateRequest] = useState<DuplicateRequest | null>(null);
+  // Resolves true when the user uploads a previously seen file anyway
+  const duplicateResolverRef = useRef<((uploadAnyway: boolean) => void) | null>(null);
 
   // Check if a file is from current session (has active invoices vs submitted invoices)
   const checkFileSessionStatus = async (filePath: string): Promise<{
@@ -76,6 +199,7 @@ export const UploadStore: React.FC = () => {
     hasActiveInvoices: boolean;
     hasSubmittedInvoices: boolean;
     associatedJobId?: string;
+    associatedJob?: Schema["InvoiceUploadJob"]["type"];
     processingStatus?: string;
   }> => {
     try {
@@ -187,6 +311,7 @@ export const UploadStore: React.FC = () => {
         hasActiveInvoices,
         hasSubmittedInvoices,
         associatedJobId: job.id,
+        associatedJob: job,
         processingStatus: job.status
       };
 
@@ -214,14 +339,17 @@ export const UploadStore: React.FC = () => {
           if (!identityId) {
             throw new Error('User not authenticated');
           }
-          return `user-files/${identityId}/`;
+          return getWorkspaceStoragePrefix(identityId, activeOrganizationId);
         },
         options: {
           listAll: true
         }
       });
 
-      const baseFiles = result.items || [];
+      // The personal folder also contains each organization's subfolder
+      const baseFiles = (result.items || []).filter(file =>
+        activeOrganizationId || !file.path.includes('/organizations/')
+      );
       console.log('📁 [DEBUG] Found', baseFiles.length, 'base files');
 
       // Check session status for each file
@@ -269,7 +397,7 @@ export const UploadStore: React.FC = () => {
     } finally {
       setLoading(false);
     }
-  }, []);
+  }, [activeOrganizationId]);
 
   // Download file functionality
   const handleDownloadFile = async (filePath: string) => {
@@ -319,6 +447,20 @@ export const UploadStore: React.FC = () => {
     loadFiles();
   }, [loadFiles]);
 
+  // Don't leave processing waiting on a wizard that can no longer be answered
+  useEffect(() => {
+    return () => {
+      sheetResolverRef.current?.(null);
+      sheetResolverRef.current = null;
+      mappingResolverRef.current?.(null);
+      mappingResolverRef.current = null;
+      previewResolverRef.current?.(null);
+      previewResolverRef.current = null;
+      duplicateResolverRef.current?.(false);
+      duplicateResolverRef.current = null;
+    };
+  }, []);
+
   // Expose functions globally for other components to use
   useEffect(() => {
     // Store the refresh function globally so other components can call it
@@ -339,35 +481,193 @@ export const UploadStore: React.FC = () => {
     };
   }, [loadFiles, clearFilesList]);
 
-  // Frontend processing logic
-  const processInvoiceFile = async (fileKey: string, fileName: string, progressIndex: number) => {
-    console.log('🚀 [DEBUG] Starting processInvoiceFile:', { fileKey, fileName, progressIndex });
+  // Follow the server-side job until it finishes. The Lambda keeps going even if this tab is closed.
+  const watchUploadJob = (jobId: string, progressIndex: number): Promise<Schema["InvoiceUploadJob"]["type"]> =>
+    new Promise((resolve, reject) => {
+      let settled = false;
+
+      const applyJobUpdate = (job: Schema["InvoiceUploadJob"]["type"] | null) => {
+        if (settled || !job) return;
+
+        const processed = (job.successfulInvoices || 0) + (job.failedInvoices || 0);
+        const processingProgress = job.totalInvoices ? Math.min(99, (processed / job.totalInvoices) * 100) : 5;
+        console.log('📡 [JOB] Job update:', { id: job.id, status: job.status, processed, total: job.totalInvoices });
+
+        setUploadProgress(prev => 
+          prev.map((item, i) => 
+            i === progressIndex ? { ...item, processingProgress } : item
+          )
+        );
+
+        if (job.status === 'COMPLETED' || job.status === 'FAILED') {
+          settled = true;
+          cleanup();
+          resolve(job);
+        }
+      };
+
+      const subscription = client.models.InvoiceUploadJob.onUpdate({
+        filter: { id: { eq: jobId } }
+      }).subscribe({
+        next: applyJobUpdate,
+        error: (err: Error) => console.error('❌ [JOB] Job subscription error:', err)
+      });
+
+      // Polling fallback in case subscription events are missed
+      const pollTimer = setInterval(async () => {
+        try {
+          const result = await client.models.InvoiceUploadJob.get({ id: jobId });
+          applyJobUpdate(result.data);
+        } catch (pollError) {
+          console.error('❌ [JOB] Job polling failed:', pollError);
+        }
+      }, JOB_POLL_INTERVAL_MS);
+
+      const timeoutTimer = setTimeout(() => {
+        if (settled) return;
+        settled = true;
+        cleanup();
+        reject(new Error('Still processing on the server - the results will appear once the job completes'));
+      }, JOB_WATCH_TIMEOUT_MS);
+
+      const cleanup = () => {
+        subscription.unsubscribe();
+        clearInterval(pollTimer);
+        clearTimeout(timeoutTimer);
+      };
+    });
+
+  // Pair archive PDFs with the invoices the Lambda created for this job and upload them next to each invoice
+  const attachArchivePdfs = async (
+    upload: InvoiceUpload,
+    jobId: string,
+    pdfFileNameByInvoiceId: Map<string, string>
+  ) => {
+    const invoices: Schema["Invoice"]["type"][] = [];
+    let nextToken: string | null | undefined;
+    do {
+      const result = await client.models.Invoice.list({ filter: { uploadJobId: { eq: jobId } }, nextToken });
+      invoices.push(...result.data);
+      nextToken = result.nextToken;
+    } while (nextToken);
+
+    const { matches, unmatchedPdfs, invoicesWithoutPdf } = matchPdfsToInvoices(
+      invoices,
+      upload.pdfs,
+      invoice => pdfFileNameByInvoiceId.get(invoice.invoiceId)
+    );
+    console.log('📎 [ARCHIVE] PDF matching:', {
+      archive: upload.archiveName,
+      matched: matches.length,
+      unmatchedPdfs: unmatchedPdfs.length,
+      invoicesWithoutPdf: invoicesWithoutPdf.length
+    });
+
+    const failedPdfs: ArchiveReport["failedPdfs"] = [];
+    for (const { invoice, pdf } of matches) {
+      try {
+        await attachInvoicePdf(invoice, pdf, { organizationId: invoice.organizationId });
+      } catch (attachError) {
+        console.error('❌ [ARCHIVE] Failed to attach PDF:', { invoiceId: invoice.invoiceId, pdf: pdf.name, attachError });
+        failedPdfs.push({ fileName: pdf.name, message: attachError instanceof Error ? attachError.message : 'Unknown error' });
+      }
+    }
+
+    setArchiveReports(prev => [...prev, {
+      archiveName: upload.archiveName || upload.file.name,
+      attachedCount: matches.length - failedPdfs.length,
+      unmatchedPdfs: unmatchedPdfs.map(pdf => pdf.name),
+      invoicesWithoutPdf: invoicesWithoutPdf.map(invoice => invoice.invoiceId),
+      failedPdfs,
+      ignoredFiles: upload.ignoredFiles || [],
+      duplicatePdfs: upload.duplicatePdfs || [],
+    }]);
+  };
+
+  // Parse and review locally, then upload. The S3 onUpload Lambda writes the invoices.
+  const processInvoiceFile = async (upload: InvoiceUpload, progressIndex: number) => {
+    const { file } = upload;
+    console.log('🚀 [DEBUG] Starting processInvoiceFile:', { fileName: file.name, archive: upload.archiveName, progressIndex });
     
     let job: Schema["InvoiceUploadJob"]["type"] | null = null;
+    let uploaded = false;
     
     try {
-      const fileType = fileName.toLowerCase().endsWith('.csv') ? 'CSV' : 'XLSX';
+      const fileType = getInvoiceFileType(file.name);
       console.log('📄 [DEBUG] File type determined:', fileType);
-      
-      // Update progress - processing started
+
+      // The S3 key is unique per upload, so identical files are recognised by content
+      const fileSha256 = await sha256Hex(file);
+      const earlierJobs = await findEarlierUploadJobs(fileSha256, activeOrganizationId);
+      if (earlierJobs.length > 0) {
+        console.warn('♻️ [DUPLICATES] File was uploaded before:', { fileName: file.name, jobs: earlierJobs.map(job => job.id) });
+        const uploadAnyway = await new Promise<boolean>(resolve => {
+          duplicateResolverRef.current = resolve;
+          setDuplicateRequest({ fileName: file.name, earlierJobs });
+        });
+        if (!uploadAnyway) {
+          throw new UploadCancelledError('Upload skipped: file was uploaded before');
+        }
+      }
+
+      // Parse, map and validate in the browser so the user can review before anything is written
+      console.log('📥 [DEBUG] Starting local file parsing...');
+      const { invoices: parsedInvoices, parseErrors, delimiter, sheetNames, columnMapping, pdfFileNames } = await parseLocalFile(file, fileType);
+      console.log('📥 [DEBUG] File parsing completed:', {
+        totalRecords: parsedInvoices.length,
+        malformedRecords: parseErrors.length,
+        validRecords: parsedInvoices.filter(inv => inv.isValid).length,
+        invalidRecords: parsedInvoices.filter(inv => !inv.isValid).length,
+        sampleData: parsedInvoices.slice(0, 2)
+      });
+
+      // Preview: nothing is written until the user accepts the rows
+      const excludedRows = await new Promise<Set<number> | null>(resolve => {
+        previewResolverRef.current = resolve;
+        setPreviewRequest({ fileName: file.name, invoices: parsedInvoices, parseErrors });
+      });
+
+      if (!excludedRows) {
+        throw new UploadCancelledError('Upload aborted from preview');
+      }
+
+      console.log('👀 [PREVIEW] Rows accepted:', {
+        accepted: parsedInvoices.length - excludedRows.size,
+        excluded: excludedRows.size
+      });
+
       setUploadProgress(prev => 
         prev.map((item, i) => 
-          i === progressIndex ? { ...item, isProcessing: true, processingProgress: 10 } : item
+          i === progressIndex ? { ...item, isAwaitingReview: false, isUploading: true } : item
         )
       );
-      console.log('✅ [DEBUG] Processing progress set to 10%');
 
-      // Create upload job with proper enum values
+      // The S3 key is fixed up front so the job can point at it before the trigger fires
+      const { identityId } = await fetchAuthSession();
+      if (!identityId) {
+        throw new Error('User not authenticated');
+      }
+      const fileKey = `${getWorkspaceStoragePrefix(identityId, activeOrganizationId)}${Date.now()}-${file.name}`;
+      console.log('📤 [DEBUG] Generated S3 key:', fileKey);
+
+      // Create upload job with the user's decisions; the Lambda picks it up via object metadata
       console.log('📝 [DEBUG] Creating InvoiceUploadJob...');
       const jobResult = await client.models.InvoiceUploadJob.create({
-        fileName,
-        fileType: fileType as 'CSV' | 'XLSX',
+        fileName: file.name,
+        fileType,
         s3Key: fileKey,
-        status: 'PROCESSING',
+        ownerIdentityId: identityId,
+        fileSha256,
+        status: 'PENDING',
         totalInvoices: 0,
         successfulInvoices: 0,
         failedInvoices: 0,
-        processingStartedAt: new Date().toISOString(),
+        excludedInvoices: excludedRows.size,
+        excludedRows: [...excludedRows],
+        columnMapping: JSON.stringify(columnMapping),
+        csvDelimiter: delimiter,
+        sheetNames,
+        organizationId: activeOrganizationId ?? undefined,
       });
 
       console.log('📝 [DEBUG] Job creation result:', {
@@ -384,199 +684,50 @@ export const UploadStore: React.FC = () => {
 
       job = jobResult.data;
       console.log('✅ [DEBUG] Upload job created successfully:', job.id);
-      
-      // Update progress
-      setUploadProgress(prev => 
-        prev.map((item, i) => 
-          i === progressIndex ? { ...item, processingProgress: 20 } : item
-        )
-      );
-      console.log('✅ [DEBUG] Processing progress set to 20%');
 
-      // Download and parse file
-      console.log('📥 [DEBUG] Starting file download and parsing...');
-      const invoiceData = await downloadAndParseFile(fileKey, fileType);
-      console.log('📥 [DEBUG] File parsing completed:', {
-        totalRecords: invoiceData.length,
-        validRecords: invoiceData.filter(inv => inv.isValid).length,
-        invalidRecords: invoiceData.filter(inv => !inv.isValid).length,
-        sampleData: invoiceData.slice(0, 2)
-      });
-      
-      // Update progress
+      const result = await uploadData({
+        path: fileKey,
+        data: file,
+        options: {
+          metadata: { [UPLOAD_JOB_METADATA_KEY]: job.id },
+          onProgress: ({ transferredBytes, totalBytes }) => {
+            if (totalBytes) {
+              const progress = Math.round((transferredBytes / totalBytes) * 100);
+              console.log(`📤 [DEBUG] Upload progress for ${file.name}:`, `${progress}% (${transferredBytes}/${totalBytes})`);
+              setUploadProgress(prev => 
+                prev.map((item, i) => 
+                  i === progressIndex ? { ...item, progress } : item
+                )
+              );
+            }
+          },
+        },
+      }).result;
+
+      uploaded = true;
+      console.log('✅ [DEBUG] Upload successful for', file.name, ':', result.path);
+
+      // Mark upload as completed; processing now happens server-side
       setUploadProgress(prev => 
         prev.map((item, i) => 
-          i === progressIndex ? { ...item, processingProgress: 40 } : item
+          i === progressIndex ? { ...item, isUploading: false, progress: 100, isProcessing: true, processingProgress: 5 } : item
         )
       );
-      console.log('✅ [DEBUG] Processing progress set to 40%');
-
-      // Process invoices in batches
-      if (!job?.id) {
-        throw new Error('Job ID is missing - cannot process invoices');
-      }
-      
-      const batchSize = 25;
-      let successfulCount = 0;
-      let failedCount = 0;
-      const allErrors: ProcessingError[] = [];
-      
-      const totalBatches = Math.ceil(invoiceData.length / batchSize);
-      console.log('🔄 [DEBUG] Starting batch processing:', {
-        totalRecords: invoiceData.length,
-        batchSize,
-        totalBatches
-      });
-      
-      for (let i = 0; i < invoiceData.length; i += batchSize) {
-        const batch = invoiceData.slice(i, i + batchSize);
-        const currentBatchNumber = Math.floor(i / batchSize) + 1;
-        
-        console.log(`🔄 [DEBUG] Processing batch ${currentBatchNumber}/${totalBatches}:`, {
-          batchStart: i,
-          batchSize: batch.length,
-          validInBatch: batch.filter(inv => inv.isValid).length
-        });
-        
-        const batchPromises = batch.map(async (invoice, index) => {
-          const globalIndex = i + index + 1;
-          
-          if (!job) {
-            throw new Error('Job reference is null during invoice processing');
-          }
-          
-          try {
-            if (!invoice.isValid) {
-              console.log(`⚠️ [DEBUG] Invalid invoice at row ${globalIndex}:`, invoice.validationErrors);
-              failedCount++;
-              allErrors.push({
-                row: globalIndex,
-                errors: invoice.validationErrors
-              });
-              return null;
-            }
 
-            console.log(`📝 [DEBUG] Creating invoice record for row ${globalIndex}:`, {
-              invoiceId: invoice.invoiceId,
-              amount: invoice.amount,
-              currency: invoice.currency
-            });
-
-            const result = await client.models.Invoice.create({
-              invoiceId: invoice.invoiceId,
-              sellerId: invoice.sellerId,
-              debtorId: invoice.debtorId,
-              currency: invoice.currency as 'USD' | 'EUR' | 'GBP' | 'JPY' | 'CAD' | 'AUD' | 'CHF' | 'CNY',
-              amount: invoice.amount,
-              product: invoice.product,
-              issueDate: invoice.issueDate,
-              dueDate: invoice.dueDate,
-              uploadDate: new Date().toISOString().split('T')[0],
-              uploadJobId: job.id,
-              isValid: invoice.isValid,
-              validationErrors: invoice.validationErrors,
-            });
-
-            if (result.errors) {
-              console.error(`❌ [DEBUG] Failed to create invoice at row ${globalIndex}:`, result.errors);
-              failedCount++;
-              allErrors.push({
-                row: globalIndex,
-                invoice_id: invoice.invoiceId,
-                errors: result.errors.map((error) => error.message || 'Unknown error')
-              });
-              return null;
-            }
+      const finishedJob = await watchUploadJob(job.id, progressIndex);
+      console.log(`🎉 [DEBUG] Server processing finished: ${finishedJob.successfulInvoices || 0} successful, ${finishedJob.failedInvoices || 0} failed`);
 
-            console.log(`✅ [DEBUG] Successfully created invoice at row ${globalIndex}`);
-            successfulCount++;
-            return result.data;
-          } catch (error) {
-            console.error(`❌ [DEBUG] Exception creating invoice at row ${globalIndex}:`, error);
-            failedCount++;
-            allErrors.push({
-              row: globalIndex,
-              invoice_id: invoice.invoiceId,
-              errors: [error instanceof Error ? error.message : 'Unknown error']
-            });
-            return null;
-          }
-        });
-
-        await Promise.allSettled(batchPromises);
-        
-        console.log(`✅ [DEBUG] Batch ${currentBatchNumber} completed:`, {
-          successfulSoFar: successfulCount,
-          failedSoFar: failedCount
-        });
-        
-        // Update progress
-        const progressPercent = 40 + (currentBatchNumber / totalBatches) * 50;
-        setUploadProgress(prev => 
-          prev.map((item, j) => 
-            j === progressIndex ? { ...item, processingProgress: progressPercent } : item
-          )
-        );
-        console.log(`✅ [DEBUG] Processing progress set to ${progressPercent.toFixed(1)}%`);
+      if (finishedJob.status === 'FAILED' && finishedJob.errorMessage) {
+        setError(`${file.name}: ${finishedJob.errorMessage}`);
       }
 
-      console.log('🏁 [DEBUG] All batches completed:', {
-        totalProcessed: successfulCount + failedCount,
-        successfulCount,
-        failedCount,
-        errorCount: allErrors.length
-      });
-
-      // Update job status
-      if (!job?.id) {
-        throw new Error('Job ID is missing - cannot update job status');
-      }
-      
-      const finalStatus = failedCount === 0 ? 'COMPLETED' : (successfulCount === 0 ? 'FAILED' : 'COMPLETED');
-      console.log(`📝 [DEBUG] Updating job status to: ${finalStatus}`);
-      
-      const errorSummary = allErrors.length > 0 ? 
-        `${allErrors.length} validation errors. Sample: ${allErrors.slice(0, 3).map(e => `Row ${e.row}: ${e.errors[0]}`).join('; ')}` : 
-        null;
-      
-      const updateData = {
-        id: job.id,
-        status: finalStatus as 'PENDING' | 'PROCESSING' | 'COMPLETED' | 'FAILED',
-        totalInvoices: invoiceData.length,
-        successfulInvoices: successfulCount,
-        failedInvoices: failedCount,
-        processingCompletedAt: new Date().toISOString(),
-        ...(errorSummary && { errorMessage: errorSummary }),
-      };
-      
-      console.log('📝 [DEBUG] Job update data:', updateData);
-      
-      try {
-        const updateResult = await client.models.InvoiceUploadJob.update(updateData);
-        console.log('📝 [DEBUG] Job update result:', {
-          hasErrors: !!updateResult.errors,
-          errors: updateResult.errors,
-          hasData: !!updateResult.data
-        });
-
-        if (updateResult.errors) {
-          console.error('❌ [DEBUG] Failed to update job status:', updateResult.errors);
-          updateResult.errors.forEach((error, index) => {
-            console.error(`❌ [DEBUG] Update error ${index + 1}:`, {
-              message: error.message,
-              path: error.path,
-              errorType: error.errorType,
-              extensions: error.extensions
-            });
-          });
-          
-          console.warn('⚠️ [DEBUG] Job status update failed, but processing completed successfully');
-        } else {
-          console.log('✅ [DEBUG] Job status updated successfully');
-        }
-      } catch (updateError) {
-        console.error('💥 [DEBUG] Exception during job update:', updateError);
-        console.warn('⚠️ [DEBUG] Job status update failed with exception, but processing completed successfully');
+      if (upload.archiveName && finishedJob.status === 'COMPLETED') {
+        const pdfFileNameByInvoiceId = new Map(
+          parsedInvoices
+            .filter(invoice => pdfFileNames.has(invoice.rowNumber))
+            .map(invoice => [invoice.invoiceId, pdfFileNames.get(invoice.rowNumber) || ''])
+        );
+        await attachArchivePdfs(upload, finishedJob.id, pdfFileNameByInvoiceId);
       }
 
       // Mark processing as complete
@@ -587,65 +738,59 @@ export const UploadStore: React.FC = () => {
       );
       console.log('✅ [DEBUG] Processing progress set to 100% - COMPLETE');
 
-      console.log(`🎉 [DEBUG] Processing completed successfully: ${successfulCount} successful, ${failedCount} failed`);
-
       // Trigger immediate invoice viewer refresh after processing
       console.log('🔄 [DEBUG] Triggering immediate refresh after invoice processing...');
       if (window.refreshInvoiceViewer) {
         window.refreshInvoiceViewer();
         
-        // Additional refreshes with different timings to handle data propagation delays
+        // Additional refresh to handle data propagation delays
         setTimeout(() => {
-          console.log('🔄 [DEBUG] First delayed refresh after processing (500ms)...');
-          if (window.refreshInvoiceViewer) {
-            window.refreshInvoiceViewer();
-          }
-        }, 500);
-        
-        setTimeout(() => {
-          console.log('🔄 [DEBUG] Second delayed refresh after processing (1500ms)...');
+          console.log('🔄 [DEBUG] Delayed refresh after processing (1500ms)...');
           if (window.refreshInvoiceViewer) {
             window.refreshInvoiceViewer();
           }
         }, 1500);
-        
-        setTimeout(() => {
-          console.log('🔄 [DEBUG] Final delayed refresh after processing (3000ms)...');
-          if (window.refreshInvoiceViewer) {
-            window.refreshInvoiceViewer();
-          }
-        }, 3000);
       }
 
     } catch (error) {
+      if (error instanceof UploadCancelledError) {
+        console.log('🚫 [DEBUG] Upload cancelled before anything was uploaded:', error.message);
+        setUploadProgress(prev => 
+          prev.map((item, i) => 
+            i === progressIndex ? { ...item, isUploading: false, isProcessing: false, isAwaitingReview: false, isCancelled: true } : item
+          )
+        );
+        return;
+      }
+
       console.error('💥 [DEBUG] Error in processInvoiceFile:', {
         error: error,
         message: error instanceof Error ? error.message : 'Unknown error',
         stack: error instanceof Error ? error.stack : undefined
       });
       
-      // Try to update job status to FAILED if we have a job reference
-      if (job?.id) {
+      // Once the file is in S3 the job belongs to the Lambda - only fail jobs whose upload never finished
+      if (job?.id && !uploaded) {
         try {
-          console.log('🔄 [DEBUG] Attempting to mark job as FAILED due to processing error...');
+          console.log('🔄 [DEBUG] Attempting to mark job as FAILED due to upload error...');
           await client.models.InvoiceUploadJob.update({
             id: job.id,
             status: 'FAILED',
-            errorMessage: error instanceof Error ? error.message : 'Unknown processing error',
+            errorMessage: error instanceof Error ? error.message : 'Unknown upload error',
             processingCompletedAt: new Date().toISOString(),
           });
           console.log('✅ [DEBUG] Job marked as FAILED successfully');
         } catch (updateError) {
           console.error('💥 [DEBUG] Failed to update job status to FAILED:', updateError);
         }
-      } else {
-        console.warn('⚠️ [DEBUG] Cannot update job status to FAILED - job reference is missing');
       }
       
+      setError(`${file.name}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+
       // Mark processing as failed
       setUploadProgress(prev => 
         prev.map((item, i) => 
-          i === progressIndex ? { ...item, isProcessing: false, processingProgress: 0 } : item
+          i === progressIndex ? { ...item, isUploading: false, isProcessing: false, isAwaitingReview: false } : item
         )
       );
       console.log('❌ [DEBUG] Processing marked as failed due to error');
@@ -669,87 +814,77 @@ export const UploadStore: React.FC = () => {
       files: fileArray.map(f => ({ name: f.name, size: f.size, type: f.type }))
     });
     
-    // Filter for invoice files only (CSV and Excel)
-    const invoiceFiles = fileArray.filter(file => 
-      /\.(csv|xlsx)$/i.test(file.name)
-    );
+    // Filter for invoice files only (CSV, spreadsheets, structured e-invoices and ZIP archives)
+    const acceptedFiles = fileArray.filter(file => isSupportedInvoiceFile(file.name) || isZipFile(file.name));
     
     console.log('📤 [DEBUG] Invoice files after filtering:', {
       originalCount: fileArray.length,
-      filteredCount: invoiceFiles.length,
-      invoiceFiles: invoiceFiles.map(f => f.name)
+      filteredCount: acceptedFiles.length,
+      invoiceFiles: acceptedFiles.map(f => f.name)
     });
     
-    if (invoiceFiles.length === 0) {
+    if (acceptedFiles.length === 0) {
       console.log('❌ [DEBUG] No valid invoice files found');
-      setError('Please select CSV or Excel files containing invoice data');
+      setError('Please select CSV, Excel, OpenDocument, JSON, UBL XML or ZIP files containing invoice data');
       return;
     }
     
-    if (invoiceFiles.length !== selectedFiles.length) {
+    if (acceptedFiles.length !== selectedFiles.length) {
       console.log('⚠️ [DEBUG] Some files were filtered out');
-      setError('Only CSV and Excel files are supported for invoice processing');
+      setError('Only CSV, Excel (.xlsx, .xlsm, .xls), OpenDocument (.ods), JSON, UBL XML and ZIP files are supported for invoice processing');
       return;
     }
 
+    // ZIP archives carry one invoice file plus the invoice PDFs
+    const invoiceFiles: InvoiceUpload[] = [];
+    try {
+      for (const file of acceptedFiles) {
+        if (!isZipFile(file.name)) {
+          invoiceFiles.push({ file, pdfs: [] });
+          continue;
+        }
+        const archive = await readInvoiceArchive(file);
+        console.log('🗜️ [ARCHIVE] Unpacked:', {
+          archive: file.name,
+          invoiceFile: archive.invoiceFile.name,
+          pdfCount: archive.pdfs.length,
+          ignored: archive.ignoredFiles,
+          duplicatePdfs: archive.duplicatePdfs
+        });
+        invoiceFiles.push({
+          file: archive.invoiceFile,
+          pdfs: archive.pdfs,
+          archiveName: file.name,
+          ignoredFiles: archive.ignoredFiles,
+          duplicatePdfs: archive.duplicatePdfs
+        });
+      }
+    } catch (archiveError) {
+      console.error('❌ [ARCHIVE] Failed to read archive:', archiveError);
+      setError(archiveError instanceof Error ? archiveError.message : 'Failed to read ZIP archive');
+      return;
+    }
+    setArchiveReports([]);
+
     // Initialize upload progress for all files
-    const initialProgress = invoiceFiles.map(file => ({
-      fileName: file.name,
+    const initialProgress = invoiceFiles.map(({ file, archiveName }) => ({
+      fileName: archiveName ? `${archiveName} › ${file.name}` : file.name,
       progress: 0,
-      isUploading: true,
+      isUploading: false,
       isProcessing: false,
-      processingProgress: 0
+      processingProgress: 0,
+      isAwaitingReview: true
     }));
     setUploadProgress(initialProgress);
     console.log('✅ [DEBUG] Upload progress initialized for', invoiceFiles.length, 'files');
 
-    // Upload files sequentially to avoid overwhelming the system
+    // Process files sequentially: each one may need the mapping wizard and the preview
     for (let index = 0; index < invoiceFiles.length; index++) {
-      const file = invoiceFiles[index];
-      console.log(`📤 [DEBUG] Starting upload for file ${index + 1}/${invoiceFiles.length}:`, file.name);
+      const { file } = invoiceFiles[index];
+      console.log(`📤 [DEBUG] Starting file ${index + 1}/${invoiceFiles.length}:`, file.name);
       
       try {
-        const fileName = `${Date.now()}-${file.name}`;
-        console.log('📤 [DEBUG] Generated unique filename:', fileName);
-        
-        const result = await uploadData({
-          path: ({ identityId }) => {
-            console.log('📤 [DEBUG] Upload path function called with identityId:', identityId);
-            if (!identityId) {
-              throw new Error('User not authenticated');
-            }
-            const fullPath = `user-files/${identityId}/${fileName}`;
-            console.log('📤 [DEBUG] Full upload path:', fullPath);
-            return fullPath;
-          },
-          data: file,
-          options: {
-            onProgress: ({ transferredBytes, totalBytes }) => {
-              if (totalBytes) {
-                const progress = Math.round((transferredBytes / totalBytes) * 100);
-                console.log(`📤 [DEBUG] Upload progress for ${file.name}:`, `${progress}% (${transferredBytes}/${totalBytes})`);
-                setUploadProgress(prev => 
-                  prev.map((item, i) => 
-                    i === index ? { ...item, progress } : item
-                  )
-                );
-              }
-            },
-          },
-        }).result;
-
-        console.log('✅ [DEBUG] Upload successful for', file.name, ':', result.path);
-        
-        // Mark upload as completed
-        setUploadProgress(prev => 
-          prev.map((item, i) => 
-            i === index ? { ...item, isUploading: false, progress: 100 } : item
-          )
-        );
-
-        // Start processing the uploaded file
-        console.log('🔄 [DEBUG] Starting processing for uploaded file:', result.path);
-        await processInvoiceFile(result.path, file.name, index);
+        await processInvoiceFile(invoiceFiles[index], index);
         console.log('✅ [DEBUG] Processing completed for:', file.name);
 
         // Immediate refresh after each file processing
@@ -770,12 +905,6 @@ export const UploadStore: React.FC = () => {
           message: err instanceof Error ? err.message : 'Unknown error',
           stack: err instanceof Error ? err.stack : undefined
         });
-        
-        setUploadProgress(prev => 
-          prev.map((item, i) => 
-            i === index ? { ...item, isUploading: false, isProcessing: false, progress: 0 } : item
-          )
-        );
       }
     }
 
@@ -1064,85 +1193,163 @@ export const UploadStore: React.FC = () => {
   };
 
   // Helper functions for file processing
-  const downloadAndParseFile = async (fileKey: string, fileType: string): Promise<InvoiceData[]> => {
-    console.log('📥 [DEBUG] Starting downloadAndParseFile:', { fileKey, fileType });
-    
-    try {
-      console.log('🔗 [DEBUG] Getting download URL for file...');
-      const downloadResult = await getUrl({
-        path: fileKey,
+  // Work out which columns hold which invoice fields: exact headers, a saved profile, or the wizard
+  const resolveColumnMapping = async (headers: string[], sampleRows: CsvRow[], fileName: string): Promise<ColumnMapping> => {
+    if (isIdentityMapping(headers)) {
+      console.log('🧭 [MAPPING] Headers match the standard template, no mapping needed');
+      return Object.fromEntries(INVOICE_FIELDS.map(field => [field.key, field.key])) as ColumnMapping;
+    }
+
+    const signature = headerSignature(headers);
+    console.log('🧭 [MAPPING] Non-standard headers detected:', { headers, signature });
+
+    const profilesResult = await client.models.ColumnMappingProfile.list();
+    if (profilesResult.errors) {
+      console.error('❌ [MAPPING] Failed to load mapping profiles:', profilesResult.errors);
+    }
+    const profiles = profilesResult.data || [];
+
+    // Same header signature as a saved profile: map automatically
+    const matchingProfile = profiles.find(profile => profile.headerSignature === signature);
+    const savedMapping = matchingProfile ? parseStoredMapping(matchingProfile.mapping) : null;
+    if (matchingProfile && savedMapping && getMissingFields(savedMapping, headers).length === 0) {
+      console.log('✅ [MAPPING] Applying saved profile:', matchingProfile.name);
+      await client.models.ColumnMappingProfile.update({
+        id: matchingProfile.id,
+        lastUsedAt: new Date().toISOString(),
+      });
+      return savedMapping;
+    }
+
+    const decision = await new Promise<MappingDecision | null>(resolve => {
+      mappingResolverRef.current = resolve;
+      setMappingRequest({
+        fileName,
+        headers,
+        sampleRows,
+        suggestion: suggestColumnMapping(headers),
+        profiles,
       });
-      console.log('🔗 [DEBUG] Download URL obtained successfully');
-
-      console.log('📡 [DEBUG] Fetching file from S3...');
-      const response = await fetch(downloadResult.url.toString());
-      console.log('📡 [DEBUG] Fetch response:', {
-        ok: response.ok,
-        status: response.status,
-        statusText: response.statusText,
-        headers: Object.fromEntries(response.headers.entries())
+    });
+
+    if (!decision) {
+      throw new UploadCancelledError('Upload cancelled: column mapping was not confirmed');
+    }
+
+    console.log('✅ [MAPPING] Mapping confirmed:', decision.mapping);
+
+    if (decision.profileName) {
+      const createResult = await client.models.ColumnMappingProfile.create({
+        name: decision.profileName,
+        headerSignature: signature,
+        mapping: JSON.stringify(decision.mapping),
+        lastUsedAt: new Date().toISOString(),
       });
-      
-      if (!response.ok) {
-        throw new Error(`Failed to download file: ${response.status} ${response.statusText}`);
+      if (createResult.errors) {
+        // The upload can still go ahead with the confirmed mapping
+        console.error('❌ [MAPPING] Failed to save mapping profile:', createResult.errors);
+      } else {
+        console.log('💾 [MAPPING] Saved mapping profile:', decision.profileName);
       }
+    }
 
-      console.log('📁 [DEBUG] Converting response to array buffer...');
-      const fileBuffer = await response.arrayBuffer();
+    return decision.mapping;
+  };
+
+  // Workbooks with several data sheets ask which ones to import
+  const resolveSheetNames = async (fileBuffer: ArrayBuffer, fileName: string): Promise<string[] | undefined> => {
+    const sheets = listWorkbookSheets(fileBuffer);
+    console.log('📑 [SHEETS] Sheets with data:', sheets);
+    if (sheets.length <= 1) {
+      return sheets.map(sheet => sheet.name);
+    }
+
+    const sheetNames = await new Promise<string[] | null>(resolve => {
+      sheetResolverRef.current = resolve;
+      setSheetRequest({ fileName, sheets });
+    });
+
+    if (!sheetNames) {
+      throw new UploadCancelledError('Upload cancelled: no sheets were chosen');
+    }
+
+    console.log('✅ [SHEETS] Importing sheets:', sheetNames);
+    return sheetNames;
+  };
+
+  const closeSheetSelector = (sheetNames: string[] | null) => {
+    sheetResolverRef.current?.(sheetNames);
+    sheetResolverRef.current = null;
+    setSheetRequest(null);
+  };
+
+  const closeMappingWizard = (decision: MappingDecision | null) => {
+    mappingResolverRef.current?.(decision);
+    mappingResolverRef.current = null;
+    setMappingRequest(null);
+  };
+
+  const closeDuplicateDialog = (uploadAnyway: boolean) => {
+    duplicateResolverRef.current?.(uploadAnyway);
+    duplicateResolverRef.current = null;
+    setDuplicateRequest(null);
+  };
+
+  const closeUploadPreview = (excludedRows: Set<number> | null) => {
+    previewResolverRef.current?.(excludedRows);
+    previewResolverRef.current = null;
+    setPreviewRequest(null);
+  };
+
+  // Read the selected file in the browser with the same parser and rules the Lambda uses
+  const parseLocalFile = async (file: File, fileType: InvoiceFileType): Promise<ParsedFile> => {
+    console.log('📥 [DEBUG] Starting parseLocalFile:', { fileName: file.name, fileType });
+    
+    try {
+      const fileBuffer = await file.arrayBuffer();
       console.log('📁 [DEBUG] File buffer obtained:', {
         size: fileBuffer.byteLength,
         sizeInKB: (fileBuffer.byteLength / 1024).toFixed(2)
       });
-      
-      let rawData: CsvRow[] = [];
-
-      if (fileType === 'CSV') {
-        console.log('📊 [DEBUG] Parsing CSV file...');
-        const csvText = new TextDecoder().decode(fileBuffer);
-        console.log('📊 [DEBUG] CSV text decoded:', {
-          length: csvText.length,
-          firstLine: csvText.split('\n')[0],
-          totalLines: csvText.split('\n').length
-        });
-        rawData = parseCSV(csvText);
-        console.log('📊 [DEBUG] CSV parsing completed:', { recordCount: rawData.length });
-      } else if (fileType === 'XLSX') {
-        console.log('📊 [DEBUG] Parsing Excel file...');
-        const workbook = XLSX.read(fileBuffer, { type: 'array' });
-        console.log('📊 [DEBUG] Workbook loaded:', {
-          sheetNames: workbook.SheetNames,
-          totalSheets: workbook.SheetNames.length
-        });
-        
-        const sheetName = workbook.SheetNames[0];
-        console.log('📊 [DEBUG] Using sheet:', sheetName);
-        
-        const worksheet = workbook.Sheets[sheetName];
-        rawData = XLSX.utils.sheet_to_json(worksheet) as CsvRow[];
-        console.log('📊 [DEBUG] Excel parsing completed:', { recordCount: rawData.length });
-      }
 
-      console.log('📊 [DEBUG] Raw data sample (first 2 rows):', rawData.slice(0, 2));
-      console.log('🔍 [DEBUG] Starting data validation...');
-      
-      const validatedData = rawData.map((row, index) => {
-        const validationResult = validateInvoiceData(row, index + 2);
-        if (!validationResult.isValid) {
-          console.log(`⚠️ [DEBUG] Validation failed for row ${index + 2}:`, validationResult.validationErrors);
-        }
-        return validationResult;
+      const sheetNames = isWorkbookFileType(fileType) ? await resolveSheetNames(fileBuffer, file.name) : undefined;
+      const rawFile = readInvoiceFile(fileBuffer, fileType, { delimiter: csvDelimiter, sheetNames });
+      console.log('📊 [DEBUG] File read:', {
+        delimiter: rawFile.delimiter ? JSON.stringify(rawFile.delimiter) : undefined,
+        sheets: rawFile.sheetNames,
+        headers: rawFile.headers,
+        recordCount: rawFile.rows.length,
+        malformedRecords: rawFile.parseErrors.length
       });
 
+      const columnMapping = await resolveColumnMapping(rawFile.headers, rawFile.rows.slice(0, 5).map(({ row }) => row), file.name);
+
+      console.log('🔍 [DEBUG] Starting data validation...');
+      const validatedData = markUnregisteredParties(
+        markDuplicateInvoices(
+          validateInvoiceRows(rawFile.rows, columnMapping, getValidationRules(await fetchWorkspaceSettings(activeOrganizationId))),
+          await listWorkspaceInvoices(activeOrganizationId)
+        ),
+        await fetchPartyRegistry(activeOrganizationId)
+      );
+
       console.log('✅ [DEBUG] Data validation completed:', {
         totalRecords: validatedData.length,
         validRecords: validatedData.filter(d => d.isValid).length,
         invalidRecords: validatedData.filter(d => !d.isValid).length
       });
 
-      return validatedData;
+      return {
+        invoices: validatedData,
+        parseErrors: rawFile.parseErrors,
+        delimiter: rawFile.delimiter,
+        sheetNames: rawFile.sheetNames,
+        columnMapping,
+        pdfFileNames: getPdfFileNamesByRow(rawFile.headers, rawFile.rows)
+      };
 
     } catch (error) {
-      console.error('💥 [DEBUG] Error in downloadAndParseFile:', {
+      console.error('💥 [DEBUG] Error in parseLocalFile:', {
         error,
         message: error instanceof Error ? error.message : 'Unknown error',
         stack: error instanceof Error ? error.stack : undefined
@@ -1151,124 +1358,6 @@ export const UploadStore: React.FC = () => {
     }
   };
 
-  const parseCSV = (csvText: string): CsvRow[] => {
-    const lines = csvText.split('\n').filter(line => line.trim());
-    if (lines.length < 2) return [];
-    
-    const headers = lines[0].split(',').map(h => h.trim().replace(/"/g, ''));
-    
-    return lines.slice(1).map(line => {
-      const values = line.split(',').map(v => v.trim().replace(/"/g, ''));
-      const row: CsvRow = {};
-      headers.forEach((header, index) => {
-        row[header] = values[index] || '';
-      });
-      return row;
-    });
-  };
-
-  const validateInvoiceData = (row: CsvRow, rowNumber: number): InvoiceData => {
-    const errors: string[] = [];
-    const invoice: InvoiceData = {
-      invoiceId: '',
-      sellerId: '',
-      debtorId: '',
-      currency: '',
-      amount: 0,
-      product: '',
-      issueDate: '',
-      dueDate: '',
-      isValid: true,
-      validationErrors: []
-    };
-    
-    // Validate invoice_id (UUID)
-    if (!row.invoice_id || !isValidUUID(row.invoice_id)) {
-      errors.push(`Row ${rowNumber}: Invalid or missing invoice_id (must be UUID format)`);
-    } else {
-      invoice.invoiceId = row.invoice_id;
-    }
-    
-    // Validate seller_id (UUID)
-    if (!row.seller_id || !isValidUUID(row.seller_id)) {
-      errors.push(`Row ${rowNumber}: Invalid or missing seller_id (must be UUID format)`);
-    } else {
-      invoice.sellerId = row.seller_id;
-    }
-    
-    // Validate debtor_id (UUID)
-    if (!row.debtor_id || !isValidUUID(row.debtor_id)) {
-      errors.push(`Row ${rowNumber}: Invalid or missing debtor_id (must be UUID format)`);
-    } else {
-      invoice.debtorId = row.debtor_id;
-    }
-    
-    // Validate currency
-    const validCurrencies = ['USD', 'EUR', 'GBP', 'JPY', 'CAD', 'AUD', 'CHF', 'CNY'];
-    if (!row.currency || !validCurrencies.includes(row.currency.toUpperCase())) {
-      errors.push(`Row ${rowNumber}: Invalid currency. Must be one of: ${validCurrencies.join(', ')}`);
-    } else {
-      invoice.currency = row.currency.toUpperCase();
-    }
-    
-    // Validate amount
-    const amount = parseFloat(row.amount);
-    if (isNaN(amount) || amount <= 0) {
-      errors.push(`Row ${rowNumber}: Invalid amount (must be positive number)`);
-    } else {
-      invoice.amount = amount;
-    }
-    
-    // Validate product
-    if (!row.product || row.product.trim().length === 0) {
-      errors.push(`Row ${rowNumber}: Product field is required`);
-    } else {
-      invoice.product = row.product.trim();
-    }
-    
-    // Validate issue_date
-    if (!row.issue_date || !isValidDate(row.issue_date)) {
-      errors.push(`Row ${rowNumber}: Invalid issue_date (must be YYYY-MM-DD format)`);
-    } else {
-      invoice.issueDate = formatDateString(row.issue_date);
-    }
-    
-    // Validate due_date
-    if (!row.due_date || !isValidDate(row.due_date)) {
-      errors.push(`Row ${rowNumber}: Invalid due_date (must be YYYY-MM-DD format)`);
-    } else {
-      invoice.dueDate = formatDateString(row.due_date);
-    }
-    
-    // Validate due_date is after issue_date
-    if (invoice.issueDate && invoice.dueDate && invoice.dueDate <= invoice.issueDate) {
-      errors.push(`Row ${rowNumber}: Due date must be after issue date`);
-    }
-    
-    if (errors.length > 0) {
-      invoice.isValid = false;
-      invoice.validationErrors = errors;
-    }
-    
-    return invoice;
-  };
-
-  const isValidUUID = (uuid: string): boolean => {
-    const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
-    return uuidRegex.test(uuid);
-  };
-
-  const isValidDate = (dateString: string): boolean => {
-    const date = new Date(dateString);
-    if (isNaN(date.getTime())) return false;
-    return /^\d{4}-\d{2}-\d{2}$/.test(dateString);
-  };
-
-  const formatDateString = (dateString: string): string => {
-    const date = new Date(dateString);
-    return date.toISOString().split('T')[0];
-  };
-
   const formatFileSize = (bytes?: number): string => {
     if (!bytes) return 'Unknown size';
     const sizes = ['B', 'KB', 'MB', 'GB'];
@@ -1282,6 +1371,47 @@ export const UploadStore: React.FC = () => {
 
   return (
     <div className="invoice-upload">
+      {sheetRequest && (
+        <SheetSelector
+          fileName={sheetRequest.fileName}
+          sheets={sheetRequest.sheets}
+          onConfirm={(sheetNames) => closeSheetSelector(sheetNames)}
+          onCancel={() => closeSheetSelector(null)}
+        />
+      )}
+
+      {mappingRequest && (
+        <ColumnMappingWizard
+          fileName={mappingRequest.fileName}
+          headers={mappingRequest.headers}
+          sampleRows={mappingRequest.sampleRows}
+          suggestion={mappingRequest.suggestion}
+          profiles={mappingRequest.profiles}
+          onConfirm={(mapping, profileName) => closeMappingWizard({ mapping, profileName })}
+          onCancel={() => closeMappingWizard(null)}
+        />
+      )}
+
+      {duplicateRequest && (
+        <DuplicateUploadDialog
+          fileName={duplicateRequest.fileName}
+          earlierJobs={duplicateRequest.earlierJobs}
+          listedJobIds={new Set(files.flatMap(file => file.associatedJobId ? [file.associatedJobId] : []))}
+          onContinue={() => closeDuplicateDialog(true)}
+          onCancel={() => closeDuplicateDialog(false)}
+        />
+      )}
+
+      {previewRequest && (
+        <UploadPreview
+          fileName={previewRequest.fileName}
+          invoices={previewRequest.invoices}
+          parseErrors={previewRequest.parseErrors}
+          onConfirm={(excludedRows) => closeUploadPreview(excludedRows)}
+          onCancel={() => closeUploadPreview(null)}
+        />
+      )}
+
       {error && (
         <div className="error-message">
           ❌ {error}
@@ -1292,7 +1422,7 @@ export const UploadStore: React.FC = () => {
         <input
           type="file"
           multiple
-          accept=".csv,.xlsx,.xls"
+          accept={`${INVOICE_FILE_ACCEPT},.zip`}
           onChange={handleFileSelect}
           className="file-input"
           id="invoice-upload"
@@ -1301,9 +1431,22 @@ export const UploadStore: React.FC = () => {
           <div className="upload-icon"></div>
           <div className="upload-text">
             <h3>Upload Invoice Files</h3>
-            <p>Drop CSV or Excel files here or click to browse</p>
+            <p>Drop CSV, Excel, OpenDocument, JSON or UBL e-invoice XML files here or click to browse. Non-standard column headers can be mapped after upload. A ZIP with one invoice file and its PDFs attaches each PDF to its invoice.</p>
           </div>
         </label>
+        <div className="csv-options">
+          <label htmlFor="csv-delimiter">CSV delimiter:</label>
+          <select
+            id="csv-delimiter"
+            value={csvDelimiter}
+            onChange={(e) => setCsvDelimiter(e.target.value as CsvDelimiter | 'auto')}
+          >
+            <option value="auto">Auto-detect</option>
+            {SUPPORTED_DELIMITERS.map(delimiter => (
+              <option key={delimiter} value={delimiter}>{DELIMITER_LABELS[delimiter]}</option>
+            ))}
+          </select>
+        </div>
       </div>
 
       {uploadProgress.length > 0 && (
@@ -1314,8 +1457,10 @@ export const UploadStore: React.FC = () => {
               <div className="progress-info">
                 <span className="file-name">{item.fileName}</span>
                 <span className="progress-percent">
-                  {item.isUploading ? `Upload: ${item.progress}%` : 
-                   item.isProcessing ? `Processing: ${Math.round(item.processingProgress)}%` : 
+                  {item.isCancelled ? '🚫 Cancelled' :
+                   item.isAwaitingReview ? '👀 Waiting for review' :
+                   item.isUploading ? `Upload: ${item.progress}%` : 
+                   item.isProcessing ? `Processing on server: ${Math.round(item.processingProgress)}%` : 
                    '✅ Complete'}
                 </span>
               </div>
@@ -1331,7 +1476,7 @@ export const UploadStore: React.FC = () => {
               {/* Processing Progress Bar */}
               {(item.isProcessing || item.processingProgress > 0) && (
                 <>
-                  <div className="processing-label">Processing invoices...</div>
+                  <div className="processing-label">Processing invoices on the server (safe to leave this page)...</div>
                   <div className="progress-bar processing">
                     <div 
                       className="progress-fill processing"
@@ -1341,7 +1486,7 @@ export const UploadStore: React.FC = () => {
                 </>
               )}
               
-              {!item.isUploading && !item.isProcessing && item.progress === 100 && (
+              {!item.isUploading && !item.isProcessing && !item.isCancelled && item.progress === 100 && (
                 <span className="upload-complete">✅ Upload & Processing Complete!</span>
               )}
             </div>
@@ -1349,6 +1494,53 @@ export const UploadStore: React.FC = () => {
         </div>
       )}
 
+      {archiveReports.length > 0 && (
+        <div className="archive-report-section">
+          <div className="archive-report-header">
+            <h3>📎 ZIP PDF Matching</h3>
+            <button onClick={() => setArchiveReports([])} className="archive-report-dismiss">✕ Dismiss</button>
+          </div>
+          {archiveReports.map(report => (
+            <div key={report.archiveName} className="archive-report-item">
+              <div className="archive-report-summary">
+                <span className="file-name">{report.archiveName}</span>
+                <span>✅ {report.attachedCount} PDF{report.attachedCount === 1 ? '' : 's'} attached</span>
+              </div>
+              {report.unmatchedPdfs.length > 0 && (
+                <div className="archive-report-list">
+                  <strong>⚠️ PDFs with no matching invoice ({report.unmatchedPdfs.length}):</strong>
+                  <span>{report.unmatchedPdfs.join(', ')}</span>
+                </div>
+              )}
+              {report.invoicesWithoutPdf.length > 0 && (
+                <div className="archive-report-list">
+                  <strong>📄 Invoices without a PDF ({report.invoicesWithoutPdf.length}):</strong>
+                  <span>{report.invoicesWithoutPdf.join(', ')}</span>
+                </div>
+              )}
+              {report.failedPdfs.length > 0 && (
+                <div className="archive-report-list failed">
+                  <strong>❌ PDFs that failed to upload ({report.failedPdfs.length}):</strong>
+                  <span>{report.failedPdfs.map(failed => `${failed.fileName} (${failed.message})`).join(', ')}</span>
+                </div>
+              )}
+              {report.duplicatePdfs.length > 0 && (
+                <div className="archive-report-list">
+                  <strong>⚠️ PDFs skipped because another folder has a file with the same name ({report.duplicatePdfs.length}):</strong>
+                  <span>{report.duplicatePdfs.join(', ')}</span>
+                </div>
+              )}
+              {report.ignoredFiles.length > 0 && (
+                <div className="archive-report-list">
+                  <strong>⏭️ Other files skipped ({report.ignoredFiles.length}):</strong>
+                  <span>{report.ignoredFiles.join(', ')}</span>
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
       <div className="files-section">
         <div className="files-header">
           <h3>📁 Files Manager <span className="subtitle"></span></h3>
@@ -1369,7 +1561,11 @@ export const UploadStore: React.FC = () => {
           <div className="files-list-container">
             <div className="files-list">
               {files.map((file) => (
-                <div key={file.path} className="file-item">
+                <div
+                  key={file.path}
+                  id={file.associatedJobId ? getUploadJobAnchor(file.associatedJobId) : undefined}
+                  className="file-item"
+                >
                   <div className="file-info">
                     <div className="file-header">
                       <div className="file-name">
@@ -1397,6 +1593,9 @@ export const UploadStore: React.FC = () => {
                           {file.lastModified.toLocaleDateString()}
                         </span>
                       )}
+                      {file.associatedJob && hasErrorReport(file.associatedJob) && (
+                        <ErrorReportLinks job={file.associatedJob} />
+                      )}
                     </div>
                   </div>
                   
@@ -1492,6 +1691,25 @@ export const UploadStore: React.FC = () => {
           font-size: 14px;
         }
 
+        .csv-options {
+          display: flex;
+          align-items: center;
+          justify-content: flex-end;
+          gap: 8px;
+          margin-top: 10px;
+          color: #5e6e77;
+          font-size: 13px;
+        }
+
+        .csv-options select {
+          padding: 4px 8px;
+          border: 1px solid #32b3e7;
+          border-radius: 4px;
+          background: white;
+          color: #002b4b;
+          font-size: 13px;
+        }
+
         .upload-progress-section {
           margin-bottom: 30px;
           padding: 20px;
@@ -1555,6 +1773,62 @@ export const UploadStore: React.FC = () => {
           margin: 5px 0 2px 0;
         }
 
+        .archive-report-section {
+          background: #f8fafc;
+          border: 1px solid #cbd5e0;
+          border-radius: 8px;
+          padding: 16px 20px;
+          margin-bottom: 24px;
+        }
+
+        .archive-report-header {
+          display: flex;
+          justify-content: space-between;
+          align-items: center;
+          margin-bottom: 12px;
+        }
+
+        .archive-report-header h3 {
+          margin: 0;
+          color: #002b4b;
+        }
+
+        .archive-report-dismiss {
+          padding: 4px 10px;
+          background: white;
+          border: 1px solid #cbd5e0;
+          border-radius: 4px;
+          color: #5e6e77;
+          font-size: 12px;
+          cursor: pointer;
+        }
+
+        .archive-report-item {
+          padding: 10px 0;
+          border-top: 1px solid #e2e8f0;
+        }
+
+        .archive-report-summary {
+          display: flex;
+          justify-content: space-between;
+          font-size: 14px;
+          margin-bottom: 6px;
+        }
+
+        .archive-report-list {
+          display: flex;
+          flex-direction: column;
+          gap: 2px;
+          font-size: 13px;
+          color: #5e6e77;
+          margin-top: 6px;
+          word-break: break-word;
+        }
+
+        .archive-report-list.failed {
+          color: #c53030;
+        }
+
         .upload-complete {
           font-size: 12px;
           color: #32b3e7;
@@ -1660,6 +1934,11 @@ export const UploadStore: React.FC = () => {
           border-color: #32b3e7;
         }
 
+        .file-item:target {
+          background: #fffbea;
+          border-color: #f6e05e;
+        }
+
         .file-info {
           flex: 1;
           min-width: 0;
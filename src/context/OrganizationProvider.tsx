@@ -0,0 +1,64 @@
+// src/context/OrganizationProvider.tsx - Loads the user's organizations and remembers the active one
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { generateClient } from 'aws-amplify/data';
+import { fetchAuthSession } from 'aws-amplify/auth';
+import type { Schema } from '../../amplify/data/resource';
+import { OrganizationContext } from './organizationContext';
+import type { Organization } from './organizationContext';
+
+const client = generateClient<Schema>();
+
+const ACTIVE_ORGANIZATION_STORAGE_KEY = 'activeOrganizationId';
+
+export const OrganizationProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [organizations, setOrganizations] = useState<Organization[]>([]);
+  const [isLoaded, setIsLoaded] = useState(false);
+  const [activeOrganizationId, setActiveId] = useState<string | null>(
+    () => localStorage.getItem(ACTIVE_ORGANIZATION_STORAGE_KEY)
+  );
+
+  const setActiveOrganizationId = useCallback((organizationId: string | null) => {
+    if (organizationId) {
+      localStorage.setItem(ACTIVE_ORGANIZATION_STORAGE_KEY, organizationId);
+    } else {
+      localStorage.removeItem(ACTIVE_ORGANIZATION_STORAGE_KEY);
+    }
+    setActiveId(organizationId);
+  }, []);
+
+  const refreshOrganizations = useCallback(async () => {
+    try {
+      // Organization reads are authorized by Cognito groups, which only change with a new token
+      await fetchAuthSession({ forceRefresh: true });
+      const result = await client.models.Organization.list();
+      console.log('🏢 [ORG] Organizations loaded:', result.data.length);
+      setOrganizations(result.data);
+    } catch (error) {
+      console.error('❌ [ORG] Failed to load organizations:', error);
+    } finally {
+      setIsLoaded(true);
+    }
+  }, []);
+
+  useEffect(() => {
+    refreshOrganizations();
+  }, [refreshOrganizations]);
+
+  // Fall back to the personal workspace once we know the user left the remembered organization
+  const activeOrganization = organizations.find(org => org.id === activeOrganizationId) || null;
+  const effectiveOrganizationId = isLoaded ? activeOrganization?.id ?? null : activeOrganizationId;
+
+  const value = useMemo(() => ({
+    organizations,
+    activeOrganizationId: effectiveOrganizationId,
+    activeOrganization,
+    setActiveOrganizationId,
+    refreshOrganizations,
+  }), [organizations, effectiveOrganizationId, activeOrganization, setActiveOrganizationId, refreshOrganizations]);
+
+  return (
+    <OrganizationContext.Provider value={value}>
+      {children}
+    </OrganizationContext.Provider>
+  );
+};
@@ -0,0 +1,47 @@
+// src/context/organizationContext.ts - Active organization workspace shared across pages
+import { createContext, useContext } from 'react';
+import { getCurrentUser } from 'aws-amplify/auth';
+import type { Schema } from '../../amplify/data/resource';
+
+export type Organization = Schema["Organization"]["type"];
+
+export interface OrganizationContextValue {
+  organizations: Organization[];
+  // null is the user's personal workspace
+  activeOrganizationId: string | null;
+  activeOrganization: Organization | null;
+  setActiveOrganizationId: (organizationId: string | null) => void;
+  // Re-reads memberships after Cognito groups change (create, accept, leave)
+  refreshOrganizations: () => Promise<void>;
+}
+
+export const OrganizationContext = createContext<OrganizationContextValue>({
+  organizations: [],
+  activeOrganizationId: null,
+  activeOrganization: null,
+  setActiveOrganizationId: () => {},
+  refreshOrganizations: async () => {},
+});
+
+export const useActiveOrganization = () => useContext(OrganizationContext);
+
+// Owner value Amplify stamps on the caller's records, as the functions compare it
+export const getCurrentOwner = async (): Promise<string> => {
+  const { userId, username } = await getCurrentUser();
+  return `${userId}::${username}`;
+};
+
+// List filter for records belonging to the active workspace. Admins and reviewers can read every
+// user's personal records, so the personal workspace is narrowed to the caller's own
+export const getWorkspaceFilter = async (organizationId: string | null) =>
+  organizationId
+    ? { organizationId: { eq: organizationId } }
+    : { owner: { eq: await getCurrentOwner() }, organizationId: { attributeExists: false } };
+
+export type WorkspaceFilter = Awaited<ReturnType<typeof getWorkspaceFilter>>;
+
+// Organization files stay under the uploader's identity folder so S3 identity rules still apply
+export const getWorkspaceStoragePrefix = (identityId: string, organizationId: string | null) =>
+  organizationId
+    ? `user-files/${identityId}/organizations/${organizationId}/`
+    : `user-files/${identityId}/`;
@@ -3,6 +3,15 @@ import React, { useState, useEffect, useMemo } from 'react';
 import { Link } from 'react-router-dom';
 import { generateClient } from 'aws-amplify/data';
 import type { Schema } from '../../amplify/data/resource';
+import { INVOICE_STATUSES, STATUS_LABELS, getInvoiceStatus } from '../../shared/invoiceLifecycle/statusMachine';
+import type { InvoiceStatus } from '../../shared/invoiceLifecycle/statusMachine';
+import { getWorkspaceFilter, useActiveOrganization } from '../context/organizationContext';
+import type { WorkspaceFilter } from '../context/organizationContext';
+import { ErrorReportLinks } from '../components/ErrorReportLinks';
+import { hasErrorReport } from '../utils/errorReport';
+import { PartyName } from '../components/PartyName';
+import { fetchPartyDirectory } from '../utils/partyRegistry';
+import type { PartyDirectory } from '../utils/partyRegistry';
 
 const client = generateClient<Schema>();
 
@@ -17,24 +26,28 @@ export interface DashboardPageProps {
 
 
 const DashboardPage: React.FC<DashboardPageProps> = () => {
+  const { activeOrganizationId } = useActiveOrganization();
   const [invoices, setInvoices] = useState<Schema["Invoice"]["type"][]>([]);
   const [submittedInvoices, setSubmittedInvoices] = useState<Schema["SubmittedInvoice"]["type"][]>([]);
   const [uploadJobs, setUploadJobs] = useState<Schema["InvoiceUploadJob"]["type"][]>([]);
+  const [partyDirectory, setPartyDirectory] = useState<PartyDirectory | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
-  // Load dashboard data
+  // Load dashboard data for the active workspace
   useEffect(() => {
-    const loadDashboardData = async (): Promise<void> => {
+    let isMounted = true;
+
+    const loadDashboardData = async (filter: WorkspaceFilter): Promise<void> => {
       try {
         setLoading(true);
         console.log('📊 [DASHBOARD] Loading dashboard data...');
 
         // Load all data in parallel
         const [invoicesResult, submittedResult, jobsResult] = await Promise.all([
-          client.models.Invoice.list(),
-          client.models.SubmittedInvoice.list(),
-          client.models.InvoiceUploadJob.list()
+          client.models.Invoice.list({ filter }),
+          client.models.SubmittedInvoice.list({ filter }),
+          client.models.InvoiceUploadJob.list({ filter })
         ]);
 
         if (invoicesResult.errors) {
@@ -67,47 +80,54 @@ const DashboardPage: React.FC<DashboardPageProps> = () => {
       }
     };
 
-    loadDashboardData();
-
     // Set up real-time subscriptions for live updates with proper typing
     let invoiceSubscription: Subscription | null = null;
     let submittedSubscription: Subscription | null = null;
     let jobsSubscription: Subscription | null = null;
 
-    try {
-      console.log('📊 [DASHBOARD] Setting up real-time subscriptions...');
-      
-      invoiceSubscription = client.models.Invoice.observeQuery().subscribe({
-        next: ({ items }) => {
-          console.log('📊 [DASHBOARD] Invoice subscription update:', items.length);
-          setInvoices(items);
-        },
-        error: (err: Error) => console.error('❌ [DASHBOARD] Invoice subscription error:', err)
-      });
-
-      submittedSubscription = client.models.SubmittedInvoice.observeQuery().subscribe({
-        next: ({ items }) => {
-          console.log('📊 [DASHBOARD] Submitted invoice subscription update:', items.length);
-          setSubmittedInvoices(items);
-        },
-        error: (err: Error) => console.error('❌ [DASHBOARD] Submitted invoice subscription error:', err)
-      });
-
-      jobsSubscription = client.models.InvoiceUploadJob.observeQuery().subscribe({
-        next: ({ items }) => {
-          console.log('📊 [DASHBOARD] Upload jobs subscription update:', items.length);
-          setUploadJobs(items);
-        },
-        error: (err: Error) => console.error('❌ [DASHBOARD] Upload jobs subscription error:', err)
-      });
-
-      console.log('✅ [DASHBOARD] Real-time subscriptions established');
-    } catch (err) {
-      console.error('❌ [DASHBOARD] Error setting up subscriptions:', err);
-    }
+    const setupSubscriptions = (filter: WorkspaceFilter): void => {
+      try {
+        console.log('📊 [DASHBOARD] Setting up real-time subscriptions...');
+
+        invoiceSubscription = client.models.Invoice.observeQuery({ filter }).subscribe({
+          next: ({ items }) => {
+            console.log('📊 [DASHBOARD] Invoice subscription update:', items.length);
+            setInvoices(items);
+          },
+          error: (err: Error) => console.error('❌ [DASHBOARD] Invoice subscription error:', err)
+        });
+
+        submittedSubscription = client.models.SubmittedInvoice.observeQuery({ filter }).subscribe({
+          next: ({ items }) => {
+            console.log('📊 [DASHBOARD] Submitted invoice subscription update:', items.length);
+            setSubmittedInvoices(items);
+          },
+          error: (err: Error) => console.error('❌ [DASHBOARD] Submitted invoice subscription error:', err)
+        });
+
+        jobsSubscription = client.models.InvoiceUploadJob.observeQuery({ filter }).subscribe({
+          next: ({ items }) => {
+            console.log('📊 [DASHBOARD] Upload jobs subscription update:', items.length);
+            setUploadJobs(items);
+          },
+          error: (err: Error) => console.error('❌ [DASHBOARD] Upload jobs subscription error:', err)
+        });
+
+        console.log('✅ [DASHBOARD] Real-time subscriptions established');
+      } catch (err) {
+        console.error('❌ [DASHBOARD] Error setting up subscriptions:', err);
+      }
+    };
+
+    getWorkspaceFilter(activeOrganizationId).then(filter => {
+      if (!isMounted) return;
+      loadDashboardData(filter);
+      setupSubscriptions(filter);
+    });
 
     // Cleanup subscriptions
     return () => {
+      isMounted = false;
       console.log('🧹 [DASHBOARD] Cleaning up subscriptions');
       if (invoiceSubscription && typeof invoiceSubscription.unsubscribe === 'function') {
         invoiceSubscription.unsubscribe();
@@ -119,7 +139,19 @@ const DashboardPage: React.FC<DashboardPageProps> = () => {
         jobsSubscription.unsubscribe();
       }
     };
-  }, []);
+  }, [activeOrganizationId]);
+
+  // Seller and debtor names for the recent invoices
+  useEffect(() => {
+    let isMounted = true;
+    fetchPartyDirectory(activeOrganizationId)
+      .then(directory => isMounted && setPartyDirectory(directory))
+      .catch(error => console.error('❌ [MASTER DATA] Failed to load sellers and debtors:', error));
+
+    return () => {
+      isMounted = false;
+    };
+  }, [activeOrganizationId]);
 
   // Calculate dashboard analytics
   const analytics = useMemo(() => {
@@ -144,6 +176,12 @@ const DashboardPage: React.FC<DashboardPageProps> = () => {
       return acc;
     }, {} as Record<string, number>);
 
+    const invoiceStatusStats = submittedInvoices.reduce((acc, inv) => {
+      const status = getInvoiceStatus(inv.status);
+      acc[status] = (acc[status] || 0) + 1;
+      return acc;
+    }, {} as Partial<Record<InvoiceStatus, number>>);
+
     // Calculate days to due date for active invoices
     const today = new Date();
     const overdueInvoices = validInvoices.filter(inv => {
@@ -169,6 +207,7 @@ const DashboardPage: React.FC<DashboardPageProps> = () => {
       recentJobs,
       recentInvoices,
       processingStats,
+      invoiceStatusStats,
       overdueInvoices: overdueInvoices.length,
       dueSoonInvoices: dueSoonInvoices.length
     };
@@ -304,6 +343,11 @@ const DashboardPage: React.FC<DashboardPageProps> = () => {
                       <div className="activity-details">
                         {job.successfulInvoices || 0} successful • {job.failedInvoices || 0} failed
                       </div>
+                      {hasErrorReport(job) && (
+                        <div className="activity-report">
+                          <ErrorReportLinks job={job} />
+                        </div>
+                      )}
                     </div>
                     <div className="activity-meta">
                       <span className={`status-badge ${getStatusBadgeClass(job.status || '')}`}>
@@ -340,6 +384,11 @@ const DashboardPage: React.FC<DashboardPageProps> = () => {
                       <div className="invoice-details">
                         {invoice.product} • {formatCurrency(invoice.amount)} {invoice.currency}
                       </div>
+                      <div className="invoice-details">
+                        <PartyName directory={partyDirectory} kind="seller" partyId={invoice.sellerId} />
+                        {' → '}
+                        <PartyName directory={partyDirectory} kind="debtor" partyId={invoice.debtorId} />
+                      </div>
                     </div>
                     <div className="invoice-meta">
                       <span className={`format-badge ${invoice.isValid ? 'valid' : 'invalid'}`}>
@@ -370,6 +419,21 @@ const DashboardPage: React.FC<DashboardPageProps> = () => {
         </div>
       )}
 
+      {/* Submitted Invoice Lifecycle */}
+      {analytics.totalSubmittedInvoices > 0 && (
+        <div className="stats-section lifecycle-section">
+          <h3>🏷️ Submitted Invoice Status</h3>
+          <div className="stats-grid">
+            {INVOICE_STATUSES.filter(status => analytics.invoiceStatusStats[status]).map(status => (
+              <Link key={status} to="/submitted-invoices" className="stat-item stat-link">
+                <div className="stat-number">{analytics.invoiceStatusStats[status]}</div>
+                <div className="stat-label">{STATUS_LABELS[status]}</div>
+              </Link>
+            ))}
+          </div>
+        </div>
+      )}
+
       <style>{`
         .dashboard-page {
           padding: 30px;
@@ -693,6 +757,10 @@ const DashboardPage: React.FC<DashboardPageProps> = () => {
           font-size: 14px;
         }
 
+        .activity-report {
+          margin-top: 6px;
+        }
+
         .activity-details, .invoice-details {
           font-size: 12px;
           color: #5e6e77;
@@ -760,6 +828,15 @@ const DashboardPage: React.FC<DashboardPageProps> = () => {
           font-weight: 600;
         }
 
+        .lifecycle-section {
+          margin-top: 24px;
+        }
+
+        .stat-link {
+          text-decoration: none;
+          display: block;
+        }
+
         .stats-grid {
           display: grid;
           grid-template-columns: repeat(auto-fit, minmax(120px, 1fr));
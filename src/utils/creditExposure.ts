@@ -0,0 +1,40 @@
+// src/utils/creditExposure.ts - Load what a workspace's debtors already owe, for the checks before submission
+import { generateClient } from 'aws-amplify/data';
+import type { Schema } from '../../amplify/data/resource';
+import { getWorkspaceFilter } from '../context/organizationContext';
+import { isOutstanding } from '../../shared/masterData/creditExposure';
+import type { DebtorLimits, ExposureInvoice } from '../../shared/masterData/creditExposure';
+import type { Party } from './partyRegistry';
+
+const client = generateClient<Schema>();
+
+// Submitted invoices of the workspace that are still open
+export const fetchOutstandingExposure = async (organizationId: string | null): Promise<ExposureInvoice[]> => {
+  const filter = await getWorkspaceFilter(organizationId);
+  const outstanding: ExposureInvoice[] = [];
+  let nextToken: string | null | undefined;
+
+  do {
+    const result = await client.models.SubmittedInvoice.list({
+      filter,
+      selectionSet: ['debtorId', 'currency', 'amount', 'status'],
+      nextToken,
+    });
+    if (result.errors) {
+      throw new Error(`Failed to load submitted invoices: ${result.errors[0]?.message || 'Unknown error'}`);
+    }
+    outstanding.push(...result.data.filter(invoice => isOutstanding(invoice.status)));
+    nextToken = result.nextToken;
+  } while (nextToken);
+
+  return outstanding;
+};
+
+export const toDebtorLimits = (debtors: Party[]): DebtorLimits[] =>
+  debtors.map(debtor => ({
+    debtorId: debtor.partyId,
+    legalName: debtor.legalName,
+    creditLimit: debtor.creditLimit,
+    creditLimitCurrency: debtor.defaultCurrency,
+    maxConcentrationPercent: debtor.maxConcentrationPercent,
+  }));
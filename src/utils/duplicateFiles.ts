@@ -0,0 +1,53 @@
+// src/utils/duplicateFiles.ts - Spot files that were uploaded or attached before, by content hash
+import { generateClient } from 'aws-amplify/data';
+import type { Schema } from '../../amplify/data/resource';
+import { getWorkspaceFilter } from '../context/organizationContext';
+
+const client = generateClient<Schema>();
+
+type UploadJob = Schema["InvoiceUploadJob"]["type"];
+
+// Earlier uploads of the same file in this workspace; failed jobs created no invoices and are ignored
+export const findEarlierUploadJobs = async (fileSha256: string, organizationId: string | null): Promise<UploadJob[]> => {
+  const filter = { ...await getWorkspaceFilter(organizationId), fileSha256: { eq: fileSha256 } };
+  const jobs: UploadJob[] = [];
+  let nextToken: string | null | undefined;
+
+  do {
+    const result = await client.models.InvoiceUploadJob.list({
+      filter,
+      nextToken,
+    });
+    if (result.errors) {
+      throw new Error(`Failed to check for earlier uploads: ${result.errors[0]?.message || 'Unknown error'}`);
+    }
+    jobs.push(...result.data.filter(job => job.status !== 'FAILED'));
+    nextToken = result.nextToken;
+  } while (nextToken);
+
+  return jobs.sort((a, b) => (a.createdAt || '').localeCompare(b.createdAt || ''));
+};
+
+// Files Manager rows carry this id so the re-upload warning can link to them
+export const getUploadJobAnchor = (jobId: string) => `upload-job-${jobId}`;
+
+interface HashedAttachment {
+  invoiceRecordId: string;
+  sha256?: string | null;
+}
+
+// Invoice record id -> the other invoices carrying a file with the same content
+export const findFilesSharedAcrossInvoices = (attachments: HashedAttachment[]): Map<string, string[]> => {
+  const invoicesByHash = new Map<string, Set<string>>();
+  attachments.forEach(({ invoiceRecordId, sha256 }) => {
+    if (!sha256) return;
+    invoicesByHash.set(sha256, (invoicesByHash.get(sha256) || new Set()).add(invoiceRecordId));
+  });
+
+  const shared = new Map<string, string[]>();
+  invoicesByHash.forEach(invoiceRecordIds => {
+    if (invoiceRecordIds.size < 2) return;
+    invoiceRecordIds.forEach(id => shared.set(id, [...invoiceRecordIds].filter(other => other !== id)));
+  });
+  return shared;
+};
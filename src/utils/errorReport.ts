@@ -0,0 +1,95 @@
+// src/utils/errorReport.ts - Download the rejected rows of an upload job as CSV or XLSX
+import * as XLSX from 'xlsx';
+import { generateClient } from 'aws-amplify/data';
+import type { Schema } from '../../amplify/data/resource';
+import { getWorkspaceFileUrl } from './organizationFiles';
+import { readInvoiceFile } from '../../shared/invoiceProcessing/invoiceFile';
+import { buildErrorReport, parseProcessingErrors } from '../../shared/invoiceProcessing/errorReport';
+import type { ErrorReport } from '../../shared/invoiceProcessing/errorReport';
+import { SUPPORTED_DELIMITERS } from '../../shared/invoiceProcessing/csvParser';
+import type { CsvDelimiter } from '../../shared/invoiceProcessing/csvParser';
+import type { ProcessingError } from '../../shared/invoiceProcessing/types';
+
+const client = generateClient<Schema>();
+
+type UploadJob = Schema["InvoiceUploadJob"]["type"];
+
+export type ErrorReportFormat = 'CSV' | 'XLSX';
+
+export const hasErrorReport = (job: Pick<UploadJob, 'processingErrors'>): boolean =>
+  parseProcessingErrors(job.processingErrors).length > 0;
+
+// Rows corrected since the upload are left out; rows edited but still invalid show their current errors
+const getCurrentErrors = async (job: UploadJob): Promise<ProcessingError[]> => {
+  const storedRows = new Map<number, { isValid?: boolean | null; validationErrors?: (string | null)[] | null }>();
+  let nextToken: string | null | undefined;
+  do {
+    const result = await client.models.Invoice.list({
+      filter: { uploadJobId: { eq: job.id } },
+      selectionSet: ['sourceRowNumber', 'isValid', 'validationErrors'],
+      nextToken,
+    });
+    if (result.errors) {
+      throw new Error(`Failed to load invoices: ${result.errors[0]?.message || 'Unknown error'}`);
+    }
+    result.data.forEach(invoice => {
+      if (invoice.sourceRowNumber != null) storedRows.set(invoice.sourceRowNumber, invoice);
+    });
+    nextToken = result.nextToken;
+  } while (nextToken);
+
+  return parseProcessingErrors(job.processingErrors).flatMap(error => {
+    const stored = storedRows.get(error.row);
+    if (!stored) return [error];
+    if (stored.isValid) return [];
+    return [{ ...error, errors: (stored.validationErrors || []).filter((message): message is string => !!message) }];
+  });
+};
+
+// Reads the uploaded file again the way the processing Lambda did, so every original column is kept
+export const fetchErrorReport = async (job: UploadJob): Promise<ErrorReport> => {
+  const fileUrl = await getWorkspaceFileUrl(job.s3Key, job.organizationId);
+  const response = await fetch(fileUrl);
+  if (!response.ok) {
+    throw new Error(`The uploaded file could not be downloaded (${response.status})`);
+  }
+
+  const delimiter = SUPPORTED_DELIMITERS.includes(job.csvDelimiter as CsvDelimiter)
+    ? job.csvDelimiter as CsvDelimiter
+    : 'auto';
+  const sheetNames = (job.sheetNames || []).filter((name): name is string => !!name);
+  const rawFile = readInvoiceFile(await response.arrayBuffer(), job.fileType, { delimiter, sheetNames });
+
+  return buildErrorReport(rawFile, await getCurrentErrors(job));
+};
+
+export const downloadErrorReport = async (job: UploadJob, format: ErrorReportFormat): Promise<void> => {
+  console.log('📋 [ERROR REPORT] Building report:', { jobId: job.id, format });
+  const report = await fetchErrorReport(job);
+  if (report.rows.length === 0) {
+    throw new Error('All rows of this upload are valid now');
+  }
+
+  const worksheet = XLSX.utils.json_to_sheet(report.rows, { header: report.headers });
+  const baseName = job.fileName.replace(/\.[^.]+$/, '');
+  let blob: Blob;
+  if (format === 'CSV') {
+    // Same separator as the seller's export, so the fixed file can be uploaded as is
+    const separator = job.fileType === 'CSV' && job.csvDelimiter ? job.csvDelimiter : ',';
+    blob = new Blob(['\uFEFF', XLSX.utils.sheet_to_csv(worksheet, { FS: separator })], { type: 'text/csv;charset=utf-8' });
+  } else {
+    const workbook = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(workbook, worksheet, 'Errors');
+    blob = new Blob([XLSX.write(workbook, { bookType: 'xlsx', type: 'array' })], {
+      type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+    });
+  }
+
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `${baseName}-errors.${format.toLowerCase()}`;
+  link.click();
+  URL.revokeObjectURL(url);
+  console.log('✅ [ERROR REPORT] Downloaded:', { jobId: job.id, rows: report.rows.length });
+};
@@ -0,0 +1,7 @@
+// src/utils/fileHash.ts - Content hashes for uploaded files
+
+// Hex-encoded SHA-256 of the file's bytes, computed with Web Crypto
+export const sha256Hex = async (file: Blob): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', await file.arrayBuffer());
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+};
@@ -0,0 +1,111 @@
+// src/utils/invoiceArchive.ts - Unpack a ZIP of one invoice file plus PDFs, and pair the PDFs with invoices
+import { unzipSync } from 'fflate';
+import { isSupportedInvoiceFile } from '../../shared/invoiceProcessing/invoiceFile';
+import { normalizeHeader } from '../../shared/invoiceProcessing/columnMapping';
+import type { CsvRow } from '../../shared/invoiceProcessing/csvParser';
+
+export interface InvoiceArchive {
+  invoiceFile: File;
+  pdfs: File[];
+  ignoredFiles: string[]; // Anything that is neither the invoice file nor a PDF
+  duplicatePdfs: string[]; // Full paths of PDFs whose file name appears in more than one folder; none of them is matched
+}
+
+export interface PdfMatchResult<T> {
+  matches: { invoice: T; pdf: File }[];
+  unmatchedPdfs: File[];
+  invoicesWithoutPdf: T[];
+}
+
+// Headers accepted for the optional column naming each row's PDF
+const PDF_FILENAME_HEADERS = ['pdf filename', 'pdf file name', 'pdf file', 'pdf'];
+
+export const isZipFile = (fileName: string): boolean => /\.zip$/i.test(fileName);
+
+const baseName = (path: string): string => path.split('/').pop() || path;
+
+// Finder and Explorer add metadata entries that are never invoice content
+const isSystemEntry = (path: string): boolean =>
+  path.startsWith('__MACOSX/') || baseName(path).startsWith('.') || path.endsWith('/');
+
+export const readInvoiceArchive = async (archive: File): Promise<InvoiceArchive> => {
+  const entries = unzipSync(new Uint8Array(await archive.arrayBuffer()));
+
+  const invoiceFiles: File[] = [];
+  const pdfPathsByName = new Map<string, { path: string; data: Uint8Array }[]>();
+  const ignoredFiles: string[] = [];
+
+  Object.entries(entries).forEach(([path, data]) => {
+    if (isSystemEntry(path)) return;
+    const name = baseName(path);
+
+    if (/\.pdf$/i.test(name)) {
+      const key = name.toLowerCase();
+      pdfPathsByName.set(key, [...(pdfPathsByName.get(key) || []), { path, data }]);
+    } else if (isSupportedInvoiceFile(name)) {
+      invoiceFiles.push(new File([data], name));
+    } else {
+      ignoredFiles.push(path);
+    }
+  });
+
+  if (invoiceFiles.length !== 1) {
+    throw new Error(invoiceFiles.length === 0
+      ? `${archive.name} does not contain an invoice file (CSV, spreadsheet, JSON or XML)`
+      : `${archive.name} contains ${invoiceFiles.length} invoice files; put exactly one in each ZIP`);
+  }
+
+  // PDFs are matched by file name, so a name shared by several folders cannot be told apart
+  const pdfs: File[] = [];
+  const duplicatePdfs: string[] = [];
+  pdfPathsByName.forEach(copies => {
+    if (copies.length > 1) {
+      duplicatePdfs.push(...copies.map(copy => copy.path));
+    } else {
+      pdfs.push(new File([copies[0].data], baseName(copies[0].path), { type: 'application/pdf' }));
+    }
+  });
+
+  return { invoiceFile: invoiceFiles[0], pdfs, ignoredFiles, duplicatePdfs };
+};
+
+// The pdf_filename column, if the file has one, keyed by row number
+export const getPdfFileNamesByRow = (headers: string[], rows: { row: CsvRow; rowNumber: number }[]): Map<number, string> => {
+  const header = headers.find(h => PDF_FILENAME_HEADERS.includes(normalizeHeader(h)));
+  const byRow = new Map<number, string>();
+  if (!header) return byRow;
+
+  rows.forEach(({ row, rowNumber }) => {
+    const value = String(row[header] ?? '').trim();
+    if (value) byRow.set(rowNumber, baseName(value));
+  });
+  return byRow;
+};
+
+// A PDF belongs to an invoice if the row names it, otherwise if it is called <invoice_id>.pdf
+export const matchPdfsToInvoices = <T extends { invoiceId: string }>(
+  invoices: T[],
+  pdfs: File[],
+  pdfFileNameFor: (invoice: T) => string | undefined
+): PdfMatchResult<T> => {
+  const remaining = new Map(pdfs.map(pdf => [pdf.name.toLowerCase(), pdf]));
+  const matches: PdfMatchResult<T>["matches"] = [];
+  const invoicesWithoutPdf: T[] = [];
+
+  invoices.forEach(invoice => {
+    const candidates = [pdfFileNameFor(invoice), `${invoice.invoiceId}.pdf`]
+      .filter((name): name is string => !!name)
+      .map(name => name.toLowerCase());
+    const key = candidates.find(name => remaining.has(name));
+    const pdf = key ? remaining.get(key) : undefined;
+
+    if (key && pdf) {
+      matches.push({ invoice, pdf });
+      remaining.delete(key);
+    } else {
+      invoicesWithoutPdf.push(invoice);
+    }
+  });
+
+  return { matches, unmatchedPdfs: [...remaining.values()], invoicesWithoutPdf };
+};
@@ -0,0 +1,68 @@
+// src/utils/invoiceDocuments.ts - Upload and remove typed supporting documents for an invoice
+import { uploadData } from 'aws-amplify/storage';
+import { getCurrentUser } from 'aws-amplify/auth';
+import { generateClient } from 'aws-amplify/data';
+import type { Schema } from '../../amplify/data/resource';
+import type { DocumentType } from '../../shared/invoiceDocuments/documentTypes';
+import { sha256Hex } from './fileHash';
+
+const client = generateClient<Schema>();
+
+export type InvoiceDocument = Schema["InvoiceDocument"]["type"];
+
+interface UploadInvoiceDocumentOptions {
+  invoiceRecordId: string; // Invoice id, which the SubmittedInvoice keeps after submission
+  organizationId?: string | null;
+  onProgress?: (percent: number) => void;
+}
+
+export const uploadInvoiceDocument = async (
+  file: File,
+  documentType: DocumentType,
+  { invoiceRecordId, organizationId, onProgress }: UploadInvoiceDocumentOptions
+): Promise<InvoiceDocument> => {
+  const sanitizedFileName = file.name.replace(/[^a-zA-Z0-9.-]/g, '_');
+  const workspaceFolder = organizationId ? `organizations/${organizationId}/` : '';
+  const [sha256, user] = await Promise.all([sha256Hex(file), getCurrentUser()]);
+
+  const uploadResult = await uploadData({
+    path: ({ identityId }) =>
+      `user-files/${identityId}/${workspaceFolder}invoices/${invoiceRecordId}/documents/${Date.now()}-${sanitizedFileName}`,
+    data: file,
+    options: {
+      contentType: file.type || undefined,
+      onProgress: ({ transferredBytes, totalBytes }) => {
+        if (totalBytes && onProgress) {
+          onProgress(Math.round((transferredBytes / totalBytes) * 100));
+        }
+      },
+    },
+  }).result;
+
+  const { data, errors } = await client.models.InvoiceDocument.create({
+    invoiceId: invoiceRecordId,
+    submittedInvoiceId: invoiceRecordId,
+    documentType,
+    s3Key: uploadResult.path,
+    fileName: file.name,
+    fileSize: file.size,
+    sha256,
+    uploadedAt: new Date().toISOString(),
+    uploadedBy: user.signInDetails?.loginId || user.username,
+    organizationId: organizationId || undefined,
+  });
+  if (errors || !data) {
+    throw new Error(errors?.[0]?.message || 'Failed to save document');
+  }
+
+  console.log('📎 [DOCUMENTS] Document attached:', { invoiceRecordId, documentType, fileName: file.name });
+  return data;
+};
+
+// Like invoice PDFs, the S3 object is kept so a removed document can be recovered
+export const removeInvoiceDocument = async (documentId: string): Promise<void> => {
+  const { errors } = await client.models.InvoiceDocument.delete({ id: documentId });
+  if (errors) {
+    throw new Error(errors[0]?.message || 'Failed to remove document');
+  }
+};
@@ -0,0 +1,166 @@
+// src/utils/invoiceEditing.ts - Correct invoice rows in place, revalidate them and keep the upload job counts in step
+import { generateClient } from 'aws-amplify/data';
+import { getCurrentUser } from 'aws-amplify/auth';
+import type { Schema } from '../../amplify/data/resource';
+import { INVOICE_FIELDS } from '../../shared/invoiceProcessing/columnMapping';
+import type { InvoiceFieldKey } from '../../shared/invoiceProcessing/columnMapping';
+import type { CsvRow } from '../../shared/invoiceProcessing/csvParser';
+import {
+  getStoredInvoiceFields,
+  markDuplicateInvoices,
+  markUnregisteredParties,
+  validateInvoiceData,
+} from '../../shared/invoiceProcessing/validation';
+import type { ExistingInvoice } from '../../shared/invoiceProcessing/validation';
+import type { ValidationRule } from '../../shared/invoiceProcessing/validationRules';
+import { EMPTY_PARTY_REGISTRY } from '../../shared/masterData/parties';
+import type { PartyRegistry } from '../../shared/masterData/parties';
+import type { InvoiceData, ProcessingError } from '../../shared/invoiceProcessing/types';
+
+const client = generateClient<Schema>();
+
+type Invoice = Schema["Invoice"]["type"];
+
+// Editable text of each column, keyed like the file headers the validation rules read
+export type InvoiceDraft = Record<InvoiceFieldKey, string>;
+
+// a.json() fields come back as a JSON string or an object depending on the code path
+const parseJsonField = <T>(stored: unknown, fallback: T): T => {
+  try {
+    const value = typeof stored === 'string' ? JSON.parse(stored) : stored;
+    return value && typeof value === 'object' ? value as T : fallback;
+  } catch {
+    return fallback;
+  }
+};
+
+// Fields that never parsed show the text from the file rather than a placeholder
+export const getInvoiceDraft = (invoice: Invoice): InvoiceDraft => {
+  const source = parseJsonField<CsvRow>(invoice.sourceValues, {});
+  const stored: InvoiceDraft = {
+    invoice_id: invoice.invoiceId,
+    seller_id: invoice.sellerId,
+    debtor_id: invoice.debtorId,
+    currency: invoice.currency,
+    amount: invoice.amount ? String(invoice.amount) : '',
+    product: invoice.product,
+    issue_date: invoice.issueDate,
+    due_date: invoice.dueDate,
+  };
+  return Object.fromEntries(INVOICE_FIELDS.map(field => [field.key, source[field.key] ?? stored[field.key]])) as InvoiceDraft;
+};
+
+// Same rules as the upload; duplicates are checked against the workspace's other valid invoices
+export const validateInvoiceDraft = (
+  invoice: Invoice,
+  draft: InvoiceDraft,
+  otherInvoices: ExistingInvoice[],
+  rules: ValidationRule[],
+  registry: PartyRegistry = EMPTY_PARTY_REGISTRY
+): InvoiceData =>
+  markUnregisteredParties(
+    markDuplicateInvoices([validateInvoiceData(draft, invoice.sourceRowNumber ?? 0, rules)], otherInvoices),
+    registry
+  )[0];
+
+export const saveInvoiceEdit = async (
+  invoice: Invoice,
+  draft: InvoiceDraft,
+  otherInvoices: ExistingInvoice[],
+  rules: ValidationRule[],
+  registry?: PartyRegistry
+): Promise<Invoice> => {
+  const original = getInvoiceDraft(invoice);
+  const changedFields = INVOICE_FIELDS
+    .map(field => field.key)
+    .filter(key => draft[key].trim() !== original[key].trim());
+  if (changedFields.length === 0) return invoice;
+
+  const validated = validateInvoiceDraft(invoice, draft, otherInvoices, rules, registry);
+  const user = await getCurrentUser();
+  const editedAt = new Date().toISOString();
+  const edits = changedFields.map(field => ({
+    field,
+    originalValue: original[field],
+    newValue: draft[field].trim(),
+    editedAt,
+    editedBy: user.signInDetails?.loginId || user.username,
+  }));
+
+  const { data, errors } = await client.models.Invoice.update({
+    id: invoice.id,
+    ...getStoredInvoiceFields(validated),
+    isValid: validated.isValid,
+    validationErrors: validated.validationErrors,
+    sourceValues: validated.sourceValues ? JSON.stringify(validated.sourceValues) : null,
+    editHistory: [...(invoice.editHistory || []).filter(edit => !!edit), ...edits],
+    // The attached PDF was checked against the old values
+    ...(invoice.pdfS3Key && { pdfVerificationStatus: null, pdfVerificationIssues: null, pdfVerifiedAt: null }),
+  });
+  if (errors || !data) {
+    throw new Error(errors?.[0]?.message || 'Failed to save invoice');
+  }
+
+  console.log('✏️ [EDIT] Invoice corrected:', { id: invoice.id, fields: changedFields, isValid: validated.isValid });
+  await recountUploadJob(invoice.uploadJobId);
+  return data;
+};
+
+// Corrected rows move from failed to successful. The job's error list is rebuilt from the rows that are still invalid;
+// errors for rows that were never stored (unreadable records, failed writes) are kept as they were
+export const recountUploadJob = async (jobId: string): Promise<void> => {
+  const { data: job } = await client.models.InvoiceUploadJob.get({ id: jobId });
+  if (!job) return;
+
+  const invoices: Pick<Invoice, 'invoiceId' | 'isValid' | 'sourceRowNumber' | 'validationErrors'>[] = [];
+  let nextToken: string | null | undefined;
+  do {
+    const result = await client.models.Invoice.list({
+      filter: { uploadJobId: { eq: jobId } },
+      selectionSet: ['invoiceId', 'isValid', 'sourceRowNumber', 'validationErrors'],
+      nextToken,
+    });
+    invoices.push(...result.data);
+    nextToken = result.nextToken;
+  } while (nextToken);
+
+  // Rows already submitted have left the Invoice table but still count as successful
+  let submittedCount = 0;
+  let submittedToken: string | null | undefined;
+  do {
+    const result = await client.models.SubmittedInvoice.list({
+      filter: { originalUploadJobId: { eq: jobId } },
+      selectionSet: ['id'],
+      nextToken: submittedToken,
+    });
+    submittedCount += result.data.length;
+    submittedToken = result.nextToken;
+  } while (submittedToken);
+
+  const successfulInvoices = invoices.filter(invoice => invoice.isValid).length + submittedCount;
+  const storedRows = new Set(invoices.map(invoice => invoice.sourceRowNumber));
+  const processingErrors: ProcessingError[] = [
+    ...parseJsonField<ProcessingError[]>(job.processingErrors, []).filter(error => !storedRows.has(error.row)),
+    ...invoices
+      .filter(invoice => !invoice.isValid && invoice.sourceRowNumber != null)
+      .map(invoice => ({
+        row: invoice.sourceRowNumber as number,
+        invoice_id: invoice.invoiceId || undefined,
+        errors: (invoice.validationErrors || []).filter((error): error is string => !!error),
+      })),
+  ].sort((a, b) => a.row - b.row);
+  const totalInvoices = job.totalInvoices ?? invoices.length + submittedCount;
+
+  const { errors } = await client.models.InvoiceUploadJob.update({
+    id: jobId,
+    successfulInvoices,
+    failedInvoices: Math.max(totalInvoices - successfulInvoices, 0),
+    processingErrors: JSON.stringify(processingErrors),
+    errorMessage: processingErrors.length > 0
+      ? `${processingErrors.length} validation errors. Sample: ${processingErrors.slice(0, 3).map(e => `Row ${e.row}: ${e.errors[0]}`).join('; ')}`
+      : null,
+  });
+  if (errors) {
+    console.error('❌ [EDIT] Failed to recount upload job:', errors);
+  }
+};
@@ -0,0 +1,59 @@
+// src/utils/invoicePdf.ts - Store an invoice PDF in S3 and link it to its Invoice record
+import { uploadData } from 'aws-amplify/storage';
+import { generateClient } from 'aws-amplify/data';
+import type { Schema } from '../../amplify/data/resource';
+import outputs from '../../amplify_outputs.json';
+import { assertPdfFile, verifyInvoicePdf } from './pdfVerification';
+import { sha256Hex } from './fileHash';
+
+const client = generateClient<Schema>();
+
+interface AttachInvoicePdfOptions {
+  organizationId?: string | null;
+  onProgress?: (percent: number) => void;
+}
+
+// PDFs live next to the invoice's workspace files: user-files/{identity}/[organizations/{org}/]invoices/{id}/
+export const attachInvoicePdf = async (
+  invoice: Schema["Invoice"]["type"],
+  file: File,
+  { organizationId, onProgress }: AttachInvoicePdfOptions = {}
+): Promise<Schema["Invoice"]["type"]> => {
+  // Reject renamed non-PDF files before anything is stored
+  await assertPdfFile(file);
+
+  const sanitizedFileName = file.name.replace(/[^a-zA-Z0-9.-]/g, '_');
+  const workspaceFolder = organizationId ? `organizations/${organizationId}/` : '';
+
+  const uploadResult = await uploadData({
+    path: ({ identityId }) =>
+      `user-files/${identityId}/${workspaceFolder}invoices/${invoice.id}/${Date.now()}-${sanitizedFileName}`,
+    data: file,
+    options: {
+      contentType: 'application/pdf',
+      onProgress: ({ transferredBytes, totalBytes }) => {
+        if (totalBytes && onProgress) {
+          onProgress(Math.round((transferredBytes / totalBytes) * 100));
+        }
+      },
+    },
+  }).result;
+
+  const [verification, pdfSha256] = await Promise.all([verifyInvoicePdf(file, invoice), sha256Hex(file)]);
+
+  const updateResult = await client.models.Invoice.update({
+    id: invoice.id,
+    pdfS3Key: uploadResult.path,
+    pdfS3FullPath: `${outputs.storage.bucket_name}/${uploadResult.path}`,
+    pdfFileName: file.name,
+    pdfUploadedAt: new Date().toISOString(),
+    pdfSha256,
+    ...verification,
+  });
+
+  if (updateResult.errors || !updateResult.data) {
+    throw new Error(updateResult.errors?.[0]?.message || 'Failed to link PDF to invoice');
+  }
+
+  return updateResult.data;
+};
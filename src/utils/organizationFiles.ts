@@ -0,0 +1,27 @@
+// src/utils/organizationFiles.ts - Signed URLs for files shared within an organization
+import { getUrl } from 'aws-amplify/storage';
+import { fetchAuthSession } from 'aws-amplify/auth';
+import { generateClient } from 'aws-amplify/data';
+import type { Schema } from '../../amplify/data/resource';
+
+const client = generateClient<Schema>();
+
+// S3 only lets users read their own identity folder, so teammates' files are signed by the backend
+export const getWorkspaceFileUrl = async (
+  path: string,
+  organizationId: string | null | undefined,
+  expiresIn = 3600
+): Promise<string> => {
+  const { identityId } = await fetchAuthSession();
+
+  if (organizationId && identityId && !path.startsWith(`user-files/${identityId}/`)) {
+    const result = await client.queries.getOrganizationFileUrl({ organizationId, path });
+    if (result.errors || !result.data) {
+      throw new Error(result.errors?.[0]?.message || 'Failed to get file URL');
+    }
+    return result.data;
+  }
+
+  const { url } = await getUrl({ path, options: { expiresIn } });
+  return url.toString();
+};
@@ -0,0 +1,181 @@
+// src/utils/partyRegistry.ts - Load and maintain the seller and debtor registries of a workspace
+import { generateClient } from 'aws-amplify/data';
+import type { Schema } from '../../amplify/data/resource';
+import { getWorkspaceFilter } from '../context/organizationContext';
+import type { WorkspaceFilter } from '../context/organizationContext';
+import { runWithConcurrency } from './concurrency';
+import { PARTY_KINDS, buildPartyRegistry } from '../../shared/masterData/parties';
+import type { PartyImportRow, PartyInput, PartyKind, PartyRegistry } from '../../shared/masterData/parties';
+
+const client = generateClient<Schema>();
+
+const IMPORT_CONCURRENCY = 5;
+
+type SellerRecord = Schema["Seller"]["type"];
+type DebtorRecord = Schema["Debtor"]["type"];
+
+// A registered seller or debtor; id is the record id, partyId the ID invoice files use
+export interface Party extends PartyInput {
+  id: string;
+  organizationId?: string | null;
+}
+
+// Lower-cased ID -> parties with that ID; reviewers load several workspaces that may reuse one
+export type PartyDirectory = Record<PartyKind, Map<string, Party[]>>;
+
+export interface PartyImportResult {
+  created: number;
+  updated: number;
+  failed: { partyId: string; message: string }[];
+}
+
+const toParty = (record: SellerRecord | DebtorRecord): Party => ({
+  id: record.id,
+  partyId: 'sellerId' in record ? record.sellerId : record.debtorId,
+  legalName: record.legalName,
+  ...(record.country && { country: record.country }),
+  ...(record.registrationNumber && { registrationNumber: record.registrationNumber }),
+  ...(record.vatId && { vatId: record.vatId }),
+  ...(record.defaultCurrency && { defaultCurrency: record.defaultCurrency }),
+  ...(record.paymentTermsDays != null && { paymentTermsDays: record.paymentTermsDays }),
+  ...('creditLimit' in record && record.creditLimit != null && { creditLimit: record.creditLimit }),
+  ...('maxConcentrationPercent' in record && record.maxConcentrationPercent != null && {
+    maxConcentrationPercent: record.maxConcentrationPercent,
+  }),
+  isActive: record.isActive,
+  organizationId: record.organizationId,
+});
+
+// Without a filter every party the caller can read is returned
+const listParties = async (kind: PartyKind, filter?: WorkspaceFilter): Promise<Party[]> => {
+  const parties: Party[] = [];
+  let nextToken: string | null | undefined;
+
+  do {
+    const result = kind === 'seller'
+      ? await client.models.Seller.list({ filter, nextToken })
+      : await client.models.Debtor.list({ filter, nextToken });
+    if (result.errors) {
+      throw new Error(`Failed to load ${kind}s: ${result.errors[0]?.message || 'Unknown error'}`);
+    }
+    parties.push(...result.data.map(toParty));
+    nextToken = result.nextToken;
+  } while (nextToken);
+
+  return parties.sort((a, b) => a.legalName.localeCompare(b.legalName));
+};
+
+export const fetchParties = async (kind: PartyKind, organizationId: string | null): Promise<Party[]> =>
+  listParties(kind, await getWorkspaceFilter(organizationId));
+
+// Pass undefined to load every registry the caller can read, as reviewers do
+export const fetchPartyDirectory = async (organizationId: string | null | undefined): Promise<PartyDirectory> => {
+  const filter = organizationId === undefined ? undefined : await getWorkspaceFilter(organizationId);
+  const [sellers, debtors] = await Promise.all(PARTY_KINDS.map(kind => listParties(kind, filter)));
+  const index = (parties: Party[]) => {
+    const byId = new Map<string, Party[]>();
+    parties.forEach(party => {
+      const key = party.partyId.toLowerCase();
+      byId.set(key, [...(byId.get(key) || []), party]);
+    });
+    return byId;
+  };
+  return { seller: index(sellers), debtor: index(debtors) };
+};
+
+// Prefers the party registered in the invoice's own workspace
+export const findParty = (
+  directory: PartyDirectory | null,
+  kind: PartyKind,
+  partyId: string,
+  organizationId?: string | null
+): Party | undefined => {
+  const matches = directory?.[kind].get(partyId.toLowerCase()) || [];
+  return matches.find(party => (party.organizationId || null) === (organizationId || null)) || matches[0];
+};
+
+export const toPartyRegistry = (directory: PartyDirectory): PartyRegistry => {
+  const flatten = (kind: PartyKind) => [...directory[kind].values()].flat();
+  return buildPartyRegistry(
+    flatten('seller').map(party => ({ sellerId: party.partyId, legalName: party.legalName, isActive: party.isActive })),
+    flatten('debtor').map(party => ({ debtorId: party.partyId, legalName: party.legalName, isActive: party.isActive }))
+  );
+};
+
+export const fetchPartyRegistry = async (organizationId: string | null): Promise<PartyRegistry> =>
+  toPartyRegistry(await fetchPartyDirectory(organizationId));
+
+// Creates the party, or updates the record with the given id. Credit limits are only written for admins,
+// as the API refuses them from anyone else
+export const saveParty = async (
+  kind: PartyKind,
+  input: PartyInput,
+  organizationId: string | null,
+  existingId?: string,
+  canSetLimits = false
+): Promise<Party> => {
+  // Cleared optional fields are written as null so an update removes them
+  const fields = {
+    legalName: input.legalName,
+    country: input.country || null,
+    registrationNumber: input.registrationNumber || null,
+    vatId: input.vatId || null,
+    defaultCurrency: input.defaultCurrency || null,
+    paymentTermsDays: input.paymentTermsDays ?? null,
+    isActive: input.isActive,
+  };
+
+  let result;
+  if (kind === 'seller') {
+    result = existingId
+      ? await client.models.Seller.update({ id: existingId, sellerId: input.partyId, ...fields })
+      : await client.models.Seller.create({ sellerId: input.partyId, ...fields, organizationId: organizationId ?? undefined });
+  } else {
+    const debtorFields = canSetLimits
+      ? { creditLimit: input.creditLimit ?? null, maxConcentrationPercent: input.maxConcentrationPercent ?? null }
+      : {};
+    result = existingId
+      ? await client.models.Debtor.update({ id: existingId, debtorId: input.partyId, ...fields, ...debtorFields })
+      : await client.models.Debtor.create({ debtorId: input.partyId, ...fields, ...debtorFields, organizationId: organizationId ?? undefined });
+  }
+
+  if (result.errors || !result.data) {
+    throw new Error(result.errors?.[0]?.message || `Failed to save ${kind} ${input.partyId}`);
+  }
+  return toParty(result.data);
+};
+
+// Rows whose ID is already registered update that party, keeping values for columns the file leaves out; the rest are created active unless the file says otherwise
+export const importParties = async (
+  kind: PartyKind,
+  inputs: PartyImportRow[],
+  existing: Party[],
+  organizationId: string | null,
+  canSetLimits = false
+): Promise<PartyImportResult> => {
+  console.log(`📇 [MASTER DATA] Importing ${inputs.length} ${kind}s`);
+  const existingById = new Map(existing.map(party => [party.partyId.toLowerCase(), party]));
+  const results = await runWithConcurrency(inputs, IMPORT_CONCURRENCY, input =>
+  {
+    const existingParty = existingById.get(input.partyId.toLowerCase());
+    return saveParty(kind, existingParty ? { ...existingParty, ...input } : { isActive: true, ...input }, organizationId, existingParty?.id, canSetLimits);
+  });
+
+  const summary: PartyImportResult = { created: 0, updated: 0, failed: [] };
+  results.forEach((result, index) => {
+    const input = inputs[index];
+    if (result.status === 'rejected') {
+      summary.failed.push({
+        partyId: input.partyId,
+        message: result.reason instanceof Error ? result.reason.message : 'Unknown error',
+      });
+    } else if (existingById.has(input.partyId.toLowerCase())) {
+      summary.updated++;
+    } else {
+      summary.created++;
+    }
+  });
+
+  console.log(`✅ [MASTER DATA] ${kind} import finished:`, summary);
+  return summary;
+};
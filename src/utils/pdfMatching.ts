@@ -0,0 +1,74 @@
+// src/utils/pdfMatching.ts - Propose which invoice each dropped PDF belongs to
+import { extractPdfText } from './pdfText';
+import { containsInvoiceId } from '../../shared/invoiceDocuments/pdfVerification';
+
+export type PdfMatchSource = 'filename' | 'text';
+
+export type PdfMatchStatus = 'matched' | 'ambiguous' | 'unmatched';
+
+export interface ProposedPdfMatch<T> {
+  file: File;
+  status: PdfMatchStatus;
+  source?: PdfMatchSource;
+  candidates: T[]; // One for 'matched', several for 'ambiguous'
+  note?: string;
+}
+
+// "INV-1" is also found in "INV-1-A"; when both hit, the longer ID is the real match
+const dropContainedIds = <T extends { invoiceId: string }>(candidates: T[]): T[] =>
+  candidates.filter(candidate => !candidates.some(other =>
+    other !== candidate &&
+    other.invoiceId.length > candidate.invoiceId.length &&
+    containsInvoiceId(other.invoiceId, candidate.invoiceId)
+  ));
+
+const findCandidates = <T extends { invoiceId: string }>(text: string, invoices: T[]): T[] =>
+  dropContainedIds(invoices.filter(invoice => containsInvoiceId(text, invoice.invoiceId)));
+
+const toProposal = <T>(file: File, candidates: T[], source: PdfMatchSource): ProposedPdfMatch<T> | null => {
+  if (candidates.length === 1) return { file, status: 'matched', source, candidates };
+  if (candidates.length > 1) return { file, status: 'ambiguous', source, candidates };
+  return null;
+};
+
+// Filenames are checked first; the text layer is only read for PDFs the filename does not settle
+export const proposePdfMatches = async <T extends { id: string; invoiceId: string }>(
+  files: File[],
+  invoices: T[],
+  onAnalyzed?: (analyzed: number) => void
+): Promise<ProposedPdfMatch<T>[]> => {
+  const proposals: ProposedPdfMatch<T>[] = [];
+
+  for (const file of files) {
+    const fileName = file.name.replace(/\.pdf$/i, '');
+    let proposal = toProposal(file, findCandidates(fileName, invoices), 'filename');
+
+    if (!proposal) {
+      try {
+        const text = await extractPdfText(file);
+        proposal = toProposal(file, findCandidates(text, invoices), 'text');
+        if (!proposal && !text.trim()) {
+          proposal = { file, status: 'unmatched', candidates: [], note: 'No text layer (scanned document?)' };
+        }
+      } catch (error) {
+        console.error('❌ [PDF MATCH] Could not read PDF text:', { file: file.name, error });
+        proposal = { file, status: 'unmatched', candidates: [], note: 'Could not be read as a PDF' };
+      }
+    }
+
+    proposals.push(proposal || { file, status: 'unmatched', candidates: [] });
+    onAnalyzed?.(proposals.length);
+  }
+
+  // Two PDFs claiming the same invoice need a human decision
+  const claims = new Map<string, number>();
+  proposals
+    .filter(proposal => proposal.status === 'matched')
+    .forEach(proposal => claims.set(proposal.candidates[0].id, (claims.get(proposal.candidates[0].id) || 0) + 1));
+
+  return proposals.map(proposal =>
+    proposal.status === 'matched' && (claims.get(proposal.candidates[0].id) || 0) > 1
+      ? { ...proposal, status: 'ambiguous', note: 'Another PDF matches the same invoice' }
+      : proposal
+  );
+};
@@ -0,0 +1,17 @@
+// src/utils/pdfText.ts - Open PDFs in the browser with pdf.js and read their text layer
+import { GlobalWorkerOptions, getDocument } from 'pdfjs-dist';
+import type { PDFDocumentProxy } from 'pdfjs-dist';
+import pdfWorkerUrl from 'pdfjs-dist/build/pdf.worker.min.mjs?url';
+import { readPdfText } from '../../shared/invoiceDocuments/pdfText';
+
+GlobalWorkerOptions.workerSrc = pdfWorkerUrl;
+
+export const loadPdfDocument = async (data: Blob | ArrayBuffer): Promise<PDFDocumentProxy> => {
+  const buffer = data instanceof Blob ? await data.arrayBuffer() : data;
+  // pdf.js takes ownership of the buffer, so hand it a copy
+  return getDocument({ data: new Uint8Array(buffer.slice(0)) }).promise;
+};
+
+// Scanned PDFs have no text layer and come back as an empty string
+export const extractPdfText = async (data: Blob | ArrayBuffer, maxPages?: number): Promise<string> =>
+  readPdfText(await loadPdfDocument(data), maxPages);
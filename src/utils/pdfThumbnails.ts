@@ -0,0 +1,44 @@
+// src/utils/pdfThumbnails.ts - Render PDF pages to images and cache first-page thumbnails per S3 key
+import type { PDFDocumentProxy } from 'pdfjs-dist';
+
+const THUMBNAIL_WIDTH = 160;
+
+// Stored PDFs never change in place - a new upload gets a new key - so the cache needs no invalidation
+const thumbnails = new Map<string, Promise<string>>();
+
+export const renderPdfPage = async (
+  pdf: PDFDocumentProxy,
+  pageNumber: number,
+  canvas: HTMLCanvasElement,
+  scale: number
+) => {
+  const page = await pdf.getPage(pageNumber);
+  const viewport = page.getViewport({ scale });
+  const context = canvas.getContext('2d');
+  if (!context) throw new Error('Canvas is not supported in this browser');
+
+  canvas.width = Math.floor(viewport.width);
+  canvas.height = Math.floor(viewport.height);
+  return page.render({ canvasContext: context, viewport });
+};
+
+const renderThumbnail = async (pdf: PDFDocumentProxy): Promise<string> => {
+  const page = await pdf.getPage(1);
+  const scale = THUMBNAIL_WIDTH / page.getViewport({ scale: 1 }).width;
+  const canvas = document.createElement('canvas');
+  await (await renderPdfPage(pdf, 1, canvas, scale)).promise;
+  return canvas.toDataURL('image/png');
+};
+
+export const getCachedPdfThumbnail = (pdfS3Key: string): Promise<string> | undefined => thumbnails.get(pdfS3Key);
+
+export const cachePdfThumbnail = (pdfS3Key: string, pdf: PDFDocumentProxy): Promise<string> => {
+  const cached = thumbnails.get(pdfS3Key);
+  if (cached) return cached;
+
+  const thumbnail = renderThumbnail(pdf);
+  thumbnails.set(pdfS3Key, thumbnail);
+  // A failed render (e.g. the panel closed mid-way) should be retried next time
+  thumbnail.catch(() => thumbnails.delete(pdfS3Key));
+  return thumbnail;
+};
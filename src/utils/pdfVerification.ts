@@ -0,0 +1,37 @@
+// src/utils/pdfVerification.ts - Check an invoice PDF in the browser before and after it is attached
+import {
+  PDF_SIGNATURE_WINDOW,
+  hasPdfSignature,
+  verifyInvoicePdfText,
+} from '../../shared/invoiceDocuments/pdfVerification';
+import type { PdfVerificationStatus, VerifiableInvoice } from '../../shared/invoiceDocuments/pdfVerification';
+import { extractPdfText } from './pdfText';
+
+// The extension and MIME type come from the user's machine; the header bytes do not lie
+export const assertPdfFile = async (file: Blob & { name?: string }): Promise<void> => {
+  const header = new Uint8Array(await file.slice(0, PDF_SIGNATURE_WINDOW).arrayBuffer());
+  if (!hasPdfSignature(header)) {
+    throw new Error(`${file.name || 'The file'} is not a PDF document`);
+  }
+};
+
+// Invoice fields recording the outcome, ready for Invoice.update
+export const verifyInvoicePdf = async (file: Blob, invoice: VerifiableInvoice) => {
+  let status: PdfVerificationStatus;
+  let issues: string[];
+
+  try {
+    ({ status, issues } = verifyInvoicePdfText(await extractPdfText(file), invoice));
+  } catch (error) {
+    console.error('❌ [PDF VERIFY] Could not read PDF text:', error);
+    status = 'UNREADABLE';
+    issues = ['The PDF could not be opened to read its text'];
+  }
+
+  console.log('🔎 [PDF VERIFY] Result:', { invoiceId: invoice.invoiceId, status, issues });
+  return {
+    pdfVerificationStatus: status,
+    pdfVerificationIssues: issues,
+    pdfVerifiedAt: new Date().toISOString(),
+  };
+};
@@ -0,0 +1,83 @@
+// src/utils/submissionBatch.ts - Helpers shared by the submit flow and the batch view
+import type { Schema } from '../../amplify/data/resource';
+
+type SubmissionBatch = Schema["SubmissionBatch"]["type"];
+type SubmittedInvoice = Schema["SubmittedInvoice"]["type"];
+
+export type CurrencyTotals = Record<string, number>;
+
+type SubmitterFields = {
+  submittedBy?: string | null;
+  submittedBySub?: string | null;
+  submittedByEmail?: string | null;
+};
+
+// Submissions made before the submitter was stamped server-side only say 'user'
+const LEGACY_SUBMITTER = 'user';
+
+export const getSubmitterName = (record: SubmitterFields): string =>
+  (record.submittedBy && record.submittedBy !== LEGACY_SUBMITTER ? record.submittedBy : null) ||
+  record.submittedByEmail ||
+  'Unknown';
+
+// Stable grouping key - display names can change, the Cognito sub cannot
+export const getSubmitterKey = (record: SubmitterFields): string =>
+  record.submittedBySub || getSubmitterName(record);
+
+export const formatBatchNumber = (batchNumber: number | null | undefined): string =>
+  `SUB-${String(batchNumber || 0).padStart(4, '0')}`;
+
+// a.json() fields come back as a JSON string or an object depending on the code path
+export const parseCurrencyTotals = (stored: unknown): CurrencyTotals => {
+  try {
+    const value = typeof stored === 'string' ? JSON.parse(stored) : stored;
+    return value && typeof value === 'object' ? value as CurrencyTotals : {};
+  } catch {
+    return {};
+  }
+};
+
+const escapeCsvValue = (value: string | number | null | undefined): string => {
+  const text = value == null ? '' : String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// Summary block followed by one line per invoice
+export const buildBatchSummaryCsv = (batch: SubmissionBatch, invoices: SubmittedInvoice[]): string => {
+  const totals = parseCurrencyTotals(batch.currencyTotals);
+  const lines: (string | number | null | undefined)[][] = [
+    ['Submission', formatBatchNumber(batch.batchNumber)],
+    ['Status', batch.status],
+    ['Submitted At', batch.submittedAt],
+    ['Submitted By', getSubmitterName(batch)],
+    ['Submitter Email', batch.submittedByEmail],
+    ['Note', batch.note],
+    ['Invoice Count', batch.invoiceCount ?? invoices.length],
+    ...Object.entries(totals).map(([currency, amount]) => [`Total ${currency}`, amount.toFixed(2)]),
+    [],
+    ['invoice_id', 'seller_id', 'debtor_id', 'currency', 'amount', 'product', 'issue_date', 'due_date', 'pdf_file_name'],
+    ...invoices.map(inv => [
+      inv.invoiceId,
+      inv.sellerId,
+      inv.debtorId,
+      inv.currency,
+      inv.amount,
+      inv.product,
+      inv.issueDate,
+      inv.dueDate,
+      inv.pdfFileName,
+    ]),
+  ];
+
+  return lines.map(line => line.map(escapeCsvValue).join(',')).join('\r\n');
+};
+
+export const downloadBatchSummary = (batch: SubmissionBatch, invoices: SubmittedInvoice[]) => {
+  const blob = new Blob([buildBatchSummaryCsv(batch, invoices)], { type: 'text/csv;charset=utf-8' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `${formatBatchNumber(batch.batchNumber)}-summary.csv`;
+  link.click();
+  URL.revokeObjectURL(url);
+};
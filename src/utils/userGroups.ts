@@ -0,0 +1,39 @@
+// src/utils/userGroups.ts - Cognito group helpers for role-based navigation
+import { fetchAuthSession } from 'aws-amplify/auth';
+
+// Keep in sync with the groups in amplify/auth/resource.ts
+export const USER_GROUPS = ['UPLOADER', 'REVIEWER', 'ADMIN'] as const;
+
+export type UserGroup = typeof USER_GROUPS[number];
+
+// Groups allowed on each page; pages not listed are open to every signed-in user
+export const ROUTE_GROUPS: Record<string, UserGroup[]> = {
+  '/upload': ['UPLOADER', 'ADMIN'],
+  '/submitted-invoices': ['UPLOADER', 'REVIEWER', 'ADMIN'],
+  '/master-data': ['UPLOADER', 'ADMIN'],
+};
+
+export const getUserGroups = async (): Promise<UserGroup[]> => {
+  try {
+    const session = await fetchAuthSession();
+    const groups = session.tokens?.accessToken?.payload['cognito:groups'];
+    return Array.isArray(groups)
+      ? groups.filter((group): group is UserGroup => USER_GROUPS.includes(group as UserGroup))
+      : [];
+  } catch (error) {
+    console.error('❌ [AUTH] Failed to read user groups:', error);
+    return [];
+  }
+};
+
+export const canAccessRoute = (path: string, groups: UserGroup[]): boolean => {
+  const allowed = ROUTE_GROUPS[path];
+  return !allowed || allowed.some(group => groups.includes(group));
+};
+
+// Debtor credit limits and concentration caps; see the Debtor model in amplify/data/resource.ts
+export const canSetCreditLimits = (groups: UserGroup[]): boolean =>
+  groups.includes('ADMIN');
+
+export const canReviewInvoices = (groups: UserGroup[]): boolean =>
+  groups.includes('REVIEWER') || groups.includes('ADMIN');
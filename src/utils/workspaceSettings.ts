@@ -0,0 +1,42 @@
+// src/utils/workspaceSettings.ts - Read the active workspace's settings
+import { generateClient } from 'aws-amplify/data';
+import type { Schema } from '../../amplify/data/resource';
+import { getWorkspaceFilter } from '../context/organizationContext';
+import { DEFAULT_REQUIRED_DOCUMENT_TYPES, isDocumentType } from '../../shared/invoiceDocuments/documentTypes';
+import type { DocumentType } from '../../shared/invoiceDocuments/documentTypes';
+import { DEFAULT_VALIDATION_RULES, parseValidationRules } from '../../shared/invoiceProcessing/validationRules';
+import type { ValidationRule } from '../../shared/invoiceProcessing/validationRules';
+import { DEFAULT_FUNDING_TERMS, parseFundingTerms } from '../../shared/invoiceFunding/eligibility';
+import type { FundingTerms } from '../../shared/invoiceFunding/eligibility';
+
+const client = generateClient<Schema>();
+
+export type WorkspaceSettings = Schema["WorkspaceSettings"]["type"];
+
+// Auth rules already narrow the list to the caller's own or the organization's record
+export const fetchWorkspaceSettings = async (organizationId: string | null): Promise<WorkspaceSettings | null> => {
+  const filter = await getWorkspaceFilter(organizationId);
+  let nextToken: string | null | undefined;
+
+  do {
+    const result = await client.models.WorkspaceSettings.list({ filter, nextToken });
+    if (result.errors) {
+      throw new Error(`Failed to load workspace settings: ${result.errors[0]?.message || 'Unknown error'}`);
+    }
+    if (result.data.length > 0) return result.data[0];
+    nextToken = result.nextToken;
+  } while (nextToken);
+
+  return null;
+};
+
+export const getRequiredDocumentTypes = (settings: WorkspaceSettings | null): DocumentType[] =>
+  settings?.requiredDocumentTypes
+    ? settings.requiredDocumentTypes.filter(isDocumentType)
+    : DEFAULT_REQUIRED_DOCUMENT_TYPES;
+
+export const getValidationRules = (settings: WorkspaceSettings | null): ValidationRule[] =>
+  parseValidationRules(settings?.validationRules) || DEFAULT_VALIDATION_RULES;
+
+export const getFundingTerms = (settings: WorkspaceSettings | null): FundingTerms =>
+  parseFundingTerms(settings?.fundingTerms) || DEFAULT_FUNDING_TERMS;